@@ -4,8 +4,8 @@ const nextConfig: NextConfig = {
   /* config options here */
   reactStrictMode: true,
 
-  // ✅ Essential: Prevents the bundler from breaking pdf2json internals
-  serverExternalPackages: ["pdf2json"],
+  // ✅ Essential: Prevents the bundler from breaking pdf2json / pdf-parse internals
+  serverExternalPackages: ["pdf2json", "pdf-parse"],
 };
 
 export default nextConfig;
@@ -22,7 +22,9 @@ export default function AIInsights({
   isPractitionerMode = false,
   annotations = [],
 }: AIInsightsProps) {
-  if (isLoading) {
+  // Streamed text is shown as it arrives; the spinner only covers the wait
+  // for the first sentence
+  if (isLoading && !insights) {
     return (
       <div className="ai-insights loading">
         <div className="header">
@@ -169,6 +171,13 @@ export default function AIInsights({
         <AnnotationBadge annotations={annotations} target="ai_insights" />
       )}
 
+      {isLoading && (
+        <div className="streaming-indicator" aria-live="polite">
+          <span className="streaming-dot" />
+          Still writing - the checked final version replaces this text.
+        </div>
+      )}
+
       <div className="insights-content">
         {sections.map((section, index) => {
           // Check if section is a header (starts with ##, ###, or bold **)
@@ -241,6 +250,33 @@ export default function AIInsights({
           backdrop-filter: blur(10px);
         }
 
+        .streaming-indicator {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          margin-bottom: 1rem;
+          font-size: 0.85rem;
+          color: rgba(255, 255, 255, 0.85);
+        }
+
+        .streaming-dot {
+          width: 8px;
+          height: 8px;
+          border-radius: 50%;
+          background: white;
+          animation: pulse 1s ease-in-out infinite;
+        }
+
+        @keyframes pulse {
+          0%,
+          100% {
+            opacity: 0.3;
+          }
+          50% {
+            opacity: 1;
+          }
+        }
+
         .insights-content {
           display: flex;
           flex-direction: column;
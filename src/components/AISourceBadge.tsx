@@ -1,19 +1,56 @@
+import { AnalysisCacheInfo } from "../lib/analysisStream";
+
 interface AISourceBadgeProps {
   usingChromeAI: boolean;
   model?: string;
+  /** Provider that produced the analysis (aiProviders.ts id) */
+  source?: string;
+  /** Server analysis cache status */
+  cache?: AnalysisCacheInfo;
 }
 
+const SOURCE_VARIANTS: Record<
+  string,
+  { className: string; icon: string; label: string }
+> = {
+  chrome: { className: "chrome", icon: "🔒", label: "Private On-Device AI" },
+  cloud: { className: "cloud", icon: "☁️", label: "Cloud AI" },
+  "rule-based": {
+    className: "rule-based",
+    icon: "📐",
+    label: "Rule-Based (no AI)",
+  },
+  local: { className: "local", icon: "🧪", label: "Local Fixtures (test data)" },
+};
+
 export default function AISourceBadge({
   usingChromeAI,
   model,
+  source,
+  cache,
 }: AISourceBadgeProps) {
+  const variant = usingChromeAI
+    ? SOURCE_VARIANTS.chrome
+    : SOURCE_VARIANTS[source ?? ""] ?? SOURCE_VARIANTS.cloud;
+
   return (
-    <div className={`ai-source-badge ${usingChromeAI ? "chrome" : "cloud"}`}>
-      <span className="icon">{usingChromeAI ? "🔒" : "☁️"}</span>
-      <span className="text">
-        {usingChromeAI ? "Private On-Device AI" : "Cloud AI"}
-      </span>
+    <div className={`ai-source-badge ${variant.className}`}>
+      <span className="icon">{variant.icon}</span>
+      <span className="text">{variant.label}</span>
       {model && <span className="model">{model}</span>}
+      {cache?.status === "hit" && (
+        <span
+          className="cache"
+          title="Same values were analyzed before; the stored result was reused"
+        >
+          ♻️ Cached
+          {cache.cachedAt &&
+            ` · ${new Date(cache.cachedAt).toLocaleDateString()}`}
+        </span>
+      )}
+      {cache?.status === "regenerated" && (
+        <span className="cache">🔄 Regenerated</span>
+      )}
 
       <style jsx>{`
         .ai-source-badge {
@@ -40,6 +77,18 @@ export default function AISourceBadge({
           border-color: #64b5f6;
         }
 
+        .ai-source-badge.rule-based {
+          background: linear-gradient(135deg, #f3e8ff 0%, #e9d5ff 100%);
+          color: #6b21a8;
+          border-color: #c084fc;
+        }
+
+        .ai-source-badge.local {
+          background: linear-gradient(135deg, #fff8e1 0%, #ffecb3 100%);
+          color: #8d6e00;
+          border-color: #ffd54f;
+        }
+
         .icon {
           font-size: 1rem;
         }
@@ -50,6 +99,12 @@ export default function AISourceBadge({
           margin-left: 0.25rem;
         }
 
+        .cache {
+          padding-left: 0.5rem;
+          border-left: 1px solid currentColor;
+          font-weight: 400;
+        }
+
         @media (max-width: 768px) {
           .ai-source-badge {
             font-size: 0.7rem;
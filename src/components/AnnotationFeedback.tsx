@@ -9,6 +9,7 @@ import React, { useState } from "react";
 import { getFirebaseDb } from "../lib/firebase";
 import { collection, addDoc } from "firebase/firestore";
 import { toast } from "sonner";
+import { redactPHI, describePHIRedaction } from "../lib/phiRedaction";
 
 interface AnnotationFeedbackProps {
   practitionerId: string;
@@ -46,18 +47,28 @@ export default function AnnotationFeedback({
         return;
       }
 
+      // Client identifiers never reach Firestore
+      const redaction = redactPHI(comment.trim());
+
       await addDoc(collection(db, "annotationFeedback"), {
         practitionerId,
         practitionerName,
         feedbackType,
         rating,
-        comment: comment.trim(),
+        comment: redaction.text,
+        ...(redaction.report.redactedCount > 0 && {
+          phiRedaction: redaction.report,
+        }),
         annotationCount: currentAnnotationCount,
         timestamp: new Date().toISOString(),
         version: "1.6.0",
       });
 
       toast.success("Thank you for your feedback!");
+      const redactionNotice = describePHIRedaction(redaction.report);
+      if (redactionNotice) {
+        toast.info(`${redactionNotice} before saving`);
+      }
       setIsOpen(false);
       setComment("");
       setRating(0);
@@ -1,4 +1,9 @@
-import { MineralData } from "./HTMAInputForm";
+import {
+  MineralData,
+  MineralValue,
+  hasMineralValue,
+  formatMineralValue,
+} from "../lib/mineralModel";
 import { SHORT_DISCLAIMER } from "../lib/healthScoreSemantics";
 
 interface Analysis {
@@ -46,9 +51,11 @@ export default function ComparisonView({
     });
   };
 
-  const calculateDelta = (oldValue: string, newValue: string) => {
-    const old = parseFloat(oldValue) || 0;
-    const newVal = parseFloat(newValue) || 0;
+  // No delta when either test is missing the mineral
+  const calculateDelta = (oldValue: MineralValue, newValue: MineralValue) => {
+    if (!hasMineralValue(oldValue) || !hasMineralValue(newValue)) return null;
+    const old = oldValue;
+    const newVal = newValue;
     const delta = newVal - old;
     const percentChange = old !== 0 ? (delta / old) * 100 : 0;
 
@@ -133,28 +140,30 @@ export default function ComparisonView({
                 oldAnalysis.mineralData[key as keyof MineralData];
               const newValue =
                 newAnalysis.mineralData[key as keyof MineralData];
-              const { delta, percentChange } = calculateDelta(
-                oldValue,
-                newValue
-              );
-              const deltaColor = getDeltaColor(delta);
-              const deltaIcon = getDeltaIcon(delta);
+              const change = calculateDelta(oldValue, newValue);
 
               return (
                 <tr key={key}>
                   <td className="mineral-name">{name}</td>
                   <td className="old-value">
-                    {parseFloat(oldValue).toFixed(2)} {unit}
+                    {formatMineralValue(oldValue, 2)}{" "}
+                    {hasMineralValue(oldValue) && unit}
                   </td>
                   <td className="delta-cell">
-                    <span style={{ color: deltaColor }}>
-                      {deltaIcon} {Math.abs(delta).toFixed(2)} (
-                      {percentChange >= 0 ? "+" : ""}
-                      {percentChange.toFixed(1)}%)
-                    </span>
+                    {change ? (
+                      <span style={{ color: getDeltaColor(change.delta) }}>
+                        {getDeltaIcon(change.delta)}{" "}
+                        {Math.abs(change.delta).toFixed(2)} (
+                        {change.percentChange >= 0 ? "+" : ""}
+                        {change.percentChange.toFixed(1)}%)
+                      </span>
+                    ) : (
+                      <span style={{ color: "#6b7280" }}>not measured</span>
+                    )}
                   </td>
                   <td className="new-value">
-                    {parseFloat(newValue).toFixed(2)} {unit}
+                    {formatMineralValue(newValue, 2)}{" "}
+                    {hasMineralValue(newValue) && unit}
                   </td>
                 </tr>
               );
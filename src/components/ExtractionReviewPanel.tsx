@@ -0,0 +1,486 @@
+/**
+ * Extraction Review Panel
+ *
+ * Review step between PDF extraction and analysis.
+ * Every extracted value is shown next to the text it was read from, its page,
+ * a confidence level and an out-of-bounds flag. The practitioner must confirm
+ * (or correct) each value before anything reaches HTMAInputForm or /api/analyze.
+ */
+
+import { useState } from "react";
+import {
+  ExtractedField,
+  ExtractionConfidence,
+  ExtractionMethod,
+  isPlausibleValue,
+} from "../lib/labReportParser";
+import { MineralUnit } from "../lib/unitConversion";
+import { MINERAL_SYMBOLS } from "../lib/htmaConstants";
+import { readMineralValue } from "../lib/mineralModel";
+
+/** Extraction payload returned by /api/parse-htma */
+export interface LabReportExtraction {
+  source: string;
+  labName: string;
+  method: ExtractionMethod;
+  parserVersion: string;
+  sourceUnit: MineralUnit;
+  testDate: string | null;
+  accessionNumber: string | null;
+  missing: string[];
+  fields: ExtractedField[];
+}
+
+/** Values after practitioner review */
+export interface ConfirmedExtraction {
+  /** Nutrient minerals keyed by MineralData name ("calcium", ...) */
+  minerals: Record<string, number>;
+  /** Toxic elements keyed by symbol */
+  toxicElements: Record<string, number>;
+  /** Additional elements keyed by symbol */
+  additionalElements: Record<string, number>;
+  testDate: string | null;
+  accessionNumber: string | null;
+  labName: string;
+  method: ExtractionMethod;
+  /** Unit the lab printed values in (values above are mg%) */
+  sourceUnit: MineralUnit;
+  /** Symbols whose extracted value was corrected during review */
+  correctedSymbols: string[];
+}
+
+interface ExtractionReviewPanelProps {
+  extraction: LabReportExtraction;
+  onConfirm: (confirmed: ConfirmedExtraction) => void;
+  onCancel: () => void;
+}
+
+interface ReviewRow {
+  field: ExtractedField;
+  value: string;
+  confirmed: boolean;
+}
+
+const GROUP_LABELS: Record<ExtractedField["group"], string> = {
+  mineral: "Nutrient Minerals",
+  toxic: "Toxic Elements",
+  additional: "Additional Elements",
+};
+
+const CONFIDENCE_LABELS: Record<ExtractionConfidence, string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+const SYMBOL_TO_MINERAL_NAME: Record<string, string> = Object.fromEntries(
+  Object.entries(MINERAL_SYMBOLS).map(([name, symbol]) => [symbol, name])
+);
+
+export default function ExtractionReviewPanel({
+  extraction,
+  onConfirm,
+  onCancel,
+}: ExtractionReviewPanelProps) {
+  const [rows, setRows] = useState<ReviewRow[]>(() =>
+    extraction.fields.map((field) => ({
+      field,
+      value: String(field.value),
+      confirmed: false,
+    }))
+  );
+
+  const parseValue = (value: string) => readMineralValue(value);
+
+  const isCorrected = (row: ReviewRow) =>
+    parseValue(row.value) !== row.field.value;
+
+  const updateRow = (symbol: string, update: Partial<ReviewRow>) => {
+    setRows((prev) =>
+      prev.map((r) => (r.field.symbol === symbol ? { ...r, ...update } : r))
+    );
+  };
+
+  const confirmHighConfidence = () => {
+    setRows((prev) =>
+      prev.map((r) =>
+        r.field.confidence === "high" && !r.field.outOfBounds
+          ? { ...r, confirmed: true }
+          : r
+      )
+    );
+  };
+
+  const invalidRows = rows.filter((r) => parseValue(r.value) === null);
+  const pendingRows = rows.filter((r) => !r.confirmed);
+  const canConfirm =
+    rows.length > 0 && pendingRows.length === 0 && invalidRows.length === 0;
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+
+    const confirmed: ConfirmedExtraction = {
+      minerals: {},
+      toxicElements: {},
+      additionalElements: {},
+      testDate: extraction.testDate,
+      accessionNumber: extraction.accessionNumber,
+      labName: extraction.labName,
+      method: extraction.method,
+      sourceUnit: extraction.sourceUnit,
+      correctedSymbols: rows.filter(isCorrected).map((r) => r.field.symbol),
+    };
+
+    for (const row of rows) {
+      const value = parseValue(row.value) as number;
+      if (row.field.group === "mineral") {
+        const name = SYMBOL_TO_MINERAL_NAME[row.field.symbol];
+        if (name) confirmed.minerals[name] = value;
+      } else if (row.field.group === "toxic") {
+        confirmed.toxicElements[row.field.symbol] = value;
+      } else {
+        confirmed.additionalElements[row.field.symbol] = value;
+      }
+    }
+
+    onConfirm(confirmed);
+  };
+
+  const groups = (["mineral", "toxic", "additional"] as const).filter((g) =>
+    rows.some((r) => r.field.group === g)
+  );
+
+  return (
+    <div className="extraction-review">
+      <div className="review-header">
+        <h3>🔎 Review Extracted Values</h3>
+        <p className="review-subtitle">
+          {extraction.labName}
+          {extraction.method === "ai-fallback"
+            ? " • AI extraction (no known layout matched)"
+            : ` • ${extraction.source} layout parser v${extraction.parserVersion}`}
+          {extraction.sourceUnit !== "mg%" &&
+            ` • converted from ${extraction.sourceUnit}`}
+        </p>
+        <div className="review-meta">
+          <span>Test date: {extraction.testDate || "not found"}</span>
+          <span>Accession #: {extraction.accessionNumber || "not found"}</span>
+        </div>
+      </div>
+
+      {extraction.method === "ai-fallback" && (
+        <div className="review-warning">
+          ⚠️ These values were read by AI without a verifiable source line.
+          Check each one against the original report before confirming.
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <div key={group} className="review-group">
+          <h4>{GROUP_LABELS[group]}</h4>
+          <table>
+            <thead>
+              <tr>
+                <th>Element</th>
+                <th>Value (mg%)</th>
+                <th>Source</th>
+                <th>Page</th>
+                <th>Confidence</th>
+                <th>Confirm</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows
+                .filter((r) => r.field.group === group)
+                .map((row) => {
+                  const parsed = parseValue(row.value);
+                  const outOfBounds =
+                    parsed === null ||
+                    !isPlausibleValue(group, row.field.symbol, parsed);
+
+                  return (
+                    <tr
+                      key={row.field.symbol}
+                      className={`${row.confirmed ? "row-confirmed" : ""} ${
+                        outOfBounds ? "row-flagged" : ""
+                      }`}
+                    >
+                      <td className="element-name">
+                        <strong>{row.field.name}</strong>
+                        <span className="element-symbol">
+                          ({row.field.symbol})
+                        </span>
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          step="any"
+                          min="0"
+                          value={row.value}
+                          onChange={(e) =>
+                            updateRow(row.field.symbol, {
+                              value: e.target.value,
+                              confirmed: false,
+                            })
+                          }
+                        />
+                        {outOfBounds && (
+                          <span
+                            className="flag-badge"
+                            title="Outside plausible bounds for hair tissue"
+                          >
+                            Out of bounds
+                          </span>
+                        )}
+                        {isCorrected(row) && (
+                          <span className="corrected-badge">Corrected</span>
+                        )}
+                      </td>
+                      <td className="snippet">
+                        {row.field.snippet ? (
+                          <code>{row.field.snippet}</code>
+                        ) : (
+                          <span className="no-snippet">—</span>
+                        )}
+                      </td>
+                      <td>{row.field.page ?? "—"}</td>
+                      <td>
+                        <span
+                          className={`confidence-badge confidence-${row.field.confidence}`}
+                        >
+                          {CONFIDENCE_LABELS[row.field.confidence]}
+                        </span>
+                      </td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={row.confirmed}
+                          disabled={parsed === null}
+                          onChange={(e) =>
+                            updateRow(row.field.symbol, {
+                              confirmed: e.target.checked,
+                            })
+                          }
+                          aria-label={`Confirm ${row.field.name}`}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      {extraction.missing.length > 0 && (
+        <p className="missing-note">
+          Not found in report: {extraction.missing.join(", ")}. Missing
+          nutrient minerals can be entered manually in the form.
+        </p>
+      )}
+
+      <div className="review-actions">
+        <button className="btn-secondary" onClick={confirmHighConfidence}>
+          Confirm all high-confidence values
+        </button>
+        <button className="btn-secondary" onClick={onCancel}>
+          Discard
+        </button>
+        <button
+          className="btn-primary"
+          onClick={handleConfirm}
+          disabled={!canConfirm}
+        >
+          Use confirmed values
+          {pendingRows.length > 0 && ` (${pendingRows.length} to review)`}
+        </button>
+      </div>
+
+      <style jsx>{`
+        .extraction-review {
+          background: white;
+          border: 2px solid #667eea;
+          border-radius: 12px;
+          padding: 1.5rem;
+          margin: 1rem 0;
+          color: #1f2937;
+        }
+
+        .review-header h3 {
+          margin: 0 0 0.25rem 0;
+          font-size: 1.25rem;
+          color: #667eea;
+        }
+
+        .review-subtitle {
+          margin: 0 0 0.5rem 0;
+          font-size: 0.9rem;
+          color: #6b7280;
+        }
+
+        .review-meta {
+          display: flex;
+          gap: 1.5rem;
+          font-size: 0.85rem;
+          color: #374151;
+          margin-bottom: 1rem;
+        }
+
+        .review-warning {
+          background: #fff3cd;
+          border: 2px solid #ffc107;
+          border-radius: 8px;
+          padding: 0.75rem 1rem;
+          color: #856404;
+          font-size: 0.9rem;
+          margin-bottom: 1rem;
+        }
+
+        .review-group {
+          margin-bottom: 1.5rem;
+          overflow-x: auto;
+        }
+
+        .review-group h4 {
+          margin: 0 0 0.5rem 0;
+          font-size: 1rem;
+        }
+
+        table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 0.85rem;
+        }
+
+        th {
+          text-align: left;
+          background: #f3f4f6;
+          padding: 0.5rem;
+          font-weight: 600;
+        }
+
+        td {
+          padding: 0.5rem;
+          border-bottom: 1px solid #e5e7eb;
+          vertical-align: middle;
+        }
+
+        .row-confirmed {
+          background: #f0fdf4;
+        }
+
+        .row-flagged {
+          background: #fef2f2;
+        }
+
+        .element-symbol {
+          color: #6b7280;
+          margin-left: 0.25rem;
+        }
+
+        input[type="number"] {
+          width: 6rem;
+          padding: 0.25rem 0.5rem;
+          border: 1px solid #d1d5db;
+          border-radius: 4px;
+        }
+
+        .snippet code {
+          font-size: 0.75rem;
+          background: #f9fafb;
+          padding: 0.125rem 0.25rem;
+          border-radius: 4px;
+          word-break: break-word;
+        }
+
+        .no-snippet {
+          color: #9ca3af;
+        }
+
+        .flag-badge,
+        .corrected-badge {
+          display: inline-block;
+          margin-left: 0.5rem;
+          padding: 0.125rem 0.5rem;
+          border-radius: 10px;
+          font-size: 0.7rem;
+          font-weight: 600;
+        }
+
+        .flag-badge {
+          background: #fee2e2;
+          color: #b91c1c;
+        }
+
+        .corrected-badge {
+          background: #e0e7ff;
+          color: #4338ca;
+        }
+
+        .confidence-badge {
+          padding: 0.125rem 0.5rem;
+          border-radius: 10px;
+          font-size: 0.75rem;
+          font-weight: 600;
+        }
+
+        .confidence-high {
+          background: #dcfce7;
+          color: #15803d;
+        }
+
+        .confidence-medium {
+          background: #fef3c7;
+          color: #b45309;
+        }
+
+        .confidence-low {
+          background: #fee2e2;
+          color: #b91c1c;
+        }
+
+        .missing-note {
+          font-size: 0.85rem;
+          color: #6b7280;
+          margin: 0 0 1rem 0;
+        }
+
+        .review-actions {
+          display: flex;
+          gap: 0.75rem;
+          justify-content: flex-end;
+          flex-wrap: wrap;
+        }
+
+        .btn-primary,
+        .btn-secondary {
+          padding: 0.5rem 1rem;
+          border-radius: 6px;
+          font-size: 0.9rem;
+          font-weight: 600;
+          cursor: pointer;
+          border: none;
+        }
+
+        .btn-primary {
+          background: #667eea;
+          color: white;
+        }
+
+        .btn-primary:disabled {
+          background: #c7d2fe;
+          cursor: not-allowed;
+        }
+
+        .btn-secondary {
+          background: #f3f4f6;
+          color: #374151;
+        }
+
+        .btn-secondary:hover {
+          background: #e5e7eb;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -9,8 +9,14 @@
 
 import {
   ChangeFocusSummary,
+  FocusItem,
   getConfidenceLabel,
 } from "../lib/changeCoachingEngine";
+import { getChangeSignificanceLabel } from "../lib/referenceChangeValue";
+
+/** Status moved, but by less than lab variation - shown muted */
+const isNoise = (item: FocusItem) =>
+  item.significance === "within_noise" && item.direction !== "stable";
 
 type Props = {
   focusSummary: ChangeFocusSummary;
@@ -37,7 +43,9 @@ export default function FocusSummaryPanel({
         {/* Primary Focus */}
         <div className="primary-focus">
           <div className="focus-label">Primary Focus</div>
-          <div className="focus-item">
+          <div
+            className={`focus-item ${isNoise(primaryFocus) ? "within-noise" : ""}`}
+          >
             <span className={`focus-key domain-${primaryFocus.domain}`}>
               {primaryFocus.key}
             </span>
@@ -46,6 +54,11 @@ export default function FocusSummaryPanel({
             >
               {primaryFocus.direction}
             </span>
+            {isNoise(primaryFocus) && (
+              <span className="noise-tag">
+                {getChangeSignificanceLabel("within_noise")}
+              </span>
+            )}
             <span className="importance-score">
               {primaryFocus.importance}/100
             </span>
@@ -59,7 +72,12 @@ export default function FocusSummaryPanel({
             <div className="focus-label">Also Monitor</div>
             <ul className="focus-list">
               {secondaryFocus.map((item, i) => (
-                <li key={i} className="focus-item-compact">
+                <li
+                  key={i}
+                  className={`focus-item-compact ${
+                    isNoise(item) ? "within-noise" : ""
+                  }`}
+                >
                   <span className={`focus-key domain-${item.domain}`}>
                     {item.key}
                   </span>
@@ -68,6 +86,11 @@ export default function FocusSummaryPanel({
                   >
                     {item.direction}
                   </span>
+                  {isNoise(item) && (
+                    <span className="noise-tag">
+                      {getChangeSignificanceLabel("within_noise")}
+                    </span>
+                  )}
                 </li>
               ))}
             </ul>
@@ -230,6 +253,19 @@ export default function FocusSummaryPanel({
           color: #374151;
         }
 
+        .within-noise {
+          opacity: 0.6;
+        }
+
+        .noise-tag {
+          font-size: 0.7rem;
+          padding: 0.1rem 0.4rem;
+          border-radius: 0.25rem;
+          background: #f3f4f6;
+          color: #6b7280;
+          font-style: italic;
+        }
+
         .importance-score {
           font-size: 0.9rem;
           color: #64748b;
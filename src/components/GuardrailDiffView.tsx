@@ -0,0 +1,188 @@
+/**
+ * Guardrail Diff View Component
+ *
+ * Practitioner-only before/after view of what the interpretation guardrails
+ * changed in the AI text: each removed, rewritten or softened statement
+ * with the rules that fired. Clients only ever see the guarded text.
+ */
+
+import {
+  GuardrailTransformation,
+  diffTransformation,
+} from "../lib/interpretationGuardrails";
+
+interface GuardrailDiffViewProps {
+  transformations: ReadonlyArray<GuardrailTransformation>;
+}
+
+const ACTION_LABELS: Record<GuardrailTransformation["action"], string> = {
+  removed: "Removed",
+  rewritten: "Rewritten",
+  softened: "Softened",
+  adjusted: "Adjusted",
+};
+
+export default function GuardrailDiffView({
+  transformations,
+}: GuardrailDiffViewProps) {
+  if (transformations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="guardrail-diff-container">
+      <div className="guardrail-diff-header">
+        <h3>🛡️ Guardrail Changes</h3>
+        <span className="change-count">
+          {transformations.length} statement
+          {transformations.length === 1 ? "" : "s"} changed
+        </span>
+      </div>
+      <p className="guardrail-diff-note">
+        Original AI wording compared with what the client sees. Struck-through
+        words were taken out, highlighted words were put in.
+      </p>
+
+      <ul className="transformation-list">
+        {transformations.map((transformation, index) => (
+          <li
+            key={index}
+            className={`transformation ${transformation.action}`}
+          >
+            <div className="transformation-header">
+              <span className={`action-badge ${transformation.action}`}>
+                {ACTION_LABELS[transformation.action]}
+              </span>
+              <span className="section">{transformation.kind}</span>
+            </div>
+            <p className="diff-text">
+              {diffTransformation(transformation).map((segment, i) => (
+                <span key={i} className={`segment ${segment.type}`}>
+                  {segment.text}{" "}
+                </span>
+              ))}
+            </p>
+            <div className="rules">
+              {transformation.rules.map((rule) => (
+                <code key={rule} className="rule">
+                  {rule}
+                </code>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <style jsx>{`
+        .guardrail-diff-container {
+          background: white;
+          border-radius: 12px;
+          padding: 1.5rem;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+          border-left: 4px solid #7c3aed;
+          margin-top: 1rem;
+        }
+
+        .guardrail-diff-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 0.5rem;
+        }
+
+        .guardrail-diff-header h3 {
+          margin: 0;
+          font-size: 1.125rem;
+          color: #1a1a1a;
+          font-weight: 600;
+        }
+
+        .change-count {
+          font-size: 0.85rem;
+          color: #6b7280;
+        }
+
+        .guardrail-diff-note {
+          margin: 0 0 1rem 0;
+          font-size: 0.85rem;
+          color: #6b7280;
+        }
+
+        .transformation-list {
+          list-style: none;
+          padding: 0;
+          margin: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+
+        .transformation {
+          background: #f9fafb;
+          border-radius: 8px;
+          padding: 0.875rem 1rem;
+        }
+
+        .transformation-header {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          margin-bottom: 0.5rem;
+        }
+
+        .action-badge {
+          font-size: 0.7rem;
+          font-weight: 700;
+          text-transform: uppercase;
+          padding: 0.15rem 0.5rem;
+          border-radius: 4px;
+          background: #ede9fe;
+          color: #5b21b6;
+        }
+
+        .action-badge.removed {
+          background: #fee2e2;
+          color: #b91c1c;
+        }
+
+        .section {
+          font-size: 0.75rem;
+          color: #6b7280;
+          text-transform: capitalize;
+        }
+
+        .diff-text {
+          margin: 0 0 0.5rem 0;
+          font-size: 0.9rem;
+          line-height: 1.6;
+          color: #374151;
+        }
+
+        .segment.removed {
+          color: #b91c1c;
+          background: #fef2f2;
+          text-decoration: line-through;
+        }
+
+        .segment.added {
+          color: #166534;
+          background: #dcfce7;
+        }
+
+        .rules {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.375rem;
+        }
+
+        .rule {
+          font-size: 0.7rem;
+          padding: 0.1rem 0.4rem;
+          border-radius: 4px;
+          background: #e5e7eb;
+          color: #374151;
+        }
+      `}</style>
+    </div>
+  );
+}
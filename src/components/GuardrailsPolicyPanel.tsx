@@ -0,0 +1,578 @@
+/**
+ * Guardrails Policy Panel Component
+ *
+ * Review workflow for guardrails policies (guardrailsPolicy.ts): turn a
+ * suggestion into a draft, preview a policy against recent analyses,
+ * approve it and make it active. Shows what each stored policy changes
+ * compared to the active one.
+ */
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useGuardrailsPolicies } from "../hooks/useGuardrailsPolicies";
+import { GuardrailsPolicyRules } from "../lib/interpretationGuardrails";
+import {
+  GuardrailsPolicyAction,
+  GuardrailsPolicyPreview,
+  GuardrailsPolicyRulesSchema,
+  PolicyRulesList,
+  canTransitionPolicy,
+  diffPolicyRules,
+  guardrailsPolicyVersion,
+  suggestPolicyRules,
+} from "../lib/guardrailsPolicy";
+
+export interface PolicySuggestion {
+  id: string;
+  context: string;
+  issue: string;
+  suggestedChange: string;
+}
+
+interface GuardrailsPolicyPanelProps {
+  userId?: string;
+  /** Suggestion to turn into a draft; cleared with onSuggestionHandled */
+  pendingSuggestion: PolicySuggestion | null;
+  onSuggestionHandled: () => void;
+}
+
+interface DraftEditor {
+  lists: Record<PolicyRulesList, string>;
+  changeNote: string;
+  suggestionId?: string;
+}
+
+const LIST_LABELS: Record<PolicyRulesList, string> = {
+  blockedPhrases: "Blocked phrases (softened or removed)",
+  forbiddenScope: "Forbidden scope (always removed)",
+  softeners: "Softeners (first one prefixes softened text)",
+};
+
+const LISTS: PolicyRulesList[] = [
+  "blockedPhrases",
+  "forbiddenScope",
+  "softeners",
+];
+
+const STATUS_COLORS: Record<string, string> = {
+  draft: "#6b7280",
+  approved: "#3b82f6",
+  active: "#10b981",
+  retired: "#9ca3af",
+};
+
+function toEditor(
+  rules: GuardrailsPolicyRules,
+  changeNote = "",
+  suggestionId?: string
+): DraftEditor {
+  return {
+    lists: {
+      blockedPhrases: rules.blockedPhrases.join("\n"),
+      forbiddenScope: rules.forbiddenScope.join("\n"),
+      softeners: rules.softeners.join("\n"),
+    },
+    changeNote,
+    suggestionId,
+  };
+}
+
+function readLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+export default function GuardrailsPolicyPanel({
+  userId,
+  pendingSuggestion,
+  onSuggestionHandled,
+}: GuardrailsPolicyPanelProps) {
+  const policies = useGuardrailsPolicies(userId);
+  const [editor, setEditor] = useState<DraftEditor | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [previews, setPreviews] = useState<
+    Record<number, GuardrailsPolicyPreview>
+  >({});
+
+  // Open the editor with the lists proposed for a suggestion
+  useEffect(() => {
+    if (!pendingSuggestion || !policies.active) return;
+    setEditor(
+      toEditor(
+        suggestPolicyRules(pendingSuggestion, policies.active.rules),
+        `${pendingSuggestion.context}: ${pendingSuggestion.suggestedChange}`,
+        pendingSuggestion.id
+      )
+    );
+    onSuggestionHandled();
+  }, [pendingSuggestion, policies.active, onSuggestionHandled]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveDraft = () =>
+    run(async () => {
+      if (!editor) return;
+      const parsed = GuardrailsPolicyRulesSchema.safeParse({
+        blockedPhrases: readLines(editor.lists.blockedPhrases),
+        forbiddenScope: readLines(editor.lists.forbiddenScope),
+        softeners: readLines(editor.lists.softeners),
+      });
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`${issue.path.join(".")}: ${issue.message}`);
+      }
+
+      const draft = await policies.saveDraft(parsed.data, {
+        changeNote: editor.changeNote.trim(),
+        suggestionId: editor.suggestionId,
+      });
+      setEditor(null);
+      toast.success(`Saved draft policy #${draft.number}`);
+    });
+
+  const transition = (number: number, action: GuardrailsPolicyAction) =>
+    run(async () => {
+      const policy = await policies.transition(number, action);
+      toast.success(
+        action === "activate"
+          ? `Policy #${policy.number} is now active`
+          : `Policy #${policy.number} approved`
+      );
+    });
+
+  const preview = (number: number) =>
+    run(async () => {
+      const result = await policies.preview(number);
+      setPreviews((prev) => ({ ...prev, [number]: result }));
+    });
+
+  if (policies.isLoading && !policies.active) {
+    return (
+      <div className="empty-state">
+        <p>Loading guardrails policies...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="policy-panel">
+      <div className="active-policy">
+        <div>
+          <strong>Active policy:</strong>{" "}
+          {policies.activeNumber > 0
+            ? `#${policies.activeNumber}`
+            : "Built-in lists"}{" "}
+          <code>v{policies.active?.version}</code>
+        </div>
+        {!editor && policies.active && (
+          <button
+            className="policy-btn"
+            disabled={busy}
+            onClick={() => setEditor(toEditor(policies.active!.rules))}
+          >
+            ✏️ New Draft
+          </button>
+        )}
+      </div>
+
+      {policies.error && <p className="policy-error">{policies.error}</p>}
+
+      {editor && (
+        <div className="policy-card editor">
+          <h3>
+            New Draft
+            {editor.suggestionId && (
+              <span className="from-suggestion">from suggestion</span>
+            )}
+          </h3>
+          <p className="hint">
+            One entry per line. Patterns are regular expressions matched
+            without regard to case, e.g. <code>\bdisease\b</code>.
+          </p>
+          {LISTS.map((list) => (
+            <label key={list} className="list-field">
+              <span>{LIST_LABELS[list]}</span>
+              <textarea
+                rows={6}
+                value={editor.lists[list]}
+                onChange={(e) =>
+                  setEditor({
+                    ...editor,
+                    lists: { ...editor.lists, [list]: e.target.value },
+                  })
+                }
+              />
+            </label>
+          ))}
+          <label className="list-field">
+            <span>Change note</span>
+            <input
+              type="text"
+              maxLength={500}
+              value={editor.changeNote}
+              onChange={(e) =>
+                setEditor({ ...editor, changeNote: e.target.value })
+              }
+            />
+          </label>
+          <div className="policy-actions">
+            <button className="policy-btn" disabled={busy} onClick={saveDraft}>
+              💾 Save Draft
+            </button>
+            <button
+              className="policy-btn secondary"
+              disabled={busy}
+              onClick={() => setEditor(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {policies.versions.length === 0 ? (
+        <div className="empty-state">
+          <p>
+            No stored policies yet. Accept a suggestion or start a new draft;
+            until one is activated the built-in lists apply.
+          </p>
+        </div>
+      ) : (
+        policies.versions.map((policy) => {
+          const changes = policies.active
+            ? diffPolicyRules(policies.active.rules, policy.rules)
+            : [];
+          const result = previews[policy.number];
+
+          return (
+            <div key={policy.number} className="policy-card">
+              <div className="policy-header">
+                <h3>
+                  Policy #{policy.number}{" "}
+                  <code>v{guardrailsPolicyVersion(policy.number)}</code>
+                </h3>
+                <span
+                  className="policy-status"
+                  style={{ background: STATUS_COLORS[policy.status] }}
+                >
+                  {policy.status.toUpperCase()}
+                </span>
+              </div>
+              <p className="policy-meta">
+                Based on{" "}
+                {policy.basedOn > 0 ? `#${policy.basedOn}` : "built-in lists"}
+                {" · "}
+                created {new Date(policy.createdAt).toLocaleDateString()}
+                {policy.approvedAt &&
+                  ` · approved ${new Date(
+                    policy.approvedAt
+                  ).toLocaleDateString()}`}
+                {policy.activatedAt &&
+                  ` · activated ${new Date(
+                    policy.activatedAt
+                  ).toLocaleDateString()}`}
+              </p>
+              {policy.changeNote && (
+                <p className="change-note">{policy.changeNote}</p>
+              )}
+
+              {policy.status !== "active" &&
+                (changes.length === 0 ? (
+                  <p className="hint">Same lists as the active policy.</p>
+                ) : (
+                  <ul className="rule-changes">
+                    {changes.map((change) => (
+                      <li key={change.list}>
+                        <strong>{LIST_LABELS[change.list]}:</strong>
+                        {change.added.map((entry) => (
+                          <code key={`+${entry}`} className="added">
+                            + {entry}
+                          </code>
+                        ))}
+                        {change.removed.map((entry) => (
+                          <code key={`-${entry}`} className="removed">
+                            − {entry}
+                          </code>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+
+              <div className="policy-actions">
+                {policy.status !== "active" && (
+                  <button
+                    className="policy-btn secondary"
+                    disabled={busy}
+                    onClick={() => preview(policy.number)}
+                  >
+                    🔍 Preview
+                  </button>
+                )}
+                {canTransitionPolicy(policy.status, "approve") && (
+                  <button
+                    className="policy-btn"
+                    disabled={busy}
+                    onClick={() => transition(policy.number, "approve")}
+                  >
+                    ✅ Approve
+                  </button>
+                )}
+                {canTransitionPolicy(policy.status, "activate") && (
+                  <button
+                    className="policy-btn activate"
+                    disabled={busy}
+                    onClick={() => transition(policy.number, "activate")}
+                  >
+                    {policy.status === "retired"
+                      ? "↩️ Roll Back to This Policy"
+                      : "🚀 Activate"}
+                  </button>
+                )}
+              </div>
+
+              {result && (
+                <div className="preview">
+                  <p>
+                    <strong>Preview:</strong> {result.statementsChecked}{" "}
+                    statements from {result.analysesChecked} recent analyses.
+                    Active policy removes {result.totals.current.removed},
+                    changes {result.totals.current.changed}; this policy
+                    removes {result.totals.candidate.removed}, changes{" "}
+                    {result.totals.candidate.changed}.
+                  </p>
+                  {result.changes.length === 0 ? (
+                    <p className="hint">No statement comes out differently.</p>
+                  ) : (
+                    <ul className="preview-changes">
+                      {result.changes.map((change, idx) => (
+                        <li key={idx}>
+                          <div className="original">{change.original}</div>
+                          <div className="outcome">
+                            <span>Active:</span>{" "}
+                            {change.current ?? <em>removed</em>}
+                          </div>
+                          <div className="outcome candidate">
+                            <span>This policy:</span>{" "}
+                            {change.candidate ?? <em>removed</em>}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      <style jsx>{`
+        .policy-panel {
+          display: flex;
+          flex-direction: column;
+          gap: 1.5rem;
+        }
+
+        .active-policy {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 1rem 1.5rem;
+          background: #f0fdf4;
+          border-left: 4px solid #10b981;
+          border-radius: 8px;
+          color: #065f46;
+        }
+
+        .policy-error {
+          color: #dc2626;
+          margin: 0;
+        }
+
+        .policy-card {
+          background: white;
+          padding: 1.5rem;
+          border-radius: 12px;
+          box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+        }
+
+        .policy-card h3 {
+          margin: 0 0 0.5rem 0;
+          color: #1f2937;
+        }
+
+        .policy-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        .policy-status {
+          padding: 0.375rem 0.75rem;
+          border-radius: 6px;
+          color: white;
+          font-size: 0.75rem;
+          font-weight: 700;
+        }
+
+        .from-suggestion {
+          margin-left: 0.5rem;
+          padding: 0.25rem 0.5rem;
+          background: #fef3c7;
+          border-radius: 4px;
+          font-size: 0.75rem;
+          color: #92400e;
+        }
+
+        .policy-meta,
+        .hint {
+          font-size: 0.875rem;
+          color: #6b7280;
+          margin: 0.25rem 0 0.75rem 0;
+        }
+
+        .change-note {
+          padding: 0.75rem;
+          background: #e0e7ff;
+          border-radius: 6px;
+          color: #312e81;
+        }
+
+        .list-field {
+          display: flex;
+          flex-direction: column;
+          gap: 0.375rem;
+          margin-bottom: 1rem;
+          font-size: 0.875rem;
+          font-weight: 600;
+          color: #374151;
+        }
+
+        .list-field textarea,
+        .list-field input {
+          font-family: monospace;
+          font-size: 0.8125rem;
+          padding: 0.5rem;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+        }
+
+        .rule-changes {
+          margin: 0 0 1rem 0;
+          padding-left: 1.25rem;
+          font-size: 0.875rem;
+          color: #374151;
+        }
+
+        .rule-changes li {
+          margin-bottom: 0.5rem;
+        }
+
+        .rule-changes code {
+          display: inline-block;
+          margin: 0.25rem 0 0 0.5rem;
+          padding: 0.125rem 0.375rem;
+          border-radius: 4px;
+        }
+
+        .rule-changes code.added {
+          background: #d1fae5;
+          color: #065f46;
+        }
+
+        .rule-changes code.removed {
+          background: #fee2e2;
+          color: #7f1d1d;
+        }
+
+        .policy-actions {
+          display: flex;
+          gap: 0.75rem;
+          flex-wrap: wrap;
+        }
+
+        .policy-btn {
+          padding: 0.625rem 1.25rem;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          background: #667eea;
+          color: white;
+        }
+
+        .policy-btn.secondary {
+          background: #f3f4f6;
+          color: #374151;
+        }
+
+        .policy-btn.activate {
+          background: #10b981;
+        }
+
+        .policy-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .preview {
+          margin-top: 1rem;
+          padding: 1rem;
+          background: #f9fafb;
+          border-radius: 8px;
+          font-size: 0.875rem;
+          color: #374151;
+        }
+
+        .preview-changes {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+
+        .preview-changes li {
+          padding: 0.75rem;
+          background: white;
+          border-radius: 6px;
+          border: 1px solid #e5e7eb;
+        }
+
+        .original {
+          color: #6b7280;
+          margin-bottom: 0.375rem;
+        }
+
+        .outcome span {
+          font-weight: 600;
+        }
+
+        .outcome.candidate {
+          color: #4338ca;
+        }
+
+        .empty-state {
+          text-align: center;
+          padding: 4rem;
+          color: #6b7280;
+          background: #f9fafb;
+          border-radius: 12px;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,656 @@
+/**
+ * Guardrails Validation Component
+ *
+ * Practitioner regression test runner for the interpretation guardrails.
+ * Runs a policy (active by default) against the curated corpus in
+ * guardrailsTestCases.ts, compares it with the version it was drafted from
+ * and lists the rules behind false positives.
+ */
+
+import React, { useState, useEffect } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { usePractitionerMode } from "../hooks/usePractitionerMode";
+import { useGuardrailsPolicies } from "../hooks/useGuardrailsPolicies";
+import {
+  BUILT_IN_GUARDRAILS_POLICY,
+  GuardrailsPolicy,
+} from "../lib/interpretationGuardrails";
+import { toGuardrailsPolicy } from "../lib/guardrailsPolicy";
+import {
+  GUARDRAILS_TEST_CASES,
+  GuardrailsExpectedOutcome,
+  GuardrailsTestCategory,
+  GuardrailsTestContext,
+} from "../lib/guardrailsTestCases";
+import {
+  diffGuardrailsRuns,
+  findFalsePositiveHotSpots,
+  runGuardrailsCorpus,
+} from "../lib/guardrailsRegression";
+
+/** Select values: "0" = built-in lists, otherwise a stored policy number */
+const BUILT_IN_KEY = "0";
+const PREVIOUS_KEY = "previous";
+const NO_COMPARISON_KEY = "none";
+
+const OUTCOME_LABELS: Record<GuardrailsExpectedOutcome, string> = {
+  kept: "Kept",
+  softened: "Softened",
+  removed: "Removed",
+  scope_blocked: "Scope blocked",
+};
+
+const OUTCOME_COLORS: Record<GuardrailsExpectedOutcome, string> = {
+  kept: "#10b981",
+  softened: "#3b82f6",
+  removed: "#f97316",
+  scope_blocked: "#dc2626",
+};
+
+const CATEGORY_LABELS: Record<GuardrailsTestCategory, string> = {
+  safe: "Safe language",
+  diagnosis: "Diagnosis",
+  treatment: "Treatment",
+  scope: "Forbidden scope",
+  dosage: "Dosage & timelines",
+  false_positive: "False positive hot spots",
+};
+
+function formatContext(context: GuardrailsTestContext): string {
+  return `${context.audience} · ${context.channel}`;
+}
+
+export default function GuardrailsValidation() {
+  const { user } = useAuth();
+  const { isPractitionerMode } = usePractitionerMode();
+  const policies = useGuardrailsPolicies(user?.uid, isPractitionerMode);
+
+  const [policyKey, setPolicyKey] = useState(BUILT_IN_KEY);
+  const [compareKey, setCompareKey] = useState(PREVIOUS_KEY);
+  const [filterCategory, setFilterCategory] = useState<string>("all");
+  const [showOnlyFailures, setShowOnlyFailures] = useState(false);
+
+  // Start from the active policy once the list has loaded
+  useEffect(() => {
+    setPolicyKey(String(policies.activeNumber));
+  }, [policies.activeNumber]);
+
+  const resolvePolicy = (key: string): GuardrailsPolicy | null => {
+    if (key === BUILT_IN_KEY) return BUILT_IN_GUARDRAILS_POLICY;
+    const stored = policies.versions.find((v) => String(v.number) === key);
+    return stored ? toGuardrailsPolicy(stored) : null;
+  };
+
+  // Previous version = the policy the selected one was drafted from
+  const selectedStored = policies.versions.find(
+    (v) => String(v.number) === policyKey
+  );
+  const previousKey = selectedStored
+    ? String(selectedStored.basedOn)
+    : NO_COMPARISON_KEY;
+  const effectiveCompareKey =
+    compareKey === PREVIOUS_KEY ? previousKey : compareKey;
+
+  const policy = resolvePolicy(policyKey) ?? BUILT_IN_GUARDRAILS_POLICY;
+  const comparePolicy =
+    effectiveCompareKey === NO_COMPARISON_KEY
+      ? null
+      : resolvePolicy(effectiveCompareKey);
+
+  // The corpus is small; running it on every render is cheap
+  const run = runGuardrailsCorpus(policy);
+  const compareRun = comparePolicy ? runGuardrailsCorpus(comparePolicy) : null;
+  const changes = compareRun ? diffGuardrailsRuns(run, compareRun) : [];
+  const hotSpots = findFalsePositiveHotSpots(run);
+
+  const caseResults = GUARDRAILS_TEST_CASES.map((testCase) => {
+    const results = run.results.filter((r) => r.caseId === testCase.id);
+    return {
+      testCase,
+      results,
+      passed: results.every((r) => r.passed),
+    };
+  }).filter((entry) => {
+    if (showOnlyFailures && entry.passed) return false;
+    if (
+      filterCategory !== "all" &&
+      entry.testCase.category !== filterCategory
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+  const passRate = run.total > 0 ? (run.passed / run.total) * 100 : 0;
+
+  const renderOutcome = (outcome: GuardrailsExpectedOutcome) => (
+    <span
+      className="outcome-badge"
+      style={{ backgroundColor: OUTCOME_COLORS[outcome] }}
+    >
+      {OUTCOME_LABELS[outcome]}
+    </span>
+  );
+
+  return (
+    <div className="guardrails-validation">
+      <div className="validation-header">
+        <h1>🛡️ Guardrails Validation</h1>
+        <p className="subtitle">
+          Regression corpus for the interpretation guardrails (
+          {GUARDRAILS_TEST_CASES.length} statements, policy {run.policyVersion})
+        </p>
+      </div>
+
+      {/* Summary Stats */}
+      <div className="summary-section">
+        <div className="summary-card total">
+          <div className="summary-label">Total Checks</div>
+          <div className="summary-value">{run.total}</div>
+        </div>
+        <div className="summary-card passed">
+          <div className="summary-label">Passed</div>
+          <div className="summary-value">{run.passed}</div>
+        </div>
+        <div className="summary-card failed">
+          <div className="summary-label">Failed</div>
+          <div className="summary-value">{run.failed}</div>
+        </div>
+        <div className="summary-card pass-rate">
+          <div className="summary-label">Pass Rate</div>
+          <div className="summary-value">{passRate.toFixed(1)}%</div>
+        </div>
+      </div>
+
+      <div className="pass-rate-bar">
+        <div
+          className="pass-rate-fill"
+          style={{
+            width: `${passRate}%`,
+            backgroundColor:
+              passRate >= 90
+                ? "#10b981"
+                : passRate >= 70
+                ? "#f59e0b"
+                : "#ef4444",
+          }}
+        />
+      </div>
+
+      {/* Policy Selection */}
+      <div className="version-section">
+        <div className="filter-group">
+          <label>Policy:</label>
+          <select
+            value={policyKey}
+            onChange={(e) => {
+              setPolicyKey(e.target.value);
+              setCompareKey(PREVIOUS_KEY);
+            }}
+          >
+            <option value={BUILT_IN_KEY}>
+              Built-in lists
+              {policies.activeNumber === 0 ? " (active)" : ""}
+            </option>
+            {policies.versions.map((v) => (
+              <option key={v.number} value={String(v.number)}>
+                Policy #{v.number} ({v.status})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="filter-group">
+          <label>Compare with:</label>
+          <select
+            value={compareKey}
+            onChange={(e) => setCompareKey(e.target.value)}
+          >
+            <option value={PREVIOUS_KEY}>
+              Previous version
+              {previousKey === NO_COMPARISON_KEY
+                ? " (none)"
+                : previousKey === BUILT_IN_KEY
+                ? " (built-in)"
+                : ` (#${previousKey})`}
+            </option>
+            <option value={NO_COMPARISON_KEY}>No comparison</option>
+            <option value={BUILT_IN_KEY}>Built-in lists</option>
+            {policies.versions.map((v) => (
+              <option key={v.number} value={String(v.number)}>
+                Policy #{v.number} ({v.status})
+              </option>
+            ))}
+          </select>
+        </div>
+        {policies.isLoading && (
+          <p className="policy-note">Loading stored policies…</p>
+        )}
+        {policies.error && (
+          <p className="policy-note error">
+            Stored policies unavailable ({policies.error}); built-in lists
+            only.
+          </p>
+        )}
+      </div>
+
+      {/* False Positive Hot Spots */}
+      <div className="panel-section">
+        <h2>🔥 False Positive Hot Spots</h2>
+        {hotSpots.length === 0 ? (
+          <p className="empty">
+            No rule blocks or softens a statement the corpus expects to keep.
+          </p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Rule</th>
+                <th>Failed checks</th>
+                <th>Cases</th>
+              </tr>
+            </thead>
+            <tbody>
+              {hotSpots.map((spot) => (
+                <tr key={spot.rule}>
+                  <td>
+                    <code>{spot.rule}</code>
+                  </td>
+                  <td>{spot.count}</td>
+                  <td>{spot.caseIds.join(", ")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Diff Against Comparison Policy */}
+      {compareRun && (
+        <div className="panel-section">
+          <h2>
+            🔀 Changes vs {compareRun.policyVersion} (passed{" "}
+            {compareRun.passed} → {run.passed})
+          </h2>
+          {changes.length === 0 ? (
+            <p className="empty">Every statement comes out the same.</p>
+          ) : (
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Case</th>
+                  <th>Context</th>
+                  <th>Expected</th>
+                  <th>Before</th>
+                  <th>Now</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((change) => (
+                  <tr key={`${change.caseId}-${formatContext(change.context)}`}>
+                    <td>{change.caseId}</td>
+                    <td>{formatContext(change.context)}</td>
+                    <td>{renderOutcome(change.expected)}</td>
+                    <td>
+                      {renderOutcome(change.previous.outcome)}
+                      <div className="output">
+                        {change.previous.output ?? "—"}
+                      </div>
+                    </td>
+                    <td>
+                      {renderOutcome(change.current.outcome)}
+                      <div className="output">
+                        {change.current.output ?? "—"}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="filters-section">
+        <div className="filter-group">
+          <label>Filter by Category:</label>
+          <select
+            value={filterCategory}
+            onChange={(e) => setFilterCategory(e.target.value)}
+          >
+            <option value="all">All Categories</option>
+            {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="filter-group">
+          <label>
+            <input
+              type="checkbox"
+              checked={showOnlyFailures}
+              onChange={(e) => setShowOnlyFailures(e.target.checked)}
+            />
+            Show Only Failures
+          </label>
+        </div>
+      </div>
+
+      {/* Test Results */}
+      <div className="results-section">
+        <h2>
+          Test Results ({caseResults.length} of {GUARDRAILS_TEST_CASES.length})
+        </h2>
+
+        {caseResults.map(({ testCase, results, passed }) => (
+          <div
+            key={testCase.id}
+            className={`test-result-card ${passed ? "passed" : "failed"}`}
+          >
+            <div className="test-header">
+              <div className="test-id">
+                {passed ? "✅" : "❌"} {testCase.id} ·{" "}
+                {CATEGORY_LABELS[testCase.category]} · {testCase.kind}
+              </div>
+              <div className="test-description">{testCase.description}</div>
+              <p className="statement">“{testCase.text}”</p>
+            </div>
+
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Context</th>
+                  <th>Expected</th>
+                  <th>Actual</th>
+                  <th>Output</th>
+                  <th>Rules</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result) => (
+                  <tr
+                    key={formatContext(result.context)}
+                    className={result.passed ? "" : "failed-row"}
+                  >
+                    <td>{formatContext(result.context)}</td>
+                    <td>{renderOutcome(result.expected)}</td>
+                    <td>{renderOutcome(result.outcome)}</td>
+                    <td className="output">{result.output ?? "—"}</td>
+                    <td>
+                      {result.rules.map((rule) => (
+                        <code key={rule} className="rule">
+                          {rule}
+                        </code>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="test-section note">
+              <h4>Test Case Note</h4>
+              <p>{testCase.note}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <style jsx>{`
+        .guardrails-validation {
+          max-width: 1200px;
+          margin: 0 auto;
+          padding: 2rem;
+        }
+
+        .validation-header {
+          text-align: center;
+          margin-bottom: 2rem;
+        }
+
+        .validation-header h1 {
+          font-size: 2rem;
+          color: #111827;
+          margin: 0 0 0.5rem 0;
+        }
+
+        .subtitle {
+          color: #6b7280;
+          font-size: 0.875rem;
+        }
+
+        .summary-section {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
+          gap: 1rem;
+          margin-bottom: 1rem;
+        }
+
+        .summary-card {
+          background: white;
+          padding: 1.5rem;
+          border-radius: 0.5rem;
+          box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+          text-align: center;
+        }
+
+        .summary-card.passed {
+          border-left: 4px solid #10b981;
+        }
+
+        .summary-card.failed {
+          border-left: 4px solid #ef4444;
+        }
+
+        .summary-card.pass-rate {
+          border-left: 4px solid #3b82f6;
+        }
+
+        .summary-label {
+          font-size: 0.75rem;
+          color: #6b7280;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          margin-bottom: 0.5rem;
+        }
+
+        .summary-value {
+          font-size: 2rem;
+          font-weight: 700;
+          color: #111827;
+        }
+
+        .pass-rate-bar {
+          height: 8px;
+          background: #e5e7eb;
+          border-radius: 4px;
+          overflow: hidden;
+          margin-bottom: 2rem;
+        }
+
+        .pass-rate-fill {
+          height: 100%;
+          transition: width 0.3s;
+        }
+
+        .version-section,
+        .filters-section,
+        .panel-section {
+          background: white;
+          padding: 1rem;
+          border-radius: 0.5rem;
+          box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+          margin-bottom: 1rem;
+        }
+
+        .version-section,
+        .filters-section {
+          display: flex;
+          gap: 1rem;
+          align-items: center;
+          flex-wrap: wrap;
+        }
+
+        .filters-section {
+          margin-bottom: 2rem;
+        }
+
+        .panel-section h2,
+        .results-section h2 {
+          font-size: 1.25rem;
+          color: #111827;
+          margin: 0 0 1rem 0;
+        }
+
+        .policy-note {
+          margin: 0;
+          font-size: 0.8rem;
+          color: #6b7280;
+        }
+
+        .policy-note.error {
+          color: #dc2626;
+        }
+
+        .empty {
+          margin: 0;
+          font-size: 0.875rem;
+          color: #6b7280;
+        }
+
+        .filter-group {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .filter-group label {
+          font-size: 0.875rem;
+          color: #374151;
+        }
+
+        .filter-group select {
+          padding: 0.5rem;
+          border: 1px solid #d1d5db;
+          border-radius: 0.375rem;
+          font-size: 0.875rem;
+        }
+
+        .data-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 0.8rem;
+        }
+
+        .data-table th {
+          text-align: left;
+          color: #6b7280;
+          font-weight: 600;
+          padding: 0.5rem;
+          border-bottom: 1px solid #e5e7eb;
+        }
+
+        .data-table td {
+          padding: 0.5rem;
+          border-bottom: 1px solid #f3f4f6;
+          vertical-align: top;
+          color: #374151;
+        }
+
+        .failed-row td {
+          background: #fef2f2;
+        }
+
+        .output {
+          color: #374151;
+          margin-top: 0.25rem;
+        }
+
+        .outcome-badge {
+          display: inline-block;
+          padding: 0.125rem 0.5rem;
+          border-radius: 0.375rem;
+          color: white;
+          font-size: 0.7rem;
+          font-weight: 600;
+          white-space: nowrap;
+        }
+
+        .rule {
+          display: inline-block;
+          margin: 0 0.25rem 0.25rem 0;
+          padding: 0.125rem 0.375rem;
+          background: #f3f4f6;
+          border-radius: 0.25rem;
+          font-size: 0.7rem;
+        }
+
+        .test-result-card {
+          background: white;
+          border-radius: 0.5rem;
+          padding: 1.5rem;
+          margin-bottom: 1rem;
+          box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+        }
+
+        .test-result-card.passed {
+          border-left: 4px solid #10b981;
+        }
+
+        .test-result-card.failed {
+          border-left: 4px solid #ef4444;
+        }
+
+        .test-header {
+          margin-bottom: 1rem;
+          padding-bottom: 1rem;
+          border-bottom: 1px solid #e5e7eb;
+        }
+
+        .test-id {
+          font-size: 0.875rem;
+          font-weight: 600;
+          color: #6b7280;
+          margin-bottom: 0.25rem;
+        }
+
+        .test-description {
+          font-size: 1rem;
+          font-weight: 500;
+          color: #111827;
+        }
+
+        .statement {
+          margin: 0.5rem 0 0 0;
+          font-size: 0.875rem;
+          color: #374151;
+          font-style: italic;
+        }
+
+        .test-section.note {
+          margin-top: 1rem;
+          background: #eff6ff;
+          padding: 0.75rem;
+          border-radius: 0.375rem;
+          border-left: 3px solid #3b82f6;
+        }
+
+        .test-section.note h4 {
+          font-size: 0.875rem;
+          font-weight: 600;
+          color: #1e40af;
+          margin: 0 0 0.5rem 0;
+        }
+
+        .test-section.note p {
+          margin: 0;
+          font-size: 0.875rem;
+          color: #1e3a8a;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,56 +1,62 @@
-import { useState } from "react";
-
-/**
- * Complete TEI (Trace Elements Inc.) Nutritional Elements
- * All 15 minerals tested in standard HTMA panels
- *
- * Major Minerals: Ca, Mg, Na, K, P, S
- * Trace Minerals: Cu, Zn, Fe, Mn, Cr, Se, B, Co, Mo
- */
-export interface MineralData {
-  calcium: string;
-  magnesium: string;
-  sodium: string;
-  potassium: string;
-  copper: string;
-  zinc: string;
-  phosphorus: string;
-  iron: string;
-  manganese: string;
-  chromium: string;
-  selenium: string;
-  boron: string;
-  cobalt: string;
-  molybdenum: string;
-  sulfur: string;
-}
+import { useState, useEffect } from "react";
+import {
+  MineralUnit,
+  CANONICAL_UNIT,
+  SUPPORTED_UNITS,
+  UNIT_DESCRIPTIONS,
+  toCanonicalMineralData,
+} from "../lib/unitConversion";
+import {
+  MineralData,
+  MineralDataSchema,
+  MineralName,
+  MINERAL_NAMES,
+  REQUIRED_MINERALS,
+  readMineralValue,
+} from "../lib/mineralModel";
+
+/** Raw text typed into each field; parsed to MineralData on submit */
+type MineralFormValues = Record<MineralName, string>;
 
 interface HTMAInputFormProps {
-  onSubmit: (data: MineralData) => void;
+  /** Receives values converted to mg%, plus the unit they were entered in */
+  onSubmit: (data: MineralData, inputUnit: MineralUnit) => void;
   isLoading?: boolean;
+  /** Values confirmed in the PDF extraction review step (prefills the form) */
+  initialValues?: Partial<MineralData> | null;
+  /** Unit initialValues are expressed in */
+  initialUnit?: MineralUnit;
 }
 
 export default function HTMAInputForm({
   onSubmit,
   isLoading = false,
+  initialValues = null,
+  initialUnit = CANONICAL_UNIT,
 }: HTMAInputFormProps) {
-  const [formData, setFormData] = useState<MineralData>({
-    calcium: "",
-    magnesium: "",
-    sodium: "",
-    potassium: "",
-    copper: "",
-    zinc: "",
-    phosphorus: "",
-    iron: "",
-    manganese: "",
-    chromium: "",
-    selenium: "",
-    boron: "",
-    cobalt: "",
-    molybdenum: "",
-    sulfur: "",
-  });
+  const [unit, setUnit] = useState<MineralUnit>(initialUnit);
+  const [formData, setFormData] = useState<MineralFormValues>(
+    () =>
+      Object.fromEntries(
+        MINERAL_NAMES.map((name) => [name, ""])
+      ) as MineralFormValues
+  );
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Prefill with reviewed extraction values; fields the lab report did not
+  // contain keep whatever was typed manually
+  useEffect(() => {
+    if (!initialValues) return;
+    setUnit(initialUnit);
+    setFormData((prev) => {
+      const next = { ...prev };
+      for (const name of MINERAL_NAMES) {
+        const value = initialValues[name];
+        if (typeof value === "number") next[name] = String(value);
+      }
+      return next;
+    });
+  }, [initialValues, initialUnit]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -68,69 +74,83 @@ export default function HTMAInputForm({
       return; // Button should be disabled, but extra safety
     }
 
-    onSubmit(formData);
+    // Empty fields become null (not measured), never 0
+    const parsed = MineralDataSchema.safeParse(
+      Object.fromEntries(
+        MINERAL_NAMES.map((name) => [name, readMineralValue(formData[name])])
+      )
+    );
+    if (!parsed.success) {
+      setValidationError("Some values could not be read. Please check them.");
+      return;
+    }
+    setValidationError(null);
+
+    // Engines compute in mg%; the entered unit travels with the analysis
+    onSubmit(toCanonicalMineralData(parsed.data, unit), unit);
   };
 
   const minerals = [
-    { name: "calcium", label: "Calcium (Ca)", unit: "mg%", required: true },
-    { name: "magnesium", label: "Magnesium (Mg)", unit: "mg%", required: true },
-    { name: "sodium", label: "Sodium (Na)", unit: "mg%", required: true },
-    { name: "potassium", label: "Potassium (K)", unit: "mg%", required: true },
-    { name: "copper", label: "Copper (Cu)", unit: "mg%", required: false },
-    { name: "zinc", label: "Zinc (Zn)", unit: "mg%", required: false },
-    {
-      name: "phosphorus",
-      label: "Phosphorus (P)",
-      unit: "mg%",
-      required: false,
-    },
-    { name: "iron", label: "Iron (Fe)", unit: "mg%", required: false },
-    {
-      name: "manganese",
-      label: "Manganese (Mn)",
-      unit: "mg%",
-      required: false,
-    },
-    { name: "chromium", label: "Chromium (Cr)", unit: "mg%", required: false },
-    { name: "selenium", label: "Selenium (Se)", unit: "mg%", required: false },
-    { name: "boron", label: "Boron (B)", unit: "mg%", required: false },
-    { name: "cobalt", label: "Cobalt (Co)", unit: "mg%", required: false },
-    {
-      name: "molybdenum",
-      label: "Molybdenum (Mo)",
-      unit: "mg%",
-      required: false,
-    },
-    { name: "sulfur", label: "Sulfur (S)", unit: "mg%", required: false },
+    { name: "calcium", label: "Calcium (Ca)", required: true },
+    { name: "magnesium", label: "Magnesium (Mg)", required: true },
+    { name: "sodium", label: "Sodium (Na)", required: true },
+    { name: "potassium", label: "Potassium (K)", required: true },
+    { name: "copper", label: "Copper (Cu)", required: false },
+    { name: "zinc", label: "Zinc (Zn)", required: false },
+    { name: "phosphorus", label: "Phosphorus (P)", required: false },
+    { name: "iron", label: "Iron (Fe)", required: false },
+    { name: "manganese", label: "Manganese (Mn)", required: false },
+    { name: "chromium", label: "Chromium (Cr)", required: false },
+    { name: "selenium", label: "Selenium (Se)", required: false },
+    { name: "boron", label: "Boron (B)", required: false },
+    { name: "cobalt", label: "Cobalt (Co)", required: false },
+    { name: "molybdenum", label: "Molybdenum (Mo)", required: false },
+    { name: "sulfur", label: "Sulfur (S)", required: false },
   ];
 
-  // Required minerals for oxidation classification
-  const requiredMinerals = ["calcium", "magnesium", "sodium", "potassium"];
+  // Required minerals (oxidation classification) need valid positive values
+  const isPositive = (name: MineralName) => {
+    const value = readMineralValue(formData[name]);
+    return value !== null && value > 0;
+  };
 
-  // Check if required minerals have valid positive values
-  const canAnalyze = requiredMinerals.every((mineralName) => {
-    const value = formData[mineralName as keyof MineralData];
-    const numValue = parseFloat(value);
-    return !isNaN(numValue) && numValue > 0;
-  });
+  const canAnalyze = REQUIRED_MINERALS.every(isPositive);
 
   // Get missing required minerals for error message
-  const missingMinerals = requiredMinerals.filter((mineralName) => {
-    const value = formData[mineralName as keyof MineralData];
-    const numValue = parseFloat(value);
-    return isNaN(numValue) || numValue <= 0;
-  });
+  const missingMinerals = REQUIRED_MINERALS.filter((name) => !isPositive(name));
 
   return (
     <form onSubmit={handleSubmit} className="htma-form">
       <h2>Enter HTMA Test Results</h2>
       <p className="form-description">
         Enter your hair tissue mineral analysis results below. Values are
-        typically in mg% (milligrams percent).
+        typically in mg% (milligrams percent); ppm, µg/g and mg/kg are also
+        accepted.
         <br />
         <strong>Required:</strong> Calcium, Magnesium, Sodium, Potassium
       </p>
 
+      <div className="unit-selector">
+        <label htmlFor="inputUnit">Units on your lab report</label>
+        <select
+          id="inputUnit"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as MineralUnit)}
+          disabled={isLoading}
+        >
+          {SUPPORTED_UNITS.map((u) => (
+            <option key={u} value={u}>
+              {u} — {UNIT_DESCRIPTIONS[u]}
+            </option>
+          ))}
+        </select>
+        {unit !== CANONICAL_UNIT && (
+          <span className="unit-note">
+            Values will be converted to mg% for analysis (1 mg% = 10 {unit})
+          </span>
+        )}
+      </div>
+
       {!canAnalyze && missingMinerals.length > 0 && (
         <div className="validation-error">
           ⚠️ Required minerals missing:{" "}
@@ -140,6 +160,10 @@ export default function HTMAInputForm({
         </div>
       )}
 
+      {validationError && (
+        <div className="validation-error">⚠️ {validationError}</div>
+      )}
+
       <div className="mineral-grid">
         {minerals.map((mineral) => (
           <div key={mineral.name} className="form-group">
@@ -148,13 +172,13 @@ export default function HTMAInputForm({
               {mineral.required && (
                 <span className="required-indicator"> *</span>
               )}
-              <span className="unit">{mineral.unit}</span>
+              <span className="unit">{unit}</span>
             </label>
             <input
               type="number"
               id={mineral.name}
               name={mineral.name}
-              value={formData[mineral.name as keyof MineralData]}
+              value={formData[mineral.name as MineralName]}
               onChange={handleChange}
               placeholder="0.00"
               step="0.01"
@@ -214,6 +238,30 @@ export default function HTMAInputForm({
           font-weight: 500;
         }
 
+        .unit-selector {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 0.75rem;
+          margin-bottom: 1.5rem;
+        }
+
+        .unit-selector label {
+          margin-bottom: 0;
+        }
+
+        .unit-selector select {
+          padding: 0.5rem;
+          border: 2px solid #e0e0e0;
+          border-radius: 8px;
+          font-size: 0.9rem;
+        }
+
+        .unit-note {
+          color: #666;
+          font-size: 0.8rem;
+        }
+
         .mineral-grid {
           display: grid;
           grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
@@ -1,20 +1,31 @@
 import { useState } from "react";
+import ExtractionReviewPanel, {
+  LabReportExtraction,
+  ConfirmedExtraction,
+} from "./ExtractionReviewPanel";
 
 interface HTMAUploaderProps {
-  onExtractedData: (minerals: Record<string, number>) => void;
+  onExtractedData: (
+    minerals: Record<string, number>,
+    extraction?: ConfirmedExtraction
+  ) => void;
 }
 
 /**
  * HTMAUploader Component
  *
- * Allows users to upload ARL or TEI HTMA PDF reports
+ * Allows users to upload ARL, TEI or Doctor's Data HTMA PDF reports
  * Extracts mineral values automatically and feeds them into the analysis engine
+ * (known lab layouts are parsed deterministically; AI is only a fallback).
+ * Extracted values are held in a review step and only passed on once the
+ * practitioner has confirmed or corrected every field.
  */
 export default function HTMAUploader({ onExtractedData }: HTMAUploaderProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [fileName, setFileName] = useState<string>("");
+  const [review, setReview] = useState<LabReportExtraction | null>(null);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -23,7 +34,7 @@ export default function HTMAUploader({ onExtractedData }: HTMAUploaderProps) {
 
     // Validate file type
     if (file.type !== "application/pdf") {
-      setError("Only PDF files from ARL or TEI are supported.");
+      setError("Only PDF files from ARL, TEI or Doctor's Data are supported.");
       setSuccess(false);
       return;
     }
@@ -39,6 +50,7 @@ export default function HTMAUploader({ onExtractedData }: HTMAUploaderProps) {
     setLoading(true);
     setError(null);
     setSuccess(false);
+    setReview(null);
 
     try {
       // Convert PDF to base64
@@ -71,13 +83,10 @@ export default function HTMAUploader({ onExtractedData }: HTMAUploaderProps) {
       const data = await res.json();
       console.log("📥 API response:", data);
 
-      if (data.minerals || data.calcium || !data.error) {
-        setSuccess(true);
+      if (data.success && Array.isArray(data.fields)) {
+        // Hold values for practitioner review before passing them on
         setError(null);
-        onExtractedData(data.minerals || data);
-
-        // Show success message
-        setTimeout(() => setSuccess(false), 3000);
+        setReview(data as LabReportExtraction);
       } else {
         setError(data.error || "Failed to extract data from PDF.");
         setSuccess(false);
@@ -96,6 +105,16 @@ export default function HTMAUploader({ onExtractedData }: HTMAUploaderProps) {
     setError(null);
     setSuccess(false);
     setLoading(false);
+    setReview(null);
+  };
+
+  const handleReviewConfirmed = (confirmed: ConfirmedExtraction) => {
+    setReview(null);
+    setSuccess(true);
+    onExtractedData(confirmed.minerals, confirmed);
+
+    // Show success message
+    setTimeout(() => setSuccess(false), 3000);
   };
 
   return (
@@ -107,8 +126,8 @@ export default function HTMAUploader({ onExtractedData }: HTMAUploaderProps) {
             📄 Upload HTMA Lab Report (PDF)
           </label>
           <p className="text-xs text-gray-600 dark:text-gray-400">
-            Supported labs: ARL (Analytical Research Labs) or TEI (Trace
-            Elements Inc.)
+            Supported labs: ARL (Analytical Research Labs), TEI (Trace
+            Elements Inc.) or Doctor&apos;s Data
           </p>
         </div>
 
@@ -161,6 +180,15 @@ export default function HTMAUploader({ onExtractedData }: HTMAUploaderProps) {
           </div>
         )}
 
+        {/* Review Step */}
+        {review && !loading && (
+          <ExtractionReviewPanel
+            extraction={review}
+            onConfirm={handleReviewConfirmed}
+            onCancel={handleReset}
+          />
+        )}
+
         {/* Success State */}
         {success && !loading && (
           <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md">
@@ -180,7 +208,7 @@ export default function HTMAUploader({ onExtractedData }: HTMAUploaderProps) {
                 ✅ Data extracted successfully!
               </p>
               <p className="text-[10px] text-green-700 dark:text-green-300 mt-0.5">
-                Mineral values have been loaded into the analysis
+                Confirmed values have been loaded into the analysis
               </p>
             </div>
           </div>
@@ -216,12 +244,13 @@ export default function HTMAUploader({ onExtractedData }: HTMAUploaderProps) {
         )}
 
         {/* Help Text */}
-        {!loading && !success && !error && (
+        {!loading && !success && !error && !review && (
           <div className="text-[10px] text-gray-500 dark:text-gray-400 space-y-1">
             <p>📋 Supported formats:</p>
             <ul className="list-disc list-inside ml-2 space-y-0.5">
               <li>ARL (Analytical Research Labs) - Standard HTMA Report</li>
               <li>TEI (Trace Elements Inc.) - Hair Analysis Report</li>
+              <li>Doctor&apos;s Data - Hair Elements Report</li>
             </ul>
             <p className="mt-1">Maximum file size: 10MB</p>
           </div>
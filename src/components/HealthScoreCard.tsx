@@ -1,17 +1,25 @@
-import { HealthScoreBreakdown } from "../lib/healthScore";
+import { HealthScoreBreakdown, ScoreComponent } from "../lib/healthScore";
+import { HealthScoreV2Breakdown } from "../lib/healthScoreV2";
 import {
   getScoreColor,
   getInterpretation,
   SHORT_DISCLAIMER,
   HEALTH_SCORE_WEIGHTS,
 } from "../lib/healthScoreSemantics";
+import { SCORE_V2_COMPONENT_DESCRIPTIONS } from "../lib/healthScoreSemanticsV2";
 
 interface HealthScoreCardProps {
   scoreData: HealthScoreBreakdown;
+  /** Graded-deviation score (v2), shown next to the locked v1 score */
+  gradedScore?: HealthScoreV2Breakdown | null;
 }
 
-export default function HealthScoreCard({ scoreData }: HealthScoreCardProps) {
+export default function HealthScoreCard({
+  scoreData,
+  gradedScore = null,
+}: HealthScoreCardProps) {
   const {
+    semanticsVersion,
     totalScore,
     mineralScore,
     ratioScore,
@@ -19,10 +27,14 @@ export default function HealthScoreCard({ scoreData }: HealthScoreCardProps) {
     grade,
     statusCounts,
     criticalIssues,
+    completeness,
   } = scoreData;
   const scoreColor = getScoreColor(totalScore);
   const interpretation = getInterpretation(totalScore);
 
+  const isUnevaluated = (component: ScoreComponent) =>
+    completeness?.unevaluatedComponents.includes(component) ?? false;
+
   return (
     <div className="health-score-card">
       <div className="score-header">
@@ -38,8 +50,58 @@ export default function HealthScoreCard({ scoreData }: HealthScoreCardProps) {
       <div className="score-interpretation">
         <p className="interpretation-text">{interpretation}</p>
         <p className="disclaimer-text">{SHORT_DISCLAIMER}</p>
+        {semanticsVersion && (
+          <p className="semantics-text">Semantics v{semanticsVersion}</p>
+        )}
       </div>
 
+      {/* Graded-deviation score - calculated alongside, does not replace v1 */}
+      {gradedScore && (
+        <div className="graded-score">
+          <div className="graded-score-header">
+            <span className="graded-score-label">Graded Health Score</span>
+            <span className="graded-score-value">
+              {gradedScore.totalScore} (Grade {gradedScore.grade})
+            </span>
+          </div>
+          <p className="graded-score-note">
+            {SCORE_V2_COMPONENT_DESCRIPTIONS.totalScore}. Semantics v
+            {gradedScore.semanticsVersion}.
+          </p>
+        </div>
+      )}
+
+      {/* Panel completeness - partial panels are rescaled, not penalized */}
+      {completeness && (
+        <div
+          className={`score-completeness ${
+            completeness.isPartial ? "partial" : "complete"
+          }`}
+        >
+          <div className="completeness-header">
+            <span className="completeness-label">
+              {completeness.isPartial ? "Partial panel" : "Complete panel"}
+            </span>
+            <span className="completeness-value">
+              {completeness.percent}% evaluated
+            </span>
+          </div>
+          <div className="completeness-detail">
+            {completeness.mineralsEvaluated}/{completeness.mineralsTotal}{" "}
+            minerals • {completeness.ratiosEvaluated}/
+            {completeness.ratiosTotal} ratios
+          </div>
+          {completeness.isPartial && (
+            <p className="completeness-note">
+              Scored only on the values provided
+              {completeness.missingMinerals.length > 0 &&
+                ` (not measured: ${completeness.missingMinerals.join(", ")})`}
+              . Compare with full-panel scores carefully.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Score Breakdown */}
       <div className="score-breakdown">
         <h4>Score Breakdown</h4>
@@ -63,8 +125,9 @@ export default function HealthScoreCard({ scoreData }: HealthScoreCardProps) {
             />
           </div>
           <div className="breakdown-detail">
-            {statusCounts.optimal} optimal, {statusCounts.low} low,{" "}
-            {statusCounts.high} high
+            {isUnevaluated("mineralScore")
+              ? "Not evaluated - no minerals measured"
+              : `${statusCounts.optimal} optimal, ${statusCounts.low} low, ${statusCounts.high} high`}
           </div>
         </div>
 
@@ -86,6 +149,16 @@ export default function HealthScoreCard({ scoreData }: HealthScoreCardProps) {
               }}
             />
           </div>
+          {completeness && (
+            <div className="breakdown-detail">
+              {isUnevaluated("ratioScore")
+                ? "Not evaluated - no complete ratio pairs"
+                : `${completeness.ratiosEvaluated} of ${completeness.ratiosTotal} ratios evaluated`}
+              {completeness.unevaluatedRatios.length > 0 &&
+                !isUnevaluated("ratioScore") &&
+                ` (skipped: ${completeness.unevaluatedRatios.join(", ")})`}
+            </div>
+          )}
         </div>
 
         <div className="breakdown-item">
@@ -193,6 +266,64 @@ export default function HealthScoreCard({ scoreData }: HealthScoreCardProps) {
           line-height: 1.4;
         }
 
+        .score-interpretation .semantics-text {
+          margin: 0.5rem 0 0 0;
+          font-size: 0.7rem;
+          opacity: 0.7;
+        }
+
+        .graded-score {
+          border-radius: 12px;
+          padding: 0.75rem 1.25rem;
+          margin-bottom: 1.5rem;
+          background: rgba(255, 255, 255, 0.1);
+        }
+
+        .graded-score-header {
+          display: flex;
+          justify-content: space-between;
+          font-size: 0.9rem;
+          font-weight: 600;
+        }
+
+        .graded-score-note {
+          margin: 0.25rem 0 0 0;
+          font-size: 0.8rem;
+          opacity: 0.9;
+          line-height: 1.4;
+        }
+
+        .score-completeness {
+          border-radius: 12px;
+          padding: 0.75rem 1.25rem;
+          margin-bottom: 1.5rem;
+          background: rgba(255, 255, 255, 0.1);
+        }
+
+        .score-completeness.partial {
+          background: rgba(251, 191, 36, 0.2);
+          border: 2px solid rgba(251, 191, 36, 0.6);
+        }
+
+        .completeness-header {
+          display: flex;
+          justify-content: space-between;
+          font-size: 0.9rem;
+          font-weight: 600;
+        }
+
+        .completeness-detail {
+          margin-top: 0.25rem;
+          font-size: 0.8rem;
+          opacity: 0.9;
+        }
+
+        .completeness-note {
+          margin: 0.5rem 0 0 0;
+          font-size: 0.8rem;
+          line-height: 1.4;
+        }
+
         .score-breakdown {
           background: rgba(255, 255, 255, 0.1);
           backdrop-filter: blur(10px);
@@ -1,4 +1,9 @@
-import { MineralData } from "./HTMAInputForm";
+import {
+  MineralData,
+  MineralValue,
+  hasMineralValue,
+  formatMineralValue,
+} from "../lib/mineralModel";
 
 interface MineralChartProps {
   data: MineralData;
@@ -44,16 +49,18 @@ export default function MineralChart({ data }: MineralChartProps) {
     { key: "sulfur", label: "Sulfur (S)", optimal: 4500, color: "#facc15" },
   ];
 
-  const getBarWidth = (value: string, optimal: number) => {
-    const numValue = parseFloat(value) || 0;
+  const getBarWidth = (value: MineralValue, optimal: number) => {
+    const numValue = value ?? 0;
     const max = optimal * 3; // Scale to 3x optimal for visualization
     const percentage = Math.min((numValue / max) * 100, 100);
     return percentage;
   };
 
-  const getStatus = (value: string, optimal: number) => {
-    const numValue = parseFloat(value) || 0;
-    const ratio = numValue / optimal;
+  const getStatus = (value: MineralValue, optimal: number) => {
+    if (!hasMineralValue(value)) {
+      return { label: "Not measured", color: "#9ca3af" };
+    }
+    const ratio = value / optimal;
 
     if (ratio < 0.7) return { label: "Low", color: "#ef4444" };
     if (ratio > 1.3) return { label: "High", color: "#f59e0b" };
@@ -78,7 +85,8 @@ export default function MineralChart({ data }: MineralChartProps) {
               <div className="mineral-info">
                 <span className="mineral-label">{mineral.label}</span>
                 <span className="mineral-value">
-                  {value || "0"} <span className="unit">mg%</span>
+                  {formatMineralValue(value)}{" "}
+                  {hasMineralValue(value) && <span className="unit">mg%</span>}
                 </span>
               </div>
 
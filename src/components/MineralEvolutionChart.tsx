@@ -2,11 +2,13 @@
  * MineralEvolutionChart Component
  *
  * Displays mineral trends over time with sparklines
- * Shows reference ranges and trend indicators
+ * Shows reference ranges, trend indicators and, with 3+ tests, the 95%
+ * least-squares projection band for the next expected test
  */
 
 import React from "react";
 import { MINERAL_REFERENCE_RANGES } from "../lib/htmaConstants";
+import { fitTrendSeries, formatTrendRate } from "../lib/trendExplainer";
 
 interface MineralDataPoint {
   date: string;
@@ -68,34 +70,66 @@ export default function MineralEvolutionChart({
   const latestValue = dataPoints[dataPoints.length - 1].value;
   const isInRange = latestValue >= minIdeal && latestValue <= maxIdeal;
 
+  // Least-squares fit over actual days (null with fewer than 3 tests)
+  const series = fitTrendSeries(dataPoints, { min: 0 });
+
   // Calculate chart dimensions
   const chartWidth = 200;
   const chartHeight = 60;
   const padding = 5;
 
   const values = dataPoints.map((dp) => dp.value);
-  const minValue = Math.min(...values, minIdeal);
-  const maxValue = Math.max(...values, maxIdeal);
+  const bandValues = series
+    ? [series.projection.lower, series.projection.upper]
+    : [];
+  const minValue = Math.min(...values, ...bandValues, minIdeal);
+  const maxValue = Math.max(...values, ...bandValues, maxIdeal);
   const range = maxValue - minValue || 1;
 
+  // x is scaled by date so uneven test intervals are drawn to scale
+  const firstTime = new Date(dataPoints[0].date).getTime();
+  const lastTime = new Date(dataPoints[dataPoints.length - 1].date).getTime();
+  const endTime = series
+    ? new Date(series.projection.date).getTime()
+    : lastTime;
+  const timeSpan = endTime - firstTime || 1;
+
+  const toX = (date: string): number =>
+    padding +
+    ((new Date(date).getTime() - firstTime) / timeSpan) *
+      (chartWidth - 2 * padding);
+  const toY = (value: number): number =>
+    chartHeight -
+    padding -
+    ((value - minValue) / range) * (chartHeight - 2 * padding);
+
   // Generate SVG path for sparkline
   const generatePath = (): string => {
     if (dataPoints.length === 0) return "";
 
-    const points = dataPoints.map((dp, index) => {
-      const x =
-        padding +
-        (index / (dataPoints.length - 1 || 1)) * (chartWidth - 2 * padding);
-      const y =
-        chartHeight -
-        padding -
-        ((dp.value - minValue) / range) * (chartHeight - 2 * padding);
-      return `${x},${y}`;
-    });
+    const points = dataPoints.map((dp) => `${toX(dp.date)},${toY(dp.value)}`);
 
     return `M ${points.join(" L ")}`;
   };
 
+  // Projection band from the fitted value at the last test to the 95%
+  // prediction interval at the next expected test
+  const generateProjectionBandPath = (): string => {
+    if (!series) return "";
+
+    const lastDate = dataPoints[dataPoints.length - 1].date;
+    const lastDays = (lastTime - firstTime) / (1000 * 60 * 60 * 24);
+    const lastFitted = Math.max(
+      0,
+      series.fit.intercept + series.fit.slopePerDay * lastDays
+    );
+    const nextX = toX(series.projection.date);
+
+    return `M ${toX(lastDate)},${toY(lastFitted)} L ${nextX},${toY(
+      series.projection.upper
+    )} L ${nextX},${toY(series.projection.lower)} Z`;
+  };
+
   // Generate reference range band
   const generateReferenceRangePath = (): string => {
     const minY =
@@ -192,6 +226,18 @@ export default function MineralEvolutionChart({
             opacity="0.5"
           />
 
+          {/* Projection band */}
+          {series && (
+            <path
+              d={generateProjectionBandPath()}
+              fill="#6366f1"
+              fillOpacity="0.15"
+              stroke="#6366f1"
+              strokeOpacity="0.4"
+              strokeDasharray="2,2"
+            />
+          )}
+
           {/* Sparkline */}
           <path
             d={generatePath()}
@@ -204,14 +250,8 @@ export default function MineralEvolutionChart({
 
           {/* Data points */}
           {dataPoints.map((dp, index) => {
-            const x =
-              padding +
-              (index / (dataPoints.length - 1 || 1)) *
-                (chartWidth - 2 * padding);
-            const y =
-              chartHeight -
-              padding -
-              ((dp.value - minValue) / range) * (chartHeight - 2 * padding);
+            const x = toX(dp.date);
+            const y = toY(dp.value);
             const isLast = index === dataPoints.length - 1;
 
             return (
@@ -257,6 +297,23 @@ export default function MineralEvolutionChart({
                 <span className="stat-label">Tests</span>
                 <span className="stat-value">{dataPoints.length}</span>
               </div>
+              {series && (
+                <>
+                  <div className="stat-item">
+                    <span className="stat-label">Rate / 30d (95%)</span>
+                    <span className="stat-value">
+                      {formatTrendRate(series.fit, 2)}
+                    </span>
+                  </div>
+                  <div className="stat-item">
+                    <span className="stat-label">Next Test Band</span>
+                    <span className="stat-value">
+                      {series.projection.lower.toFixed(1)}–
+                      {series.projection.upper.toFixed(1)} {unit}
+                    </span>
+                  </div>
+                </>
+              )}
             </>
           )}
         </div>
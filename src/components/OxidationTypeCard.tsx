@@ -5,6 +5,7 @@
  * - Consumer view: Minimal badge with tooltip
  * - Practitioner view: Full breakdown with ratios, indicators, and confidence
  * - ECK educational tooltips for practitioner mode
+ * - Eck sub-patterns (four lows, calcium shell, stages...) when available
  */
 
 import React, { useState } from "react";
@@ -13,11 +14,12 @@ import {
   getOxidationTypeLabel,
   getConfidenceDescription,
 } from "../lib/oxidationClassification";
+import { EckOxidationClassification } from "../lib/eckSubClassification";
 import { OxidationDelta } from "../lib/oxidationDeltaEngine";
 import ECKTooltip from "./ECKTooltip";
 
 interface OxidationTypeCardProps {
-  classification: OxidationClassification;
+  classification: OxidationClassification | EckOxidationClassification;
   oxidationDelta?: OxidationDelta | null;
   isPractitioner?: boolean;
 }
@@ -38,6 +40,11 @@ export default function OxidationTypeCard({
 
   const typeColor = typeColors[classification.type] || "#6b7280";
 
+  const eckSubClassification =
+    "eckSubClassification" in classification
+      ? classification.eckSubClassification
+      : null;
+
   const confidenceColors: Record<string, string> = {
     high: "#10b981", // green
     moderate: "#f59e0b", // amber
@@ -209,6 +216,50 @@ export default function OxidationTypeCard({
         {classification.interpretation}
       </p>
 
+      {/* Eck Sub-Patterns */}
+      {eckSubClassification && (
+        <div className="eck-sub-patterns">
+          <div className="eck-sub-patterns-header">
+            <h4>Eck Sub-Patterns</h4>
+            <span className="oxidation-version">
+              v{eckSubClassification.version}
+            </span>
+          </div>
+          {eckSubClassification.subPatterns.length > 0 ? (
+            <ul className="eck-sub-pattern-list">
+              {eckSubClassification.subPatterns.map((match) => (
+                <li key={match.pattern} className="eck-sub-pattern-item">
+                  <ECKTooltip
+                    content={match.eckPrinciples
+                      .map((p) => `ECK Principle: ${p.principle}`)
+                      .join(" ")}
+                    position="top"
+                  >
+                    <span className="eck-sub-pattern-label">
+                      {match.label}
+                    </span>
+                  </ECKTooltip>
+                  <span className="eck-sub-pattern-evidence">
+                    {match.evidence}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="eck-sub-pattern-evidence">
+              {eckSubClassification.explanation}
+            </p>
+          )}
+          {eckSubClassification.thresholdWarnings.length > 0 && (
+            <ul className="eck-warning-list">
+              {eckSubClassification.thresholdWarnings.map((warning, i) => (
+                <li key={i}>⚠️ {warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <div className="oxidation-details">
         {/* Mineral Values & Status */}
         <div className="detail-section">
@@ -461,6 +512,61 @@ export default function OxidationTypeCard({
           color: #111827;
         }
 
+        .eck-sub-patterns {
+          margin-bottom: 1.25rem;
+          padding: 0.75rem 1rem;
+          background: #fffbeb;
+          border: 1px solid #fde68a;
+          border-radius: 0.375rem;
+        }
+
+        .eck-sub-patterns-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 0.5rem;
+        }
+
+        .eck-sub-patterns-header h4 {
+          margin: 0;
+          font-size: 0.875rem;
+          color: #92400e;
+        }
+
+        .eck-sub-pattern-list,
+        .eck-warning-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .eck-sub-pattern-item {
+          display: flex;
+          flex-direction: column;
+          gap: 0.125rem;
+          margin-bottom: 0.5rem;
+        }
+
+        .eck-sub-pattern-label {
+          font-weight: 600;
+          font-size: 0.875rem;
+          color: #111827;
+          border-bottom: 2px dotted #d97706;
+          cursor: help;
+        }
+
+        .eck-sub-pattern-evidence {
+          font-size: 0.8rem;
+          color: #4b5563;
+          margin: 0;
+        }
+
+        .eck-warning-list li {
+          font-size: 0.75rem;
+          color: #92400e;
+          margin-top: 0.25rem;
+        }
+
         .oxidation-version {
           font-size: 0.75rem;
           color: #6b7280;
@@ -4,17 +4,52 @@
  * Dev/Practitioner-only regression test runner
  * Validates oxidation classification against known test cases
  * v1.0.1 - Calibration Sprint
+ * v1.1.0 - Eck sub-pattern expectations; run against any reference range
+ *          version (built-in or pasted JSON)
  */
 
 import React, { useState, useEffect } from "react";
+import { getOxidationTypeLabel } from "../lib/oxidationClassification";
 import {
-  classifyOxidation,
-  getOxidationTypeLabel,
-} from "../lib/oxidationClassification";
+  classifyOxidationWithEck,
+  getEckSubPatternLabel,
+  EckSubPattern,
+} from "../lib/eckSubClassification";
 import {
   OXIDATION_TEST_CASES,
   OxidationTestCase,
 } from "../lib/oxidationTestCases";
+import { ReferenceRangeVersion } from "../lib/reportSnapshot";
+import {
+  BUILT_IN_REFERENCE_RANGE_VERSIONS,
+  getActiveReferenceRangeVersion,
+  getOxidationThresholds,
+  formatVersionDisplay,
+} from "../lib/rangeVersionEngine";
+
+const CUSTOM_VERSION = "custom";
+
+/**
+ * Parse a pasted ReferenceRangeVersion; returns an error message if the
+ * JSON is not usable
+ */
+function parseCustomVersion(
+  json: string
+): { version: ReferenceRangeVersion } | { error: string } {
+  try {
+    const parsed = JSON.parse(json);
+    if (
+      !parsed ||
+      typeof parsed.version !== "string" ||
+      !Array.isArray(parsed.mineralRanges)
+    ) {
+      return { error: "Expected an object with version and mineralRanges" };
+    }
+    return { version: parsed as ReferenceRangeVersion };
+  } catch {
+    return { error: "Invalid JSON" };
+  }
+}
 
 interface TestResult {
   testCase: OxidationTestCase;
@@ -23,6 +58,8 @@ interface TestResult {
   confidence: string;
   explanation: string;
   thresholdWarnings: string[];
+  subPatterns: EckSubPattern[];
+  subPatternExplanation: string;
   ratios: {
     caK: number;
     naK: number;
@@ -39,25 +76,76 @@ export default function OxidationValidation() {
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const [filterType, setFilterType] = useState<string>("all");
   const [showOnlyFailures, setShowOnlyFailures] = useState(false);
+  // Starts on the version the app's analyses use
+  const [selectedVersionId, setSelectedVersionId] = useState<string>(
+    () => getActiveReferenceRangeVersion().version
+  );
+  const [customVersionJson, setCustomVersionJson] = useState("");
+  const [customVersionError, setCustomVersionError] = useState<string | null>(
+    null
+  );
+  const [rangeVersion, setRangeVersion] = useState<ReferenceRangeVersion>(
+    getActiveReferenceRangeVersion
+  );
 
   useEffect(() => {
     runTests();
-  }, []);
+  }, [rangeVersion]);
+
+  const handleVersionChange = (versionId: string) => {
+    setSelectedVersionId(versionId);
+    if (versionId === CUSTOM_VERSION) return;
+    const builtIn = BUILT_IN_REFERENCE_RANGE_VERSIONS.find(
+      (v) => v.version === versionId
+    );
+    if (builtIn) setRangeVersion(builtIn);
+  };
+
+  const handleLoadCustomVersion = () => {
+    const result = parseCustomVersion(customVersionJson);
+    if ("error" in result) {
+      setCustomVersionError(result.error);
+      return;
+    }
+    setCustomVersionError(null);
+    setRangeVersion(result.version);
+  };
+
+  const thresholds = getOxidationThresholds(rangeVersion);
 
   const runTests = () => {
     const results: TestResult[] = [];
 
     OXIDATION_TEST_CASES.forEach((testCase) => {
       try {
-        const classification = classifyOxidation(testCase.mineralValues);
+        const classification = classifyOxidationWithEck(
+          testCase.mineralValues,
+          rangeVersion
+        );
+        const { eckSubClassification } = classification;
+        const subPatterns = eckSubClassification.subPatterns.map(
+          (m) => m.pattern
+        );
+
+        // Sub-patterns are compared as sets, only for cases that expect them
+        const subPatternsMatch =
+          !testCase.expectedSubPatterns ||
+          (testCase.expectedSubPatterns.length === subPatterns.length &&
+            testCase.expectedSubPatterns.every((p) => subPatterns.includes(p)));
 
         results.push({
           testCase,
           actualType: classification.type,
-          passed: classification.type === testCase.expectedType,
+          passed:
+            classification.type === testCase.expectedType && subPatternsMatch,
           confidence: classification.confidence,
           explanation: classification.explanation,
-          thresholdWarnings: classification.thresholdWarnings,
+          thresholdWarnings: [
+            ...classification.thresholdWarnings,
+            ...eckSubClassification.thresholdWarnings,
+          ],
+          subPatterns,
+          subPatternExplanation: eckSubClassification.explanation,
           ratios: classification.metadata.ratioValues,
           ratioSignals: {
             caK: classification.indicators.ratioSignals.caK,
@@ -100,7 +188,8 @@ export default function OxidationValidation() {
       <div className="validation-header">
         <h1>🧪 Oxidation Classification Validation</h1>
         <p className="subtitle">
-          Regression test suite for oxidation type calibration (v1.0.1)
+          Regression test suite for oxidation type and Eck sub-pattern
+          calibration (v1.1.0)
         </p>
       </div>
 
@@ -140,6 +229,54 @@ export default function OxidationValidation() {
         />
       </div>
 
+      {/* Reference Range Version */}
+      <div className="version-section">
+        <div className="filter-group">
+          <label>Reference Range Version:</label>
+          <select
+            value={selectedVersionId}
+            onChange={(e) => handleVersionChange(e.target.value)}
+          >
+            {BUILT_IN_REFERENCE_RANGE_VERSIONS.map((v) => (
+              <option key={v.version} value={v.version}>
+                {formatVersionDisplay(v)}
+              </option>
+            ))}
+            <option value={CUSTOM_VERSION}>Custom (paste JSON)</option>
+          </select>
+        </div>
+
+        {selectedVersionId === CUSTOM_VERSION && (
+          <div className="custom-version">
+            <textarea
+              value={customVersionJson}
+              onChange={(e) => setCustomVersionJson(e.target.value)}
+              placeholder="Paste a ReferenceRangeVersion as JSON"
+              rows={6}
+            />
+            <button className="btn-rerun" onClick={handleLoadCustomVersion}>
+              Load Version
+            </button>
+            {customVersionError && (
+              <p className="custom-version-error">{customVersionError}</p>
+            )}
+          </div>
+        )}
+
+        <p className="thresholds-in-use">
+          Running against v{rangeVersion.version}
+          {!rangeVersion.oxidationThresholds &&
+            " (oxidation thresholds derived from mineral ranges)"}
+          : Ca {thresholds.minerals.Ca.low}-{thresholds.minerals.Ca.high}, Mg{" "}
+          {thresholds.minerals.Mg.low}-{thresholds.minerals.Mg.high}, Na{" "}
+          {thresholds.minerals.Na.low}-{thresholds.minerals.Na.high}, K{" "}
+          {thresholds.minerals.K.low}-{thresholds.minerals.K.high} • Ca/K{" "}
+          {thresholds.ratios.caK.fast}-{thresholds.ratios.caK.slow}, Na/K{" "}
+          {thresholds.ratios.naK.slow}-{thresholds.ratios.naK.fast}, Ca/Mg{" "}
+          {thresholds.ratios.caMg.fast}-{thresholds.ratios.caMg.slow}
+        </p>
+      </div>
+
       {/* Filters */}
       <div className="filters-section">
         <div className="filter-group">
@@ -274,6 +411,28 @@ export default function OxidationValidation() {
                 <p className="explanation">{result.explanation}</p>
               </div>
 
+              {/* Eck Sub-Patterns */}
+              <div className="test-section">
+                <h4>Eck Sub-Patterns</h4>
+                {result.testCase.expectedSubPatterns && (
+                  <p className="sub-patterns">
+                    <span className="label">Expected:</span>{" "}
+                    {result.testCase.expectedSubPatterns.length > 0
+                      ? result.testCase.expectedSubPatterns
+                          .map(getEckSubPatternLabel)
+                          .join(", ")
+                      : "None"}
+                  </p>
+                )}
+                <p className="sub-patterns">
+                  <span className="label">Actual:</span>{" "}
+                  {result.subPatterns.length > 0
+                    ? result.subPatterns.map(getEckSubPatternLabel).join(", ")
+                    : "None"}
+                </p>
+                <p className="explanation">{result.subPatternExplanation}</p>
+              </div>
+
               {/* Threshold Warnings */}
               {result.thresholdWarnings.length > 0 && (
                 <div className="test-section warnings">
@@ -385,6 +544,47 @@ export default function OxidationValidation() {
           flex-wrap: wrap;
         }
 
+        .version-section {
+          background: white;
+          padding: 1rem;
+          border-radius: 0.5rem;
+          box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+          margin-bottom: 1rem;
+        }
+
+        .custom-version {
+          display: flex;
+          flex-direction: column;
+          align-items: flex-start;
+          gap: 0.5rem;
+          margin-top: 0.75rem;
+        }
+
+        .custom-version textarea {
+          width: 100%;
+          font-family: monospace;
+          font-size: 0.75rem;
+          padding: 0.5rem;
+          border: 1px solid #d1d5db;
+          border-radius: 0.375rem;
+        }
+
+        .custom-version .btn-rerun {
+          margin-left: 0;
+        }
+
+        .custom-version-error {
+          margin: 0;
+          color: #dc2626;
+          font-size: 0.8rem;
+        }
+
+        .thresholds-in-use {
+          margin: 0.75rem 0 0 0;
+          font-size: 0.8rem;
+          color: #6b7280;
+        }
+
         .filter-group {
           display: flex;
           align-items: center;
@@ -543,6 +743,16 @@ export default function OxidationValidation() {
           font-size: 0.75rem;
         }
 
+        .sub-patterns {
+          font-size: 0.875rem;
+          color: #374151;
+          margin: 0 0 0.5rem 0;
+        }
+
+        .sub-patterns .label {
+          font-weight: 600;
+        }
+
         .explanation {
           font-size: 0.875rem;
           color: #374151;
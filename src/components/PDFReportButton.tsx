@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { MineralData } from "./HTMAInputForm";
+import { MineralData } from "../lib/mineralModel";
 import { generateHTMAPDFReport } from "../lib/pdfGenerator";
 import { createReportSnapshot } from "../lib/createReportSnapshot";
 import { createAuditEvent, logAuditEvent } from "../lib/auditEvent";
@@ -9,10 +9,16 @@ import { ChangeFocusSummary } from "../lib/changeCoachingEngine";
 import { TrendExplanation } from "../lib/trendExplainer";
 import { OxidationClassification } from "../lib/oxidationClassification";
 import { PractitionerAnnotation } from "../lib/reportSnapshot";
+import { PractitionerRuleMatch } from "../lib/practitionerRuleEngine";
+import { MineralUnit, CANONICAL_UNIT } from "../lib/unitConversion";
+import { getActiveReferenceRangeVersion } from "../lib/rangeVersionEngine";
+import { GuardrailsPolicy } from "../lib/interpretationGuardrails";
 import { toast } from "sonner";
 
 interface PDFReportButtonProps {
   mineralData: MineralData;
+  /** Unit the values were entered in (mineralData itself is mg%) */
+  inputUnit?: MineralUnit;
   insights: string;
   isPractitionerMode?: boolean;
   healthScore?: HealthScoreBreakdown | null;
@@ -22,11 +28,15 @@ interface PDFReportButtonProps {
   oxidationClassification?: OxidationClassification | null;
   currentAnalysisId?: string | null;
   practitionerAnnotations?: ReadonlyArray<PractitionerAnnotation>;
+  practitionerRuleMatches?: ReadonlyArray<PractitionerRuleMatch>;
+  /** Active guardrails policy; stored on the snapshot (default built-in) */
+  guardrailsPolicy?: GuardrailsPolicy;
   onPdfGenerated?: () => void;
 }
 
 export default function PDFReportButton({
   mineralData,
+  inputUnit = CANONICAL_UNIT,
   insights,
   isPractitionerMode = false,
   healthScore = null,
@@ -36,6 +46,8 @@ export default function PDFReportButton({
   oxidationClassification = null,
   currentAnalysisId = null, // eslint-disable-line @typescript-eslint/no-unused-vars
   practitionerAnnotations = [],
+  practitionerRuleMatches = [],
+  guardrailsPolicy,
   onPdfGenerated,
 }: PDFReportButtonProps) {
   const [isGenerating, setIsGenerating] = useState(false);
@@ -51,6 +63,8 @@ export default function PDFReportButton({
       // Create immutable snapshot at generation time
       const snapshot = createReportSnapshot({
         mineralData,
+        inputUnit,
+        rangeVersion: getActiveReferenceRangeVersion(),
         aiInsights: insights,
         isPractitionerMode,
         patientName: patientName || undefined,
@@ -64,6 +78,11 @@ export default function PDFReportButton({
           practitionerAnnotations.length > 0
             ? [...practitionerAnnotations]
             : undefined,
+        practitionerRuleMatches:
+          practitionerRuleMatches.length > 0
+            ? [...practitionerRuleMatches]
+            : undefined,
+        guardrailsPolicy,
       });
 
       // Create audit event for PDF generation
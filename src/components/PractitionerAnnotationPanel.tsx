@@ -29,6 +29,7 @@ import {
   getTargetDisplayName,
   validateAnnotationContent,
 } from "../lib/annotationEngine";
+import { redactPHI, describePHIRedaction } from "../lib/phiRedaction";
 
 interface PractitionerAnnotationPanelProps {
   annotations: ReadonlyArray<PractitionerAnnotation>;
@@ -59,6 +60,7 @@ export default function PractitionerAnnotationPanel({
   >(undefined);
   const [formVisibleToClient, setFormVisibleToClient] = useState(false);
   const [formError, setFormError] = useState<string | undefined>(undefined);
+  const [redactionNotice, setRedactionNotice] = useState<string | null>(null);
 
   // Default targets if not provided
   const targets = availableTargets || [
@@ -101,12 +103,17 @@ export default function PractitionerAnnotationPanel({
       return;
     }
 
+    // Annotations travel into snapshots and PDFs; strip client identifiers
+    const redaction = redactPHI(formContent);
+    const content = redaction.text;
+    setRedactionNotice(describePHIRedaction(redaction.report));
+
     if (editingId) {
       // Update existing annotation
       const existing = annotations.find((a) => a.id === editingId);
       if (existing) {
         const updated = updateAnnotation(existing, {
-          content: formContent,
+          content,
           overrideStatus: formOverrideStatus,
           visibleToClient: formVisibleToClient,
         });
@@ -120,7 +127,7 @@ export default function PractitionerAnnotationPanel({
       const newAnnotation = createAnnotation({
         type: formType,
         target: formTarget,
-        content: formContent,
+        content,
         overrideStatus: formOverrideStatus,
         practitionerId,
         practitionerName,
@@ -180,6 +187,10 @@ export default function PractitionerAnnotationPanel({
         </div>
       </div>
 
+      {redactionNotice && (
+        <div className="redaction-notice">🔒 {redactionNotice}</div>
+      )}
+
       {/* Add New Button */}
       {!isAdding && !editingId && (
         <button className="btn-add-annotation" onClick={handleAddNew}>
@@ -506,6 +517,16 @@ export default function PractitionerAnnotationPanel({
           font-size: 0.8125rem;
         }
 
+        .redaction-notice {
+          margin-bottom: 1rem;
+          padding: 0.5rem 0.75rem;
+          background: #fffbeb;
+          border: 1px solid #fde68a;
+          border-radius: 6px;
+          color: #92400e;
+          font-size: 0.8125rem;
+        }
+
         .checkbox-label {
           display: flex;
           align-items: center;
@@ -4,6 +4,7 @@ import { getFirebaseDb } from "../lib/firebase";
 import { useAuth } from "../contexts/AuthContext";
 import { INTERPRETATION_GUARDRAILS_VERSION } from "../lib/interpretationGuardrails";
 import { HEALTH_SCORE_SEMANTICS_VERSION } from "../lib/healthScoreSemantics";
+import { redactPHI, describePHIRedaction } from "../lib/phiRedaction";
 
 export type FeedbackContext =
   | "health_score"
@@ -27,6 +28,7 @@ export default function PractitionerFeedbackInline({
   );
   const [comment, setComment] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [redactionNotice, setRedactionNotice] = useState<string | null>(null);
 
   const handleSentimentClick = async (
     selectedSentiment: "positive" | "negative"
@@ -74,11 +76,21 @@ export default function PractitionerFeedbackInline({
         return;
       }
 
+      // Client identifiers never reach Firestore
+      const redaction = redactPHI(comment.trim());
+      if (redaction.report.redactedCount > 0) {
+        setComment(redaction.text);
+      }
+      setRedactionNotice(describePHIRedaction(redaction.report));
+
       await addDoc(collection(db, "practitionerFeedback"), {
         analysisId,
         context,
         sentiment,
-        comment: comment.trim(),
+        comment: redaction.text,
+        ...(redaction.report.redactedCount > 0 && {
+          phiRedaction: redaction.report,
+        }),
         metadata: {
           guardrailsVersion: INTERPRETATION_GUARDRAILS_VERSION,
           semanticsVersion: HEALTH_SCORE_SEMANTICS_VERSION,
@@ -135,6 +147,10 @@ export default function PractitionerFeedbackInline({
         />
       )}
 
+      {redactionNotice && (
+        <p className="redaction-notice">🔒 {redactionNotice}</p>
+      )}
+
       <style jsx>{`
         .practitioner-feedback-inline {
           margin-top: 0.5rem;
@@ -190,6 +206,12 @@ export default function PractitionerFeedbackInline({
         .feedback-comment:focus {
           border-bottom-color: #d1d5db;
         }
+
+        .redaction-notice {
+          font-size: 0.7rem;
+          color: #92400e;
+          margin: 0.25rem 0 0 0;
+        }
       `}</style>
     </div>
   );
@@ -1,10 +1,34 @@
 import { useState } from "react";
-import { MineralData } from "./HTMAInputForm";
+import {
+  MineralData,
+  MineralValue,
+  toMeasuredSymbolValues,
+} from "../lib/mineralModel";
 import { getECKNineRulesForUI } from "../lib/eckInterpretationPrinciples";
+import {
+  calculateAllRatios,
+  withToxicElementValues,
+} from "../lib/ratioEngine";
+import {
+  SECONDARY_RATIO_REFERENCES,
+  formatRatioIdealRange,
+} from "../lib/htmaConstants";
+import { ToxicElement } from "../lib/reportSnapshot";
+import { PractitionerRuleMatch } from "../lib/practitionerRuleEngine";
+import {
+  ConsistencyReport,
+  describeConsistencyConflict,
+} from "../lib/aiConsistencyChecker";
 
 interface PractitionerPanelProps {
   mineralData: MineralData;
   insights?: string;
+  /** Toxic elements, needed for the toxic-to-protective secondary ratios */
+  toxicElements?: ReadonlyArray<ToxicElement>;
+  /** Matches from the practitioner's own pattern rules */
+  ruleMatches?: ReadonlyArray<PractitionerRuleMatch>;
+  /** AI statements checked against the computed results */
+  consistency?: ConsistencyReport;
 }
 
 interface ReferenceRange {
@@ -25,6 +49,9 @@ interface Ratio {
 
 export default function PractitionerPanel({
   mineralData,
+  toxicElements,
+  ruleMatches = [],
+  consistency,
 }: PractitionerPanelProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [isPrinciplesExpanded, setIsPrinciplesExpanded] = useState(false);
@@ -33,7 +60,7 @@ export default function PractitionerPanel({
   const eckRules = getECKNineRulesForUI();
 
   // Parse mineral values
-  const getValue = (val: string): number => parseFloat(val) || 0;
+  const getValue = (val: MineralValue): number => val ?? 0;
 
   const ca = getValue(mineralData.calcium);
   const mg = getValue(mineralData.magnesium);
@@ -206,6 +233,14 @@ export default function PractitionerPanel({
     },
   ];
 
+  // Secondary ratios from the registry - display-only, never scored
+  const secondaryRatios = calculateAllRatios(
+    withToxicElementValues(toMeasuredSymbolValues(mineralData), toxicElements)
+  ).filter((ratio) => ratio.role === "display_only");
+  const unavailableSecondaryRatios = SECONDARY_RATIO_REFERENCES.filter(
+    (ref) => !secondaryRatios.some((ratio) => ratio.name === ref.name)
+  ).map((ref) => ref.name);
+
   // Extract AI factors (mock from ratios and minerals if not provided)
   const aiFactors = extractAIFactors(ratios, referenceRanges);
 
@@ -402,6 +437,65 @@ export default function PractitionerPanel({
             </div>
           </section>
 
+          {/* Secondary Ratios Section (Display-Only) */}
+          <section className="panel-section">
+            <h4>🧮 Secondary Ratios (Display-Only)</h4>
+            <p className="section-note">
+              Shown for context only. These ratios do not affect the health
+              score or AI analysis.
+            </p>
+            {secondaryRatios.length > 0 && (
+              <div className="table-container">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Ratio</th>
+                      <th>Calculated</th>
+                      <th>Ideal Range</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {secondaryRatios.map((ratio) => (
+                      <tr
+                        key={ratio.name}
+                        className={ratio.status !== "Optimal" ? "abnormal" : ""}
+                      >
+                        <td
+                          className="ratio-name"
+                          title={ratio.interpretationKey}
+                        >
+                          {ratio.name}
+                        </td>
+                        <td className="value">{ratio.value.toFixed(2)}</td>
+                        <td>
+                          {formatRatioIdealRange({
+                            minIdeal: ratio.idealMin,
+                            maxIdeal: ratio.idealMax,
+                            minimumOnly: ratio.minimumOnly,
+                          })}
+                        </td>
+                        <td>
+                          <span
+                            className={`status-badge ${ratio.status.toLowerCase()}`}
+                          >
+                            {ratio.status}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {unavailableSecondaryRatios.length > 0 && (
+              <p className="section-note">
+                Not calculated (element not measured):{" "}
+                {unavailableSecondaryRatios.join(", ")}
+              </p>
+            )}
+          </section>
+
           {/* Clinical Interpretations */}
           <section className="panel-section">
             <h4>🔬 Rule-Based Clinical Interpretation</h4>
@@ -434,6 +528,62 @@ export default function PractitionerPanel({
             </div>
           </section>
 
+          {/* Practitioner Pattern Rules */}
+          {ruleMatches.length > 0 && (
+            <section className="panel-section">
+              <h4>🧩 Practitioner Pattern Rules</h4>
+              <p className="section-note">
+                Your own rules that matched this analysis (rule set v
+                {ruleMatches[0].ruleSetVersion}). Each match adds to the
+                confidence score.
+              </p>
+              <div className="interpretations">
+                {ruleMatches.map((match) => (
+                  <div key={match.ruleId} className="interpretation-card rule">
+                    <div className="interpretation-header">
+                      <strong>{match.patternLabel}</strong>
+                      <span className="rule-name">{match.ruleName}</span>
+                    </div>
+                    <p className="interpretation-text">
+                      {match.evidence.join(" · ")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* AI vs Engine Conflicts */}
+          {consistency && consistency.conflicts.length > 0 && (
+            <section className="panel-section">
+              <h4>⚠️ AI vs Engine Conflicts</h4>
+              <p className="section-note">
+                {consistency.conflicts.length} of {consistency.checkedClaims}{" "}
+                checked AI claims contradict the calculated results
+                {consistency.resolution === "removed" &&
+                  "; these statements were removed from the client view"}
+                {consistency.resolution === "flagged" &&
+                  "; these statements carry a note with the calculated result"}
+                . Each conflict lowers the AI confidence score.
+              </p>
+              <div className="interpretations">
+                {consistency.conflicts.map((conflict, idx) => (
+                  <div key={idx} className="interpretation-card conflict">
+                    <div className="interpretation-header">
+                      <strong>{describeConsistencyConflict(conflict)}</strong>
+                      <span className="rule-name">
+                        {conflict.section} {conflict.itemIndex + 1}
+                      </span>
+                    </div>
+                    <p className="interpretation-text">
+                      &ldquo;{conflict.sentence}&rdquo;
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* AI Factors Used */}
           <section className="panel-section">
             <h4>🤖 AI Analysis Factors</h4>
@@ -572,6 +722,12 @@ export default function PractitionerPanel({
           font-weight: 600;
         }
 
+        .section-note {
+          margin: 0 0 0.75rem 0;
+          font-size: 0.85rem;
+          color: #6c757d;
+        }
+
         .table-container {
           overflow-x: auto;
         }
@@ -666,6 +822,19 @@ export default function PractitionerPanel({
           border-left-color: #28a745;
         }
 
+        .interpretation-card.rule {
+          border-left-color: #667eea;
+        }
+
+        .interpretation-card.conflict {
+          border-left-color: #dc3545;
+        }
+
+        .rule-name {
+          font-size: 0.8rem;
+          color: #6c757d;
+        }
+
         .interpretation-header {
           display: flex;
           justify-content: space-between;
@@ -10,6 +10,11 @@ import {
   OxidationType,
   getOxidationTypeLabel,
 } from "../lib/oxidationClassification";
+import {
+  MineralData,
+  getMineralValueBySymbol,
+  hasMineralValue,
+} from "../lib/mineralModel";
 
 interface Analysis {
   id: string;
@@ -19,7 +24,7 @@ interface Analysis {
     criticalIssues?: string[];
   };
   oxidationType?: OxidationType;
-  mineralData: any;
+  mineralData: MineralData;
 }
 
 interface ProgressHighlightsProps {
@@ -140,10 +145,20 @@ export default function ProgressHighlights({
     const minerals = ["Ca", "Mg", "Na", "K", "Fe", "Cu", "Zn", "P", "Se"];
 
     minerals.forEach((mineral) => {
-      const firstValue = firstAnalysis.mineralData?.[mineral];
-      const latestValue = latestAnalysis.mineralData?.[mineral];
-
-      if (firstValue !== undefined && latestValue !== undefined) {
+      const firstValue = getMineralValueBySymbol(
+        firstAnalysis.mineralData,
+        mineral
+      );
+      const latestValue = getMineralValueBySymbol(
+        latestAnalysis.mineralData,
+        mineral
+      );
+
+      if (
+        hasMineralValue(firstValue) &&
+        hasMineralValue(latestValue) &&
+        firstValue > 0
+      ) {
         const change = Math.abs(latestValue - firstValue);
         const percentChange = (change / firstValue) * 100;
 
@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { MineralData } from "./HTMAInputForm";
+import { MineralData, formatMineralValue } from "../lib/mineralModel";
 
 interface Analysis {
   id: string;
@@ -241,10 +241,10 @@ export default function SavedAnalyses({
               <span className="badge">View</span>
             </div>
             <div className="minerals-preview">
-              <span>Ca: {analysis.mineralData.calcium}</span>
-              <span>Mg: {analysis.mineralData.magnesium}</span>
-              <span>Na: {analysis.mineralData.sodium}</span>
-              <span>K: {analysis.mineralData.potassium}</span>
+              <span>Ca: {formatMineralValue(analysis.mineralData.calcium)}</span>
+              <span>Mg: {formatMineralValue(analysis.mineralData.magnesium)}</span>
+              <span>Na: {formatMineralValue(analysis.mineralData.sodium)}</span>
+              <span>K: {formatMineralValue(analysis.mineralData.potassium)}</span>
             </div>
           </div>
         ))}
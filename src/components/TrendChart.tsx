@@ -9,6 +9,11 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { SHORT_DISCLAIMER } from "../lib/healthScoreSemantics";
+import {
+  MineralData,
+  MineralName,
+  hasMineralValue,
+} from "../lib/mineralModel";
 
 interface Analysis {
   id: string;
@@ -16,13 +21,7 @@ interface Analysis {
   healthScore?: {
     totalScore: number;
   };
-  mineralData: {
-    calcium: string;
-    magnesium: string;
-    sodium: string;
-    potassium: string;
-    [key: string]: string;
-  };
+  mineralData: MineralData;
 }
 
 interface TrendChartProps {
@@ -92,9 +91,9 @@ export default function TrendChart({
     };
 
     // Add selected mineral if specified
-    if (selectedMineral && analysis.mineralData[selectedMineral]) {
-      dataPoint[selectedMineral] =
-        parseFloat(analysis.mineralData[selectedMineral]) || 0;
+    if (selectedMineral) {
+      const value = analysis.mineralData[selectedMineral as MineralName];
+      if (hasMineralValue(value)) dataPoint[selectedMineral] = value;
     }
 
     return dataPoint;
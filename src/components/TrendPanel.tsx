@@ -5,19 +5,102 @@
  * Shows overall patterns, mineral trends, and key insights.
  */
 
-import { TrendExplanation } from "../lib/trendExplainer";
+import {
+  SeriesTrend,
+  TrendExplanation,
+  RatioTrendDirection,
+  OxidationTransitionOutcome,
+  formatTrendRate,
+} from "../lib/trendExplainer";
+import { getOxidationTypeLabel } from "../lib/oxidationClassification";
 
 type Props = {
   trendAnalysis: TrendExplanation;
   isPractitionerMode?: boolean;
 };
 
+const RATIO_DIRECTION_LABELS: Record<RatioTrendDirection, string> = {
+  toward_ideal: "Toward ideal",
+  away_from_ideal: "Away from ideal",
+  holding_in_ideal: "Holding in ideal",
+  stable: "No clear movement",
+};
+
+const TRANSITION_OUTCOME_LABELS: Record<OxidationTransitionOutcome, string> = {
+  lasting: "Lasting",
+  reversed: "Reversed",
+  unconfirmed: "Awaiting follow-up",
+};
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 10;
+
+/**
+ * SVG geometry for observed scores, the fitted line and the 95% band at the
+ * next expected test. x is scaled by date, y by score (0-100).
+ */
+function buildProjectionGeometry(series: SeriesTrend) {
+  const firstTime = new Date(series.observations[0].date).getTime();
+  const lastTime = new Date(
+    series.observations[series.observations.length - 1].date
+  ).getTime();
+  const nextTime = new Date(series.projection.date).getTime();
+  const span = nextTime - firstTime || 1;
+
+  const x = (time: number) =>
+    CHART_PADDING +
+    ((time - firstTime) / span) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (score: number) =>
+    CHART_HEIGHT -
+    CHART_PADDING -
+    (score / 100) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+  const msPerDay = 1000 * 60 * 60 * 24;
+  const fittedAt = (time: number) =>
+    series.fit.intercept +
+    series.fit.slopePerDay * ((time - firstTime) / msPerDay);
+  const lastFitted = Math.min(100, Math.max(0, fittedAt(lastTime)));
+
+  return {
+    points: series.observations.map((o) => ({
+      cx: x(new Date(o.date).getTime()),
+      cy: y(o.value),
+    })),
+    fittedLine: {
+      x1: x(firstTime),
+      y1: y(Math.min(100, Math.max(0, fittedAt(firstTime)))),
+      x2: x(lastTime),
+      y2: y(lastFitted),
+    },
+    projectionLine: {
+      x1: x(lastTime),
+      y1: y(lastFitted),
+      x2: x(nextTime),
+      y2: y(series.projection.predicted),
+    },
+    band: `M ${x(lastTime)},${y(lastFitted)} L ${x(nextTime)},${y(
+      series.projection.upper
+    )} L ${x(nextTime)},${y(series.projection.lower)} Z`,
+  };
+}
+
 export default function TrendPanel({
   trendAnalysis,
   isPractitionerMode = false,
 }: Props) {
-  const { overall, headline, summary, keyInsights, mineralTrends, timespan } =
-    trendAnalysis;
+  const {
+    overall,
+    headline,
+    summary,
+    keyInsights,
+    mineralTrends,
+    timespan,
+    scoreTrend,
+    ratioTrends,
+    oxidationTrajectory,
+  } = trendAnalysis;
+  const projection = scoreTrend ? buildProjectionGeometry(scoreTrend) : null;
 
   // Direction styling
   const getDirectionColor = (direction: string) => {
@@ -106,6 +189,63 @@ export default function TrendPanel({
           </div>
         </div>
 
+        {/* Score Trend & Projection */}
+        {scoreTrend && projection && (
+          <div className="projection-chart">
+            <h5>Score Trend &amp; Next-Test Projection</h5>
+            <svg
+              width="100%"
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              className="projection-svg"
+            >
+              <path
+                d={projection.band}
+                fill="#f59e0b"
+                fillOpacity="0.2"
+                stroke="#f59e0b"
+                strokeOpacity="0.4"
+              />
+              <line
+                {...projection.fittedLine}
+                stroke="#92400e"
+                strokeWidth="1.5"
+              />
+              <line
+                {...projection.projectionLine}
+                stroke="#92400e"
+                strokeWidth="1.5"
+                strokeDasharray="4,3"
+              />
+              {projection.points.map((p, i) => (
+                <circle
+                  key={i}
+                  cx={p.cx}
+                  cy={p.cy}
+                  r="3"
+                  fill="#1f2937"
+                  stroke="white"
+                  strokeWidth="1"
+                />
+              ))}
+            </svg>
+            <div className="projection-stats">
+              <span>
+                Fitted rate: {formatTrendRate(scoreTrend.fit)} points / 30 days
+              </span>
+              <span>
+                Next test (
+                {new Date(scoreTrend.projection.date).toLocaleDateString()}):{" "}
+                {scoreTrend.projection.lower.toFixed(0)}–
+                {scoreTrend.projection.upper.toFixed(0)}
+              </span>
+            </div>
+            <p className="projection-note">
+              Shaded band is the 95% statistical range for the next test if
+              the past pattern continued. It is not a prediction of outcome.
+            </p>
+          </div>
+        )}
+
         {/* Summary */}
         <div className="trend-summary">
           <p>{summary}</p>
@@ -150,6 +290,74 @@ export default function TrendPanel({
           </div>
         )}
 
+        {/* Ratio Trends */}
+        {ratioTrends && ratioTrends.length > 0 && (
+          <div className="mineral-trends">
+            <h5>Ratio Trends</h5>
+            <div className="trends-list">
+              {ratioTrends.map((trend) => (
+                <div key={trend.ratio} className="trend-item">
+                  <div className="trend-header">
+                    <span className="mineral-name">{trend.ratio}</span>
+                    <span
+                      className={`trend-direction ratio-${trend.direction}`}
+                    >
+                      {RATIO_DIRECTION_LABELS[trend.direction]}
+                    </span>
+                  </div>
+                  <div className="trend-note">{trend.note}</div>
+                  {isPractitionerMode && trend.fit && (
+                    <div className="trend-pattern">
+                      Rate per 30 days (95%): {formatTrendRate(trend.fit, 2)} ·
+                      R² {trend.fit.rSquared.toFixed(2)}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Oxidation Pattern Sequence */}
+        {oxidationTrajectory && (
+          <div className="mineral-trends">
+            <h5>Oxidation Pattern Sequence</h5>
+            <div className="oxidation-sequence">
+              {oxidationTrajectory.sequence.map((entry, i) => (
+                <span key={i} className="sequence-step">
+                  {i > 0 && <span className="sequence-arrow">→</span>}
+                  <span
+                    className={`sequence-type type-${entry.type}`}
+                    title={new Date(entry.date).toLocaleDateString()}
+                  >
+                    {getOxidationTypeLabel(entry.type)}
+                  </span>
+                </span>
+              ))}
+            </div>
+            <div className="trend-note">
+              {oxidationTrajectory.note}
+            </div>
+            {isPractitionerMode &&
+              oxidationTrajectory.transitions.length > 0 && (
+                <ul className="transition-list">
+                  {oxidationTrajectory.transitions.map((t, i) => (
+                    <li key={i}>
+                      {new Date(t.toDate).toLocaleDateString()}:{" "}
+                      {getOxidationTypeLabel(t.from)} →{" "}
+                      {getOxidationTypeLabel(t.to)}{" "}
+                      <span className={`outcome-tag outcome-${t.outcome}`}>
+                        {TRANSITION_OUTCOME_LABELS[t.outcome]}
+                      </span>
+                      {t.isMilestone && " · milestone"}
+                      {t.withinNoise && " · within lab variation"}
+                    </li>
+                  ))}
+                </ul>
+              )}
+          </div>
+        )}
+
         {/* Practitioner Mode: Extended Data */}
         {isPractitionerMode && (
           <details className="practitioner-details">
@@ -177,6 +385,33 @@ export default function TrendPanel({
                   {overall.avgChangePerPeriod} points
                 </span>
               </div>
+              {scoreTrend && (
+                <>
+                  <div className="detail-row">
+                    <strong>Slope (points/day):</strong>
+                    <span>
+                      {scoreTrend.fit.slopePerDay.toFixed(3)} ± SE{" "}
+                      {scoreTrend.fit.slopeStandardError.toFixed(3)}
+                    </span>
+                  </div>
+                  <div className="detail-row">
+                    <strong>Fit (R² / df):</strong>
+                    <span>
+                      {scoreTrend.fit.rSquared.toFixed(2)} /{" "}
+                      {scoreTrend.fit.degreesOfFreedom}
+                    </span>
+                  </div>
+                  <div className="detail-row">
+                    <strong>Projected Score:</strong>
+                    <span>
+                      {scoreTrend.projection.predicted.toFixed(1)} (95%{" "}
+                      {scoreTrend.projection.lower.toFixed(1)}–
+                      {scoreTrend.projection.upper.toFixed(1)}) in{" "}
+                      {scoreTrend.projection.daysFromLast} days
+                    </span>
+                  </div>
+                </>
+              )}
               <div className="detail-row">
                 <strong>Engine Version:</strong>
                 <span>{trendAnalysis.engine.version}</span>
@@ -266,6 +501,44 @@ export default function TrendPanel({
           color: #1f2937;
         }
 
+        .projection-chart {
+          padding: 1rem;
+          background: white;
+          border-radius: 8px;
+        }
+
+        .projection-chart h5 {
+          margin: 0 0 0.75rem 0;
+          font-size: 1rem;
+          font-weight: 700;
+          color: #78350f;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+        }
+
+        .projection-svg {
+          display: block;
+          max-width: 480px;
+          height: auto;
+        }
+
+        .projection-stats {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem 1.5rem;
+          margin-top: 0.5rem;
+          font-size: 0.9rem;
+          font-weight: 600;
+          color: #1f2937;
+        }
+
+        .projection-note {
+          margin: 0.5rem 0 0 0;
+          font-size: 0.8rem;
+          color: #94a3b8;
+          font-style: italic;
+        }
+
         .trend-summary {
           padding: 1rem;
           background: white;
@@ -369,6 +642,100 @@ export default function TrendPanel({
           color: #92400e;
         }
 
+        .ratio-toward_ideal,
+        .ratio-holding_in_ideal {
+          background: #d1fae5;
+          color: #065f46;
+        }
+
+        .ratio-away_from_ideal {
+          background: #fee2e2;
+          color: #991b1b;
+        }
+
+        .ratio-stable {
+          background: #e5e7eb;
+          color: #374151;
+        }
+
+        .oxidation-sequence {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 0.25rem;
+          margin-bottom: 0.75rem;
+        }
+
+        .sequence-step {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.25rem;
+        }
+
+        .sequence-arrow {
+          color: #94a3b8;
+        }
+
+        .sequence-type {
+          padding: 0.2rem 0.6rem;
+          border-radius: 4px;
+          font-size: 0.8rem;
+          font-weight: 600;
+          background: #e5e7eb;
+          color: #374151;
+        }
+
+        .type-fast {
+          background: #fee2e2;
+          color: #991b1b;
+        }
+
+        .type-slow {
+          background: #dbeafe;
+          color: #1e40af;
+        }
+
+        .type-balanced {
+          background: #d1fae5;
+          color: #065f46;
+        }
+
+        .type-mixed {
+          background: #fef3c7;
+          color: #92400e;
+        }
+
+        .transition-list {
+          margin: 0.75rem 0 0 0;
+          padding-left: 1.5rem;
+          font-size: 0.85rem;
+          color: #475569;
+          line-height: 1.6;
+        }
+
+        .outcome-tag {
+          padding: 0.1rem 0.4rem;
+          border-radius: 4px;
+          font-size: 0.7rem;
+          font-weight: 600;
+          text-transform: uppercase;
+        }
+
+        .outcome-lasting {
+          background: #d1fae5;
+          color: #065f46;
+        }
+
+        .outcome-reversed {
+          background: #fef3c7;
+          color: #92400e;
+        }
+
+        .outcome-unconfirmed {
+          background: #e5e7eb;
+          color: #374151;
+        }
+
         .trend-note {
           font-size: 0.9rem;
           color: #64748b;
@@ -453,6 +820,7 @@ export default function TrendPanel({
           }
 
           .overall-pattern,
+          .projection-chart,
           .trend-summary,
           .key-insights,
           .mineral-trends,
@@ -463,6 +831,8 @@ export default function TrendPanel({
           }
 
           .trend-summary p,
+          .projection-stats,
+          .transition-list,
           .key-insights li {
             color: #cbd5e1;
           }
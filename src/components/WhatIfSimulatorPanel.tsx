@@ -0,0 +1,543 @@
+/**
+ * What-If Simulator Panel
+ *
+ * Practitioner-mode panel for exploring "what if this mineral changed?".
+ * Each of the 15 minerals has a slider; every change re-runs the real
+ * engines against the client's baseline (see whatIfSimulator.ts).
+ *
+ * Projections are hypothetical and never replace the analysis. A scenario
+ * can be saved as a practitioner-only annotation.
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { MineralData, MINERAL_NAMES, MineralName } from "../lib/mineralModel";
+import { MINERAL_SYMBOLS, formatRatioIdealRange } from "../lib/htmaConstants";
+import { getOxidationTypeLabel } from "../lib/oxidationClassification";
+import { PractitionerAnnotation } from "../lib/reportSnapshot";
+import { createAnnotation } from "../lib/annotationEngine";
+import { getActiveReferenceRangeVersion } from "../lib/rangeVersionEngine";
+import {
+  simulateWhatIf,
+  getSimulatorBounds,
+  formatWhatIfScenario,
+  WHAT_IF_ANNOTATION_TARGET,
+} from "../lib/whatIfSimulator";
+
+interface WhatIfSimulatorPanelProps {
+  /** Client's real mineral values (mg%) */
+  baseline: MineralData;
+  practitionerId: string;
+  practitionerName: string;
+  /** Called with a practitioner-only annotation when a scenario is saved */
+  onSaveScenario: (annotation: PractitionerAnnotation) => void;
+}
+
+export default function WhatIfSimulatorPanel({
+  baseline,
+  practitionerId,
+  practitionerName,
+  onSaveScenario,
+}: WhatIfSimulatorPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [adjusted, setAdjusted] = useState<MineralData>(baseline);
+  const [scenarioName, setScenarioName] = useState("");
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  // A new analysis resets the simulator
+  useEffect(() => {
+    setAdjusted(baseline);
+    setSavedMessage(null);
+  }, [baseline]);
+
+  const simulation = useMemo(
+    () =>
+      simulateWhatIf(baseline, adjusted, getActiveReferenceRangeVersion()),
+    [baseline, adjusted]
+  );
+
+  const handleSliderChange = (mineral: MineralName, value: number) => {
+    setAdjusted((prev) => ({ ...prev, [mineral]: value }));
+    setSavedMessage(null);
+  };
+
+  const handleResetMineral = (mineral: MineralName) => {
+    setAdjusted((prev) => ({ ...prev, [mineral]: baseline[mineral] }));
+    setSavedMessage(null);
+  };
+
+  const handleResetAll = () => {
+    setAdjusted(baseline);
+    setSavedMessage(null);
+  };
+
+  const handleSaveScenario = () => {
+    const annotation = createAnnotation({
+      type: "general_note",
+      target: WHAT_IF_ANNOTATION_TARGET,
+      content: formatWhatIfScenario(
+        simulation,
+        scenarioName.trim() || undefined
+      ),
+      practitionerId,
+      practitionerName,
+      visibleToClient: false,
+    });
+    onSaveScenario(annotation);
+    setScenarioName("");
+    setSavedMessage("Scenario saved as a practitioner-only annotation");
+  };
+
+  const hasAdjustments = simulation.adjustments.length > 0;
+  const changedRatios = simulation.ratios.filter((r) => r.statusChanged);
+
+  return (
+    <div className="what-if-panel">
+      <div className="panel-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <div className="header-content">
+          <span className="header-icon">🎛️</span>
+          <h3>What-If Simulator</h3>
+        </div>
+        <button className="toggle-btn">{isExpanded ? "▼" : "▶"}</button>
+      </div>
+
+      {isExpanded && (
+        <div className="panel-body">
+          <p className="panel-intro">
+            Adjust minerals to see how the score, oxidation type and ratios
+            would respond. Projections are hypothetical and do not change this
+            analysis.
+          </p>
+
+          <div className="simulator-layout">
+            {/* Sliders */}
+            <div className="sliders">
+              {MINERAL_NAMES.map((mineral) => {
+                const base = baseline[mineral];
+                const current = adjusted[mineral];
+                const bounds = getSimulatorBounds(mineral, base);
+                const isChanged = current !== base;
+                return (
+                  <div
+                    key={mineral}
+                    className={`slider-row ${isChanged ? "changed" : ""}`}
+                  >
+                    <label htmlFor={`what-if-${mineral}`}>
+                      {MINERAL_SYMBOLS[mineral]}
+                    </label>
+                    <input
+                      id={`what-if-${mineral}`}
+                      type="range"
+                      min={bounds.min}
+                      max={bounds.max}
+                      step={bounds.step}
+                      value={current ?? 0}
+                      onChange={(e) =>
+                        handleSliderChange(mineral, Number(e.target.value))
+                      }
+                    />
+                    <span className="slider-value">
+                      {current === null ? "—" : Number(current.toFixed(4))}
+                    </span>
+                    <button
+                      className="btn-reset"
+                      onClick={() => handleResetMineral(mineral)}
+                      disabled={!isChanged}
+                      title={`Reset to baseline (${
+                        base === null ? "not measured" : base
+                      })`}
+                    >
+                      ↺
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                className="btn-reset-all"
+                onClick={handleResetAll}
+                disabled={!hasAdjustments}
+              >
+                Reset all to baseline
+              </button>
+            </div>
+
+            {/* Projection */}
+            <div className="projection">
+              <div className="projection-grid">
+                <div className="projection-card">
+                  <div className="projection-label">Projected Score</div>
+                  <div className="projection-value">
+                    {simulation.projectedScore.totalScore}
+                    <span
+                      className={`score-change ${
+                        simulation.scoreChange > 0
+                          ? "up"
+                          : simulation.scoreChange < 0
+                          ? "down"
+                          : ""
+                      }`}
+                    >
+                      {simulation.scoreChange > 0 ? "+" : ""}
+                      {simulation.scoreChange}
+                    </span>
+                  </div>
+                  <div className="projection-sub">
+                    Baseline {simulation.baselineScore.totalScore}
+                  </div>
+                </div>
+                <div className="projection-card">
+                  <div className="projection-label">Projected Grade</div>
+                  <div className="projection-value">
+                    {simulation.projectedScore.grade}
+                  </div>
+                  <div className="projection-sub">
+                    Baseline {simulation.baselineScore.grade}
+                  </div>
+                </div>
+                <div
+                  className={`projection-card ${
+                    simulation.oxidationChanged ? "highlight" : ""
+                  }`}
+                >
+                  <div className="projection-label">Oxidation Type</div>
+                  <div className="projection-value small">
+                    {simulation.projectedOxidation
+                      ? getOxidationTypeLabel(simulation.projectedOxidation.type)
+                      : "Not classified"}
+                  </div>
+                  <div className="projection-sub">
+                    Baseline{" "}
+                    {simulation.baselineOxidation
+                      ? getOxidationTypeLabel(simulation.baselineOxidation.type)
+                      : "not classified"}
+                  </div>
+                </div>
+              </div>
+
+              <div className="projection-section">
+                <h4>Drivers that changed</h4>
+                {simulation.changedDrivers.length > 0 ? (
+                  <ul className="driver-list">
+                    {simulation.changedDrivers.map((driver) => (
+                      <li
+                        key={`${driver.type}-${driver.key}`}
+                        className={`driver ${driver.direction}`}
+                      >
+                        <strong>{driver.key}</strong>: {driver.from} →{" "}
+                        {driver.to}
+                        <span className="driver-impact">
+                          {driver.impactPoints > 0 ? "+" : ""}
+                          {driver.impactPoints}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="empty-note">
+                    {hasAdjustments
+                      ? "No mineral, ratio or flag changed status."
+                      : "Move a slider to start a scenario."}
+                  </p>
+                )}
+              </div>
+
+              {changedRatios.length > 0 && (
+                <div className="projection-section">
+                  <h4>Ratio status changes</h4>
+                  <ul className="driver-list">
+                    {changedRatios.map((ratio) => (
+                      <li key={ratio.name}>
+                        <strong>{ratio.name}</strong>: {ratio.baseline.status}{" "}
+                        → {ratio.projected.status} (
+                        {ratio.projected.value.toFixed(2)}, ideal{" "}
+                        {formatRatioIdealRange({
+                          minIdeal: ratio.projected.idealMin,
+                          maxIdeal: ratio.projected.idealMax,
+                          minimumOnly: ratio.projected.minimumOnly,
+                        })}
+                        ){ratio.projected.role === "display_only" &&
+                          " · display-only"}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="save-scenario">
+                <input
+                  type="text"
+                  value={scenarioName}
+                  onChange={(e) => setScenarioName(e.target.value)}
+                  placeholder="Scenario name (optional)"
+                />
+                <button
+                  className="btn-save"
+                  onClick={handleSaveScenario}
+                  disabled={!hasAdjustments}
+                >
+                  Save scenario
+                </button>
+              </div>
+              {savedMessage && <p className="saved-message">{savedMessage}</p>}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <style jsx>{`
+        .what-if-panel {
+          background: #f8f9fa;
+          border: 2px solid #dee2e6;
+          border-radius: 8px;
+          margin-top: 2rem;
+          overflow: hidden;
+        }
+
+        .panel-header {
+          background: #e9ecef;
+          padding: 1rem 1.5rem;
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          cursor: pointer;
+        }
+
+        .header-content {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+        }
+
+        .header-icon {
+          font-size: 1.5rem;
+        }
+
+        h3 {
+          margin: 0;
+          font-size: 1.25rem;
+          color: #212529;
+        }
+
+        .toggle-btn {
+          background: none;
+          border: none;
+          font-size: 1.25rem;
+          cursor: pointer;
+          color: #495057;
+        }
+
+        .panel-body {
+          padding: 1.5rem;
+        }
+
+        .panel-intro {
+          margin: 0 0 1rem 0;
+          font-size: 0.9rem;
+          color: #6c757d;
+        }
+
+        .simulator-layout {
+          display: grid;
+          grid-template-columns: minmax(0, 1fr) minmax(0, 1fr);
+          gap: 1.5rem;
+        }
+
+        .slider-row {
+          display: grid;
+          grid-template-columns: 2.5rem 1fr 5rem 2rem;
+          align-items: center;
+          gap: 0.5rem;
+          padding: 0.25rem 0;
+        }
+
+        .slider-row label {
+          font-weight: 600;
+          color: #495057;
+        }
+
+        .slider-row.changed label,
+        .slider-row.changed .slider-value {
+          color: #667eea;
+        }
+
+        .slider-value {
+          font-family: monospace;
+          font-size: 0.85rem;
+          text-align: right;
+        }
+
+        .btn-reset,
+        .btn-reset-all,
+        .btn-save {
+          border: 1px solid #ced4da;
+          background: white;
+          border-radius: 4px;
+          cursor: pointer;
+        }
+
+        .btn-reset:disabled,
+        .btn-reset-all:disabled,
+        .btn-save:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .btn-reset-all {
+          margin-top: 0.75rem;
+          padding: 0.4rem 0.75rem;
+        }
+
+        .projection-grid {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: 0.75rem;
+        }
+
+        .projection-card {
+          background: white;
+          border: 1px solid #dee2e6;
+          border-radius: 6px;
+          padding: 0.75rem;
+          text-align: center;
+        }
+
+        .projection-card.highlight {
+          border-color: #667eea;
+        }
+
+        .projection-label {
+          font-size: 0.75rem;
+          text-transform: uppercase;
+          color: #6c757d;
+        }
+
+        .projection-value {
+          font-size: 1.5rem;
+          font-weight: 700;
+          color: #212529;
+        }
+
+        .projection-value.small {
+          font-size: 1rem;
+          padding: 0.3rem 0;
+        }
+
+        .score-change {
+          font-size: 0.9rem;
+          margin-left: 0.4rem;
+          color: #6c757d;
+        }
+
+        .score-change.up {
+          color: #28a745;
+        }
+
+        .score-change.down {
+          color: #dc3545;
+        }
+
+        .projection-sub {
+          font-size: 0.75rem;
+          color: #6c757d;
+        }
+
+        .projection-section {
+          margin-top: 1rem;
+        }
+
+        h4 {
+          margin: 0 0 0.5rem 0;
+          font-size: 1rem;
+          color: #495057;
+        }
+
+        .driver-list {
+          margin: 0;
+          padding-left: 1.25rem;
+          font-size: 0.85rem;
+        }
+
+        .driver.improved strong {
+          color: #28a745;
+        }
+
+        .driver.worsened strong {
+          color: #dc3545;
+        }
+
+        .driver-impact {
+          margin-left: 0.5rem;
+          color: #6c757d;
+          font-family: monospace;
+        }
+
+        .empty-note {
+          margin: 0;
+          font-size: 0.85rem;
+          color: #6c757d;
+        }
+
+        .save-scenario {
+          display: flex;
+          gap: 0.5rem;
+          margin-top: 1.25rem;
+        }
+
+        .save-scenario input {
+          flex: 1;
+          padding: 0.4rem 0.6rem;
+          border: 1px solid #ced4da;
+          border-radius: 4px;
+        }
+
+        .btn-save {
+          padding: 0.4rem 0.9rem;
+          background: #667eea;
+          border-color: #667eea;
+          color: white;
+        }
+
+        .saved-message {
+          margin: 0.5rem 0 0 0;
+          font-size: 0.8rem;
+          color: #28a745;
+        }
+
+        @media (max-width: 768px) {
+          .simulator-layout {
+            grid-template-columns: 1fr;
+          }
+
+          .projection-grid {
+            grid-template-columns: 1fr;
+          }
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .what-if-panel {
+            background: #1f2937;
+            border-color: #374151;
+          }
+
+          .panel-header {
+            background: #111827;
+          }
+
+          h3,
+          .projection-value {
+            color: #f9fafb;
+          }
+
+          h4,
+          .slider-row label {
+            color: #d1d5db;
+          }
+
+          .projection-card {
+            background: #111827;
+            border-color: #374151;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -5,17 +5,28 @@
  * Tied to locked health score semantics - no AI, no speculation, no diagnosis.
  */
 
-import { ScoreDeltaExplanation } from "../lib/scoreDeltaExplainer";
+import { ScoreDeltaExplanation, DeltaDriver } from "../lib/scoreDeltaExplainer";
 import { OxidationDelta } from "../lib/oxidationDeltaEngine";
+import { HealthScoreV2Delta } from "../lib/healthScoreV2";
+import { getChangeSignificanceLabel } from "../lib/referenceChangeValue";
 
 type Props = {
   delta: ScoreDeltaExplanation;
+  /** Graded-deviation (v2) score change, when stored with the analysis */
+  scoreDeltaV2?: HealthScoreV2Delta | null;
   oxidationDelta?: OxidationDelta | null;
   isPractitionerMode?: boolean;
 };
 
+const formatSigned = (value: number) => `${value > 0 ? "+" : ""}${value}`;
+
+/** Changes within lab variation are de-emphasized, not hidden */
+const driverItemClass = (d: DeltaDriver) =>
+  `driver-item ${d.significance === "within_noise" ? "within-noise" : ""}`;
+
 export default function WhyThisChangedPanel({
   delta,
+  scoreDeltaV2,
   oxidationDelta,
   isPractitionerMode = false,
 }: Props) {
@@ -40,6 +51,33 @@ export default function WhyThisChangedPanel({
         <p className="headline">{delta.headline}</p>
         <p className="summary">{delta.summary}</p>
 
+        {/* Each number is labeled with the semantics version that produced it */}
+        <ul className="score-versions">
+          <li className="score-version-item">
+            <span className="score-version-label">
+              Health Score (semantics v{delta.engine.semanticsVersion})
+            </span>
+            <span className="score-version-value">
+              {formatSigned(delta.delta)} points
+            </span>
+          </li>
+          {scoreDeltaV2 && (
+            <li className="score-version-item">
+              <span className="score-version-label">
+                Graded Health Score (semantics v{scoreDeltaV2.semanticsVersion})
+              </span>
+              <span className="score-version-value">
+                {scoreDeltaV2.previousScore} → {scoreDeltaV2.currentScore} (
+                {formatSigned(scoreDeltaV2.delta)})
+              </span>
+            </li>
+          )}
+        </ul>
+        <p className="score-version-note">
+          Point impacts below are Health Score points (semantics v
+          {delta.engine.semanticsVersion}).
+        </p>
+
         {/* Ratio Drivers Section (shown first if present, as they're 30% of score) */}
         {ratioDrivers.length > 0 && (
           <div className="driver-section">
@@ -48,7 +86,7 @@ export default function WhyThisChangedPanel({
             )}
             <ul className="drivers-list">
               {ratioDrivers.map((d, i) => (
-                <li key={`ratio-${i}`} className="driver-item">
+                <li key={`ratio-${i}`} className={driverItemClass(d)}>
                   <span className="driver-note">{d.note}</span>
                   <span
                     className={`driver-impact ${
@@ -72,7 +110,7 @@ export default function WhyThisChangedPanel({
             )}
             <ul className="drivers-list">
               {mineralDrivers.map((d, i) => (
-                <li key={`mineral-${i}`} className="driver-item">
+                <li key={`mineral-${i}`} className={driverItemClass(d)}>
                   <span className="driver-note">{d.note}</span>
                   <span
                     className={`driver-impact ${
@@ -127,6 +165,15 @@ export default function WhyThisChangedPanel({
                       <span className="driver-change">
                         {d.from} → {d.to}
                       </span>
+                      {d.significance && (
+                        <span
+                          className={`driver-significance ${d.significance}`}
+                        >
+                          {getChangeSignificanceLabel(d.significance)}
+                          {d.percentChange != null &&
+                            ` (${formatSigned(d.percentChange)}%)`}
+                        </span>
+                      )}
                     </div>
                     <div className="driver-info">
                       <span className="driver-note-detail">{d.note}</span>
@@ -152,6 +199,11 @@ export default function WhyThisChangedPanel({
               {oxidationDelta.patternChange.isMilestone && (
                 <span className="milestone-badge">🎯 MILESTONE</span>
               )}
+              {oxidationDelta.patternChange.withinNoise && (
+                <span className="noise-badge">
+                  {getChangeSignificanceLabel("within_noise")}
+                </span>
+              )}
               <span>🔄 Oxidation Pattern Change</span>
             </h4>
 
@@ -205,7 +257,14 @@ export default function WhyThisChangedPanel({
                   </summary>
                   <ul className="key-changes-list">
                     {oxidationDelta.keyChanges.map((change, i) => (
-                      <li key={i} className={`change-item ${change.impact}`}>
+                      <li
+                        key={i}
+                        className={`change-item ${change.impact} ${
+                          change.significance === "within_noise"
+                            ? "within-noise"
+                            : ""
+                        }`}
+                      >
                         <strong>{change.indicator}:</strong> {change.note}
                       </li>
                     ))}
@@ -219,6 +278,8 @@ export default function WhyThisChangedPanel({
         <p className="version-info">
           Health Score interpretation uses locked semantics (v
           {delta.engine.semanticsVersion})
+          {scoreDeltaV2 &&
+            `; Graded Health Score uses semantics v${scoreDeltaV2.semanticsVersion}`}
         </p>
       </div>
 
@@ -257,6 +318,41 @@ export default function WhyThisChangedPanel({
           line-height: 1.5;
         }
 
+        .score-versions {
+          list-style: none;
+          margin: 0.75rem 0 0 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 0.375rem;
+        }
+
+        .score-version-item {
+          display: flex;
+          justify-content: space-between;
+          gap: 1rem;
+          padding: 0.5rem 0.75rem;
+          background: #f9fafb;
+          border-radius: 6px;
+          font-size: 0.85rem;
+        }
+
+        .score-version-label {
+          color: #374151;
+        }
+
+        .score-version-value {
+          font-weight: 600;
+          color: #111827;
+          white-space: nowrap;
+        }
+
+        .score-version-note {
+          margin: 0.5rem 0 0 0;
+          font-size: 0.75rem;
+          color: #6b7280;
+        }
+
         .driver-section {
           margin-top: 1.5rem;
         }
@@ -294,6 +390,32 @@ export default function WhyThisChangedPanel({
           border-radius: 6px;
         }
 
+        .driver-item.within-noise,
+        .change-item.within-noise {
+          opacity: 0.55;
+        }
+
+        .driver-significance {
+          font-size: 0.7rem;
+          color: #6b7280;
+          font-style: italic;
+        }
+
+        .driver-significance.significant_change {
+          color: #4f46e5;
+          font-style: normal;
+          font-weight: 600;
+        }
+
+        .noise-badge {
+          font-size: 0.7rem;
+          padding: 0.15rem 0.5rem;
+          border-radius: 9999px;
+          background: #f3f4f6;
+          color: #6b7280;
+          font-weight: 500;
+        }
+
         .driver-note {
           flex: 1;
           color: #374151;
@@ -595,10 +717,19 @@ export default function WhyThisChangedPanel({
             color: #d1d5db;
           }
 
-          .driver-item {
+          .driver-item,
+          .score-version-item {
             background: #111827;
           }
 
+          .score-version-label {
+            color: #d1d5db;
+          }
+
+          .score-version-value {
+            color: #f9fafb;
+          }
+
           .driver-note,
           .driver-note-detail {
             color: #d1d5db;
@@ -1,6 +1,26 @@
 import { useState, useCallback, useEffect } from "react";
 import { chromeAI, ChromeAIAnalysisResult } from "../lib/chromeAI";
-import { MineralData } from "../components/HTMAInputForm";
+import { MineralData } from "../lib/mineralModel";
+import { MineralUnit, CANONICAL_UNIT } from "../lib/unitConversion";
+import {
+  AIResponse,
+  AIResponseContractResult,
+} from "../lib/aiResponseContract";
+import {
+  ConsistencyReport,
+  buildConsistencyReference,
+  checkTextConsistency,
+} from "../lib/aiConsistencyChecker";
+import {
+  AnalysisCacheInfo,
+  AnalysisResponseBody,
+  AnalysisSaveStatus,
+  StreamedSentence,
+  formatStreamedInsights,
+  parseSSEEvents,
+} from "../lib/analysisStream";
+import { GuardrailTransformation } from "../lib/interpretationGuardrails";
+import { getActiveReferenceRangeVersion } from "../lib/rangeVersionEngine";
 
 interface UseAIAnalysisOptions {
   preferChromeAI?: boolean;
@@ -14,13 +34,32 @@ interface AIAnalysisState {
   error: string | null;
   usingChromeAI: boolean;
   chromeAIAvailable: boolean;
+  /** Guarded insights/recommendations with evidence and targets (cloud only) */
+  structured?: AIResponse;
+  responseContract?: AIResponseContractResult;
+  /** AI claims that contradict computed results (on-device text is checked here) */
+  consistency?: ConsistencyReport;
+  /** Guardrail before/after log (on-device, or cloud in practitioner mode) */
+  guardrailTransformations?: GuardrailTransformation[];
+  /** Whether the server saved the analysis (streamed cloud analyses) */
+  saveStatus?: AnalysisSaveStatus;
   metadata?: {
+    /** AI provider that answered (aiProviders.ts id) */
     source: string;
     model: string;
     timestamp: string;
+    latencyMs?: number;
+    /** Server analysis cache status (cloud only) */
+    cache?: AnalysisCacheInfo;
   };
 }
 
+interface AnalyzeRequestOptions {
+  isPractitionerMode?: boolean;
+  /** Skip the server analysis cache (practitioner mode only) */
+  forceRegenerate?: boolean;
+}
+
 export function useAIAnalysis(options: UseAIAnalysisOptions = {}) {
   const {
     preferChromeAI = true,
@@ -46,12 +85,22 @@ export function useAIAnalysis(options: UseAIAnalysisOptions = {}) {
   }, [autoDetect]);
 
   const analyze = useCallback(
-    async (mineralData: MineralData, userId?: string) => {
+    async (
+      mineralData: MineralData,
+      userId?: string,
+      inputUnit: MineralUnit = CANONICAL_UNIT,
+      requestOptions: AnalyzeRequestOptions = {}
+    ) => {
       setState((prev) => ({
         ...prev,
         isLoading: true,
         error: null,
         insights: "",
+        structured: undefined,
+        responseContract: undefined,
+        consistency: undefined,
+        guardrailTransformations: undefined,
+        saveStatus: undefined,
       }));
 
       try {
@@ -72,7 +121,18 @@ export function useAIAnalysis(options: UseAIAnalysisOptions = {}) {
                 usingChromeAI: true,
               }));
             }
+            setState((prev) => ({
+              ...prev,
+              consistency: checkTextConsistency(
+                fullInsights,
+                buildConsistencyReference(
+                  mineralData,
+                  getActiveReferenceRangeVersion()
+                )
+              ),
+            }));
           } else {
+            const startedAt = Date.now();
             const result: ChromeAIAnalysisResult = await chromeAI.analyzeHTMA(
               mineralData
             );
@@ -80,10 +140,19 @@ export function useAIAnalysis(options: UseAIAnalysisOptions = {}) {
               ...prev,
               insights: result.insights,
               usingChromeAI: true,
+              consistency: checkTextConsistency(
+                result.insights,
+                buildConsistencyReference(
+                  mineralData,
+                  getActiveReferenceRangeVersion()
+                )
+              ),
+              guardrailTransformations: result.guardrails.transformations,
               metadata: {
                 source: result.source,
                 model: result.metadata.model,
                 timestamp: result.timestamp,
+                latencyMs: Date.now() - startedAt,
               },
             }));
           }
@@ -96,25 +165,83 @@ export function useAIAnalysis(options: UseAIAnalysisOptions = {}) {
         console.log("☁️ Using Cloud Gemini for analysis");
         setState((prev) => ({ ...prev, usingChromeAI: false }));
 
-        const response = await fetch("/api/analyze", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ mineralData, userId }),
-        });
+        const response = await fetch(
+          streamingEnabled ? "/api/analyze-stream" : "/api/analyze",
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              mineralData,
+              userId,
+              inputUnit,
+              ...requestOptions,
+            }),
+          }
+        );
 
         if (!response.ok) {
           throw new Error(`Analysis failed: ${response.statusText}`);
         }
 
-        const data = await response.json();
+        let data: AnalysisResponseBody;
+        if (streamingEnabled && response.body) {
+          // Show guarded sentences as they arrive; the final event replaces them
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = "";
+          let sentences: StreamedSentence[] = [];
+          let final: AnalysisResponseBody | null = null;
+
+          while (final === null) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            const parsed = parseSSEEvents(
+              buffer + decoder.decode(value, { stream: true })
+            );
+            buffer = parsed.rest;
+
+            for (const event of parsed.events) {
+              if (event.type === "sentence") {
+                sentences = [...sentences, event];
+              } else if (event.type === "restart") {
+                sentences = [];
+              } else if (event.type === "error") {
+                throw new Error(event.message);
+              } else if (event.type === "final") {
+                final = event.result;
+                const saveStatus = event.save;
+                setState((prev) => ({ ...prev, saveStatus }));
+              }
+            }
+
+            if (final === null) {
+              const streamedText = formatStreamedInsights(sentences);
+              setState((prev) => ({ ...prev, insights: streamedText }));
+            }
+          }
+
+          if (final === null) {
+            throw new Error("Analysis stream ended before the final result");
+          }
+          data = final;
+        } else {
+          data = await response.json();
+        }
+
         setState((prev) => ({
           ...prev,
           insights: data.insights,
+          structured: data.structured,
+          responseContract: data.responseContract,
+          consistency: data.consistency,
+          guardrailTransformations: data.guardrails?.transformations,
           isLoading: false,
           metadata: {
-            source: "gemini-cloud",
+            source: data.metadata?.aiProvider || "cloud-run",
             model: data.metadata?.aiModel || "Gemini 1.5 Pro",
             timestamp: data.timestamp,
+            latencyMs: data.metadata?.latencyMs,
+            cache: data.metadata?.cache,
           },
         }));
       } catch (err) {
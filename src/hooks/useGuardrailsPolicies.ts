@@ -0,0 +1,150 @@
+import { useState, useCallback, useEffect } from "react";
+import {
+  GuardrailsPolicy,
+  GuardrailsPolicyRules,
+} from "../lib/interpretationGuardrails";
+import {
+  GuardrailsPolicyAction,
+  GuardrailsPolicyPreview,
+  StoredGuardrailsPolicy,
+} from "../lib/guardrailsPolicy";
+import { getFirebaseAuth } from "../lib/firebase";
+
+interface GuardrailsPoliciesState {
+  isLoading: boolean;
+  error: string | null;
+  /** Policy applied to server analyses (built-in lists when none is stored) */
+  active: GuardrailsPolicy | null;
+  /** 0 = built-in lists */
+  activeNumber: number;
+  /** Stored policies, newest first */
+  versions: StoredGuardrailsPolicy[];
+}
+
+/**
+ * Guardrails Policies Hook
+ *
+ * Loads the stored guardrails policies and runs the review workflow:
+ * save a draft, preview it against recent analyses, approve, activate.
+ * Actions throw with the API error. Does nothing without a userId or when
+ * disabled.
+ */
+export function useGuardrailsPolicies(userId?: string, enabled = true) {
+  const [state, setState] = useState<GuardrailsPoliciesState>({
+    isLoading: false,
+    error: null,
+    active: null,
+    activeNumber: 0,
+    versions: [],
+  });
+
+  const reload = useCallback(async () => {
+    if (!userId || !enabled) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const params = new URLSearchParams({ userId });
+      const response = await fetch(`/api/get-guardrails-policies?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load guardrails policies");
+      }
+
+      setState({
+        isLoading: false,
+        error: null,
+        active: data.active,
+        activeNumber: data.activeNumber ?? 0,
+        versions: data.versions || [],
+      });
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+    }
+  }, [userId, enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const post = useCallback(
+    async (path: string, body: Record<string, unknown>) => {
+      if (!userId) throw new Error("Sign in to review guardrails");
+
+      // Saving and approving act as the token's user, not the body's userId
+      const token = await getFirebaseAuth()?.currentUser?.getIdToken();
+      const response = await fetch(path, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ userId, ...body }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error, ...(data.details || [])].filter(Boolean).join(": ")
+        );
+      }
+      return data;
+    },
+    [userId]
+  );
+
+  /**
+   * Save lists as a new draft, optionally accepting a suggestion
+   */
+  const saveDraft = useCallback(
+    async (
+      rules: GuardrailsPolicyRules,
+      options: { changeNote?: string; suggestionId?: string } = {}
+    ): Promise<StoredGuardrailsPolicy> => {
+      const data = await post("/api/save-guardrails-policy", {
+        rules,
+        basedOn: state.activeNumber,
+        changeNote: options.changeNote || undefined,
+        suggestionId: options.suggestionId,
+      });
+      await reload();
+      return data.policy;
+    },
+    [post, state.activeNumber, reload]
+  );
+
+  const transition = useCallback(
+    async (
+      number: number,
+      action: GuardrailsPolicyAction
+    ): Promise<StoredGuardrailsPolicy> => {
+      const data = await post("/api/update-guardrails-policy-status", {
+        number,
+        action,
+      });
+      await reload();
+      return data.policy;
+    },
+    [post, reload]
+  );
+
+  const preview = useCallback(
+    async (number: number): Promise<GuardrailsPolicyPreview> => {
+      const data = await post("/api/preview-guardrails-policy", { number });
+      return data.preview;
+    },
+    [post]
+  );
+
+  return {
+    ...state,
+    reload,
+    saveDraft,
+    transition,
+    preview,
+  };
+}
@@ -0,0 +1,102 @@
+import { useState, useCallback, useEffect } from "react";
+import {
+  PractitionerRule,
+  PractitionerRuleSet,
+} from "../lib/practitionerRuleEngine";
+
+interface PractitionerRulesState {
+  isLoading: boolean;
+  error: string | null;
+  /** Newest saved version (the one that gets evaluated), null if none */
+  current: PractitionerRuleSet | null;
+  /** Saved versions, newest first */
+  versions: PractitionerRuleSet[];
+}
+
+/**
+ * Practitioner Pattern Rules Hook
+ *
+ * Loads a practitioner's rule set versions and saves edits as a new
+ * version. Does nothing without a userId or when disabled.
+ */
+export function usePractitionerRules(userId?: string, enabled = true) {
+  const [state, setState] = useState<PractitionerRulesState>({
+    isLoading: false,
+    error: null,
+    current: null,
+    versions: [],
+  });
+
+  const reload = useCallback(async () => {
+    if (!userId || !enabled) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const params = new URLSearchParams({ userId });
+      const response = await fetch(`/api/get-practitioner-rules?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load practitioner rules");
+      }
+
+      setState({
+        isLoading: false,
+        error: null,
+        current: data.current,
+        versions: data.versions || [],
+      });
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+    }
+  }, [userId, enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  /**
+   * Save rules as the next version; returns the saved version or throws
+   * with the API error (e.g. a newer version was saved meanwhile)
+   */
+  const save = useCallback(
+    async (
+      rules: PractitionerRule[],
+      changeNote?: string
+    ): Promise<PractitionerRuleSet> => {
+      if (!userId) throw new Error("Sign in to save rules");
+
+      const response = await fetch("/api/save-practitioner-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId,
+          rules,
+          changeNote: changeNote || undefined,
+          baseVersion: state.current?.version ?? 0,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          [data.error, ...(data.details || [])].filter(Boolean).join(": ")
+        );
+      }
+
+      await reload();
+      return data.ruleSet;
+    },
+    [userId, state.current, reload]
+  );
+
+  return {
+    ...state,
+    reload,
+    save,
+  };
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  ConsistencyReference,
+  checkResponseConsistency,
+  checkTextConsistency,
+  describeConsistencyConflict,
+  resolveConsistencyConflicts,
+} from "../aiConsistencyChecker";
+import { AI_RESPONSE_CONTRACT_VERSION, AIResponse } from "../aiResponseContract";
+
+const REFERENCE: ConsistencyReference = {
+  oxidationType: "slow",
+  ratios: [
+    { name: "Ca/Mg", numerator: "Ca", denominator: "Mg", status: "High" },
+    { name: "Zn/Cu", numerator: "Zn", denominator: "Cu", status: "Low" },
+  ],
+  minerals: [
+    { symbol: "Ca", name: "Calcium", status: "High" },
+    { symbol: "Mg", name: "Magnesium", status: "Optimal" },
+    { symbol: "Zn", name: "Zinc", status: "Low" },
+    { symbol: "Cu", name: "Copper", status: "High" },
+    { symbol: "K", name: "Potassium", status: "Low" },
+  ],
+};
+
+const claimsIn = (text: string) =>
+  checkTextConsistency(text, REFERENCE).conflicts.map((c) => ({
+    kind: c.kind,
+    key: c.key,
+    claimed: c.claimed,
+    computed: c.computed,
+  }));
+
+describe("claim extraction", () => {
+  it("finds contradicting oxidation, ratio and mineral claims", () => {
+    expect(claimsIn("Your results show a fast oxidizer pattern.")).toEqual([
+      { kind: "oxidation", key: "oxidation", claimed: "fast", computed: "slow" },
+    ]);
+    expect(claimsIn("The calcium-to-magnesium ratio is low.")).toEqual([
+      { kind: "ratio", key: "Ca/Mg", claimed: "Low", computed: "High" },
+    ]);
+    expect(claimsIn("Zinc and copper appear well balanced.")).toEqual([
+      { kind: "ratio", key: "Zn/Cu", claimed: "Optimal", computed: "Low" },
+    ]);
+    expect(claimsIn("Magnesium is elevated.")).toEqual([
+      { kind: "mineral", key: "Mg", claimed: "High", computed: "Optimal" },
+    ]);
+  });
+
+  it("counts consistent claims without reporting them", () => {
+    const report = checkTextConsistency(
+      "Your pattern suggests slow oxidation.\nCalcium (Ca) is high.",
+      REFERENCE
+    );
+
+    expect(report.checkedClaims).toBe(2);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  it("skips general teaching, negation, generic and mixed wording", () => {
+    [
+      "Fast oxidizers tend to burn through minerals.",
+      "Magnesium is not elevated.",
+      "A high Ca/Mg ratio may reflect slower thyroid activity.",
+      "Calcium is high while magnesium is low.",
+      "Calcium and zinc are low.",
+    ].forEach((sentence) => expect(claimsIn(sentence)).toEqual([]));
+  });
+
+  it("ties the status word to the mineral it describes", () => {
+    const potassiumHigh = [
+      { kind: "mineral", key: "K", claimed: "High", computed: "Low" },
+    ];
+
+    expect(claimsIn("Your potassium is high.")).toEqual(potassiumHigh);
+    expect(claimsIn("You show high potassium levels.")).toEqual(potassiumHigh);
+    expect(claimsIn("Potassium (K) remains slightly elevated.")).toEqual(
+      potassiumHigh
+    );
+  });
+
+  it("skips minerals named as food or intake", () => {
+    [
+      "Foods high in potassium such as bananas can help.",
+      "Leafy greens are rich in magnesium and potassium.",
+      "Your intake of potassium is low.",
+      "Nuts are high in zinc and copper, so enjoy them.",
+    ].forEach((sentence) => expect(claimsIn(sentence)).toEqual([]));
+  });
+});
+
+describe("resolveConsistencyConflicts", () => {
+  const response: AIResponse = {
+    contractVersion: AI_RESPONSE_CONTRACT_VERSION,
+    insights: [
+      { category: "ratio", text: "Your Zn/Cu ratio is optimal.", evidence: [], targets: [] },
+      { category: "oxidation", text: "You are a slow oxidizer.", evidence: [], targets: [] },
+    ],
+    recommendations: [
+      { category: "diet", text: "Since magnesium is low, eat leafy greens.", evidence: [], targets: [] },
+    ],
+  };
+  const report = checkResponseConsistency(response, REFERENCE);
+
+  it("locates conflicts by section and statement", () => {
+    expect(
+      report.conflicts.map((c) => [c.section, c.itemIndex, c.key])
+    ).toEqual([
+      ["insight", 0, "Zn/Cu"],
+      ["recommendation", 0, "Mg"],
+    ]);
+    expect(describeConsistencyConflict(report.conflicts[0])).toBe(
+      "Zn/Cu: AI text says optimal, calculated low"
+    );
+  });
+
+  it("removes contradicting statements", () => {
+    const resolved = resolveConsistencyConflicts(response, report, "remove");
+
+    expect(resolved.report.resolution).toBe("removed");
+    expect(resolved.response.insights.map((i) => i.text)).toEqual([
+      "You are a slow oxidizer.",
+    ]);
+    expect(resolved.response.recommendations).toEqual([]);
+  });
+
+  it("keeps food recommendations that mention a low mineral", () => {
+    const foods: AIResponse = {
+      ...response,
+      insights: [],
+      recommendations: [
+        {
+          category: "diet",
+          text: "Foods high in potassium such as bananas support balance.",
+          evidence: [],
+          targets: [],
+        },
+      ],
+    };
+    const resolved = resolveConsistencyConflicts(
+      foods,
+      checkResponseConsistency(foods, REFERENCE),
+      "remove"
+    );
+
+    expect(resolved.response.recommendations).toEqual(foods.recommendations);
+  });
+
+  it("or flags them with the computed result", () => {
+    const resolved = resolveConsistencyConflicts(response, report, "flag");
+
+    expect(resolved.report.resolution).toBe("flagged");
+    expect(resolved.response.insights[0].text).toBe(
+      "Your Zn/Cu ratio is optimal. (Note: our calculations show Zn/Cu is low.)"
+    );
+    expect(resolved.response.recommendations[0].text).toBe(
+      "Since magnesium is low, eat leafy greens. (Note: our calculations show Mg is optimal.)"
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  AI_RESPONSE_CONTRACT_VERSION,
+  AIResponse,
+  degradeToUnstructured,
+  extractResponseText,
+  guardAIResponse,
+  parseAIResponseContract,
+} from "../aiResponseContract";
+
+const VALID: AIResponse = {
+  contractVersion: AI_RESPONSE_CONTRACT_VERSION,
+  insights: [
+    {
+      category: "ratio",
+      text: "The Ca/Mg ratio is above the ideal range.",
+      evidence: [{ type: "ratio", key: "Ca/Mg" }],
+      targets: ["Ca/Mg"],
+    },
+  ],
+  recommendations: [],
+};
+
+describe("parseAIResponseContract", () => {
+  it("accepts the contract object, or JSON inside the text field", () => {
+    expect(parseAIResponseContract(VALID)).toEqual({
+      success: true,
+      data: VALID,
+    });
+    expect(
+      parseAIResponseContract({
+        analysis: `Here you go:\n\`\`\`json\n${JSON.stringify(VALID)}\n\`\`\``,
+      })
+    ).toEqual({ success: true, data: VALID });
+  });
+
+  it("defaults missing evidence and targets", () => {
+    const result = parseAIResponseContract({
+      contractVersion: AI_RESPONSE_CONTRACT_VERSION,
+      insights: [{ category: "general", text: "  Plain insight.  " }],
+      recommendations: [],
+    });
+
+    expect(result.success && result.data.insights[0]).toEqual({
+      category: "general",
+      text: "Plain insight.",
+      evidence: [],
+      targets: [],
+    });
+  });
+
+  it("lists the validation errors with their paths", () => {
+    const result = parseAIResponseContract({
+      ...VALID,
+      insights: [{ ...VALID.insights[0], targets: ["calcium"] }],
+      recommendations: [{ category: "supplements", text: "Take zinc." }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toEqual([
+      'insights.0.targets.0: Targets are mineral symbols ("Ca") or ratio names ("Ca/Mg")',
+      expect.stringMatching(/^recommendations\.0\.category: /),
+    ]);
+  });
+
+  it("rejects free text and other contract versions", () => {
+    expect(parseAIResponseContract({ analysis: "Just prose." })).toEqual({
+      success: false,
+      errors: ["Response is not a JSON object"],
+    });
+    expect(
+      parseAIResponseContract({ ...VALID, contractVersion: "0.9.0" }).success
+    ).toBe(false);
+  });
+});
+
+describe("degradeToUnstructured", () => {
+  it("keeps every paragraph as a general insight", () => {
+    const text = "First paragraph.\n\n  Second paragraph.\n \n";
+
+    expect(extractResponseText({ response: text })).toBe(text);
+    expect(degradeToUnstructured(text).insights).toEqual([
+      { category: "general", text: "First paragraph.", evidence: [], targets: [] },
+      { category: "general", text: "Second paragraph.", evidence: [], targets: [] },
+    ]);
+  });
+});
+
+describe("guardAIResponse", () => {
+  it("guards each statement and keeps its evidence attached", () => {
+    const guarded = guardAIResponse(
+      {
+        ...VALID,
+        insights: [
+          ...VALID.insights,
+          {
+            category: "general",
+            text: "High copper is linked to cancer risk.",
+            evidence: [],
+            targets: [],
+          },
+        ],
+        recommendations: [
+          {
+            category: "practitioner_review",
+            text: "A practitioner may prescribe iodine.",
+            evidence: [],
+            targets: [],
+          },
+        ],
+      },
+      { audience: "consumer", channel: "api", mode: "rewrite" }
+    );
+
+    expect(guarded.insights).toEqual(VALID.insights);
+    expect(guarded.recommendations).toEqual([
+      {
+        category: "practitioner_review",
+        text: "A practitioner may recommend iodine.",
+        evidence: [],
+        targets: [],
+      },
+    ]);
+  });
+});
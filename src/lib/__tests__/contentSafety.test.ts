@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  countContentSafetyChanges,
+  guardClientText,
+  guardReportSections,
+} from "../contentSafety";
+import {
+  BUILT_IN_GUARDRAILS_POLICY,
+  GuardrailsPolicy,
+} from "../interpretationGuardrails";
+import { PractitionerAnnotation } from "../reportSnapshot";
+
+// Built-in lists plus "detox", with its own version
+const STRICT_POLICY = {
+  ...BUILT_IN_GUARDRAILS_POLICY,
+  version: "custom-3",
+  rules: {
+    ...BUILT_IN_GUARDRAILS_POLICY.rules,
+    forbiddenScope: [
+      ...BUILT_IN_GUARDRAILS_POLICY.rules.forbiddenScope,
+      "\\bdetox\\b",
+    ],
+  },
+};
+
+const annotation = (
+  id: string,
+  content: string,
+  visibleToClient = true
+): PractitionerAnnotation => ({
+  id,
+  type: "general_note",
+  target: "general",
+  content,
+  practitionerId: "p1",
+  practitionerName: "Practitioner",
+  createdAt: "2026-10-19T00:00:00.000Z",
+  visibleToClient,
+});
+
+describe("guardClientText", () => {
+  it.each([
+    "Mg is low relative to Ca.",
+    "The Ca/Mg ratio is above the ideal range.",
+    "Calcium is 45.2 mg% on this test.",
+    "The reference is 0.5 mg/kg.",
+  ])("keeps mineral symbols and lab units: %j", (text) => {
+    expect(guardClientText(text, { audience: "consumer", channel: "pdf" })).toEqual({
+      text,
+    });
+  });
+
+  it("strips dosages for consumers only", () => {
+    const text = "Take 400 mg magnesium daily.";
+
+    expect(
+      guardClientText(text, { audience: "consumer", channel: "pdf" }).text
+    ).not.toContain("400 mg");
+    expect(
+      guardClientText(text, { audience: "practitioner", channel: "pdf" }).text
+    ).toContain("400 mg");
+  });
+
+  it("softens engine text in remove mode instead of rewriting it", () => {
+    const result = guardClientText("A practitioner may prescribe iodine.", {
+      audience: "consumer",
+      channel: "ui",
+    });
+
+    expect(result.text).not.toBe("A practitioner may recommend iodine.");
+    expect(result.transformation?.rules).toContain("blocked:prescribe");
+  });
+});
+
+describe("guardReportSections", () => {
+  it("hides client-visible annotations the guardrails remove", () => {
+    const { sections, contentSafety } = guardReportSections(
+      {
+        practitionerAnnotations: [
+          annotation("a1", "Your results diagnose hypothyroidism."),
+          annotation("a2", "Calcium is elevated relative to the range."),
+          annotation("a3", "Zinc can cure acne.", false),
+        ],
+      },
+      { audience: "practitioner", channel: "pdf" }
+    );
+
+    expect(
+      sections.practitionerAnnotations?.map((a) => [a.id, a.visibleToClient])
+    ).toEqual([
+      ["a1", false],
+      ["a2", true],
+      ["a3", false],
+    ]);
+    expect(contentSafety.sections.practitionerAnnotations).toMatchObject({
+      audience: "consumer",
+      checkedCount: 2,
+      removedCount: 1,
+    });
+    expect(countContentSafetyChanges(contentSafety)).toBe(1);
+  });
+
+  it("guards AI insights line by line and keeps their layout", () => {
+    const { sections, contentSafety } = guardReportSections(
+      {
+        aiInsights: [
+          "## Key findings",
+          "- Calcium is elevated relative to magnesium.",
+          "- Your results diagnose hypothyroidism.",
+          "",
+          "Leafy greens support magnesium balance.",
+        ].join("\n"),
+      },
+      { audience: "consumer", channel: "pdf" }
+    );
+
+    expect(sections.aiInsights).toBe(
+      [
+        "## Key findings",
+        "- Calcium is elevated relative to magnesium.",
+        "",
+        "Leafy greens support magnesium balance.",
+      ].join("\n")
+    );
+    expect(contentSafety.sections.aiInsights).toMatchObject({
+      checkedCount: 3,
+      removedCount: 1,
+    });
+  });
+
+  it("checks every section with the given policy", () => {
+    const text = "A gentle detox plan may support these minerals.";
+    const guard = (policy?: GuardrailsPolicy) =>
+      guardReportSections(
+        { aiInsights: text },
+        { audience: "consumer", channel: "pdf", policy }
+      );
+
+    expect(guard().sections.aiInsights).toBe(text);
+    expect(guard().contentSafety.guardrailsVersion).toBe(
+      BUILT_IN_GUARDRAILS_POLICY.version
+    );
+    expect(guard(STRICT_POLICY).sections.aiInsights).not.toBe(text);
+    expect(guard(STRICT_POLICY).contentSafety.guardrailsVersion).toBe(
+      "custom-3"
+    );
+  });
+});
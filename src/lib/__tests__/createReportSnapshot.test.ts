@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMineralSnapshots,
+  createReportSnapshot,
+} from "../createReportSnapshot";
+import { createEmptyMineralData } from "../mineralModel";
+import { BUILT_IN_GUARDRAILS_POLICY } from "../interpretationGuardrails";
+import { DEFAULT_REFERENCE_RANGE_VERSION } from "../rangeVersionEngine";
+
+// Ca, Mg, Na and K only, each inside its ideal range
+const PARTIAL_PANEL = {
+  ...createEmptyMineralData(),
+  calcium: 40,
+  magnesium: 6,
+  sodium: 25,
+  potassium: 10,
+};
+
+describe("createMineralSnapshots", () => {
+  it("marks minerals missing from a partial panel as not measured", () => {
+    const rows = createMineralSnapshots(PARTIAL_PANEL);
+
+    expect(rows).toHaveLength(15);
+    expect(
+      rows.filter((r) => r.value !== null).map((r) => [r.symbol, r.status])
+    ).toEqual([
+      ["Ca", "Optimal"],
+      ["Mg", "Optimal"],
+      ["Na", "Optimal"],
+      ["K", "Optimal"],
+    ]);
+    expect(rows.find((r) => r.symbol === "Zn")).toMatchObject({
+      value: null,
+      status: "Not measured",
+    });
+    expect(rows.filter((r) => r.status === "Not measured")).toHaveLength(11);
+  });
+
+  it("keeps the entered value for measured minerals only", () => {
+    const rows = createMineralSnapshots(PARTIAL_PANEL, "ppm");
+
+    expect(rows.find((r) => r.symbol === "Ca")?.enteredValue).toBe(400);
+    expect(rows.find((r) => r.symbol === "Zn")?.enteredValue).toBeUndefined();
+  });
+});
+
+describe("createReportSnapshot", () => {
+  it("does not count unmeasured minerals as evidence", () => {
+    const snapshot = createReportSnapshot({
+      mineralData: PARTIAL_PANEL,
+      rangeVersion: DEFAULT_REFERENCE_RANGE_VERSION,
+      aiInsights: "",
+      isPractitionerMode: false,
+    });
+
+    expect(snapshot.aiConfidence).toMatchObject({
+      abnormalCount: 0,
+      evidence: [],
+    });
+    expect(snapshot.aiConfidence?.level).not.toBe("High");
+    // Ratios that need an unmeasured mineral are left out
+    expect(snapshot.ratios.map((r) => r.name)).toEqual([
+      "Ca/Mg",
+      "Na/K",
+      "Ca/K",
+      "Na/Mg",
+    ]);
+  });
+
+  it("stores the guardrails policy and guards the AI insights with it", () => {
+    const policy = { ...BUILT_IN_GUARDRAILS_POLICY, version: "custom-3" };
+    const snapshot = createReportSnapshot({
+      mineralData: PARTIAL_PANEL,
+      rangeVersion: DEFAULT_REFERENCE_RANGE_VERSION,
+      aiInsights:
+        "Calcium is within range.\nYour results diagnose hypothyroidism.",
+      isPractitionerMode: false,
+      guardrailsPolicy: policy,
+    });
+
+    expect(snapshot.guardrailsPolicy).toBe(policy);
+    expect(snapshot.contentSafety?.guardrailsVersion).toBe("custom-3");
+    expect(snapshot.aiInsights).toBe("Calcium is within range.");
+  });
+});
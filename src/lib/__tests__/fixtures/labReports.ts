@@ -0,0 +1,84 @@
+/**
+ * Text layers of lab reports, as pdf-parse returns them, one entry per page.
+ * Values are made up but plausible; the layouts follow the real reports.
+ */
+
+/** TEI: names with symbols in parentheses, mg%, two pages */
+export const TEI_REPORT_PAGES: ReadonlyArray<string> = [
+  `TRACE ELEMENTS, INC.
+Hair Tissue Mineral Analysis
+Lab Number: H123456
+Test Date: 03/14/2026
+NUTRITIONAL ELEMENTS
+Calcium (Ca)     42.0
+Magnesium (Mg)   6.1
+Sodium (Na)      24.0
+Potassium (K)    10.0
+Phosphorus (P)   16.0
+Sulfur (S)       4400
+Copper (Cu)      2.5
+Zinc (Zn)        15.0
+Iron (Fe)        1.9
+Manganese (Mn)   0.05
+Chromium (Cr)    0.08
+Selenium (Se)    0.10
+Boron (B)        0.25
+Cobalt (Co)      0.005
+Molybdenum (Mo)  0.05
+SIGNIFICANT RATIOS
+Ca/Mg 6.89
+Na/K 2.40`,
+  `TOXIC ELEMENTS
+Antimony (Sb)    0.004
+Arsenic (As)     < 0.001
+Mercury (Hg)     0.03
+Beryllium (Be)   0.001
+Cadmium (Cd)     0.005
+Lead (Pb)        0.12
+Aluminum (Al)    0.60
+ADDITIONAL ELEMENTS
+Germanium (Ge)   0.01
+Barium (Ba)      0.15
+Bismuth (Bi)     0.02
+Rubidium (Rb)    0.01
+Lithium (Li)     0.004
+Nickel (Ni)      0.03
+Platinum (Pt)    0.001
+Titanium (Ti)    0.07
+Vanadium (V)     0.006
+Strontium (Sr)   0.08
+Tin (Sn)         0.02
+Tungsten (W)     0.002
+Zirconium (Zr)   0.01`,
+];
+
+/** ARL: bare symbols, ratio rows before the results, partial panel */
+export const ARL_REPORT_TEXT = `ANALYTICAL RESEARCH LABS, INC.
+Sample Number: 7788-A1
+Date Sampled: 11-02-25
+Ca/Mg 9.50
+Ca 57.0
+Mg 6.0
+Na 12
+K 4
+Cobalt 0.004
+Co 0.006
+Vitamin B 12 support`;
+
+/** Doctor's Data: names only, µg/g */
+export const DDI_REPORT_TEXT = `Doctor's Data, Inc.
+Lab Number: DD-2026-0042
+Date Collected: 02/20/2026
+Date Received: 02/25/2026
+Calcium 420
+Magnesium 61
+Sodium 240
+Potassium 100
+Lead 1.2`;
+
+/** A lab no layout knows */
+export const UNKNOWN_LAB_TEXT = `Acme Hair Testing
+Calcium 42
+Magnesium 6
+Sodium 24
+Potassium 10`;
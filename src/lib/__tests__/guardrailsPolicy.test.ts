@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  GuardrailsPolicyRulesSchema,
+  canTransitionPolicy,
+  getPolicyActionDenial,
+  getPolicyApprovers,
+} from "../guardrailsPolicy";
+import { BUILT_IN_GUARDRAILS_POLICY } from "../interpretationGuardrails";
+
+const withBlocked = (pattern: string) =>
+  GuardrailsPolicyRulesSchema.safeParse({
+    ...BUILT_IN_GUARDRAILS_POLICY.rules,
+    blockedPhrases: [pattern],
+  });
+
+describe("policy approval", () => {
+  const approvers = getPolicyApprovers({
+    GUARDRAILS_POLICY_APPROVERS: " alice, bob ,,",
+  });
+
+  it("reads the approvers from the environment", () => {
+    expect(approvers).toEqual(["alice", "bob"]);
+    expect(getPolicyApprovers({})).toEqual([]);
+  });
+
+  it("lets approvers act on policies drafted by someone else", () => {
+    expect(
+      getPolicyActionDenial({ createdBy: "carol" }, "alice", approvers)
+    ).toBeNull();
+  });
+
+  it("denies users who are not approvers", () => {
+    expect(
+      getPolicyActionDenial({ createdBy: "alice" }, "carol", approvers)
+    ).toBe("Only guardrails policy approvers can approve or activate policies");
+  });
+
+  it("denies approvers acting on their own draft", () => {
+    expect(
+      getPolicyActionDenial({ createdBy: "alice" }, "alice", approvers)
+    ).toBe(
+      "A policy must be approved and activated by someone other than its author"
+    );
+  });
+
+  it("only activates approved or retired policies", () => {
+    expect(canTransitionPolicy("draft", "approve")).toBe(true);
+    expect(canTransitionPolicy("draft", "activate")).toBe(false);
+    expect(canTransitionPolicy("approved", "activate")).toBe(true);
+    expect(canTransitionPolicy("retired", "activate")).toBe(true);
+    expect(canTransitionPolicy("active", "approve")).toBe(false);
+  });
+});
+
+describe("policy pattern validation", () => {
+  it("accepts the built-in lists", () => {
+    expect(
+      GuardrailsPolicyRulesSchema.safeParse(BUILT_IN_GUARDRAILS_POLICY.rules)
+        .success
+    ).toBe(true);
+  });
+
+  it.each([
+    "\\bcure(s|d)?\\b",
+    "(cat|dog)+",
+    "(?:ab|cd)*e",
+    "\\bfor \\d+\\s*(days|weeks)\\b",
+  ])("accepts %s", (pattern) => {
+    expect(withBlocked(pattern).success).toBe(true);
+  });
+
+  it.each([
+    ["(a+)+", "Nested quantifiers"],
+    ["(\\w*\\s?)*", "Nested quantifiers"],
+    ["(a|a)*", "overlapping alternatives"],
+    ["(\\w|\\d)+$", "overlapping alternatives"],
+    ["(a|ab)+c", "overlapping alternatives"],
+    ["(x|)+", "overlapping alternatives"],
+    ["(a)\\1", "Backreferences"],
+    ["(unclosed", "Invalid regular expression"],
+  ])("rejects %s", (pattern, message) => {
+    const result = withBlocked(pattern);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toContain(message);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateHealthScoreV2,
+  compareHealthScoresV2,
+} from "../healthScoreV2";
+import { MineralData, createEmptyMineralData } from "../mineralModel";
+
+const panel = (values: Partial<MineralData>): MineralData => ({
+  ...createEmptyMineralData(),
+  ...values,
+});
+
+/** Ca/Mg 7.0, Na/K 2.5, Ca/K 4.2: every mineral and scoring ratio in range */
+const IN_RANGE = panel({ calcium: 42, magnesium: 6, sodium: 25, potassium: 10 });
+
+describe("calculateHealthScoreV2", () => {
+  it("scores an in-range panel 100 and reports it as partial", () => {
+    const score = calculateHealthScoreV2(IN_RANGE);
+
+    expect(score.totalScore).toBe(100);
+    expect(score.mineralScore).toBe(60);
+    expect(score.ratioScore).toBe(40);
+    expect(score.completeness).toMatchObject({
+      mineralsEvaluated: 4,
+      ratiosEvaluated: 3,
+      isPartial: true,
+      unevaluatedComponents: [],
+    });
+    expect(score.completeness.missingMinerals).toContain("P");
+  });
+
+  it("grades deviation on a log2 scale", () => {
+    // Mg 2 is half the minimum (4): one doubling out, half credit
+    const score = calculateHealthScoreV2({ ...IN_RANGE, magnesium: 2 });
+    const magnesium = score.mineralDeviations.find((d) => d.key === "Mg");
+
+    expect(magnesium).toMatchObject({
+      log2Deviation: 1,
+      direction: "low",
+      credit: 0.5,
+    });
+    expect(score.mineralScore).toBe(53); // (3 + 0.5) / 4 * 60 = 52.5
+
+    // Ca/Mg 21 is log2(21 / 7.5) = 1.49 above the range
+    const caMg = score.ratioDeviations.find((d) => d.key === "Ca/Mg");
+    expect(caMg).toMatchObject({ log2Deviation: 1.49, direction: "high" });
+    expect(caMg?.credit).toBeCloseTo(1 - Math.log2(21 / 7.5) / 2, 10);
+  });
+
+  it("gives no credit at two doublings or for zero values", () => {
+    const score = calculateHealthScoreV2({ ...IN_RANGE, calcium: 180, sodium: 0 });
+
+    expect(score.mineralDeviations.find((d) => d.key === "Ca")?.credit).toBe(0);
+    expect(score.mineralDeviations.find((d) => d.key === "Na")).toMatchObject({
+      log2Deviation: null,
+      credit: 0,
+    });
+  });
+
+  it("rescales out a component with nothing to grade", () => {
+    const score = calculateHealthScoreV2(panel({ calcium: 42 }));
+
+    expect(score.totalScore).toBe(100);
+    expect(score.ratioScore).toBe(0);
+    expect(score.completeness.unevaluatedComponents).toEqual(["ratioScore"]);
+  });
+
+  it("scores values entered in ppm like the same values in mg%", () => {
+    const ppm = panel({
+      calcium: 420,
+      magnesium: 20,
+      sodium: 250,
+      potassium: 100,
+    });
+    const mgPercent = panel({
+      calcium: 42,
+      magnesium: 2,
+      sodium: 25,
+      potassium: 10,
+    });
+
+    expect(calculateHealthScoreV2(ppm, "ppm")).toEqual(
+      calculateHealthScoreV2(mgPercent)
+    );
+  });
+});
+
+describe("compareHealthScoresV2", () => {
+  it("reports the change from a previous score", () => {
+    const current = calculateHealthScoreV2(IN_RANGE);
+
+    expect(compareHealthScoresV2(82, current)).toEqual({
+      semanticsVersion: current.semanticsVersion,
+      previousScore: 82,
+      currentScore: 100,
+      delta: 18,
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  BUILT_IN_GUARDRAILS_POLICY,
+  GuardrailsContext,
+  applyGuardrails,
+} from "../interpretationGuardrails";
+import {
+  findFalsePositiveHotSpots,
+  runGuardrailsCorpus,
+} from "../guardrailsRegression";
+import { GUARDRAILS_TEST_CASES } from "../guardrailsTestCases";
+
+const REWRITE: GuardrailsContext = {
+  audience: "consumer",
+  channel: "api",
+  mode: "rewrite",
+};
+const REMOVE: GuardrailsContext = { audience: "consumer", channel: "pdf" };
+
+const guard = (text: string, ctx: GuardrailsContext) =>
+  applyGuardrails({ insights: [text], recommendations: [], ctx }).insights[0];
+
+describe("guardrails regression corpus", () => {
+  it("passes every case on the built-in policy", () => {
+    const run = runGuardrailsCorpus(BUILT_IN_GUARDRAILS_POLICY);
+
+    expect(run.results.filter((r) => !r.passed)).toEqual([]);
+    expect(run.total).toBe(GUARDRAILS_TEST_CASES.length * 3);
+    expect(findFalsePositiveHotSpots(run)).toEqual([]);
+  });
+});
+
+describe("rewrite mode", () => {
+  it.each([
+    ["A practitioner may prescribe iodine.", "A practitioner may recommend iodine."],
+    ["Your practitioner prescribed extra zinc.", "Your practitioner recommended extra zinc."],
+    ["Zinc may help treat skin issues.", "Zinc may help with skin issues."],
+    ["Magnesium treats muscle cramps.", "Magnesium helps with muscle cramps."],
+    ["This therapy treats fatigue.", "This therapy helps with fatigue."],
+    ["Zinc can cure acne.", "Zinc can help with acne."],
+    ["This confirms you have adrenal fatigue.", "This may suggest adrenal fatigue."],
+    ["A magnesium treatment plan is recommended.", "A magnesium support plan is recommended."],
+  ])("rewrites %j as %j", (text, rewritten) => {
+    expect(guard(text, REWRITE)).toBe(rewritten);
+  });
+
+  it("removes diagnoses and cure claims it cannot rewrite", () => {
+    expect(guard("Zinc is a cure for acne.", REWRITE)).toBeUndefined();
+    expect(guard("You were diagnosed with anemia.", REWRITE)).toBeUndefined();
+    expect(
+      guard("Low iron could lead to a diagnosis of hypothyroidism.", REWRITE)
+    ).toBeUndefined();
+  });
+
+  it("skips rewrites that would not fit the sentence", () => {
+    // "helps with." and "help with and" have no object; the cure claim
+    // is removed instead
+    expect(guard("Magnesium cures.", REWRITE)).toBeUndefined();
+    expect(guard("Zinc can cure and prevent acne.", REWRITE)).toBeUndefined();
+    // "support support" doubles a word; the statement is softened instead
+    expect(guard("Ask about treatment support.", REWRITE)).toBe(
+      "This pattern may suggest: Ask about treatment support."
+    );
+  });
+
+  it("only rewrites the sentence with the blocked phrase", () => {
+    expect(
+      guard(
+        "Calcium is elevated. A practitioner may prescribe iodine.",
+        REWRITE
+      )
+    ).toBe("Calcium is elevated. A practitioner may recommend iodine.");
+  });
+
+  it("uses the policy's first softener", () => {
+    const policy = {
+      ...BUILT_IN_GUARDRAILS_POLICY,
+      rules: {
+        ...BUILT_IN_GUARDRAILS_POLICY.rules,
+        softeners: ["could indicate", "may suggest"],
+      },
+    };
+
+    expect(guard("This confirms you have adrenal fatigue.", { ...REWRITE, policy })).toBe(
+      "This could indicate adrenal fatigue."
+    );
+  });
+});
+
+describe("statements that must pass untouched", () => {
+  it.each([
+    "This report does not diagnose, treat, or cure any condition.",
+    "Pumpkin seeds make a zinc-rich treat.",
+    "Treats like dark chocolate help.",
+    "Nuts make healthy treats rich in magnesium.",
+    "Dark chocolate treats contain magnesium.",
+    "Enjoy these tasty treats.",
+    "If you have questions, ask your practitioner.",
+  ])("keeps %j", (text) => {
+    expect(guard(text, REWRITE)).toBe(text);
+    expect(guard(text, REMOVE)).toBe(text);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectLabLayout,
+  isPlausibleValue,
+  normalizeAIExtraction,
+  normalizeReportDate,
+  parseLabReportPages,
+  parseLabReportText,
+  toMineralNameMap,
+} from "../labReportParser";
+import {
+  ARL_REPORT_TEXT,
+  DDI_REPORT_TEXT,
+  TEI_REPORT_PAGES,
+  UNKNOWN_LAB_TEXT,
+} from "./fixtures/labReports";
+
+describe("parseLabReportPages", () => {
+  it("reads every element, the date and the lab number from a TEI report", () => {
+    const report = parseLabReportPages(TEI_REPORT_PAGES);
+
+    expect(report).not.toBeNull();
+    expect(report?.lab).toBe("TEI");
+    expect(report?.method).toBe("layout");
+    expect(report?.testDate).toBe("2026-03-14");
+    expect(report?.accessionNumber).toBe("H123456");
+    expect(report?.missing).toEqual([]);
+    expect(report?.fields).toHaveLength(35);
+    expect(report?.minerals).toMatchObject({
+      Ca: 42,
+      Mg: 6.1,
+      Na: 24,
+      K: 10,
+      S: 4400,
+      Co: 0.005,
+    });
+    expect(report?.toxicElements).toMatchObject({ Pb: 0.12, Al: 0.6 });
+    expect(report?.additionalElements).toMatchObject({ Sn: 0.02, W: 0.002 });
+  });
+
+  it("records where each value came from", () => {
+    const report = parseLabReportPages(TEI_REPORT_PAGES);
+    const calcium = report?.fields.find((f) => f.symbol === "Ca");
+    const lead = report?.fields.find((f) => f.symbol === "Pb");
+
+    expect(calcium).toMatchObject({
+      snippet: "Calcium (Ca) 42.0",
+      page: 1,
+      confidence: "high",
+      outOfBounds: false,
+    });
+    expect(lead?.page).toBe(2);
+  });
+
+  it("reads values below the detection limit as 0 with medium confidence", () => {
+    const report = parseLabReportPages(TEI_REPORT_PAGES);
+
+    expect(report?.toxicElements.As).toBe(0);
+    expect(report?.fields.find((f) => f.symbol === "As")?.confidence).toBe(
+      "medium"
+    );
+  });
+
+  it("converts Doctor's Data µg/g values to mg%", () => {
+    const report = parseLabReportText(DDI_REPORT_TEXT);
+
+    expect(report?.lab).toBe("DDI");
+    expect(report?.sourceUnit).toBe("µg/g");
+    expect(report?.minerals).toMatchObject({ Ca: 42, Mg: 6.1, Na: 24, K: 10 });
+    expect(report?.toxicElements.Pb).toBe(0.12);
+    // The collection date wins over the received date
+    expect(report?.testDate).toBe("2026-02-20");
+    expect(report?.accessionNumber).toBe("DD-2026-0042");
+  });
+
+  it("reads ARL symbol rows without confusing ratios or vitamins", () => {
+    const report = parseLabReportText(ARL_REPORT_TEXT);
+
+    expect(report?.lab).toBe("ARL");
+    expect(report?.minerals.Ca).toBe(57);
+    expect(report?.minerals.Co).toBe(0.004);
+    expect(report?.minerals.B).toBeNull();
+    expect(report?.missing).toContain("B");
+    expect(report?.testDate).toBe("2025-11-02");
+    expect(report?.accessionNumber).toBe("7788-A1");
+  });
+
+  it("falls back (null) for unknown labs and panels without Ca, Mg, Na, K", () => {
+    expect(detectLabLayout(UNKNOWN_LAB_TEXT)).toBeNull();
+    expect(parseLabReportText(UNKNOWN_LAB_TEXT)).toBeNull();
+    expect(
+      parseLabReportText(DDI_REPORT_TEXT.replace("Potassium 100", ""))
+    ).toBeNull();
+    expect(parseLabReportText("")).toBeNull();
+  });
+
+  it("is deterministic", () => {
+    expect(parseLabReportPages(TEI_REPORT_PAGES)).toEqual(
+      parseLabReportPages(TEI_REPORT_PAGES)
+    );
+  });
+});
+
+describe("normalizeReportDate", () => {
+  it("normalizes printed dates to ISO", () => {
+    expect(normalizeReportDate("3/4/2026")).toBe("2026-03-04");
+    expect(normalizeReportDate("11-02-25")).toBe("2025-11-02");
+    expect(normalizeReportDate("2026-03-14")).toBe("2026-03-14");
+    expect(normalizeReportDate("13/01/2026")).toBeNull();
+  });
+});
+
+describe("isPlausibleValue", () => {
+  it("flags values far outside the reference range", () => {
+    expect(isPlausibleValue("mineral", "Ca", 42)).toBe(true);
+    expect(isPlausibleValue("mineral", "Ca", 4200)).toBe(false);
+    expect(isPlausibleValue("mineral", "Ca", 3)).toBe(false);
+    expect(isPlausibleValue("toxic", "Pb", 6)).toBe(true);
+    expect(isPlausibleValue("toxic", "Pb", 6.1)).toBe(false);
+    expect(isPlausibleValue("additional", "Ba", 6)).toBe(false);
+    expect(isPlausibleValue("mineral", "Ca", -1)).toBe(false);
+  });
+
+  it("marks out-of-bounds fields low confidence", () => {
+    const report = parseLabReportText(
+      DDI_REPORT_TEXT.replace("Calcium 420", "Calcium 42000")
+    );
+    expect(report?.fields.find((f) => f.symbol === "Ca")).toMatchObject({
+      value: 4200,
+      confidence: "low",
+      outOfBounds: true,
+    });
+  });
+});
+
+describe("normalizeAIExtraction", () => {
+  it("accepts names or symbols and converts from the reported unit", () => {
+    const report = normalizeAIExtraction({
+      unit: "ppm",
+      labName: "Some Lab",
+      testDate: "03/14/2026",
+      minerals: { calcium: "420", Mg: 61, sodium: "", potassium: "n/a" },
+      toxicElements: { Pb: 1.2 },
+    });
+
+    expect(report.method).toBe("ai-fallback");
+    expect(report.lab).toBeNull();
+    expect(report.labName).toBe("Some Lab");
+    expect(report.sourceUnit).toBe("ppm");
+    expect(report.testDate).toBe("2026-03-14");
+    expect(report.minerals).toMatchObject({
+      Ca: 42,
+      Mg: 6.1,
+      Na: null,
+      K: null,
+    });
+    expect(report.toxicElements.Pb).toBe(0.12);
+    expect(report.fields.every((f) => f.confidence === "low")).toBe(true);
+    expect(toMineralNameMap(report)).toEqual({ calcium: 42, magnesium: 6.1 });
+  });
+
+  it("treats anything that isn't an object as an empty extraction", () => {
+    const report = normalizeAIExtraction("not json");
+
+    expect(report.labName).toBe("Unknown");
+    expect(report.fields).toEqual([]);
+    expect(report.missing).toHaveLength(35);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  describePHIRedaction,
+  redactFeedbackComments,
+  redactPHI,
+  stripPHIPlaceholders,
+} from "../phiRedaction";
+
+const redact = (text: string) => redactPHI(text, { allowList: [] }).text;
+
+describe("redactPHI", () => {
+  it.each([
+    ["Reach her at jane.doe@example.com.", "Reach her at [email redacted]."],
+    ["Call (555) 123-4567 today.", "Call [phone redacted] today."],
+    ["Call +44 20 7946 0958.", "Call [phone redacted]."],
+    ["Text 555.123.4567 or", "Text [phone redacted] or"],
+    ["Call +1 555 123 4567.", "Call [phone redacted]."],
+    ["SSN 123-45-6789 on file.", "SSN [ID number redacted] on file."],
+    ["DOB: 03/14/1982, retest soon.", "DOB: [date of birth redacted], retest soon."],
+    ["Seen on March 14, 2026.", "Seen on [date redacted]."],
+    ["Mrs. Smith reports fatigue.", "[name redacted] reports fatigue."],
+    ["Her name is Jane Doe.", "Her name is [name redacted]."],
+    ["client Jane Doe has high Ca.", "client [name redacted] has high Ca."],
+    [
+      "Patient: Mary Jones reports fatigue.",
+      "Patient: [name redacted] reports fatigue.",
+    ],
+    ["MRN 00123456 retested.", "MRN [record number redacted] retested."],
+    ["mrn#A7654321", "mrn#[record number redacted]"],
+    [
+      "Medical record no. 4455667 attached.",
+      "Medical record no. [record number redacted] attached.",
+    ],
+    ["Lives at 12 Oak Street.", "Lives at [address redacted]."],
+    ["Mail to 350 5th Ave, Suite 2.", "Mail to [address redacted], Suite 2."],
+    ["Moved to 9 N. Main St last year.", "Moved to [address redacted] last year."],
+    ["John Smith's calcium is low.", "[name redacted]'s calcium is low."],
+    ["Noted Jane Doe magnesium at 4.", "Noted [name redacted] magnesium at 4."],
+  ])("redacts %j", (text, redacted) => {
+    expect(redact(text)).toBe(redacted);
+  });
+
+  it("leaves mineral text and single names after a label alone", () => {
+    [
+      "patient Ca Mg ratio looks high.",
+      "client Jane is doing well.",
+      "Ca/Mg 6.8 and Na/K 2.4 on 3 tests.",
+      "Retest in 12 weeks at the same lab.",
+      "MRN pending.",
+      "Low Calcium levels on 2 tests.",
+      "Spoke with John Smith today.",
+    ].forEach((text) => expect(redact(text)).toBe(text));
+  });
+
+  it("leaves space-separated lab numbers alone", () => {
+    [
+      "Ca 100 200 3000 across three tests.",
+      "Values were 120 130 1400 mg%.",
+      "Reference 250 300 4500 ppm, retest in 12 weeks.",
+      "Ca/Mg 4.5 6.8 and Na/K 2.4 on 3 tests.",
+    ].forEach((text) => expect(redact(text)).toBe(text));
+  });
+
+  it("keeps allow-listed names and counts them", () => {
+    const result = redactPHI("As Dr. Paul Eck taught, and Dr. Jones agreed.");
+
+    expect(result.text).toBe("As Dr. Paul Eck taught, and [name redacted] agreed.");
+    expect(result.report).toEqual({
+      redactedCount: 1,
+      byKind: { name: 1 },
+      allowListedCount: 1,
+    });
+  });
+
+  it("is stable on already redacted text", () => {
+    const once = redact("Mrs. Smith, DOB 1982-03-14, jane@example.com");
+
+    expect(redact(once)).toBe(once);
+  });
+});
+
+describe("reports", () => {
+  it("redacts feedback comments and merges the reports", () => {
+    const { items, report } = redactFeedbackComments(
+      [
+        { id: "a", comment: "Email jane@example.com" },
+        { id: "b", comment: "Call 555-123-4567 or jo@example.com" },
+        { id: "c", rating: 5 },
+      ],
+      { allowList: [] }
+    );
+
+    expect(items.map((i) => i.comment)).toEqual([
+      "Email [email redacted]",
+      "Call [phone redacted] or [email redacted]",
+      undefined,
+    ]);
+    expect(report.byKind).toEqual({ email: 2, phone: 1 });
+    expect(describePHIRedaction(report)).toBe(
+      "Redacted 3 identifiers (email, phone number)"
+    );
+    expect(stripPHIPlaceholders("Email [email redacted]")).toBe("Email  ");
+  });
+});
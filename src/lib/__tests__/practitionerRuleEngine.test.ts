@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  PractitionerRule,
+  PractitionerRulesSchema,
+  buildRuleEvaluationInput,
+  describeRuleMatch,
+  evaluatePractitionerRules,
+  formatRuleCondition,
+  parseRuleCondition,
+  parseRuleConditions,
+} from "../practitionerRuleEngine";
+import { createEmptyMineralData } from "../mineralModel";
+
+const rule = (
+  id: string,
+  conditions: string,
+  enabled = true
+): PractitionerRule => ({
+  id,
+  name: `Rule ${id}`,
+  patternLabel: `Pattern ${id}`,
+  conditions: parseRuleConditions(conditions).conditions,
+  enabled,
+});
+
+const INPUT = buildRuleEvaluationInput(
+  { ...createEmptyMineralData(), calcium: 120, magnesium: 8, sodium: 10 },
+  [{ key: "Pb", value: 0.7 }],
+  "slow"
+);
+
+describe("parseRuleCondition", () => {
+  it("reads minerals, toxic elements, ratios and oxidation types", () => {
+    expect(parseRuleCondition("ca > 100")).toEqual({
+      condition: { kind: "mineral", symbol: "Ca", comparator: ">", value: 100 },
+    });
+    expect(parseRuleCondition("Pb >= 0.5")).toEqual({
+      condition: { kind: "toxic", symbol: "Pb", comparator: ">=", value: 0.5 },
+    });
+    expect(parseRuleCondition("Ca / Mg < 4")).toEqual({
+      condition: {
+        kind: "ratio",
+        numerator: "Ca",
+        denominator: "Mg",
+        comparator: "<",
+        value: 4,
+      },
+    });
+    expect(parseRuleCondition("oxidation is slow or Mixed")).toEqual({
+      condition: { kind: "oxidation", types: ["slow", "mixed"] },
+    });
+  });
+
+  it("explains what it cannot read", () => {
+    expect(parseRuleCondition("Xx > 1")).toEqual({
+      error: 'Unknown element "Xx"',
+    });
+    expect(parseRuleCondition("oxidation is quick")).toEqual({
+      error:
+        'Unknown oxidation type "quick" (use fast, slow, mixed, balanced)',
+    });
+    expect(parseRuleConditions("Ca > 100\n\ncalcium high").errors).toEqual([
+      'Line 2: Cannot read "calcium high" - use e.g. "Ca > 100", "Ca/Mg < 4" or "oxidation is slow"',
+    ]);
+  });
+
+  it("round-trips through formatRuleCondition", () => {
+    ["Ca > 100", "Pb >= 0.5", "Ca/Mg < 4", "oxidation is slow or mixed"].forEach(
+      (text) => {
+        const parsed = parseRuleCondition(text);
+        expect("condition" in parsed && formatRuleCondition(parsed.condition)).toBe(
+          text
+        );
+      }
+    );
+  });
+});
+
+describe("PractitionerRulesSchema", () => {
+  it("rejects duplicate ids and unknown symbols", () => {
+    expect(
+      PractitionerRulesSchema.safeParse([rule("a", "Ca > 1"), rule("a", "Mg > 1")])
+        .success
+    ).toBe(false);
+    expect(
+      PractitionerRulesSchema.safeParse([
+        {
+          ...rule("a", "Ca > 1"),
+          conditions: [
+            { kind: "mineral", symbol: "Pb", comparator: ">", value: 1 },
+          ],
+        },
+      ]).success
+    ).toBe(false);
+    expect(PractitionerRulesSchema.safeParse([rule("a", "Ca > 1")]).success).toBe(
+      true
+    );
+  });
+});
+
+describe("evaluatePractitionerRules", () => {
+  it("matches rules whose conditions all hold, with evidence", () => {
+    const evaluation = evaluatePractitionerRules(
+      {
+        version: 3,
+        rules: [
+          rule("shell", "Ca > 100\nCa/Mg >= 15\noxidation is slow"),
+          rule("lead", "Pb > 0.5"),
+          rule("sodium", "Na > 20"),
+          rule("potassium", "K < 5"),
+          rule("disabled", "Ca > 1", false),
+        ],
+      },
+      INPUT
+    );
+
+    expect(evaluation.ruleSetVersion).toBe(3);
+    expect(evaluation.evaluatedRuleCount).toBe(4);
+    expect(evaluation.matches.map((m) => m.ruleId)).toEqual(["shell", "lead"]);
+    expect(evaluation.matches[0].evidence).toEqual([
+      "Ca 120 > 100",
+      "Ca/Mg 15 >= 15",
+      "Oxidation type slow",
+    ]);
+    expect(describeRuleMatch(evaluation.matches[1])).toBe(
+      'Pattern lead (practitioner rule "Rule lead", v3): Pb 0.7 > 0.5'
+    );
+  });
+
+  it("never matches on unmeasured values or a zero denominator", () => {
+    const evaluation = evaluatePractitionerRules(
+      { version: 1, rules: [rule("k", "K < 5"), rule("ratio", "Ca/K > 1")] },
+      { ...INPUT, minerals: { ...INPUT.minerals, K: 0 } }
+    );
+
+    expect(evaluation.matches.map((m) => m.ruleId)).toEqual(["k"]);
+  });
+});
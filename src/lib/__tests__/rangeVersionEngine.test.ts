@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ALIGNED_OXIDATION_RANGE_VERSION,
+  DEFAULT_REFERENCE_RANGE_VERSION,
+  getActiveReferenceRangeVersion,
+  getOxidationThresholds,
+} from "../rangeVersionEngine";
+import { classifyOxidation } from "../oxidationClassification";
+import { OXIDATION_TEST_CASES } from "../oxidationTestCases";
+
+const ENV = "NEXT_PUBLIC_REFERENCE_RANGE_VERSION";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("getActiveReferenceRangeVersion", () => {
+  it("uses the calibrated version unless one is configured", () => {
+    vi.stubEnv(ENV, "");
+
+    expect(getActiveReferenceRangeVersion()).toBe(
+      DEFAULT_REFERENCE_RANGE_VERSION
+    );
+  });
+
+  it("switches to the configured version", () => {
+    vi.stubEnv(ENV, " 1.1.0 ");
+
+    expect(getActiveReferenceRangeVersion()).toBe(
+      ALIGNED_OXIDATION_RANGE_VERSION
+    );
+  });
+
+  it("warns and keeps the active version for unknown ids", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv(ENV, "9.9.9");
+
+    expect(getActiveReferenceRangeVersion()).toBe(
+      DEFAULT_REFERENCE_RANGE_VERSION
+    );
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
+
+describe("oxidation thresholds per version", () => {
+  it("derives the aligned boundaries from the mineral ranges", () => {
+    expect(
+      getOxidationThresholds(DEFAULT_REFERENCE_RANGE_VERSION).minerals
+    ).toMatchObject({ Ca: { low: 35, high: 55 }, Na: { low: 20, high: 50 } });
+    expect(
+      getOxidationThresholds(ALIGNED_OXIDATION_RANGE_VERSION).minerals
+    ).toMatchObject({ Ca: { low: 35, high: 45 }, Na: { low: 20, high: 30 } });
+  });
+
+  it("changes the mineral status the classifier sees", () => {
+    const minerals = { Ca: 50, Mg: 6, Na: 40, K: 10 };
+
+    expect(
+      classifyOxidation(minerals, DEFAULT_REFERENCE_RANGE_VERSION).indicators
+    ).toMatchObject({ calciumStatus: "optimal", sodiumStatus: "optimal" });
+    expect(
+      classifyOxidation(minerals, ALIGNED_OXIDATION_RANGE_VERSION).indicators
+    ).toMatchObject({ calciumStatus: "high", sodiumStatus: "high" });
+  });
+
+  it("keeps the calibrated version active while it validates better", () => {
+    const passing = (version: typeof DEFAULT_REFERENCE_RANGE_VERSION) =>
+      OXIDATION_TEST_CASES.filter(
+        (c) =>
+          classifyOxidation(c.mineralValues, version).type === c.expectedType
+      ).length;
+
+    expect(passing(DEFAULT_REFERENCE_RANGE_VERSION)).toBe(25);
+    expect(passing(ALIGNED_OXIDATION_RANGE_VERSION)).toBe(22);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  assessChange,
+  assessMineralChange,
+  assessRatioChange,
+  calculateRCV,
+  getAnalyticalCV,
+  getRatioCV,
+} from "../referenceChangeValue";
+
+describe("reference change value", () => {
+  it("is z * sqrt(2) * CV", () => {
+    expect(calculateRCV(5)).toBeCloseTo(13.859, 3);
+    expect(calculateRCV(5, 1.28)).toBeCloseTo(9.051, 3);
+  });
+
+  it("combines the CVs of a ratio's minerals", () => {
+    expect(getAnalyticalCV("Ca")).toBe(5);
+    expect(getAnalyticalCV("Pb")).toBe(15);
+    expect(getRatioCV("Ca/Mg")).toBeCloseTo(Math.sqrt(61), 10);
+  });
+
+  it("classifies calcium changes against its 9.1% and 13.9% RCVs", () => {
+    expect(assessMineralChange("Ca", 40, 43)).toEqual({
+      significance: "within_noise",
+      percentChange: 7.5,
+      possibleRcv: 9.1,
+      significantRcv: 13.9,
+    });
+    expect(assessMineralChange("Ca", 40, 44).significance).toBe(
+      "possible_change"
+    );
+    expect(assessMineralChange("Ca", 40, 34).significance).toBe(
+      "significant_change"
+    );
+  });
+
+  it("needs a larger change for a ratio", () => {
+    // 15% is significant for Ca alone but not for Ca/Mg (RCV 21.6%)
+    const ratio = assessRatioChange("Ca/Mg", 6, 6.9);
+
+    expect(ratio.significantRcv).toBe(21.6);
+    expect(ratio.significance).toBe("possible_change");
+  });
+
+  it("has no percent change without a baseline", () => {
+    expect(assessChange(0, 0.2, 10)).toMatchObject({
+      significance: "significant_change",
+      percentChange: null,
+    });
+    expect(assessChange(0, 0, 10).significance).toBe("within_noise");
+    expect(assessChange(NaN, 4, 10).percentChange).toBeNull();
+  });
+});
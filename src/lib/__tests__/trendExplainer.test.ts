@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { fitTrendSeries, formatTrendRate } from "../trendExplainer";
+
+/** Tests 30 days apart; slope 0.10667/day, residuals 0.3, 0.1, -1.1, 0.7 */
+const SERIES = [
+  { date: "2026-01-01", value: 60 },
+  { date: "2026-03-02", value: 65 },
+  { date: "2026-01-31", value: 63 },
+  { date: "2026-04-01", value: 70 },
+];
+
+describe("fitTrendSeries", () => {
+  it("fits a least-squares line with a 95% slope interval", () => {
+    const { fit } = fitTrendSeries(SERIES)!;
+
+    expect(fit.n).toBe(4);
+    expect(fit.degreesOfFreedom).toBe(2);
+    expect(fit.slopePerDay).toBeCloseTo(480 / 4500, 10);
+    expect(fit.intercept).toBeCloseTo(59.7, 10);
+    expect(fit.residualStandardError).toBeCloseTo(Math.sqrt(0.9), 10);
+    expect(fit.slopeStandardError).toBeCloseTo(Math.sqrt(0.9 / 4500), 10);
+    // t(2) = 4.303
+    expect(fit.slopeCI.lower).toBeCloseTo(0.045812, 5);
+    expect(fit.slopeCI.upper).toBeCloseTo(0.167521, 5);
+    expect(fit.rSquared).toBeCloseTo(1 - 1.8 / 53, 10);
+    expect(fit.slopeIsSignificant).toBe(true);
+    expect(formatTrendRate(fit)).toBe("+3.2 (1.4 to 5.0)");
+  });
+
+  it("projects a prediction band at the next expected test", () => {
+    const { observations, projection } = fitTrendSeries(SERIES)!;
+
+    expect(observations.map((o) => o.value)).toEqual([60, 63, 65, 70]);
+    expect(projection.date).toBe("2026-05-01T00:00:00.000Z");
+    expect(projection.daysFromLast).toBe(30);
+    expect(projection.predicted).toBeCloseTo(72.5, 10);
+    // 4.303 * sqrt(0.9) * sqrt(1 + 1/4 + 75^2 / 4500)
+    expect(projection.upper - projection.predicted).toBeCloseTo(6.4545, 4);
+    expect(projection.predicted - projection.lower).toBeCloseTo(6.4545, 4);
+  });
+
+  it("clamps the projection band", () => {
+    const { projection } = fitTrendSeries(SERIES, { max: 75 })!;
+
+    expect(projection.predicted).toBeCloseTo(72.5, 10);
+    expect(projection.upper).toBe(75);
+  });
+
+  it("does not call a noisy slope significant", () => {
+    const { fit } = fitTrendSeries([
+      { date: "2026-01-01", value: 60 },
+      { date: "2026-01-31", value: 70 },
+      { date: "2026-03-02", value: 58 },
+      { date: "2026-04-01", value: 66 },
+    ])!;
+
+    expect(fit.slopeCI.lower).toBeLessThan(0);
+    expect(fit.slopeCI.upper).toBeGreaterThan(0);
+    expect(fit.slopeIsSignificant).toBe(false);
+  });
+
+  it("needs three dated observations on different days", () => {
+    expect(fitTrendSeries(SERIES.slice(0, 2))).toBeNull();
+    expect(
+      fitTrendSeries([
+        { date: "2026-01-01", value: 60 },
+        { date: "2026-01-01", value: 62 },
+        { date: "2026-01-01", value: 64 },
+      ])
+    ).toBeNull();
+    expect(
+      fitTrendSeries([
+        ...SERIES.slice(0, 2),
+        { date: "not a date", value: 64 },
+      ])
+    ).toBeNull();
+  });
+});
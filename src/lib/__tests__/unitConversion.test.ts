@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertValue,
+  fromCanonical,
+  isMineralUnit,
+  normalizeUnit,
+  toCanonical,
+  toCanonicalMineralData,
+  toCanonicalValues,
+} from "../unitConversion";
+import { createEmptyMineralData } from "../mineralModel";
+
+describe("unit conversion", () => {
+  it("converts ppm, µg/g and mg/kg to mg% without float noise", () => {
+    expect(toCanonical(420, "ppm")).toBe(42);
+    expect(toCanonical(61, "µg/g")).toBe(6.1);
+    expect(toCanonical(3, "mg/kg")).toBe(0.3);
+    expect(toCanonical(42, "mg%")).toBe(42);
+  });
+
+  it("round-trips between units", () => {
+    expect(fromCanonical(6.1, "ppm")).toBe(61);
+    expect(convertValue(61, "ppm", "µg/g")).toBe(61);
+    expect(fromCanonical(toCanonical(0.07, "mg/kg"), "mg/kg")).toBe(0.07);
+  });
+
+  it("normalizes unit labels from reports and old documents", () => {
+    expect(normalizeUnit("mg %")).toBe("mg%");
+    expect(normalizeUnit("mg/100g")).toBe("mg%");
+    expect(normalizeUnit("PPM")).toBe("ppm");
+    expect(normalizeUnit("ug/g")).toBe("µg/g");
+    expect(normalizeUnit("mcg/g")).toBe("µg/g");
+    expect(normalizeUnit("mmol/L")).toBeNull();
+    expect(normalizeUnit(undefined)).toBeNull();
+    expect(isMineralUnit("mg/kg")).toBe(true);
+    expect(isMineralUnit("ug/g")).toBe(false);
+  });
+
+  it("keeps missing minerals missing", () => {
+    const data = { ...createEmptyMineralData(), calcium: 420, magnesium: 0 };
+    const converted = toCanonicalMineralData(data, "ppm");
+
+    expect(converted.calcium).toBe(42);
+    expect(converted.magnesium).toBe(0);
+    expect(converted.sodium).toBeNull();
+    expect(toCanonicalMineralData(data, "mg%")).toBe(data);
+  });
+
+  it("converts symbol-keyed values", () => {
+    expect(toCanonicalValues({ Ca: 420, Mg: 61 }, "ppm")).toEqual({
+      Ca: 42,
+      Mg: 6.1,
+    });
+  });
+});
@@ -6,15 +6,30 @@
  * - Severity of deviations from ideal ranges
  * - Agreement between ratios and underlying minerals
  * - Oxidation pattern consistency
+ * - Practitioner-authored pattern rules that matched (v1.1.0)
+ * - Contradictions between the AI text and computed results (v1.2.0)
  *
  * This increases scientific credibility and practitioner trust by showing
  * the strength of evidence behind each AI interpretation.
  *
- * Version: 1.0.0
+ * Version: 1.2.0
  */
 
-import { MineralSnapshot, RatioSnapshot } from "./reportSnapshot";
+import {
+  MeasuredMineralSnapshot,
+  MineralSnapshot,
+  RatioSnapshot,
+  isMeasuredMineral,
+} from "./reportSnapshot";
 import { OxidationClassification } from "./oxidationClassification";
+import {
+  PractitionerRuleMatch,
+  describeRuleMatch,
+} from "./practitionerRuleEngine";
+import {
+  ConsistencyClaim,
+  describeConsistencyConflict,
+} from "./aiConsistencyChecker";
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -23,12 +38,20 @@ import { OxidationClassification } from "./oxidationClassification";
 export type ConfidenceLevel = "High" | "Moderate" | "Low";
 
 export interface EvidenceItem {
-  /** Type of evidence: mineral, ratio, oxidation */
-  readonly type: "mineral" | "ratio" | "oxidation" | "pattern";
+  /** Type of evidence: mineral, ratio, oxidation, pattern, practitioner rule */
+  readonly type:
+    | "mineral"
+    | "ratio"
+    | "oxidation"
+    | "pattern"
+    | "practitioner_rule";
 
   /** Description of the evidence */
   readonly description: string;
 
+  /** Symbol, ratio name or oxidation type the evidence is about */
+  readonly key?: string;
+
   /** Weight/importance of this evidence (0-1) */
   readonly weight: number;
 }
@@ -48,32 +71,57 @@ export interface ConfidenceScore {
 
   /** Whether multiple independent markers agree */
   readonly hasCorroboration: boolean;
+
+  /** Points taken off for AI statements that contradict computed results */
+  readonly consistencyPenalty?: number;
+
+  /** AI statements that contradict computed results */
+  readonly consistencyConflicts?: ReadonlyArray<string>;
 }
 
 // ============================================================================
 // CONFIDENCE SCORING ENGINE
 // ============================================================================
 
+/**
+ * High or Low minerals. Minerals that were not measured are never evidence.
+ */
+function isAbnormalMineral(
+  mineral: MineralSnapshot
+): mineral is MeasuredMineralSnapshot {
+  return (
+    isMeasuredMineral(mineral) &&
+    (mineral.status === "High" || mineral.status === "Low")
+  );
+}
+
+/** Evidence weight of one matched practitioner rule */
+const PRACTITIONER_RULE_WEIGHT = 0.4;
+
+/** Points taken off per contradiction, and at most in total */
+const CONSISTENCY_PENALTY_PER_CONFLICT = 10;
+const MAX_CONSISTENCY_PENALTY = 40;
+
 /**
  * Calculate confidence score based on mineral and ratio data
  *
  * @param minerals - All mineral measurements
  * @param ratios - All calculated ratios
  * @param oxidation - Oxidation classification (optional)
+ * @param ruleMatches - Practitioner pattern rules that matched (optional)
  * @returns Confidence score with evidence
  */
 export function calculateConfidenceScore(
   minerals: ReadonlyArray<MineralSnapshot>,
   ratios: ReadonlyArray<RatioSnapshot>,
-  oxidation?: OxidationClassification
+  oxidation?: OxidationClassification,
+  ruleMatches: ReadonlyArray<PractitionerRuleMatch> = []
 ): ConfidenceScore {
   const evidence: EvidenceItem[] = [];
   let totalWeight = 0;
 
   // === MINERAL EVIDENCE ===
-  const abnormalMinerals = minerals.filter(
-    (m) => m.status === "High" || m.status === "Low"
-  );
+  const abnormalMinerals = minerals.filter(isAbnormalMineral);
 
   abnormalMinerals.forEach((mineral) => {
     const deviation = calculateDeviation(
@@ -88,6 +136,7 @@ export function calculateConfidenceScore(
       description: `${mineral.name} (${
         mineral.symbol
       }) is ${mineral.status.toLowerCase()} (${mineral.value} ${mineral.unit})`,
+      key: mineral.symbol,
       weight,
     });
 
@@ -95,8 +144,10 @@ export function calculateConfidenceScore(
   });
 
   // === RATIO EVIDENCE ===
+  // Display-only ratios are context, not evidence
   const abnormalRatios = ratios.filter(
-    (r) => r.status === "High" || r.status === "Low"
+    (r) =>
+      r.role !== "display_only" && (r.status === "High" || r.status === "Low")
   );
 
   abnormalRatios.forEach((ratio) => {
@@ -114,6 +165,7 @@ export function calculateConfidenceScore(
       } ratio is ${ratio.status.toLowerCase()} (${ratio.value.toFixed(2)}) - ${
         ratio.clinicalSignificance
       }`,
+      key: ratio.name,
       weight,
     });
 
@@ -131,12 +183,26 @@ export function calculateConfidenceScore(
       } oxidation type detected (Ca/K: ${oxidation.metadata.ratioValues.caK.toFixed(
         2
       )}, Na/K: ${oxidation.metadata.ratioValues.naK.toFixed(2)})`,
+      key: oxidation.type,
       weight: oxidationWeight,
     });
 
     totalWeight += oxidationWeight;
   }
 
+  // === PRACTITIONER RULE EVIDENCE ===
+  // A matched rule is a named pattern over values already counted above,
+  // so it adds a fixed, modest weight rather than a deviation weight
+  ruleMatches.forEach((match) => {
+    evidence.push({
+      type: "practitioner_rule",
+      description: describeRuleMatch(match),
+      weight: PRACTITIONER_RULE_WEIGHT,
+    });
+
+    totalWeight += PRACTITIONER_RULE_WEIGHT;
+  });
+
   // === PATTERN AGREEMENT (CORROBORATION) ===
   const hasCorroboration = checkCorroboration(minerals, ratios);
 
@@ -180,6 +246,36 @@ export function calculateConfidenceScore(
   };
 }
 
+/**
+ * Lower confidence for AI statements that contradict the engines' results
+ * (see aiConsistencyChecker.ts). The evidence is unchanged - the penalty
+ * reflects how far the AI text can be trusted to describe it.
+ *
+ * @param confidence - Score from calculateConfidenceScore()
+ * @param conflicts - Contradicting claims found in the AI text
+ * @returns Confidence score with the penalty applied
+ */
+export function applyConsistencyPenalty(
+  confidence: ConfidenceScore,
+  conflicts: ReadonlyArray<ConsistencyClaim>
+): ConfidenceScore {
+  if (conflicts.length === 0) return confidence;
+
+  const penalty = Math.min(
+    MAX_CONSISTENCY_PENALTY,
+    conflicts.length * CONSISTENCY_PENALTY_PER_CONFLICT
+  );
+  const score = Math.max(0, confidence.score - penalty);
+
+  return {
+    ...confidence,
+    level: getConfidenceLevel(score),
+    score,
+    consistencyPenalty: penalty,
+    consistencyConflicts: conflicts.map(describeConsistencyConflict),
+  };
+}
+
 /**
  * Extract topic-specific confidence for individual insights
  *
@@ -209,7 +305,7 @@ export function getInsightConfidence(
 
   // Score based on mentioned abnormal markers
   mentionedMinerals
-    .filter((m) => m.status === "High" || m.status === "Low")
+    .filter(isAbnormalMineral)
     .forEach((mineral) => {
       const deviation = calculateDeviation(
         mineral.value,
@@ -322,9 +418,7 @@ function checkCorroboration(
   minerals: ReadonlyArray<MineralSnapshot>,
   ratios: ReadonlyArray<RatioSnapshot>
 ): boolean {
-  const abnormalMinerals = minerals.filter(
-    (m) => m.status === "High" || m.status === "Low"
-  );
+  const abnormalMinerals = minerals.filter(isAbnormalMineral);
   const abnormalRatios = ratios.filter(
     (r) => r.status === "High" || r.status === "Low"
   );
@@ -0,0 +1,553 @@
+/**
+ * HTMA Genius — AI Consistency Checker
+ * Version: 1.1.0
+ * Reviewed: 2026-10-19
+ *
+ * Checks AI-written statements against the deterministic engines. Claims
+ * are pulled out sentence by sentence and compared with:
+ * - classifyOxidation (oxidation type)
+ * - calculateAllRatios (ratio status)
+ * - getMineralStatus (mineral status)
+ *
+ * Extraction is deliberately conservative - a sentence only yields a claim
+ * when it is unambiguous:
+ * - oxidation claims must refer to the client ("your", "you", "results",
+ *   "this pattern"), so general teaching ("Fast oxidizers tend to...") is
+ *   ignored
+ * - ratio/mineral claims need exactly one ratio or one mineral (two
+ *   minerals that form a ratio count as that ratio)
+ * - the status word must describe that ratio or mineral: "potassium is
+ *   high", "high potassium level", "zinc and copper are balanced" (v1.1.0)
+ * - minerals named as food or intake ("foods high in potassium", "rich in
+ *   magnesium", "intake of zinc") are not the subject of a claim (v1.1.0)
+ * - sentences with negation or generic phrasing ("a high Ca/Mg ratio may")
+ *   are skipped
+ *
+ * Contradicting statements can be removed or flagged; the conflicts lower
+ * AI confidence and are listed for practitioners.
+ *
+ * Purpose: Keeping AI text consistent with computed results
+ * NOT a judgement of whether the computed results are clinically right
+ */
+
+import {
+  MineralData,
+  getOxidationMinerals,
+  toMeasuredSymbolValues,
+} from "./mineralModel";
+import {
+  MINERAL_REFERENCE_RANGES,
+  MineralStatus,
+  getMineralStatus,
+} from "./htmaConstants";
+import { calculateAllRatios } from "./ratioEngine";
+import { ReferenceRangeVersion } from "./reportSnapshot";
+import {
+  OxidationType,
+  classifyOxidation,
+  getOxidationTypeLabel,
+} from "./oxidationClassification";
+import { AIResponse } from "./aiResponseContract";
+
+export const AI_CONSISTENCY_CHECKER_VERSION = "1.1.0";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ConsistencyClaimKind = "oxidation" | "ratio" | "mineral";
+
+/**
+ * Computed results the claims are checked against (measured values only)
+ */
+export interface ConsistencyReference {
+  /** null when Ca, Mg, Na and K were not all measured */
+  oxidationType: OxidationType | null;
+  ratios: ReadonlyArray<{
+    name: string;
+    numerator: string;
+    denominator: string;
+    status: MineralStatus;
+  }>;
+  minerals: ReadonlyArray<{
+    symbol: string;
+    name: string;
+    status: MineralStatus;
+  }>;
+}
+
+export interface ConsistencyClaim {
+  kind: ConsistencyClaimKind;
+  /** Oxidation: "oxidation"; ratio: "Zn/Cu"; mineral: "Ca" */
+  key: string;
+  /** What the text says: an oxidation type or "High" / "Low" / "Optimal" */
+  claimed: string;
+  /** What the engines computed */
+  computed: string;
+  section: "insight" | "recommendation";
+  /** Index of the statement (or text line) the sentence came from */
+  itemIndex: number;
+  sentence: string;
+  consistent: boolean;
+}
+
+export type ConsistencyResolution = "removed" | "flagged" | "none";
+
+export interface ConsistencyReport {
+  version: string;
+  checkedClaims: number;
+  conflicts: ConsistencyClaim[];
+  /** What was done with contradicting statements */
+  resolution: ConsistencyResolution;
+}
+
+interface Statement {
+  section: "insight" | "recommendation";
+  itemIndex: number;
+  text: string;
+}
+
+// ============================================================================
+// CLAIM PATTERNS
+// ============================================================================
+
+const OXIDATION_CLAIM =
+  /\b(fast|slow|mixed|balanced)[- ](oxidi[sz]er|oxidation)\b/i;
+const CLIENT_REFERENCE =
+  /\b(your|you|results?|this (pattern|profile|test|analysis))\b/i;
+
+const HIGH_WORDS =
+  "elevated|high|higher than|above|excess(?:ive)?|raised|too much";
+const LOW_WORDS =
+  "low|lower than|below|depressed|deficient|depleted|too little";
+const OPTIMAL_WORDS =
+  "well[- ]balanced|balanced|optimal|normal|in range|" +
+  "within (?:the |their |its )?(?:ideal|normal|reference|healthy) ranges?";
+const STATUS_WORDS = `(${HIGH_WORDS})|(${LOW_WORDS})|(${OPTIMAL_WORDS})`;
+
+/**
+ * Status after the subject: "potassium is high", "calcium (Ca) levels
+ * remain slightly elevated", "the Zn/Cu ratio appears balanced"
+ */
+const STATUS_AFTER_SUBJECT = new RegExp(
+  "^(?:\\s*\\([A-Za-z]{1,2}\\))?(?:\\s+(?:levels?|ratio|status|values?))?" +
+    "\\s+(?:is|are|was|were|appears?|seems?|looks?|remains?|stays?|" +
+    "has been|have been|tests?|tested|reads?|came back|comes back)" +
+    "\\s+(?:(?:quite|very|slightly|somewhat|mildly|markedly|relatively|" +
+    "rather|too|still|now|also)\\s+)*" +
+    `(?:${STATUS_WORDS})\\b`,
+  "i"
+);
+
+/** Status noun after the subject: "zinc deficiency", "copper excess" */
+const STATUS_NOUN_AFTER_SUBJECT = /^\s+(?:(deficiency|depletion)|(excess))\b/i;
+
+/** Status right before the subject: "high potassium", "low Ca/Mg ratio" */
+const STATUS_BEFORE_SUBJECT = new RegExp(
+  "\\b(?:(elevated|high|excessive|raised)|" +
+    "(low|depressed|deficient|depleted)|" +
+    "(well[- ]balanced|balanced|optimal|normal))\\s+$",
+  "i"
+);
+
+/**
+ * Food and intake wording before a mineral: "foods high in", "rich in",
+ * "intake of" - the mineral is what is eaten, not what was measured.
+ * Covers lists ("rich in zinc and copper").
+ */
+const INTAKE_CONTEXT = new RegExp(
+  "\\b(?:(?:high|higher|low|lower|rich|richer|poor|abundant) in|" +
+    "(?:intake|consumption|supplementation|sources?|servings?|amounts?) of|" +
+    "(?:foods?|snacks?|sources?) (?:with|containing))" +
+    "\\s+(?:[\\w-]+(?:,\\s+|\\s+(?:and|or)\\s+))*$",
+  "i"
+);
+
+const NEGATION = /\b(not|no longer|isn't|aren't|neither|nor|without)\b/i;
+const GENERIC_PHRASING =
+  /\b(if|when|a|an)\s+(very\s+|too\s+)?(high|low|elevated|balanced)\b/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getMineralName(symbol: string): string {
+  return (
+    MINERAL_REFERENCE_RANGES.find((ref) => ref.symbol === symbol)?.name ??
+    symbol
+  );
+}
+
+/**
+ * Patterns for a ratio: "Ca/Mg", "Ca:Mg", "calcium/magnesium",
+ * "calcium-to-magnesium", "calcium to magnesium ratio"
+ */
+function ratioPattern(numerator: string, denominator: string): RegExp {
+  const num = escapeRegExp(numerator);
+  const den = escapeRegExp(denominator);
+  const numName = escapeRegExp(getMineralName(numerator));
+  const denName = escapeRegExp(getMineralName(denominator));
+  const bySymbol = `\\b${num}\\s*[/:]\\s*${den}\\b`;
+  const byName = `\\b${numName}\\s*(/|-to-|\\s+to\\s+)\\s*${denName}\\b`;
+  return new RegExp(`(${bySymbol})|(${byName})`, "i");
+}
+
+/**
+ * Mineral mention by full name or "(Ca)" - bare symbols are too ambiguous
+ * ("B vitamins", "K2")
+ */
+function mineralPattern(symbol: string, name: string): RegExp {
+  return new RegExp(
+    `\\b${escapeRegExp(name)}\\b|\\(${escapeRegExp(symbol)}\\)`,
+    "i"
+  );
+}
+
+function toStatus(match: RegExpMatchArray | null): MineralStatus | null {
+  if (!match) return null;
+  if (match[1]) return "High";
+  if (match[2]) return "Low";
+  return match[3] ? "Optimal" : null;
+}
+
+/**
+ * Places in the sentence where the subject is named, skipping food and
+ * intake mentions
+ */
+function subjectMatches(sentence: string, pattern: RegExp): RegExpMatchArray[] {
+  const global = new RegExp(pattern.source, "gi");
+  return [...sentence.matchAll(global)].filter(
+    (match) => !INTAKE_CONTEXT.test(sentence.slice(0, match.index))
+  );
+}
+
+/**
+ * Status the sentence gives the subject at one of its mentions
+ */
+function statusOfSubject(
+  sentence: string,
+  match: RegExpMatchArray
+): MineralStatus | null {
+  const start = match.index ?? 0;
+  const before = sentence.slice(0, start);
+  const after = sentence.slice(start + match[0].length);
+  const noun = after.match(STATUS_NOUN_AFTER_SUBJECT);
+  if (noun) return noun[1] ? "Low" : "High";
+  return (
+    toStatus(after.match(STATUS_AFTER_SUBJECT)) ??
+    toStatus(before.match(STATUS_BEFORE_SUBJECT))
+  );
+}
+
+/**
+ * The one status the sentence gives the subject; null when it gives none
+ * or mixes them
+ */
+function claimedStatus(
+  sentence: string,
+  matches: ReadonlyArray<RegExpMatchArray>
+): MineralStatus | null {
+  const statuses = new Set(
+    matches
+      .map((match) => statusOfSubject(sentence, match))
+      .filter((status): status is MineralStatus => status !== null)
+  );
+  return statuses.size === 1 ? [...statuses][0] : null;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+// ============================================================================
+// CLAIM EXTRACTION
+// ============================================================================
+
+function extractSentenceClaims(
+  sentence: string,
+  reference: ConsistencyReference
+): Array<Pick<ConsistencyClaim, "kind" | "key" | "claimed" | "computed">> {
+  if (NEGATION.test(sentence) || GENERIC_PHRASING.test(sentence)) return [];
+
+  const claims: Array<
+    Pick<ConsistencyClaim, "kind" | "key" | "claimed" | "computed">
+  > = [];
+
+  // === OXIDATION ===
+  const oxidationMatch = sentence.match(OXIDATION_CLAIM);
+  if (
+    oxidationMatch &&
+    reference.oxidationType &&
+    CLIENT_REFERENCE.test(sentence)
+  ) {
+    claims.push({
+      kind: "oxidation",
+      key: "oxidation",
+      claimed: oxidationMatch[1].toLowerCase(),
+      computed: reference.oxidationType,
+    });
+    // The status words in an oxidation sentence describe the oxidation type
+    return claims;
+  }
+
+  // === RATIOS ===
+  const mentionedRatios = reference.ratios
+    .map((ratio) => ({
+      ratio,
+      matches: subjectMatches(
+        sentence,
+        ratioPattern(ratio.numerator, ratio.denominator)
+      ),
+    }))
+    .filter((r) => r.matches.length > 0);
+  const mentionedMinerals = reference.minerals
+    .map((mineral) => {
+      const pattern = mineralPattern(mineral.symbol, mineral.name);
+      return { mineral, pattern, matches: subjectMatches(sentence, pattern) };
+    })
+    .filter((m) => m.matches.length > 0);
+
+  if (mentionedRatios.length === 1) {
+    const { ratio, matches } = mentionedRatios[0];
+    const status = claimedStatus(sentence, matches);
+    if (status) {
+      claims.push({
+        kind: "ratio",
+        key: ratio.name,
+        claimed: status,
+        computed: ratio.status,
+      });
+    }
+    return claims;
+  }
+  if (mentionedRatios.length > 1) return claims;
+
+  // "Zinc and copper appear well balanced" is a Zn/Cu claim
+  if (mentionedMinerals.length === 2) {
+    const [first, second] = mentionedMinerals;
+    const symbols = [first.mineral.symbol, second.mineral.symbol];
+    const pair = reference.ratios.find(
+      (r) => symbols.includes(r.numerator) && symbols.includes(r.denominator)
+    );
+    const bothAsSubject = [
+      [first.pattern, second.pattern],
+      [second.pattern, first.pattern],
+    ].flatMap(([a, b]) =>
+      subjectMatches(
+        sentence,
+        new RegExp(`(?:${a.source})\\s+and\\s+(?:${b.source})`, "i")
+      )
+    );
+    const status = claimedStatus(sentence, bothAsSubject);
+    if (pair && status) {
+      claims.push({
+        kind: "ratio",
+        key: pair.name,
+        claimed: status,
+        computed: pair.status,
+      });
+    }
+    return claims;
+  }
+
+  // === MINERALS ===
+  if (mentionedMinerals.length === 1) {
+    const { mineral, matches } = mentionedMinerals[0];
+    const status = claimedStatus(sentence, matches);
+    if (status) {
+      claims.push({
+        kind: "mineral",
+        key: mineral.symbol,
+        claimed: status,
+        computed: mineral.status,
+      });
+    }
+  }
+
+  return claims;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Computed results for a mineral panel (mg%); unmeasured minerals and
+ * ratios that depend on them are left out
+ *
+ * @param rangeVersion - Reference range version for oxidation thresholds
+ */
+export function buildConsistencyReference(
+  mineralData: MineralData,
+  rangeVersion: ReferenceRangeVersion
+): ConsistencyReference {
+  const measured = toMeasuredSymbolValues(mineralData);
+  const oxidationMinerals = getOxidationMinerals(mineralData);
+
+  return {
+    oxidationType: oxidationMinerals
+      ? classifyOxidation(oxidationMinerals, rangeVersion).type
+      : null,
+    ratios: calculateAllRatios(measured).map((r) => ({
+      name: r.name,
+      numerator: r.numerator,
+      denominator: r.denominator,
+      status: r.status,
+    })),
+    minerals: MINERAL_REFERENCE_RANGES.filter(
+      (ref) => measured[ref.symbol] !== undefined
+    ).map((ref) => ({
+      symbol: ref.symbol,
+      name: ref.name,
+      status: getMineralStatus(
+        measured[ref.symbol],
+        ref.minIdeal,
+        ref.maxIdeal
+      ),
+    })),
+  };
+}
+
+function checkStatements(
+  statements: ReadonlyArray<Statement>,
+  reference: ConsistencyReference
+): ConsistencyReport {
+  const claims: ConsistencyClaim[] = [];
+
+  statements.forEach((statement) => {
+    splitSentences(statement.text).forEach((sentence) => {
+      extractSentenceClaims(sentence, reference).forEach((claim) => {
+        claims.push({
+          ...claim,
+          section: statement.section,
+          itemIndex: statement.itemIndex,
+          sentence,
+          consistent: claim.claimed === claim.computed,
+        });
+      });
+    });
+  });
+
+  return {
+    version: AI_CONSISTENCY_CHECKER_VERSION,
+    checkedClaims: claims.length,
+    conflicts: claims.filter((c) => !c.consistent),
+    resolution: "none",
+  };
+}
+
+/**
+ * Check a structured AI response
+ */
+export function checkResponseConsistency(
+  response: AIResponse,
+  reference: ConsistencyReference
+): ConsistencyReport {
+  return checkStatements(
+    [
+      ...response.insights.map((item, itemIndex) => ({
+        section: "insight" as const,
+        itemIndex,
+        text: item.text,
+      })),
+      ...response.recommendations.map((item, itemIndex) => ({
+        section: "recommendation" as const,
+        itemIndex,
+        text: item.text,
+      })),
+    ],
+    reference
+  );
+}
+
+/**
+ * Check free text (e.g. on-device AI output); itemIndex is the line index
+ */
+export function checkTextConsistency(
+  text: string,
+  reference: ConsistencyReference
+): ConsistencyReport {
+  return checkStatements(
+    text.split("\n").map((line, itemIndex) => ({
+      section: "insight" as const,
+      itemIndex,
+      text: line,
+    })),
+    reference
+  );
+}
+
+/**
+ * Remove contradicting statements, or keep them with a note giving the
+ * computed result
+ */
+export function resolveConsistencyConflicts(
+  response: AIResponse,
+  report: ConsistencyReport,
+  mode: "remove" | "flag"
+): { response: AIResponse; report: ConsistencyReport } {
+  if (report.conflicts.length === 0) {
+    return { response, report };
+  }
+
+  const conflictsFor = (section: ConsistencyClaim["section"], index: number) =>
+    report.conflicts.filter(
+      (c) => c.section === section && c.itemIndex === index
+    );
+
+  const resolve = <T extends { text: string }>(
+    items: ReadonlyArray<T>,
+    section: ConsistencyClaim["section"]
+  ): T[] =>
+    items.flatMap((item, index) => {
+      const conflicts = conflictsFor(section, index);
+      if (conflicts.length === 0) return [item];
+      if (mode === "remove") return [];
+      return [
+        {
+          ...item,
+          text: `${item.text} (Note: our calculations show ${conflicts
+            .map(describeComputedResult)
+            .join("; ")}.)`,
+        },
+      ];
+    });
+
+  return {
+    response: {
+      ...response,
+      insights: resolve(response.insights, "insight"),
+      recommendations: resolve(response.recommendations, "recommendation"),
+    },
+    report: {
+      ...report,
+      resolution: mode === "remove" ? "removed" : "flagged",
+    },
+  };
+}
+
+function formatClaimValue(kind: ConsistencyClaimKind, value: string): string {
+  return kind === "oxidation"
+    ? getOxidationTypeLabel(value as OxidationType).toLowerCase()
+    : value.toLowerCase();
+}
+
+function describeComputedResult(claim: ConsistencyClaim): string {
+  return claim.kind === "oxidation"
+    ? `a ${formatClaimValue(claim.kind, claim.computed)} pattern`
+    : `${claim.key} is ${formatClaimValue(claim.kind, claim.computed)}`;
+}
+
+/**
+ * "Zn/Cu: AI text says optimal, calculated high"
+ */
+export function describeConsistencyConflict(claim: ConsistencyClaim): string {
+  const subject = claim.kind === "oxidation" ? "Oxidation type" : claim.key;
+  return `${subject}: AI text says ${formatClaimValue(
+    claim.kind,
+    claim.claimed
+  )}, calculated ${formatClaimValue(claim.kind, claim.computed)}`;
+}
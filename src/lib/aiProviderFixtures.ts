@@ -0,0 +1,113 @@
+/**
+ * HTMA Genius — Local AI Provider Fixtures
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Scripted responses for the local provider (aiProviders.ts), so the whole
+ * pipeline - contract validation, retry, guardrails, storage - runs offline
+ * and in development without an AI backend.
+ *
+ * A script lists the responses per task in call order; once a task's list
+ * is used up, its last response repeats. Select a script with
+ * AI_LOCAL_SCRIPT (default "default").
+ *
+ * Fixture content is static: it never reflects the submitted values.
+ */
+
+import { AI_RESPONSE_CONTRACT_VERSION } from "./aiResponseContract";
+import { AITask } from "./aiProviders";
+
+export type LocalFixtureScript = Readonly<
+  Partial<Record<AITask, ReadonlyArray<unknown>>>
+>;
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+/** Contract-valid analysis response */
+const ANALYSIS_FIXTURE = {
+  contractVersion: AI_RESPONSE_CONTRACT_VERSION,
+  insights: [
+    {
+      category: "general",
+      text: "This is a scripted insight from the local fixture provider. It does not reflect the submitted mineral values.",
+      evidence: [],
+      targets: [],
+    },
+    {
+      category: "ratio",
+      text: "Fixture insight: the calcium to magnesium relationship is one of the ratios practitioners review first on a hair mineral test.",
+      evidence: [{ type: "ratio", key: "Ca/Mg" }],
+      targets: ["Ca/Mg"],
+    },
+  ],
+  recommendations: [
+    {
+      category: "practitioner_review",
+      text: "Fixture recommendation: review these results with a qualified practitioner.",
+      evidence: [],
+      targets: [],
+    },
+  ],
+};
+
+/** Free-text answer that does not match the response contract */
+const ANALYSIS_FREE_TEXT_FIXTURE = {
+  analysis: `Scripted free-text answer from the local fixture provider.
+
+It does not follow the response contract, so the route retries once and then keeps these paragraphs as unclassified insights.`,
+};
+
+/** Lab report extraction in the AI_EXTRACTION_PROMPT format (TEI sample) */
+const LAB_EXTRACTION_FIXTURE = {
+  labName: "Trace Elements Inc. (fixture)",
+  unit: "mg%",
+  testDate: null,
+  accessionNumber: null,
+  minerals: {
+    calcium: 42,
+    magnesium: 6,
+    sodium: 25,
+    potassium: 10,
+    phosphorus: 16,
+    copper: 2.5,
+    zinc: 16,
+    iron: 2.2,
+    manganese: 0.03,
+    chromium: 0.06,
+    selenium: 0.12,
+    boron: 0.1,
+    cobalt: 0.002,
+    molybdenum: 0.004,
+    sulfur: 4500,
+  },
+  toxicElements: {},
+  additionalElements: {},
+};
+
+// ============================================================================
+// SCRIPTS
+// ============================================================================
+
+export const LOCAL_FIXTURE_SCRIPTS: Readonly<
+  Record<string, LocalFixtureScript>
+> = {
+  /** Valid answers for every task */
+  default: {
+    htma_analysis: [ANALYSIS_FIXTURE],
+    lab_extraction: [LAB_EXTRACTION_FIXTURE],
+  },
+  /** First analysis answer breaks the contract, the retry is valid */
+  contract_retry: {
+    htma_analysis: [ANALYSIS_FREE_TEXT_FIXTURE, ANALYSIS_FIXTURE],
+    lab_extraction: [LAB_EXTRACTION_FIXTURE],
+  },
+  /** Analysis never matches the contract (exercises degradation) */
+  degraded: {
+    htma_analysis: [ANALYSIS_FREE_TEXT_FIXTURE],
+    lab_extraction: [LAB_EXTRACTION_FIXTURE],
+  },
+};
+
+export const DEFAULT_LOCAL_FIXTURE_SCRIPT = "default";
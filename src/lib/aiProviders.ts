@@ -0,0 +1,555 @@
+/**
+ * HTMA Genius — AI Provider Layer
+ * Version: 1.2.0
+ * Reviewed: 2026-10-19
+ *
+ * One interface for every AI call, so routes don't each carry their own
+ * fetch/SDK code and error handling:
+ * - cloud-run: the Cloud Run backend (AI_BACKEND_URL, AI_BACKEND_ENDPOINT_PATH,
+ *              AI_BACKEND_MODEL)
+ * - gemini:    Gemini via @google/generative-ai (GEMINI_API_KEY, GEMINI_MODEL)
+ * - chrome-ai: Chrome built-in AI (browser only)
+ * - rule-based: deterministic narrative from the engines (ruleBasedNarrative.ts)
+ *               - no AI, always available for htma_analysis
+ * - local:     scripted fixtures (aiProviderFixtures.ts) - works offline
+ *
+ * Providers run as an ordered fallback chain: the first configured provider
+ * that answers wins; failures and skipped providers are recorded. Every
+ * answer carries provider, model and latency for the analysis metadata.
+ *
+ * Chains are configured per task (comma-separated provider ids):
+ * - AI_PROVIDER_CHAIN             htma_analysis (default
+ *                                 cloud-run,gemini,rule-based)
+ * - AI_EXTRACTION_PROVIDER_CHAIN  lab_extraction (default gemini)
+ *
+ * Lab extraction never falls back to fixtures unless configured to, so an
+ * uploaded report can't silently come back with sample values.
+ * The analysis pipeline runs offline with AI_PROVIDER_CHAIN=rule-based
+ * (real results) or local (fixtures).
+ *
+ * Cloud Run and Gemini can also stream their answer text
+ * (streamWithFallback); other providers deliver their answer as one chunk.
+ *
+ * Version history:
+ * - 1.2.0: streaming generation (generateStream, streamWithFallback)
+ * - 1.1.0: rule-based provider, now the default end of the analysis chain
+ * - 1.0.0: cloud-run, gemini, chrome-ai and local providers
+ */
+
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  DEFAULT_LOCAL_FIXTURE_SCRIPT,
+  LOCAL_FIXTURE_SCRIPTS,
+} from "./aiProviderFixtures";
+import {
+  RULE_BASED_NARRATIVE_MODEL,
+  generateRuleBasedNarrative,
+} from "./ruleBasedNarrative";
+import { MineralData } from "./mineralModel";
+import { ReferenceRangeVersion } from "./reportSnapshot";
+import { ChromeAIService } from "./chromeAI";
+import { AI_MODEL } from "./htmaConstants";
+
+export const AI_PROVIDER_LAYER_VERSION = "1.2.0";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type AIProviderId =
+  | "cloud-run"
+  | "gemini"
+  | "chrome-ai"
+  | "rule-based"
+  | "local";
+
+export type AITask = "htma_analysis" | "lab_extraction";
+
+export interface AIProviderRequest {
+  task: AITask;
+  prompt: string;
+  /** Extra fields for backends that take structured input (Cloud Run) */
+  payload?: Record<string, unknown>;
+  /** Inline document, e.g. a base64 PDF for lab extraction */
+  attachment?: { mimeType: string; data: string };
+  /** Mineral panel (mg%) for providers that work from the values */
+  mineralData?: MineralData;
+  /** Active reference range version, with mineralData */
+  rangeVersion?: ReferenceRangeVersion;
+  /** Cancels the request (e.g. the streaming client disconnected) */
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly model: string;
+  /** Whether the provider has what it needs to run (URL, key, browser API) */
+  isConfigured(): boolean;
+  /** Parsed JSON body when the answer is JSON, otherwise the raw text */
+  generate(request: AIProviderRequest): Promise<unknown>;
+  /** Answer text as it is generated (providers that can stream) */
+  generateStream?(request: AIProviderRequest): AsyncIterable<string>;
+}
+
+export interface AIProviderAttempt {
+  provider: AIProviderId;
+  model: string;
+  outcome: "skipped" | "failed";
+  error: string;
+  latencyMs: number;
+}
+
+export interface AIGenerationMetadata {
+  provider: AIProviderId;
+  model: string;
+  latencyMs: number;
+  /** Providers tried before this one, in chain order */
+  fallbackAttempts: AIProviderAttempt[];
+}
+
+export type AIGenerationResult =
+  | {
+      success: true;
+      body: unknown;
+      provider: AIProvider;
+      metadata: AIGenerationMetadata;
+    }
+  | { success: false; attempts: AIProviderAttempt[] };
+
+export interface AIStreamHandlers {
+  /** A configured provider is about to be asked */
+  onStart(provider: AIProvider): void;
+  /** Next piece of answer text */
+  onChunk(chunk: string): void;
+  /** A provider failed after sending text; what it sent is void */
+  onRestart(attempt: AIProviderAttempt): void;
+}
+
+type ProviderEnv = Readonly<Record<string, string | undefined>>;
+
+const PROVIDER_IDS: ReadonlyArray<AIProviderId> = [
+  "cloud-run",
+  "gemini",
+  "chrome-ai",
+  "rule-based",
+  "local",
+];
+
+const DEFAULT_CHAINS: Readonly<Record<AITask, string>> = {
+  htma_analysis: "cloud-run,gemini,rule-based",
+  lab_extraction: "gemini",
+};
+
+const CHAIN_ENV_KEYS: Readonly<Record<AITask, string>> = {
+  htma_analysis: "AI_PROVIDER_CHAIN",
+  lab_extraction: "AI_EXTRACTION_PROVIDER_CHAIN",
+};
+
+const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * JSON when the text is JSON, otherwise the text itself
+ */
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Cloud Run backend: POST { ...payload, prompt } to the analyze endpoint
+ */
+export function createCloudRunProvider(env: ProviderEnv): AIProvider {
+  const baseUrl = env.AI_BACKEND_URL;
+  const endpointPath = env.AI_BACKEND_ENDPOINT_PATH || "/analyze";
+
+  const post = async (request: AIProviderRequest): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${endpointPath}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...request.payload, prompt: request.prompt }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Backend returned ${response.status} ${response.statusText}`.trim()
+      );
+    }
+    return response;
+  };
+
+  return {
+    id: "cloud-run",
+    model: env.AI_BACKEND_MODEL || AI_MODEL,
+    isConfigured: () => Boolean(baseUrl),
+    async generate(request) {
+      return parseBody(await (await post(request)).text());
+    },
+    async *generateStream(request) {
+      const response = await post(request);
+      if (!response.body) {
+        yield await response.text();
+        return;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield decoder.decode(value, { stream: true });
+      }
+      yield decoder.decode();
+    },
+  };
+}
+
+/**
+ * Gemini via the Google Generative AI SDK; answers are returned as text
+ * (or JSON when the model answered with bare JSON)
+ */
+export function createGeminiProvider(env: ProviderEnv): AIProvider {
+  const apiKey = env.GEMINI_API_KEY;
+  const model = env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL;
+
+  const getModel = () =>
+    new GoogleGenerativeAI(apiKey as string).getGenerativeModel({ model });
+  const toParts = (request: AIProviderRequest) => [
+    ...(request.attachment
+      ? [
+          {
+            inlineData: {
+              mimeType: request.attachment.mimeType,
+              data: request.attachment.data,
+            },
+          },
+        ]
+      : []),
+    { text: request.prompt },
+  ];
+
+  return {
+    id: "gemini",
+    model,
+    isConfigured: () => Boolean(apiKey),
+    async generate(request) {
+      const result = await getModel().generateContent(toParts(request), {
+        signal: request.signal,
+      });
+
+      // Strip markdown code fences around JSON answers
+      return parseBody(
+        result.response
+          .text()
+          .replace(/```json|```/g, "")
+          .trim()
+      );
+    },
+    async *generateStream(request) {
+      const result = await getModel().generateContentStream(
+        toParts(request),
+        { signal: request.signal }
+      );
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    },
+  };
+}
+
+/**
+ * Chrome built-in AI (browser only, no attachments)
+ */
+export function createChromeAIProvider(service: ChromeAIService): AIProvider {
+  return {
+    id: "chrome-ai",
+    model: "Gemini Nano (Chrome AI)",
+    isConfigured: () => typeof window !== "undefined" && Boolean(window.ai),
+    async generate(request) {
+      if (request.attachment) {
+        throw new Error("Chrome AI does not accept attachments");
+      }
+      return parseBody(await service.prompt(request.prompt));
+    },
+  };
+}
+
+/**
+ * Deterministic narrative from the engines; analysis only
+ */
+export function createRuleBasedProvider(): AIProvider {
+  return {
+    id: "rule-based",
+    model: RULE_BASED_NARRATIVE_MODEL,
+    isConfigured: () => true,
+    async generate(request) {
+      if (
+        request.task !== "htma_analysis" ||
+        !request.mineralData ||
+        !request.rangeVersion
+      ) {
+        throw new Error(
+          "Rule-based narrative needs an htma_analysis panel and range version"
+        );
+      }
+      return generateRuleBasedNarrative(
+        request.mineralData,
+        request.rangeVersion
+      );
+    },
+  };
+}
+
+/**
+ * Scripted fixtures: each call returns the next response for the task,
+ * repeating the last one. A fresh provider starts the script over.
+ */
+export function createLocalScriptedProvider(
+  scriptName: string = DEFAULT_LOCAL_FIXTURE_SCRIPT
+): AIProvider {
+  const script = LOCAL_FIXTURE_SCRIPTS[scriptName];
+  const calls: Partial<Record<AITask, number>> = {};
+
+  return {
+    id: "local",
+    model: `Local fixtures (${scriptName})`,
+    isConfigured: () => script !== undefined,
+    async generate(request) {
+      const responses = script?.[request.task] ?? [];
+      if (responses.length === 0) {
+        throw new Error(
+          `Fixture script "${scriptName}" has no ${request.task} responses`
+        );
+      }
+
+      const call = calls[request.task] ?? 0;
+      calls[request.task] = call + 1;
+      return responses[Math.min(call, responses.length - 1)];
+    },
+  };
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Provider ids for a task, in fallback order; unknown ids are ignored
+ */
+export function getProviderChainIds(
+  task: AITask,
+  env: ProviderEnv = process.env
+): AIProviderId[] {
+  const configured = env[CHAIN_ENV_KEYS[task]] || DEFAULT_CHAINS[task];
+
+  return configured
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id): id is AIProviderId => {
+      const known = PROVIDER_IDS.includes(id as AIProviderId);
+      if (id && !known) console.warn(`⚠️ Unknown AI provider "${id}" ignored`);
+      return known;
+    });
+}
+
+/**
+ * Build the configured provider chain for a task. Chrome AI is only
+ * included when a ChromeAIService is passed (browser callers).
+ */
+export function resolveProviderChain(
+  task: AITask,
+  options: { env?: ProviderEnv; chromeAI?: ChromeAIService } = {}
+): AIProvider[] {
+  const env = options.env ?? process.env;
+
+  return getProviderChainIds(task, env).flatMap((id): AIProvider[] => {
+    switch (id) {
+      case "cloud-run":
+        return [createCloudRunProvider(env)];
+      case "gemini":
+        return [createGeminiProvider(env)];
+      case "chrome-ai":
+        return options.chromeAI
+          ? [createChromeAIProvider(options.chromeAI)]
+          : [];
+      case "rule-based":
+        return [createRuleBasedProvider()];
+      case "local":
+        return [
+          createLocalScriptedProvider(
+            env.AI_LOCAL_SCRIPT || DEFAULT_LOCAL_FIXTURE_SCRIPT
+          ),
+        ];
+    }
+  });
+}
+
+// ============================================================================
+// FALLBACK CHAIN
+// ============================================================================
+
+/**
+ * Run a request through a provider, timing it
+ */
+export async function generateWithProvider(
+  provider: AIProvider,
+  request: AIProviderRequest
+): Promise<{ body: unknown; latencyMs: number }> {
+  const startedAt = Date.now();
+  const body = await provider.generate(request);
+  return { body, latencyMs: Date.now() - startedAt };
+}
+
+/**
+ * Try each provider in order until one answers. An aborted request stops
+ * the chain.
+ */
+export async function generateWithFallback(
+  chain: ReadonlyArray<AIProvider>,
+  request: AIProviderRequest
+): Promise<AIGenerationResult> {
+  const attempts: AIProviderAttempt[] = [];
+
+  for (const provider of chain) {
+    if (request.signal?.aborted) break;
+    if (!provider.isConfigured()) {
+      attempts.push({
+        provider: provider.id,
+        model: provider.model,
+        outcome: "skipped",
+        error: "Not configured",
+        latencyMs: 0,
+      });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const { body, latencyMs } = await generateWithProvider(
+        provider,
+        request
+      );
+      return {
+        success: true,
+        body,
+        provider,
+        metadata: {
+          provider: provider.id,
+          model: provider.model,
+          latencyMs,
+          fallbackAttempts: attempts,
+        },
+      };
+    } catch (error) {
+      console.warn(`⚠️ AI provider ${provider.id} failed:`, error);
+      attempts.push({
+        provider: provider.id,
+        model: provider.model,
+        outcome: "failed",
+        error: describeError(error),
+        latencyMs: Date.now() - startedAt,
+      });
+    }
+  }
+
+  return { success: false, attempts };
+}
+
+/**
+ * Stream the answer from the first provider that can give one. Providers
+ * without generateStream() send their whole answer as one chunk. The
+ * result body is parsed from the full text, as generate() would return it.
+ * An aborted request stops the chain without a restart.
+ */
+export async function streamWithFallback(
+  chain: ReadonlyArray<AIProvider>,
+  request: AIProviderRequest,
+  handlers: AIStreamHandlers
+): Promise<AIGenerationResult> {
+  const attempts: AIProviderAttempt[] = [];
+
+  for (const provider of chain) {
+    if (request.signal?.aborted) break;
+    if (!provider.isConfigured()) {
+      attempts.push({
+        provider: provider.id,
+        model: provider.model,
+        outcome: "skipped",
+        error: "Not configured",
+        latencyMs: 0,
+      });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    let text = "";
+    handlers.onStart(provider);
+    try {
+      if (provider.generateStream) {
+        for await (const chunk of provider.generateStream(request)) {
+          request.signal?.throwIfAborted();
+          text += chunk;
+          handlers.onChunk(chunk);
+        }
+      } else {
+        const body = await provider.generate(request);
+        text = typeof body === "string" ? body : JSON.stringify(body);
+        handlers.onChunk(text);
+      }
+
+      return {
+        success: true,
+        body: parseBody(text),
+        provider,
+        metadata: {
+          provider: provider.id,
+          model: provider.model,
+          latencyMs: Date.now() - startedAt,
+          fallbackAttempts: attempts,
+        },
+      };
+    } catch (error) {
+      console.warn(`⚠️ AI provider ${provider.id} failed:`, error);
+      const attempt: AIProviderAttempt = {
+        provider: provider.id,
+        model: provider.model,
+        outcome: "failed",
+        error: describeError(error),
+        latencyMs: Date.now() - startedAt,
+      };
+      attempts.push(attempt);
+      if (request.signal?.aborted) break;
+      if (text) handlers.onRestart(attempt);
+    }
+  }
+
+  return { success: false, attempts };
+}
+
+/**
+ * One-line summary of failed/skipped providers for error responses
+ */
+export function describeProviderAttempts(
+  attempts: ReadonlyArray<AIProviderAttempt>
+): string[] {
+  return attempts.map(
+    (a) => `${a.provider} (${a.model}): ${a.outcome} - ${a.error}`
+  );
+}
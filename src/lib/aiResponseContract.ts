@@ -0,0 +1,362 @@
+/**
+ * HTMA Genius — AI Response Contract
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * The AI backend is asked to answer with JSON in this shape instead of free
+ * text, and /api/analyze validates the answer with zod before anything is
+ * guarded, shown or stored. Every insight and recommendation states:
+ * - category (what kind of statement it is)
+ * - evidence (which findings it rests on)
+ * - targets (the minerals or ratios it is about)
+ *
+ * Evidence references line up with confidence EvidenceItems (by type and
+ * key), and targets map onto practitioner annotation targets ("Ca/Mg" →
+ * "ca_mg"), so each statement can be traced and annotated.
+ *
+ * The contract version is sent with the request and must be echoed back;
+ * any change to the shape is a new version.
+ *
+ * Responses that still fail validation after one retry are degraded to
+ * unclassified paragraphs (status "degraded") - nothing is guessed.
+ */
+
+import { z } from "zod";
+import { EvidenceItem } from "./aiConfidenceScoring";
+import { isValidAnnotationTarget } from "./annotationEngine";
+import {
+  applyGuardrails,
+  GuardrailsContext,
+} from "./interpretationGuardrails";
+
+export const AI_RESPONSE_CONTRACT_VERSION = "1.0.0";
+
+const MAX_ITEMS = 20;
+const MAX_REFERENCES = 10;
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+export const AIInsightCategorySchema = z.enum([
+  "mineral_balance",
+  "ratio",
+  "oxidation",
+  "toxic_elements",
+  "pattern",
+  "general",
+]);
+
+export const AIRecommendationCategorySchema = z.enum([
+  "diet",
+  "lifestyle",
+  "retest",
+  "practitioner_review",
+  "general",
+]);
+
+/**
+ * A finding the statement rests on. Keys are mineral symbols ("Ca"),
+ * ratio names ("Ca/Mg"), oxidation types ("slow") or pattern names.
+ */
+export const AIEvidenceReferenceSchema = z.object({
+  type: z.enum(["mineral", "ratio", "oxidation", "pattern"]),
+  key: z.string().trim().min(1).max(40),
+});
+
+/** Mineral symbol ("Ca") or ratio name ("Ca/Mg") */
+const AITargetSchema = z
+  .string()
+  .trim()
+  .regex(
+    /^[A-Z][a-z]?(\/[A-Z][a-z]?)?$/,
+    'Targets are mineral symbols ("Ca") or ratio names ("Ca/Mg")'
+  );
+
+const AIEvidenceListSchema = z
+  .array(AIEvidenceReferenceSchema)
+  .max(MAX_REFERENCES)
+  .default([]);
+
+const AITargetListSchema = z
+  .array(AITargetSchema)
+  .max(MAX_REFERENCES)
+  .default([]);
+
+export const AIInsightSchema = z.object({
+  category: AIInsightCategorySchema,
+  text: z.string().trim().min(1).max(1000),
+  evidence: AIEvidenceListSchema,
+  targets: AITargetListSchema,
+});
+
+export const AIRecommendationSchema = z.object({
+  category: AIRecommendationCategorySchema,
+  text: z.string().trim().min(1).max(1000),
+  evidence: AIEvidenceListSchema,
+  targets: AITargetListSchema,
+});
+
+export const AIResponseSchema = z.object({
+  contractVersion: z.literal(AI_RESPONSE_CONTRACT_VERSION),
+  insights: z.array(AIInsightSchema).min(1).max(MAX_ITEMS),
+  recommendations: z.array(AIRecommendationSchema).max(MAX_ITEMS),
+});
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type AIInsightCategory = z.infer<typeof AIInsightCategorySchema>;
+export type AIRecommendationCategory = z.infer<
+  typeof AIRecommendationCategorySchema
+>;
+export type AIEvidenceReference = z.infer<typeof AIEvidenceReferenceSchema>;
+export type AIInsight = z.infer<typeof AIInsightSchema>;
+export type AIRecommendation = z.infer<typeof AIRecommendationSchema>;
+export type AIResponse = z.infer<typeof AIResponseSchema>;
+
+/**
+ * - valid:             first answer matched the contract
+ * - valid_after_retry: the retry matched the contract
+ * - degraded:          neither matched; text kept as unclassified paragraphs
+ */
+export type AIResponseContractStatus =
+  | "valid"
+  | "valid_after_retry"
+  | "degraded";
+
+export interface AIResponseContractResult {
+  contractVersion: string;
+  status: AIResponseContractStatus;
+  attempts: number;
+  /** Validation errors of the last failed attempt (empty when valid) */
+  errors: string[];
+}
+
+export type AIResponseParseResult =
+  | { success: true; data: AIResponse }
+  | { success: false; errors: string[] };
+
+// ============================================================================
+// PROMPT INSTRUCTIONS
+// ============================================================================
+
+/**
+ * Output instructions appended to the analysis prompt
+ */
+export function generateResponseContractInstructions(): string {
+  return `**RESPONSE FORMAT (contract v${AI_RESPONSE_CONTRACT_VERSION}):**
+Respond with a single JSON object and nothing else - no markdown, no code fences:
+{
+  "contractVersion": "${AI_RESPONSE_CONTRACT_VERSION}",
+  "insights": [
+    {
+      "category": "mineral_balance" | "ratio" | "oxidation" | "toxic_elements" | "pattern" | "general",
+      "text": "One complete educational statement",
+      "evidence": [{ "type": "mineral" | "ratio" | "oxidation" | "pattern", "key": "Ca" }],
+      "targets": ["Ca", "Ca/Mg"]
+    }
+  ],
+  "recommendations": [
+    {
+      "category": "diet" | "lifestyle" | "retest" | "practitioner_review" | "general",
+      "text": "One complete, food- or lifestyle-based suggestion",
+      "evidence": [{ "type": "ratio", "key": "Ca/Mg" }],
+      "targets": ["Mg"]
+    }
+  ]
+}
+Rules:
+- At least one insight, at most ${MAX_ITEMS} insights and ${MAX_ITEMS} recommendations
+- Evidence keys are mineral symbols (Ca), ratio names (Ca/Mg), oxidation types (slow) or pattern names
+- Targets are mineral symbols or ratio names only
+- Do not include the disclaimer; it is added by the application`;
+}
+
+/**
+ * Follow-up prompt for the single retry after a contract violation
+ */
+export function generateContractRetryPrompt(
+  originalPrompt: string,
+  errors: ReadonlyArray<string>
+): string {
+  return `${originalPrompt}
+
+**YOUR PREVIOUS RESPONSE WAS REJECTED:**
+It did not match response contract v${AI_RESPONSE_CONTRACT_VERSION}:
+${errors
+  .slice(0, MAX_REFERENCES)
+  .map((error) => `- ${error}`)
+  .join("\n")}
+Answer again with only the JSON object described above.`;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Free-text content of a backend body ({ analysis | response | text })
+ */
+export function extractResponseText(body: unknown): string | null {
+  if (typeof body === "string") return body;
+  if (!body || typeof body !== "object") return null;
+
+  const record = body as Record<string, unknown>;
+  const text = record.analysis ?? record.response ?? record.text;
+  return typeof text === "string" ? text : null;
+}
+
+/**
+ * Find the contract object in a backend body: either the body itself or
+ * JSON inside its text field (code fences and surrounding prose ignored)
+ */
+function extractContractCandidate(body: unknown): unknown {
+  if (body && typeof body === "object" && "contractVersion" in body) {
+    return body;
+  }
+
+  const text = extractResponseText(body);
+  if (text === null) return body;
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return text;
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Validate a backend body against the contract
+ */
+export function parseAIResponseContract(body: unknown): AIResponseParseResult {
+  const candidate = extractContractCandidate(body);
+
+  if (typeof candidate === "string" || candidate === null) {
+    return {
+      success: false,
+      errors: ["Response is not a JSON object"],
+    };
+  }
+
+  const result = AIResponseSchema.safeParse(candidate);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    ),
+  };
+}
+
+/**
+ * Graceful degradation: keep every paragraph of the text as a "general"
+ * insight, with no evidence or targets. Nothing is reclassified or dropped.
+ */
+export function degradeToUnstructured(text: string): AIResponse {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+
+  return {
+    contractVersion: AI_RESPONSE_CONTRACT_VERSION,
+    insights: paragraphs.map((p) => ({
+      category: "general",
+      text: p,
+      evidence: [],
+      targets: [],
+    })),
+    recommendations: [],
+  };
+}
+
+/**
+ * Run one statement (or sentence) through applyGuardrails(); undefined
+ * when the guardrails remove it. No disclaimer is added.
+ */
+export function guardStatement(
+  text: string,
+  ctx: GuardrailsContext
+): string | undefined {
+  return applyGuardrails({ insights: [text], recommendations: [], ctx })
+    .insights[0];
+}
+
+/**
+ * Run every statement through applyGuardrails() individually so category,
+ * evidence and targets stay attached; removed statements are dropped.
+ * Disclaimers are not added here - they belong to the combined text.
+ */
+export function guardAIResponse(
+  response: AIResponse,
+  ctx: GuardrailsContext
+): AIResponse {
+  const guardItems = <T extends AIInsight | AIRecommendation>(
+    items: ReadonlyArray<T>
+  ): T[] =>
+    items.flatMap((item) => {
+      const text = guardStatement(item.text, ctx);
+      return text === undefined ? [] : [{ ...item, text }];
+    });
+
+  return {
+    ...response,
+    insights: guardItems(response.insights),
+    recommendations: guardItems(response.recommendations),
+  };
+}
+
+// ============================================================================
+// EVIDENCE & ANNOTATION LINKS
+// ============================================================================
+
+/**
+ * Practitioner annotation target for a mineral or ratio target
+ * ("Ca" → "ca", "Ca/Mg" → "ca_mg"); null when not annotatable
+ */
+export function toAnnotationTarget(target: string): string | null {
+  const annotationTarget = target.replace("/", "_").toLowerCase();
+  return isValidAnnotationTarget(annotationTarget) ? annotationTarget : null;
+}
+
+/**
+ * Annotation targets an insight or recommendation can be annotated under
+ */
+export function getAnnotationTargets(
+  item: AIInsight | AIRecommendation
+): string[] {
+  const targets = item.targets
+    .map(toAnnotationTarget)
+    .filter((t): t is string => t !== null);
+  return Array.from(new Set(targets));
+}
+
+/**
+ * Confidence evidence that an insight or recommendation refers to.
+ * Pattern references match the corroboration evidence, which has no key.
+ */
+export function findSupportingEvidence(
+  item: AIInsight | AIRecommendation,
+  evidence: ReadonlyArray<EvidenceItem>
+): EvidenceItem[] {
+  return evidence.filter((e) =>
+    item.evidence.some((ref) =>
+      ref.type === "pattern"
+        ? e.type === "pattern"
+        : e.type === ref.type &&
+          e.key !== undefined &&
+          e.key.toLowerCase() === ref.key.toLowerCase()
+    )
+  );
+}
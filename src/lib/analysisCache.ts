@@ -0,0 +1,248 @@
+/**
+ * HTMA Genius — AI Analysis Cache
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Content-addressed cache for server-side AI analyses. Re-running the same
+ * values (page reload, a practitioner reopening a client) returns the
+ * stored guardrailed result instead of calling the AI backend again, so
+ * the client sees the same text and no new cost is incurred.
+ *
+ * The key is a SHA-256 hash of:
+ * - the normalized mineral vector (mg%, fixed order, 6 significant digits,
+ *   null for unmeasured minerals)
+ * - PROMPT_VERSION
+ * - the model
+ * - the guardrails policy version the result was guarded with
+ * - the reference range version the engines ran against
+ * Changing any of them is a cache miss; old entries are simply not read.
+ * Activating a guardrails policy or range version therefore starts a fresh
+ * cache.
+ *
+ * Entries hold no user data and are shared between users
+ * (Firestore: analysisCache/{key}). Practitioners can force regeneration,
+ * which replaces the entry.
+ *
+ * Server only (Node crypto, Firestore Admin SDK).
+ */
+
+import { createHash } from "crypto";
+import { admin } from "./firebaseAdmin";
+import { PROMPT_VERSION, MINERAL_REFERENCE_RANGES } from "./htmaConstants";
+import { MineralData, toMeasuredSymbolValues } from "./mineralModel";
+import { AnalysisProcessingResult } from "./analysisPipeline";
+import { AIProvider } from "./aiProviders";
+import { AnalysisCacheInfo } from "./analysisStream";
+
+export const ANALYSIS_CACHE_VERSION = "1.2.0";
+
+const CACHE_COLLECTION = "analysisCache";
+
+/** Significant digits kept when normalizing values (absorbs unit rounding) */
+const SIGNIFICANT_DIGITS = 6;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type SuccessfulAnalysis = Extract<
+  AnalysisProcessingResult,
+  { success: true }
+>;
+
+interface AnalysisCacheEntry {
+  key: string;
+  cacheVersion: string;
+  promptVersion: string;
+  model: string;
+  guardrailsVersion: string;
+  referenceRangeVersion: string;
+  mineralVector: Record<string, number | null>;
+  response: SuccessfulAnalysis["response"];
+  recommendations: string[];
+  unguarded: SuccessfulAnalysis["unguarded"];
+  createdAt: string;
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Measured values by symbol, keys in reference-range order so the JSON is
+ * stable; unmeasured → null
+ */
+export function normalizeMineralVector(
+  mineralData: MineralData
+): Record<string, number | null> {
+  const measured = toMeasuredSymbolValues(mineralData);
+  return MINERAL_REFERENCE_RANGES.reduce((vector, ref) => {
+    vector[ref.symbol] =
+      measured[ref.symbol] !== undefined
+        ? Number(measured[ref.symbol].toPrecision(SIGNIFICANT_DIGITS))
+        : null;
+    return vector;
+  }, {} as Record<string, number | null>);
+}
+
+/**
+ * Cache key for a panel analyzed by a model against a range version and
+ * guarded with a policy
+ */
+export function computeAnalysisCacheKey(
+  mineralData: MineralData,
+  model: string,
+  guardrailsVersion: string,
+  referenceRangeVersion: string
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        cacheVersion: ANALYSIS_CACHE_VERSION,
+        minerals: normalizeMineralVector(mineralData),
+        promptVersion: PROMPT_VERSION,
+        model,
+        guardrailsVersion,
+        referenceRangeVersion,
+      })
+    )
+    .digest("hex");
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Attach cache details to a result's metadata
+ */
+export function withCacheInfo(
+  result: SuccessfulAnalysis,
+  cache: AnalysisCacheInfo
+): SuccessfulAnalysis {
+  return {
+    ...result,
+    response: {
+      ...result.response,
+      metadata: { ...result.response.metadata, cache },
+    },
+  };
+}
+
+/**
+ * Stored result for a key, marked as a cache hit; null on a miss. Read
+ * errors count as a miss - the cache never blocks an analysis.
+ */
+export async function readAnalysisCache(
+  key: string
+): Promise<SuccessfulAnalysis | null> {
+  try {
+    const doc = await admin
+      .firestore()
+      .collection(CACHE_COLLECTION)
+      .doc(key)
+      .get();
+    if (!doc.exists) return null;
+
+    const entry = doc.data() as AnalysisCacheEntry;
+    return withCacheInfo(
+      {
+        success: true,
+        response: entry.response,
+        recommendations: entry.recommendations,
+        unguarded: entry.unguarded,
+      },
+      { status: "hit", key, cachedAt: entry.createdAt }
+    );
+  } catch (error) {
+    console.warn("⚠️ Analysis cache read failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Store (or replace) the result for a key. Write errors are logged only.
+ */
+export async function writeAnalysisCache(
+  key: string,
+  mineralData: MineralData,
+  result: SuccessfulAnalysis
+): Promise<void> {
+  // Cache details describe a single request, not the stored result
+  const metadata = { ...result.response.metadata };
+  delete metadata.cache;
+
+  const entry: AnalysisCacheEntry = {
+    key,
+    cacheVersion: ANALYSIS_CACHE_VERSION,
+    promptVersion: PROMPT_VERSION,
+    model: metadata.aiModel,
+    guardrailsVersion: result.response.guardrails.version,
+    referenceRangeVersion: metadata.referenceRangeVersion,
+    mineralVector: normalizeMineralVector(mineralData),
+    response: { ...result.response, metadata },
+    recommendations: result.recommendations,
+    unguarded: result.unguarded,
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    await admin.firestore().collection(CACHE_COLLECTION).doc(key).set(entry);
+  } catch (error) {
+    console.warn("⚠️ Analysis cache write failed:", error);
+  }
+}
+
+// ============================================================================
+// ROUTE HELPERS
+// ============================================================================
+
+/**
+ * Cached result for the chain's first configured provider - the one that
+ * would answer if nothing fails - under the active guardrails policy and
+ * range version; null on a miss or an empty chain
+ */
+export async function findCachedAnalysis(
+  chain: ReadonlyArray<AIProvider>,
+  mineralData: MineralData,
+  guardrailsVersion: string,
+  referenceRangeVersion: string
+): Promise<SuccessfulAnalysis | null> {
+  const primary = chain.find((provider) => provider.isConfigured());
+  if (!primary) return null;
+
+  const cached = await readAnalysisCache(
+    computeAnalysisCacheKey(
+      mineralData,
+      primary.model,
+      guardrailsVersion,
+      referenceRangeVersion
+    )
+  );
+  if (cached) {
+    console.log(`♻️ Analysis cache hit (${primary.model})`);
+  }
+  return cached;
+}
+
+/**
+ * Store a freshly generated result under the model that answered and
+ * record the cache status in its metadata
+ */
+export async function cacheAnalysisResult(
+  result: SuccessfulAnalysis,
+  mineralData: MineralData,
+  forceRegenerate: boolean
+): Promise<SuccessfulAnalysis> {
+  const key = computeAnalysisCacheKey(
+    mineralData,
+    result.response.metadata.aiModel,
+    result.response.guardrails.version,
+    result.response.metadata.referenceRangeVersion
+  );
+  await writeAnalysisCache(key, mineralData, result);
+  return withCacheInfo(result, {
+    status: forceRegenerate ? "regenerated" : "miss",
+    key,
+  });
+}
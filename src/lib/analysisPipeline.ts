@@ -0,0 +1,436 @@
+/**
+ * HTMA Genius — Analysis Pipeline
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * What happens to an AI answer after a provider returns it, shared by
+ * /api/analyze and /api/analyze-stream so both deliver the same result:
+ * 1. Response contract validation - one retry, then degradation
+ * 2. Consistency check against the engines (aiConsistencyChecker.ts)
+ * 3. Interpretation guardrails (combined text and per statement)
+ * 4. Optional save to users/{userId}/analyses
+ *
+ * Server only (Firestore Admin SDK).
+ */
+
+import { admin } from "./firebaseAdmin";
+import {
+  ANALYSIS_ENGINE_VERSION,
+  PROMPT_VERSION,
+} from "./htmaConstants";
+import {
+  applyGuardrails,
+  GuardrailsContext,
+  GuardrailsPolicy,
+} from "./interpretationGuardrails";
+import { calculateHealthScore } from "./healthScore";
+import { calculateHealthScoreV2 } from "./healthScoreV2";
+import { calculateAllRatios } from "./ratioEngine";
+import { classifyOxidation } from "./oxidationClassification";
+import {
+  MineralData,
+  getOxidationMinerals,
+  toMeasuredSymbolValues,
+} from "./mineralModel";
+import { MineralUnit } from "./unitConversion";
+import { ReferenceRangeVersion } from "./reportSnapshot";
+import {
+  AI_RESPONSE_CONTRACT_VERSION,
+  AIResponse,
+  AIResponseContractResult,
+  degradeToUnstructured,
+  extractResponseText,
+  generateContractRetryPrompt,
+  guardAIResponse,
+  guardStatement,
+  parseAIResponseContract,
+} from "./aiResponseContract";
+import {
+  AIGenerationMetadata,
+  AIProvider,
+  AIProviderRequest,
+  generateWithProvider,
+} from "./aiProviders";
+import {
+  getAbnormalMineralSymbols,
+  getAbnormalRatioNames,
+} from "./ruleBasedNarrative";
+import {
+  buildConsistencyReference,
+  checkResponseConsistency,
+  checkTextConsistency,
+  resolveConsistencyConflicts,
+} from "./aiConsistencyChecker";
+import {
+  AnalysisResponseBody,
+  AnalysisResponseMetadata,
+  AnalysisSaveStatus,
+} from "./analysisStream";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type AnalysisProcessingResult =
+  | {
+      success: true;
+      response: AnalysisResponseBody;
+      recommendations: string[];
+      /** AI statements before guardrails, for policy previews */
+      unguarded: { insights: string[]; recommendations: string[] };
+    }
+  | { success: false; errors: string[] };
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Consumer guardrails context for a panel; evidence comes from the engines.
+ * Blocked phrasing is rewritten rather than dropped. Without a policy the
+ * built-in lists apply (routes pass loadActiveGuardrailsPolicy()).
+ */
+export function createAnalysisGuardrailsContext(
+  mineralData: MineralData,
+  policy?: GuardrailsPolicy
+): GuardrailsContext {
+  return {
+    audience: "consumer",
+    channel: "api",
+    mode: "rewrite",
+    policy,
+    evidence: {
+      abnormalMinerals: getAbnormalMineralSymbols(mineralData),
+      abnormalRatios: getAbnormalRatioNames(mineralData),
+      trends: [],
+      flags: calculateHealthScore(mineralData).criticalIssues,
+    },
+  };
+}
+
+/**
+ * Guard for streamed preview sentences: undefined when a sentence
+ * contradicts the engines' results or the guardrails remove it, so the
+ * preview doesn't show text the final answer retracts
+ */
+export function createPreviewSentenceGuard(
+  mineralData: MineralData,
+  rangeVersion: ReferenceRangeVersion,
+  policy?: GuardrailsPolicy
+): (text: string) => string | undefined {
+  const ctx = createAnalysisGuardrailsContext(mineralData, policy);
+  const reference = buildConsistencyReference(mineralData, rangeVersion);
+  return (text) =>
+    checkTextConsistency(text, reference).conflicts.length > 0
+      ? undefined
+      : guardStatement(text, ctx);
+}
+
+/**
+ * Turn a provider answer into the analysis response, guarded with the
+ * given policy. The contract retry goes to the provider that answered and
+ * its latency is added to providerMetadata. Fails only when the answer has
+ * no usable text.
+ */
+export async function processAnalysisAnswer(
+  aiData: unknown,
+  provider: AIProvider,
+  providerMetadata: AIGenerationMetadata,
+  request: AIProviderRequest & {
+    mineralData: MineralData;
+    rangeVersion: ReferenceRangeVersion;
+  },
+  policy: GuardrailsPolicy
+): Promise<AnalysisProcessingResult> {
+  const { mineralData, rangeVersion } = request;
+
+  // Validate against the response contract: retry once, then degrade
+  let structured: AIResponse | null = null;
+  const responseContract: AIResponseContractResult = {
+    contractVersion: AI_RESPONSE_CONTRACT_VERSION,
+    status: "valid",
+    attempts: 1,
+    errors: [],
+  };
+
+  const firstAttempt = parseAIResponseContract(aiData);
+  if (firstAttempt.success) {
+    structured = firstAttempt.data;
+  } else {
+    console.warn(
+      "⚠️ Response contract violation, retrying once:",
+      firstAttempt.errors
+    );
+    responseContract.attempts = 2;
+    responseContract.errors = firstAttempt.errors;
+
+    // Retry with the provider that answered, adding its latency; an
+    // aborted request (client gone) isn't retried
+    const retry = request.signal?.aborted
+      ? null
+      : await generateWithProvider(provider, {
+          ...request,
+          prompt: generateContractRetryPrompt(
+            request.prompt,
+            firstAttempt.errors
+          ),
+        }).catch((error) => {
+          console.error("❌ Contract retry failed:", error);
+          return null;
+        });
+    if (retry !== null) {
+      providerMetadata.latencyMs += retry.latencyMs;
+      const retryAttempt = parseAIResponseContract(retry.body);
+      if (retryAttempt.success) {
+        structured = retryAttempt.data;
+        responseContract.status = "valid_after_retry";
+        responseContract.errors = [];
+      } else {
+        responseContract.errors = retryAttempt.errors;
+      }
+    }
+  }
+
+  if (!structured) {
+    const rawText = extractResponseText(aiData);
+    if (!rawText || !rawText.trim()) {
+      return { success: false, errors: responseContract.errors };
+    }
+    console.warn("⚠️ Degrading to unstructured insights");
+    structured = degradeToUnstructured(rawText);
+    responseContract.status = "degraded";
+  }
+
+  // Check claims against the engines before guardrails rewrite the text
+  const consistencyCheck = resolveConsistencyConflicts(
+    structured,
+    checkResponseConsistency(
+      structured,
+      buildConsistencyReference(mineralData, rangeVersion)
+    ),
+    responseContract.status === "degraded" ? "flag" : "remove"
+  );
+  structured = consistencyCheck.response;
+  const consistency = consistencyCheck.report;
+  if (consistency.conflicts.length > 0) {
+    console.warn(
+      `⚠️ ${consistency.conflicts.length} AI statement(s) contradict computed results (${consistency.resolution})`
+    );
+  }
+
+  // Apply interpretation guardrails (combined text and per statement)
+  const guardrailsCtx = createAnalysisGuardrailsContext(mineralData, policy);
+  const unguarded = {
+    insights: structured.insights.map((i) => i.text),
+    recommendations: structured.recommendations.map((r) => r.text),
+  };
+  const guarded = applyGuardrails({ ...unguarded, ctx: guardrailsCtx });
+  const guardedStructured = guardAIResponse(structured, guardrailsCtx);
+
+  // Combine guarded insights and recommendations back into text format
+  // for backward compatibility with existing UI
+  const guardedText = [
+    ...guarded.insights,
+    "",
+    "**Recommendations:**",
+    ...guarded.recommendations,
+  ].join("\n");
+
+  return {
+    success: true,
+    recommendations: guarded.recommendations,
+    unguarded,
+    response: {
+      insights: guardedText,
+      structured: guardedStructured,
+      responseContract,
+      consistency,
+      timestamp: new Date().toISOString(),
+      analysisSource: providerMetadata.provider,
+      metadata: buildAnalysisMetadata(providerMetadata, rangeVersion),
+      guardrails: {
+        version: guarded.version,
+        reviewedDate: guarded.reviewedDate,
+        mode: guarded.mode,
+        removedCount: guarded.removedCount,
+        rewrittenCount: guarded.rewrittenCount,
+        transformations: guarded.transformations,
+      },
+    },
+  };
+}
+
+/**
+ * Response for the requesting client: the guardrail transformation log
+ * holds the unguarded AI text, so only practitioner-mode requests get it
+ */
+export function toClientResponse(
+  response: AnalysisResponseBody,
+  isPractitionerMode: boolean
+): AnalysisResponseBody {
+  if (isPractitionerMode) return response;
+
+  const guardrails = { ...response.guardrails };
+  delete guardrails.transformations;
+  return { ...response, guardrails };
+}
+
+/**
+ * Versions and provider details recorded with every analysis
+ */
+export function buildAnalysisMetadata(
+  providerMetadata: AIGenerationMetadata,
+  rangeVersion: ReferenceRangeVersion
+): AnalysisResponseMetadata {
+  return {
+    engineVersion: ANALYSIS_ENGINE_VERSION,
+    promptVersion: PROMPT_VERSION,
+    referenceRangeVersion: rangeVersion.version,
+    aiModel: providerMetadata.model,
+    aiProvider: providerMetadata.provider,
+    latencyMs: providerMetadata.latencyMs,
+    providerFallbacks: providerMetadata.fallbackAttempts,
+  };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Save the analysis to users/{userId}/analyses/{analysisId}. Never throws:
+ * a failed save doesn't invalidate the analysis.
+ *
+ * A cache hit the user already has an analysis for (same cache key) is not
+ * saved again; the existing analysis id is returned instead.
+ */
+export async function saveAnalysisResult(input: {
+  userId?: string;
+  mineralData: MineralData;
+  inputUnit: MineralUnit;
+  rangeVersion: ReferenceRangeVersion;
+  result: Extract<AnalysisProcessingResult, { success: true }>;
+}): Promise<AnalysisSaveStatus> {
+  const { userId, mineralData, inputUnit, rangeVersion, result } = input;
+  const { response } = result;
+
+  if (!userId) {
+    console.log("ℹ️ No userId provided - skipping auto-save");
+    return { status: "skipped" };
+  }
+
+  try {
+    const db = admin.firestore();
+    const analyses = db.collection("users").doc(userId).collection("analyses");
+    const cache = response.metadata.cache;
+
+    if (cache?.status === "hit") {
+      const existing = await analyses
+        .where("cacheKey", "==", cache.key)
+        .limit(1)
+        .get();
+      if (!existing.empty) {
+        console.log(
+          "ℹ️ Cache hit already saved - reusing analysis",
+          existing.docs[0].id
+        );
+        return { status: "existing", analysisId: existing.docs[0].id };
+      }
+    }
+
+    // Calculate health score (v1) and graded-deviation score (v2)
+    const healthScore = calculateHealthScore(mineralData);
+    const healthScoreV2 = calculateHealthScoreV2(mineralData);
+
+    // Calculate oxidation type (null when Ca, Mg, Na or K is missing)
+    const oxidationMinerals = getOxidationMinerals(mineralData);
+    const oxidation = oxidationMinerals
+      ? classifyOxidation(oxidationMinerals, rangeVersion)
+      : null;
+
+    // Calculate ratios; ratios that use a missing mineral are left out
+    const ratios = calculateAllRatios(toMeasuredSymbolValues(mineralData));
+
+    // Convert ratios array to map for easy access
+    const ratiosMap2 = ratios.reduce((acc, ratio) => {
+      const key = ratio.name.replace("/", "").toLowerCase();
+      acc[key] = ratio.value;
+      return acc;
+    }, {} as Record<string, number>);
+
+    // Save to subcollection: users/{userId}/analyses/{analysisId}
+    const analysisDoc = await analyses.add({
+      // Identity
+      userId,
+
+      // Metadata
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      analysisVersion: ANALYSIS_ENGINE_VERSION,
+      referenceStandard: "TEI",
+      referenceRangeVersion: rangeVersion.version,
+      source: "manual-entry",
+      cacheKey: cache?.key ?? null,
+
+      // Raw input (mg%) and the unit it was entered in
+      minerals: mineralData,
+      inputUnit,
+
+      // Derived ratios (null when a mineral in the ratio was not measured)
+      ratios: {
+        caMg: ratiosMap2["camg"] ?? null,
+        naK: ratiosMap2["nak"] ?? null,
+        caP: ratiosMap2["cap"] ?? null,
+        znCu: ratiosMap2["zncu"] ?? null,
+        caK: ratiosMap2["cak"] ?? null,
+      },
+
+      // Core outcomes
+      oxidationType: oxidation?.type ?? null,
+      oxidationRangeVersion: oxidation?.referenceRangeVersion ?? null,
+      healthScore: {
+        score: healthScore.totalScore,
+        grade: healthScore.grade,
+        semanticsVersion: healthScore.semanticsVersion,
+      },
+      healthScoreV2: {
+        score: healthScoreV2.totalScore,
+        grade: healthScoreV2.grade,
+        semanticsVersion: healthScoreV2.semanticsVersion,
+      },
+
+      // Flags
+      criticalIssues: healthScore.criticalIssues || [],
+      redFlagsCount: (healthScore.criticalIssues || []).length,
+
+      // AI output (guardrail-safe)
+      aiSummary: {
+        overview: response.insights,
+        recommendations: result.recommendations.join("\n"),
+        disclaimerIncluded: true,
+      },
+
+      // Structured AI output (response contract)
+      aiStructured: response.structured,
+      responseContract: response.responseContract,
+      aiConsistency: response.consistency,
+      aiUnguarded: result.unguarded,
+
+      // Legacy compatibility
+      insights: response.insights,
+      metadata: response.metadata,
+      guardrails: response.guardrails,
+    });
+
+    console.log("✅ Analysis auto-saved to Firestore:", analysisDoc.id);
+    console.log("📍 Path: users/" + userId + "/analyses/" + analysisDoc.id);
+    return { status: "saved", analysisId: analysisDoc.id };
+  } catch (saveError) {
+    console.error("⚠️ Failed to auto-save analysis:", saveError);
+    // Don't fail the request if save fails - analysis is still valid
+    return {
+      status: "failed",
+      error: saveError instanceof Error ? saveError.message : "Unknown error",
+    };
+  }
+}
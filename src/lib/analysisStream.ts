@@ -0,0 +1,298 @@
+/**
+ * HTMA Genius — Analysis Stream
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Wire format shared by /api/analyze, /api/analyze-stream and
+ * useAIAnalysis, plus the pieces that turn a provider's token stream into
+ * readable sentences.
+ *
+ * /api/analyze-stream sends server-sent events:
+ * - provider:  which provider is answering
+ * - sentence:  one completed, guardrail-checked sentence
+ * - restart:   the provider failed mid-answer; discard streamed sentences
+ * - final:     the same body /api/analyze returns, plus the save status
+ * - error:     the analysis failed; nothing more follows
+ *
+ * Streamed sentences are a preview. The final event carries the validated,
+ * consistency-checked and guarded result, which replaces them.
+ */
+
+import { AIResponse, AIResponseContractResult } from "./aiResponseContract";
+import { ConsistencyReport } from "./aiConsistencyChecker";
+import { AIProviderAttempt, AIProviderId } from "./aiProviders";
+import {
+  GuardrailTransformation,
+  GuardrailsMode,
+} from "./interpretationGuardrails";
+
+export const ANALYSIS_STREAM_VERSION = "1.0.0";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * - hit:         stored result returned, no AI call
+ * - miss:        generated and stored
+ * - regenerated: practitioner forced a new answer, which replaced the entry
+ */
+export interface AnalysisCacheInfo {
+  status: "hit" | "miss" | "regenerated";
+  key: string;
+  /** When the returned result was generated (hits) */
+  cachedAt?: string;
+}
+
+export interface AnalysisResponseMetadata {
+  engineVersion: string;
+  promptVersion: string;
+  /** Reference range version the engines ran against */
+  referenceRangeVersion: string;
+  aiModel: string;
+  aiProvider: AIProviderId;
+  latencyMs: number;
+  providerFallbacks: AIProviderAttempt[];
+  /** Absent when no provider was configured to key the cache on */
+  cache?: AnalysisCacheInfo;
+}
+
+/**
+ * Body of a successful /api/analyze response
+ */
+export interface AnalysisResponseBody {
+  insights: string;
+  structured: AIResponse;
+  responseContract: AIResponseContractResult;
+  consistency: ConsistencyReport;
+  timestamp: string;
+  analysisSource: AIProviderId;
+  metadata: AnalysisResponseMetadata;
+  guardrails: {
+    version: string;
+    reviewedDate: string;
+    mode: GuardrailsMode;
+    removedCount: number;
+    rewrittenCount: number;
+    /** Practitioner-mode requests only */
+    transformations?: GuardrailTransformation[];
+  };
+}
+
+export type AnalysisSaveStatus =
+  | { status: "saved"; analysisId: string }
+  /** Cache hit the user already had saved; nothing new was written */
+  | { status: "existing"; analysisId: string }
+  | { status: "skipped" }
+  | { status: "failed"; error: string };
+
+export type StreamSection = "insight" | "recommendation";
+
+export interface StreamedSentence {
+  section: StreamSection;
+  /** Statement the sentence belongs to, counted per section */
+  statementIndex: number;
+  text: string;
+}
+
+export type AnalysisStreamEvent =
+  | { type: "provider"; provider: AIProviderId; model: string }
+  | ({ type: "sentence" } & StreamedSentence)
+  | { type: "restart"; reason: string }
+  | {
+      type: "final";
+      result: AnalysisResponseBody;
+      save: AnalysisSaveStatus;
+    }
+  | { type: "error"; message: string; details: string[] };
+
+// ============================================================================
+// SERVER-SENT EVENTS
+// ============================================================================
+
+/**
+ * One SSE frame ("event:" + "data:" lines)
+ */
+export function formatSSEEvent(event: AnalysisStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Complete events in a buffer of received SSE text; the incomplete tail is
+ * returned as rest for the next read
+ */
+export function parseSSEEvents(buffer: string): {
+  events: AnalysisStreamEvent[];
+  rest: string;
+} {
+  const frames = buffer.split("\n\n");
+  const rest = frames.pop() ?? "";
+
+  const events = frames.flatMap((frame): AnalysisStreamEvent[] => {
+    const data = frame
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trim())
+      .join("\n");
+    if (!data) return [];
+
+    try {
+      return [JSON.parse(data) as AnalysisStreamEvent];
+    } catch {
+      console.warn("⚠️ Ignoring malformed stream event:", data);
+      return [];
+    }
+  });
+
+  return { events, rest };
+}
+
+// ============================================================================
+// SENTENCE EXTRACTION
+// ============================================================================
+
+/** Statement strings in a (partial) contract answer or free-text body */
+const STATEMENT_FIELD =
+  /"(text|analysis|response)"\s*:\s*"((?:[^"\\]|\\.)*)(")?/g;
+
+interface PartialStatement {
+  section: StreamSection;
+  text: string;
+  complete: boolean;
+}
+
+/**
+ * Decode a JSON string body that may end mid-escape
+ */
+function decodeJSONString(content: string): string | null {
+  try {
+    return JSON.parse(`"${content.replace(/\\u[0-9a-fA-F]{0,3}$/, "")}"`);
+  } catch {
+    return null;
+  }
+}
+
+function splitParagraphs(
+  text: string,
+  complete: boolean
+): PartialStatement[] {
+  const paragraphs = text.split(/\n\s*\n/);
+  return paragraphs
+    .map((p, index) => ({
+      section: "insight" as const,
+      text: p.trim(),
+      complete: complete || index < paragraphs.length - 1,
+    }))
+    .filter((p) => p.text.length > 0);
+}
+
+/**
+ * Statements found so far: "text" fields of a contract answer (section by
+ * position relative to "recommendations"), or paragraphs of free text
+ */
+function findStatements(buffer: string, ended: boolean): PartialStatement[] {
+  const body = buffer.replace(/^\s*```(json)?/, "").trimStart();
+  if (!body.startsWith("{")) {
+    return splitParagraphs(buffer, ended);
+  }
+
+  const recommendationsAt = body.search(/"recommendations"\s*:/);
+  const statements: PartialStatement[] = [];
+
+  for (const match of Array.from(body.matchAll(STATEMENT_FIELD))) {
+    const text = decodeJSONString(match[2]);
+    if (text === null) continue;
+    const complete = match[3] !== undefined || ended;
+
+    if (match[1] !== "text") {
+      statements.push(...splitParagraphs(text, complete));
+      continue;
+    }
+    statements.push({
+      section:
+        recommendationsAt >= 0 && (match.index ?? 0) > recommendationsAt
+          ? "recommendation"
+          : "insight",
+      text: text.trim(),
+      complete,
+    });
+  }
+
+  return statements;
+}
+
+/**
+ * Turns streamed answer text into completed sentences. push() takes the
+ * next chunk and returns sentences completed since the last call; end()
+ * returns what was left once the answer is complete.
+ */
+export function createSentenceStream(): {
+  push(chunk: string): StreamedSentence[];
+  end(): StreamedSentence[];
+} {
+  let buffer = "";
+  const emitted = new Map<string, number>();
+
+  const collect = (ended: boolean): StreamedSentence[] => {
+    const counters: Record<StreamSection, number> = {
+      insight: 0,
+      recommendation: 0,
+    };
+    const sentences: StreamedSentence[] = [];
+
+    findStatements(buffer, ended).forEach((statement) => {
+      const statementIndex = counters[statement.section]++;
+      const key = `${statement.section}:${statementIndex}`;
+
+      const parts = statement.text
+        .split(/(?<=[.!?])\s+/)
+        .filter((s) => s.length > 0);
+      // The last part of an open statement may still be growing
+      const ready = statement.complete ? parts : parts.slice(0, -1);
+      const alreadyEmitted = emitted.get(key) ?? 0;
+
+      ready.slice(alreadyEmitted).forEach((text) => {
+        sentences.push({ section: statement.section, statementIndex, text });
+      });
+      emitted.set(key, Math.max(alreadyEmitted, ready.length));
+    });
+
+    return sentences;
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      return collect(false);
+    },
+    end() {
+      return collect(true);
+    },
+  };
+}
+
+/**
+ * Streamed sentences in the /api/analyze insights text layout
+ */
+export function formatStreamedInsights(
+  sentences: ReadonlyArray<StreamedSentence>
+): string {
+  const statements = (section: StreamSection): string[] => {
+    const bySection = sentences.filter((s) => s.section === section);
+    const grouped = new Map<number, string[]>();
+    bySection.forEach((s) => {
+      grouped.set(s.statementIndex, [
+        ...(grouped.get(s.statementIndex) ?? []),
+        s.text,
+      ]);
+    });
+    return Array.from(grouped.values()).map((parts) => parts.join(" "));
+  };
+
+  const insights = statements("insight");
+  const recommendations = statements("recommendation");
+
+  return recommendations.length > 0
+    ? [...insights, "", "**Recommendations:**", ...recommendations].join("\n")
+    : insights.join("\n");
+}
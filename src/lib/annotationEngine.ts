@@ -531,6 +531,7 @@ export function getTargetDisplayName(target: string): string {
     oxidation: "Oxidation Classification",
     health_score: "Health Score",
     general: "General Report",
+    scenario: "What-If Scenario",
   };
 
   if (specialNames[target]) {
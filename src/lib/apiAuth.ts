@@ -0,0 +1,45 @@
+/**
+ * HTMA Genius — API Authentication
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * The signed-in user behind an API request, from the Firebase ID token the
+ * client sends as "Authorization: Bearer <token>". Routes whose rules
+ * depend on who is acting (guardrails policy approval) use this instead of
+ * a userId in the request body, which any caller could set.
+ *
+ * Server only (Firebase Admin SDK).
+ */
+
+import { NextApiRequest } from "next";
+import { admin } from "./firebaseAdmin";
+
+/**
+ * Token from an "Authorization: Bearer <token>" header; null when absent
+ */
+function readBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * User id from the request's verified Firebase ID token; null when the
+ * token is missing, expired or invalid
+ */
+export async function getVerifiedUserId(
+  req: NextApiRequest
+): Promise<string | null> {
+  const token = readBearerToken(req.headers.authorization);
+  if (!token) return null;
+
+  try {
+    const decoded = await admin.auth().verifyIdToken(token);
+    return decoded.uid;
+  } catch (error) {
+    console.warn(
+      "⚠️ Rejected Firebase ID token:",
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
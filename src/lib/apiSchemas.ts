@@ -0,0 +1,164 @@
+/**
+ * API Request Schemas
+ *
+ * zod schemas for every API route's request body or query string. Routes
+ * validate with safeParse() and answer 400 with describeValidationError()
+ * before doing any work; the client can import the same schemas.
+ *
+ * Mineral panels use the shared model from mineralModel.ts (numbers in mg%,
+ * null = missing).
+ *
+ * Version: 1.0.0
+ */
+
+import { z } from "zod";
+import { AnalyzableMineralDataSchema } from "./mineralModel";
+import { CANONICAL_UNIT } from "./unitConversion";
+import { PractitionerRulesSchema } from "./practitionerRuleEngine";
+import { GuardrailsPolicyRulesSchema } from "./guardrailsPolicy";
+
+export const API_SCHEMAS_VERSION = "1.0.0";
+
+// ============================================================================
+// SHARED FIELDS
+// ============================================================================
+
+export const MineralUnitSchema = z.enum(["mg%", "ppm", "µg/g", "mg/kg"]);
+
+const UserIdSchema = z.string().trim().min(1, "userId is required");
+
+/** Unit the values were entered in; mineralData itself is always mg% */
+const InputUnitSchema = MineralUnitSchema.default(CANONICAL_UNIT);
+
+// ============================================================================
+// ROUTE SCHEMAS
+// ============================================================================
+
+/** POST /api/analyze and /api/analyze-stream */
+export const AnalyzeRequestSchema = z
+  .object({
+    mineralData: AnalyzableMineralDataSchema,
+    userId: UserIdSchema.optional(),
+    inputUnit: InputUnitSchema,
+    isPractitionerMode: z.boolean().default(false),
+    /** Skip the analysis cache and replace its entry */
+    forceRegenerate: z.boolean().default(false),
+  })
+  .refine((data) => !data.forceRegenerate || data.isPractitionerMode, {
+    path: ["forceRegenerate"],
+    message: "Forcing regeneration is only available in practitioner mode",
+  });
+
+/** POST /api/save-analysis */
+export const SaveAnalysisRequestSchema = z.object({
+  userId: UserIdSchema,
+  mineralData: AnalyzableMineralDataSchema,
+  insights: z.string().min(1, "insights are required"),
+  inputUnit: InputUnitSchema,
+  isPractitionerMode: z.boolean().default(false),
+});
+
+/** GET /api/get-analyses */
+export const GetAnalysesQuerySchema = z.object({
+  userId: UserIdSchema,
+});
+
+/** POST /api/parse-htma */
+export const ParseHTMARequestSchema = z.object({
+  file: z.string().min(1, "No valid file data received"),
+});
+
+/** POST /api/analyze-feedback */
+export const AnalyzeFeedbackRequestSchema = z.object({
+  userId: UserIdSchema,
+  minNegativePercent: z.number().min(0).max(100).default(30),
+});
+
+/** POST /api/generate-suggestions */
+export const GenerateSuggestionsRequestSchema = z.object({
+  userId: UserIdSchema,
+});
+
+/** Any string Date can parse (ISO date or datetime) */
+const DateStringSchema = z
+  .string()
+  .refine((value) => !isNaN(new Date(value).getTime()), "Invalid date");
+
+/** GET /api/get-feedback */
+export const GetFeedbackQuerySchema = z.object({
+  userId: UserIdSchema,
+  startDate: DateStringSchema.optional(),
+  endDate: DateStringSchema.optional(),
+  context: z.string().optional(),
+});
+
+/** GET /api/get-practitioner-rules */
+export const GetPractitionerRulesQuerySchema = z.object({
+  userId: UserIdSchema,
+});
+
+/** POST /api/save-practitioner-rules - saves the rules as a new version */
+export const SavePractitionerRulesRequestSchema = z.object({
+  userId: UserIdSchema,
+  rules: PractitionerRulesSchema,
+  changeNote: z.string().trim().max(500).optional(),
+  /** Version the edit started from (0 = no saved rules yet) */
+  baseVersion: z.number().int().nonnegative(),
+});
+
+/** GET /api/get-guardrails-policies */
+export const GetGuardrailsPoliciesQuerySchema = z.object({
+  userId: UserIdSchema,
+});
+
+const PolicyNumberSchema = z.number().int().positive();
+
+/**
+ * POST /api/save-guardrails-policy - saves the lists as a new draft. The
+ * author comes from the request's ID token (apiAuth.ts), not the body.
+ */
+export const SaveGuardrailsPolicyRequestSchema = z.object({
+  rules: GuardrailsPolicyRulesSchema,
+  changeNote: z.string().trim().max(500).optional(),
+  /** Policy the draft started from (0 = built-in lists) */
+  basedOn: z.number().int().nonnegative(),
+  /** guardrailsSuggestions document being accepted */
+  suggestionId: z.string().trim().min(1).optional(),
+});
+
+/**
+ * POST /api/update-guardrails-policy-status. The acting user comes from
+ * the request's ID token (apiAuth.ts), not the body.
+ */
+export const UpdateGuardrailsPolicyStatusRequestSchema = z.object({
+  number: PolicyNumberSchema,
+  action: z.enum(["approve", "activate"]),
+});
+
+/** POST /api/preview-guardrails-policy */
+export const PreviewGuardrailsPolicyRequestSchema = z.object({
+  userId: UserIdSchema,
+  number: PolicyNumberSchema,
+});
+
+export type AnalyzeRequest = z.infer<typeof AnalyzeRequestSchema>;
+export type SaveAnalysisRequest = z.infer<typeof SaveAnalysisRequestSchema>;
+export type SavePractitionerRulesRequest = z.infer<
+  typeof SavePractitionerRulesRequestSchema
+>;
+
+// ============================================================================
+// ERROR REPORTING
+// ============================================================================
+
+/**
+ * Flatten a zod error into readable "path: message" lines for the
+ * `details` field of a 400 response
+ */
+export function describeValidationError(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0
+      ? `${issue.path.join(".")}: ${issue.message}`
+      : issue.message
+  );
+}
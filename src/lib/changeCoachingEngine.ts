@@ -12,12 +12,16 @@
  * ✅ ONLY educational, awareness-building language
  * ✅ ALWAYS includes scope notice
  *
- * @version 1.0.0
- * @reviewedDate 2025-12-21
+ * Changes within lab variation (see referenceChangeValue.ts) are ranked
+ * lower and labeled, so they are not presented as real progress or decline.
+ *
+ * @version 1.1.0
+ * @reviewedDate 2026-10-19
  */
 
 import { ScoreDeltaExplanation, DeltaDriver } from "./scoreDeltaExplainer";
 import { HEALTH_SCORE_SEMANTICS_VERSION } from "./healthScoreSemantics";
+import { ChangeSignificance } from "./referenceChangeValue";
 
 // ============================================================================
 // TYPES
@@ -33,6 +37,7 @@ export interface FocusItem {
   direction: "improving" | "worsening" | "stable";
   impactPoints: number;
   reason: string; // Why this is a focus area
+  significance?: ChangeSignificance; // Lab-variability class (minerals/ratios)
 }
 
 export interface ChangeFocusSummary {
@@ -146,7 +151,7 @@ export function generateChangeFocusSummary(
     confidence,
     scopeNotice,
     metadata: {
-      version: "1.0.0",
+      version: "1.1.0",
       semanticsVersion: HEALTH_SCORE_SEMANTICS_VERSION,
       audience,
       computedAt: new Date().toISOString(),
@@ -182,7 +187,11 @@ function rankFocusAreas(delta: ScoreDeltaExplanation): FocusItem[] {
       importance,
       direction,
       impactPoints: driver.impactPoints,
-      reason,
+      reason:
+        driver.significance === "within_noise" && direction !== "stable"
+          ? `${reason} (within typical lab variation)`
+          : reason,
+      significance: driver.significance,
     });
   });
 
@@ -227,6 +236,11 @@ function calculateImportance(driver: DeltaDriver): number {
     importance += 25; // Moving OUT of optimal is critical
   }
 
+  // Factor 6: Changes within lab variation count for half
+  if (driver.significance === "within_noise") {
+    importance = Math.round(importance * 0.5);
+  }
+
   return Math.min(importance, 100); // Cap at 100
 }
 
@@ -366,6 +380,17 @@ function generateExplanation(
     }
   }
 
+  // Lab variability note for the primary focus
+  if (
+    primary.significance === "within_noise" &&
+    primary.direction !== "stable"
+  ) {
+    explanation +=
+      audience === "consumer"
+        ? `This change is within typical lab variation between tests, so track it on your next test before drawing conclusions. `
+        : `Primary change is within analytical variation; confirm on retest. `;
+  }
+
   // Sentence 3: Context and next steps (neutral)
   if (audience === "consumer") {
     explanation += `Review these patterns with your healthcare provider during your next consultation.`;
@@ -424,7 +449,7 @@ function createStableFocusSummary(
     confidence: "moderate",
     scopeNotice: getScopeNotice(audience),
     metadata: {
-      version: "1.0.0",
+      version: "1.1.0",
       semanticsVersion: HEALTH_SCORE_SEMANTICS_VERSION,
       audience,
       computedAt: new Date().toISOString(),
@@ -13,7 +13,7 @@
  * @see https://developer.chrome.com/docs/ai/built-in
  */
 
-import { MineralData } from "../components/HTMAInputForm";
+import { MineralData, hasMineralValue } from "./mineralModel";
 import { applyGuardrails, GuardrailsResult } from "./interpretationGuardrails";
 import {
   ANALYSIS_ENGINE_VERSION,
@@ -186,6 +186,21 @@ Keep responses clear, concise, and actionable. Focus on food-based recommendatio
     }
   }
 
+  /**
+   * Send a raw prompt to the HTMA session (used by the AI provider layer)
+   */
+  async prompt(text: string): Promise<string> {
+    if (!this.session) {
+      await this.initialize();
+    }
+
+    if (!this.session) {
+      throw new Error("Failed to initialize Chrome AI session");
+    }
+
+    return this.session.prompt(text);
+  }
+
   /**
    * Generate HTMA insights using Chrome AI
    */
@@ -212,6 +227,7 @@ Keep responses clear, concise, and actionable. Focus on food-based recommendatio
       ctx: {
         audience: "consumer",
         channel: "api",
+        mode: "rewrite",
         evidence: {
           abnormalMinerals: this.extractAbnormalMinerals(mineralData),
           abnormalRatios: [],
@@ -375,23 +391,23 @@ Be encouraging if progress is shown. Include disclaimer.`;
 MINERAL VALUES (mg% unless noted):
 
 **Major Minerals:**
-- Calcium (Ca): ${mineralData.calcium || "Not provided"}
-- Magnesium (Mg): ${mineralData.magnesium || "Not provided"}
-- Sodium (Na): ${mineralData.sodium || "Not provided"}
-- Potassium (K): ${mineralData.potassium || "Not provided"}
-- Phosphorus (P): ${mineralData.phosphorus || "Not provided"}
-- Sulfur (S): ${mineralData.sulfur || "Not provided"}
+- Calcium (Ca): ${mineralData.calcium ?? "Not provided"}
+- Magnesium (Mg): ${mineralData.magnesium ?? "Not provided"}
+- Sodium (Na): ${mineralData.sodium ?? "Not provided"}
+- Potassium (K): ${mineralData.potassium ?? "Not provided"}
+- Phosphorus (P): ${mineralData.phosphorus ?? "Not provided"}
+- Sulfur (S): ${mineralData.sulfur ?? "Not provided"}
 
 **Trace Minerals:**
-- Copper (Cu): ${mineralData.copper || "Not provided"}
-- Zinc (Zn): ${mineralData.zinc || "Not provided"}
-- Iron (Fe): ${mineralData.iron || "Not provided"}
-- Manganese (Mn): ${mineralData.manganese || "Not provided"}
-- Chromium (Cr): ${mineralData.chromium || "Not provided"}
-- Selenium (Se): ${mineralData.selenium || "Not provided"}
-- Boron (B): ${mineralData.boron || "Not provided"}
-- Cobalt (Co): ${mineralData.cobalt || "Not provided"}
-- Molybdenum (Mo): ${mineralData.molybdenum || "Not provided"}
+- Copper (Cu): ${mineralData.copper ?? "Not provided"}
+- Zinc (Zn): ${mineralData.zinc ?? "Not provided"}
+- Iron (Fe): ${mineralData.iron ?? "Not provided"}
+- Manganese (Mn): ${mineralData.manganese ?? "Not provided"}
+- Chromium (Cr): ${mineralData.chromium ?? "Not provided"}
+- Selenium (Se): ${mineralData.selenium ?? "Not provided"}
+- Boron (B): ${mineralData.boron ?? "Not provided"}
+- Cobalt (Co): ${mineralData.cobalt ?? "Not provided"}
+- Molybdenum (Mo): ${mineralData.molybdenum ?? "Not provided"}
 
 PROVIDE:
 
@@ -485,7 +501,7 @@ Keep total response under 400 words. Be specific, practical, and encouraging.`;
   private extractAbnormalMinerals(mineralData: Partial<MineralData>): string[] {
     // Simplified - you could integrate with MINERAL_REFERENCE_RANGES here
     return Object.entries(mineralData)
-      .filter(([_, value]) => value && parseFloat(value as string) > 0)
+      .filter(([_, value]) => hasMineralValue(value) && value > 0)
       .map(([key]) => key);
   }
 
@@ -494,7 +510,7 @@ Keep total response under 400 words. Be specific, practical, and encouraging.`;
    */
   private formatMineralsForPrompt(mineralData: Partial<MineralData>): string {
     return Object.entries(mineralData)
-      .filter(([_, value]) => value && parseFloat(value as string) > 0)
+      .filter(([_, value]) => hasMineralValue(value) && value > 0)
       .map(([key, value]) => `${key}: ${value}`)
       .join(", ");
   }
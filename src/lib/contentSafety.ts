@@ -0,0 +1,423 @@
+/**
+ * HTMA Genius — Content Safety for Deterministic Text
+ * Version: 1.2.0
+ * Reviewed: 2026-10-19
+ *
+ * AI insights are guarded in the analysis pipeline. The text the engines
+ * generate themselves (score delta, change coaching, trends, oxidation,
+ * score explanations) and client-visible practitioner annotations reach
+ * clients too, so they get the same applyGuardrails() pass here:
+ * - createReportSnapshot() guards every section, the stored AI insights
+ *   included, and records a per-section report in snapshot.contentSafety
+ * - generateHTMAPDFReport() guards the snapshot again before rendering
+ *   with the policy stored on it, so snapshots created elsewhere (or
+ *   before this pass existed) are covered
+ * - the dashboard guards the engine panels before rendering them
+ *
+ * Differences from the AI pass:
+ * - Remove mode, deliberately: engine text and annotations are reviewed
+ *   wording, so blocked phrasing in them is fixed at the source rather
+ *   than reworded on the fly. Hard-blocked statements are removed, other
+ *   blocked phrasing gets the softener prefix.
+ * - No evidence constraint: engine text is computed from the panel itself,
+ *   and the pipeline already applied it to the AI insights.
+ * - Fixed disclaimers (ChangeFocusSummary.scopeNotice) are not guarded;
+ *   they name what the report does NOT do ("does not diagnose").
+ *
+ * Required fields that are removed are replaced with WITHHELD_TEXT; list
+ * entries and AI insight lines are dropped; annotations are hidden from
+ * the client.
+ */
+
+import {
+  Audience,
+  Channel,
+  GuardrailTransformation,
+  GuardrailsPolicy,
+  BUILT_IN_GUARDRAILS_POLICY,
+  applyGuardrails,
+} from "./interpretationGuardrails";
+import { PractitionerAnnotation } from "./reportSnapshot";
+import { DeltaDriver, ScoreDeltaExplanation } from "./scoreDeltaExplainer";
+import { ChangeFocusSummary } from "./changeCoachingEngine";
+import { TrendExplanation } from "./trendExplainer";
+import { OxidationClassification } from "./oxidationClassification";
+import { ScoreExplanation } from "./scoreExplainer";
+
+export const CONTENT_SAFETY_VERSION = "1.2.0";
+
+/** Shown in place of a required field the guardrails removed */
+export const WITHHELD_TEXT =
+  "This text was withheld because it fell outside the educational scope of this report.";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ContentSafetySection =
+  | "aiInsights"
+  | "scoreDelta"
+  | "focusSummary"
+  | "trendAnalysis"
+  | "oxidationClassification"
+  | "practitionerAnnotations"
+  | "scoreExplanation";
+
+export interface ContentSafetyContext {
+  audience: Audience;
+  channel: Channel;
+  /** Default BUILT_IN_GUARDRAILS_POLICY */
+  policy?: GuardrailsPolicy;
+}
+
+export interface ContentSafetyChange extends GuardrailTransformation {
+  /** Field path, e.g. "keyInsights[2]" */
+  field: string;
+}
+
+export interface SectionGuardrailsReport {
+  section: ContentSafetySection;
+  audience: Audience;
+  /** Strings checked */
+  checkedCount: number;
+  removedCount: number;
+  changedCount: number;
+  changes: ContentSafetyChange[];
+}
+
+export interface ReportContentSafety {
+  version: string;
+  /** Guardrails policy version the text was checked with */
+  guardrailsVersion: string;
+  guardrailsReviewedDate: string;
+  channel: Channel;
+  checkedAt: string;
+  sections: Partial<Record<ContentSafetySection, SectionGuardrailsReport>>;
+}
+
+/** Snapshot sections that carry deterministic client-facing text */
+export interface ReportTextSections {
+  aiInsights?: string;
+  scoreDelta?: ScoreDeltaExplanation;
+  focusSummary?: ChangeFocusSummary;
+  trendAnalysis?: TrendExplanation;
+  oxidationClassification?: OxidationClassification;
+  practitionerAnnotations?: ReadonlyArray<PractitionerAnnotation>;
+}
+
+// ============================================================================
+// SINGLE STRINGS
+// ============================================================================
+
+/**
+ * Guard one engine-generated string; null when it is removed
+ */
+export function guardClientText(
+  text: string,
+  ctx: ContentSafetyContext
+): { text: string | null; transformation?: GuardrailTransformation } {
+  const result = applyGuardrails({
+    insights: [text],
+    recommendations: [],
+    ctx: {
+      audience: ctx.audience,
+      channel: ctx.channel,
+      mode: "remove",
+      policy: ctx.policy,
+    },
+  });
+
+  const transformation = result.transformations[0];
+  // No rules fired: at most whitespace was normalized, keep the original
+  if (!transformation || transformation.rules.length === 0) {
+    return { text };
+  }
+
+  return { text: transformation.result, transformation };
+}
+
+/**
+ * Guards the strings of one section and tallies its report
+ */
+function createSectionGuard(
+  section: ContentSafetySection,
+  ctx: ContentSafetyContext
+) {
+  const report: SectionGuardrailsReport = {
+    section,
+    audience: ctx.audience,
+    checkedCount: 0,
+    removedCount: 0,
+    changedCount: 0,
+    changes: [],
+  };
+
+  // Repeated strings (e.g. a top driver is also in allDrivers) count once
+  const guardedTexts = new Map<string, string | null>();
+
+  const guard = (field: string, text: string): string | null => {
+    const cached = guardedTexts.get(text);
+    if (cached !== undefined) return cached;
+
+    report.checkedCount++;
+    const result = guardClientText(text, ctx);
+    if (result.transformation) {
+      report.changes.push({ ...result.transformation, field });
+      if (result.text === null) report.removedCount++;
+      else report.changedCount++;
+    }
+    guardedTexts.set(text, result.text);
+    return result.text;
+  };
+
+  return {
+    report,
+    /** Required field: removed text is replaced with WITHHELD_TEXT */
+    text: (field: string, text: string) => guard(field, text) ?? WITHHELD_TEXT,
+    /** List entries: removed entries are dropped */
+    list: (field: string, items: ReadonlyArray<string>) =>
+      items.flatMap((item, i) => guard(`${field}[${i}]`, item) ?? []),
+    guard,
+  };
+}
+
+// ============================================================================
+// SECTIONS
+// ============================================================================
+
+/**
+ * AI insights are markdown-like text. Each line is guarded on its own with
+ * its heading or list marker kept; removed lines are dropped.
+ */
+function guardAIInsights(aiInsights: string, ctx: ContentSafetyContext) {
+  const g = createSectionGuard("aiInsights", ctx);
+
+  const guarded = aiInsights
+    .split("\n")
+    .flatMap((line, i) => {
+      const [, marker, body] = line.match(
+        /^(\s*(?:#{1,6}\s+|[-*•]\s+|\d+[.)]\s+)?)(.*)$/
+      )!;
+      // Blank lines keep the paragraphs; headings are not statements
+      if (!body.trim() || marker.trim().startsWith("#")) return [line];
+
+      const text = g.guard(`lines[${i}]`, body);
+      return text === null ? [] : [marker + text];
+    })
+    .join("\n");
+  return { section: guarded, report: g.report };
+}
+
+function guardScoreDelta(
+  scoreDelta: ScoreDeltaExplanation,
+  ctx: ContentSafetyContext
+) {
+  const g = createSectionGuard("scoreDelta", ctx);
+  const guardDriver = (prefix: string) =>
+    (driver: DeltaDriver, i: number) => ({
+      ...driver,
+      note: g.text(`${prefix}[${i}].note`, driver.note),
+    });
+
+  const guarded: ScoreDeltaExplanation = {
+    ...scoreDelta,
+    headline: g.text("headline", scoreDelta.headline),
+    summary: g.text("summary", scoreDelta.summary),
+    topDrivers: scoreDelta.topDrivers.map(guardDriver("topDrivers")),
+    allDrivers: scoreDelta.allDrivers.map(guardDriver("allDrivers")),
+  };
+  return { section: guarded, report: g.report };
+}
+
+function guardFocusSummary(
+  focusSummary: ChangeFocusSummary,
+  ctx: ContentSafetyContext
+) {
+  const g = createSectionGuard("focusSummary", ctx);
+
+  const guarded: ChangeFocusSummary = {
+    ...focusSummary,
+    primaryFocus: {
+      ...focusSummary.primaryFocus,
+      reason: g.text("primaryFocus.reason", focusSummary.primaryFocus.reason),
+    },
+    secondaryFocus: focusSummary.secondaryFocus.map((item, i) => ({
+      ...item,
+      reason: g.text(`secondaryFocus[${i}].reason`, item.reason),
+    })),
+    explanation: g.text("explanation", focusSummary.explanation),
+  };
+  return { section: guarded, report: g.report };
+}
+
+function guardTrendAnalysis(
+  trendAnalysis: TrendExplanation,
+  ctx: ContentSafetyContext
+) {
+  const g = createSectionGuard("trendAnalysis", ctx);
+  const { ratioTrends, oxidationTrajectory } = trendAnalysis;
+
+  const guarded: TrendExplanation = {
+    ...trendAnalysis,
+    headline: g.text("headline", trendAnalysis.headline),
+    summary: g.text("summary", trendAnalysis.summary),
+    keyInsights: g.list("keyInsights", trendAnalysis.keyInsights),
+    mineralTrends: trendAnalysis.mineralTrends.map((trend, i) => ({
+      ...trend,
+      note: g.text(`mineralTrends[${i}].note`, trend.note),
+    })),
+    ratioTrends: ratioTrends?.map((trend, i) => ({
+      ...trend,
+      note: g.text(`ratioTrends[${i}].note`, trend.note),
+    })),
+    oxidationTrajectory: oxidationTrajectory && {
+      ...oxidationTrajectory,
+      note: g.text("oxidationTrajectory.note", oxidationTrajectory.note),
+    },
+  };
+  return { section: guarded, report: g.report };
+}
+
+function guardOxidationClassification(
+  classification: OxidationClassification,
+  ctx: ContentSafetyContext
+) {
+  const g = createSectionGuard("oxidationClassification", ctx);
+
+  const guarded: OxidationClassification = {
+    ...classification,
+    interpretation: g.text("interpretation", classification.interpretation),
+    explanation: g.text("explanation", classification.explanation),
+    thresholdWarnings: g.list(
+      "thresholdWarnings",
+      classification.thresholdWarnings
+    ),
+  };
+  return { section: guarded, report: g.report };
+}
+
+/**
+ * Client-visible annotations are guarded for a consumer audience whatever
+ * the report audience: they are written for the client. Removed ones are
+ * hidden from the client rather than deleted.
+ */
+function guardPractitionerAnnotations(
+  annotations: ReadonlyArray<PractitionerAnnotation>,
+  ctx: ContentSafetyContext
+) {
+  const g = createSectionGuard("practitionerAnnotations", {
+    ...ctx,
+    audience: "consumer",
+  });
+
+  const guarded = annotations.map((annotation): PractitionerAnnotation => {
+    if (!annotation.visibleToClient) return annotation;
+
+    const content = g.guard(`${annotation.id}.content`, annotation.content);
+    return content === null
+      ? { ...annotation, visibleToClient: false }
+      : { ...annotation, content };
+  });
+  return { section: guarded, report: g.report };
+}
+
+/**
+ * Guard every text section of a report. Returns guarded copies and the
+ * content-safety record for the snapshot; input is not modified.
+ */
+export function guardReportSections(
+  sections: ReportTextSections,
+  ctx: ContentSafetyContext
+): { sections: ReportTextSections; contentSafety: ReportContentSafety } {
+  const policy = ctx.policy ?? BUILT_IN_GUARDRAILS_POLICY;
+  const reports: ReportContentSafety["sections"] = {};
+  const guarded: ReportTextSections = { ...sections };
+
+  if (sections.aiInsights) {
+    const result = guardAIInsights(sections.aiInsights, ctx);
+    guarded.aiInsights = result.section;
+    reports.aiInsights = result.report;
+  }
+  if (sections.scoreDelta) {
+    const result = guardScoreDelta(sections.scoreDelta, ctx);
+    guarded.scoreDelta = result.section;
+    reports.scoreDelta = result.report;
+  }
+  if (sections.focusSummary) {
+    const result = guardFocusSummary(sections.focusSummary, ctx);
+    guarded.focusSummary = result.section;
+    reports.focusSummary = result.report;
+  }
+  if (sections.trendAnalysis) {
+    const result = guardTrendAnalysis(sections.trendAnalysis, ctx);
+    guarded.trendAnalysis = result.section;
+    reports.trendAnalysis = result.report;
+  }
+  if (sections.oxidationClassification) {
+    const result = guardOxidationClassification(
+      sections.oxidationClassification,
+      ctx
+    );
+    guarded.oxidationClassification = result.section;
+    reports.oxidationClassification = result.report;
+  }
+  if (sections.practitionerAnnotations) {
+    const result = guardPractitionerAnnotations(
+      sections.practitionerAnnotations,
+      ctx
+    );
+    guarded.practitionerAnnotations = result.section;
+    reports.practitionerAnnotations = result.report;
+  }
+
+  return {
+    sections: guarded,
+    contentSafety: {
+      version: CONTENT_SAFETY_VERSION,
+      guardrailsVersion: policy.version,
+      guardrailsReviewedDate: policy.reviewedDate,
+      channel: ctx.channel,
+      checkedAt: new Date().toISOString(),
+      sections: reports,
+    },
+  };
+}
+
+/**
+ * Guard the "Why this changed" explanation (UI only, not part of reports)
+ */
+export function guardScoreExplanation(
+  explanation: ScoreExplanation,
+  ctx: ContentSafetyContext
+): { explanation: ScoreExplanation; report: SectionGuardrailsReport } {
+  const g = createSectionGuard("scoreExplanation", ctx);
+
+  return {
+    explanation: {
+      ...explanation,
+      primaryDrivers: g.list("primaryDrivers", explanation.primaryDrivers),
+      secondaryContributors: g.list(
+        "secondaryContributors",
+        explanation.secondaryContributors
+      ),
+      offsettingFactors: g.list(
+        "offsettingFactors",
+        explanation.offsettingFactors
+      ),
+    },
+    report: g.report,
+  };
+}
+
+/**
+ * Total strings removed or changed across a report's sections
+ */
+export function countContentSafetyChanges(
+  contentSafety: ReportContentSafety
+): number {
+  return Object.values(contentSafety.sections).reduce(
+    (total, report) =>
+      total + (report ? report.removedCount + report.changedCount : 0),
+    0
+  );
+}
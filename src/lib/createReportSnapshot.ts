@@ -8,7 +8,7 @@
  */
 
 import { v4 as uuidv4 } from "uuid";
-import { MineralData } from "../components/HTMAInputForm";
+import { MineralData, toMeasuredSymbolValues } from "./mineralModel";
 import {
   ReportSnapshot,
   ReportMetadata,
@@ -18,6 +18,7 @@ import {
   ToxicElement,
   AdditionalElement,
   PractitionerAnnotation,
+  ReferenceRangeVersion,
 } from "./reportSnapshot";
 import {
   MINERAL_REFERENCE_RANGES,
@@ -27,22 +28,32 @@ import {
   PROMPT_VERSION,
   getMineralStatus,
 } from "./htmaConstants";
-import { calculateAllRatios, MineralValues } from "./ratioEngine";
+import { calculateAllRatios, withToxicElementValues } from "./ratioEngine";
 import { HealthScoreBreakdown } from "./healthScore";
 import { ScoreDeltaExplanation } from "./scoreDeltaExplainer";
 import { ChangeFocusSummary } from "./changeCoachingEngine";
 import { TrendExplanation } from "./trendExplainer";
 import { OxidationClassification } from "./oxidationClassification";
+import { PractitionerRuleMatch } from "./practitionerRuleEngine";
 import {
   calculateConfidenceScore,
   ConfidenceScore,
 } from "./aiConfidenceScoring";
-
-// Default reference range version (will be configurable in the future)
-const DEFAULT_REFERENCE_RANGE_VERSION = "1.0.0";
+import {
+  MineralUnit,
+  CANONICAL_UNIT,
+  fromCanonical,
+} from "./unitConversion";
+import { guardReportSections } from "./contentSafety";
+import { GuardrailsPolicy } from "./interpretationGuardrails";
 
 interface CreateSnapshotOptions {
+  /** Mineral values in the canonical unit (mg%) */
   mineralData: MineralData;
+  /** Unit the values were originally entered in (default mg%); recorded in metadata and shown in the PDF */
+  inputUnit?: MineralUnit;
+  /** Active reference range version; recorded in metadata */
+  rangeVersion: ReferenceRangeVersion;
   aiInsights: string;
   isPractitionerMode: boolean;
   patientName?: string;
@@ -56,6 +67,48 @@ interface CreateSnapshotOptions {
   additionalElements?: AdditionalElement[];
   aiConfidence?: ConfidenceScore;
   practitionerAnnotations?: PractitionerAnnotation[];
+  practitionerRuleMatches?: PractitionerRuleMatch[];
+  /** Policy the engine text is guarded with (default built-in lists) */
+  guardrailsPolicy?: GuardrailsPolicy;
+}
+
+/**
+ * Create the 15 mineral rows of a snapshot, in reference range order
+ *
+ * Minerals missing from a partial panel get a null value and the
+ * "Not measured" status, so they are neither shown nor scored as 0.
+ *
+ * @param mineralData - Mineral values in the canonical unit (mg%)
+ * @param inputUnit - Unit the values were entered in (default mg%)
+ * @returns Mineral snapshot rows
+ */
+export function createMineralSnapshots(
+  mineralData: MineralData,
+  inputUnit: MineralUnit = CANONICAL_UNIT
+): MineralSnapshot[] {
+  const measured = toMeasuredSymbolValues(mineralData);
+
+  return MINERAL_REFERENCE_RANGES.map((ref) => {
+    const row = {
+      symbol: ref.symbol,
+      name: ref.name,
+      unit: ref.unit,
+      minIdeal: ref.minIdeal,
+      maxIdeal: ref.maxIdeal,
+    };
+    const value = measured[ref.symbol];
+    if (value === undefined) {
+      return { ...row, value: null, status: "Not measured" };
+    }
+
+    return {
+      ...row,
+      value,
+      enteredValue:
+        inputUnit === CANONICAL_UNIT ? undefined : fromCanonical(value, inputUnit),
+      status: getMineralStatus(value, ref.minIdeal, ref.maxIdeal),
+    };
+  });
 }
 
 /**
@@ -85,6 +138,10 @@ export function createReportSnapshot(
     additionalElements,
     aiConfidence,
     practitionerAnnotations,
+    practitionerRuleMatches,
+    guardrailsPolicy,
+    rangeVersion,
+    inputUnit = CANONICAL_UNIT,
   } = options;
 
   // Create metadata
@@ -95,8 +152,9 @@ export function createReportSnapshot(
     analysisEngineVersion: ANALYSIS_ENGINE_VERSION,
     aiModel: AI_MODEL,
     promptVersion: PROMPT_VERSION,
-    referenceRangeVersion: DEFAULT_REFERENCE_RANGE_VERSION,
+    referenceRangeVersion: rangeVersion.version,
     isPractitionerMode,
+    inputUnit,
   };
 
   // Create patient info
@@ -105,47 +163,16 @@ export function createReportSnapshot(
     testDate,
   };
 
-  // Helper to safely parse mineral values
-  const getValue = (val: string): number => parseFloat(val) || 0;
-
-  // Extract mineral values from form data
-  const mineralValues = {
-    Ca: getValue(mineralData.calcium),
-    Mg: getValue(mineralData.magnesium),
-    Na: getValue(mineralData.sodium),
-    K: getValue(mineralData.potassium),
-    P: getValue(mineralData.phosphorus),
-    Cu: getValue(mineralData.copper),
-    Zn: getValue(mineralData.zinc),
-    Fe: getValue(mineralData.iron),
-    Mn: getValue(mineralData.manganese),
-    Cr: getValue(mineralData.chromium),
-    Se: getValue(mineralData.selenium),
-    B: getValue(mineralData.boron),
-    Co: getValue(mineralData.cobalt),
-    Mo: getValue(mineralData.molybdenum),
-    S: getValue(mineralData.sulfur),
-  };
-
-  // Create mineral snapshots using constants
-  const minerals: MineralSnapshot[] = MINERAL_REFERENCE_RANGES.map((ref) => {
-    const value = mineralValues[ref.symbol as keyof typeof mineralValues];
-    const status = getMineralStatus(value, ref.minIdeal, ref.maxIdeal);
-
-    return {
-      symbol: ref.symbol,
-      name: ref.name,
-      value,
-      unit: ref.unit,
-      minIdeal: ref.minIdeal,
-      maxIdeal: ref.maxIdeal,
-      status,
-    };
-  });
+  // One row per panel mineral; missing minerals are "Not measured"
+  const minerals = createMineralSnapshots(mineralData, inputUnit);
 
   // Create ratio snapshots using centralized ratio engine
   // This ensures consistency across all ratio calculations
-  const ratioResults = calculateAllRatios(mineralValues as MineralValues);
+  // Toxic elements are included so display-only toxic ratios can be shown;
+  // ratios that use a missing mineral are left out, not stored as 0
+  const ratioResults = calculateAllRatios(
+    withToxicElementValues(toMeasuredSymbolValues(mineralData), toxicElements)
+  );
   const ratios: RatioSnapshot[] = ratioResults.map((ratioResult) => ({
     name: ratioResult.name,
     numerator: ratioResult.numerator,
@@ -155,12 +182,37 @@ export function createReportSnapshot(
     maxIdeal: ratioResult.idealMax,
     status: ratioResult.status,
     clinicalSignificance: ratioResult.interpretationKey,
+    role: ratioResult.role,
+    minimumOnly: ratioResult.minimumOnly,
   }));
 
   // Calculate AI confidence score if not provided
   const calculatedConfidence =
     aiConfidence ||
-    calculateConfidenceScore(minerals, ratios, oxidationClassification);
+    calculateConfidenceScore(
+      minerals,
+      ratios,
+      oxidationClassification,
+      practitionerRuleMatches
+    );
+
+  // Content-safety pass over the AI insights, the engine text and
+  // client-visible annotations
+  const { sections, contentSafety } = guardReportSections(
+    {
+      aiInsights,
+      scoreDelta,
+      focusSummary,
+      trendAnalysis,
+      oxidationClassification,
+      practitionerAnnotations,
+    },
+    {
+      audience: isPractitionerMode ? "practitioner" : "consumer",
+      channel: "pdf",
+      policy: guardrailsPolicy,
+    }
+  );
 
   // Create immutable snapshot
   const snapshot: ReportSnapshot = {
@@ -168,16 +220,19 @@ export function createReportSnapshot(
     patientInfo,
     minerals,
     ratios,
-    aiInsights,
+    aiInsights: sections.aiInsights ?? aiInsights,
     healthScore,
-    scoreDelta,
-    focusSummary,
-    trendAnalysis,
-    oxidationClassification,
+    scoreDelta: sections.scoreDelta,
+    focusSummary: sections.focusSummary,
+    trendAnalysis: sections.trendAnalysis,
+    oxidationClassification: sections.oxidationClassification,
     toxicElements,
     additionalElements,
     aiConfidence: calculatedConfidence,
-    practitionerAnnotations,
+    practitionerAnnotations: sections.practitionerAnnotations,
+    practitionerRuleMatches,
+    contentSafety,
+    guardrailsPolicy,
   };
 
   // Deep freeze for immutability (development safety)
@@ -0,0 +1,328 @@
+/**
+ * HTMA Genius — Eck Metabolic Sub-Classification (Oxidation Extension)
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Versioned extension of the oxidation classification engine. The base
+ * engine (oxidationClassification.ts) still decides fast / slow / mixed /
+ * balanced; this module adds the finer Eck categories on top of it:
+ * - Four lows / four highs
+ * - Sympathetic dominance
+ * - Calcium shell
+ * - Stage-specific slow and fast oxidation (stages 1-3)
+ *
+ * Detection is deterministic and uses only Ca, Mg, Na, K and their ratios.
+ * ECK_PRINCIPLES are attached as educational context only - they never
+ * drive detection.
+ *
+ * Purpose: Pattern classification based on mineral relationships
+ * NOT a diagnosis, disease label, treatment directive, or prediction
+ */
+
+import {
+  classifyOxidation,
+  MineralInput,
+  OxidationClassification,
+} from "./oxidationClassification";
+import { ECKPrinciple, getECKPrinciple } from "./eckInterpretationPrinciples";
+import { ReferenceRangeVersion } from "./reportSnapshot";
+
+export const ECK_SUBCLASSIFICATION_VERSION = "1.0.0";
+export const ECK_SUBCLASSIFICATION_REVIEWED_DATE = "2026-10-19";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type EckSubPattern =
+  | "four_lows"
+  | "four_highs"
+  | "sympathetic_dominance"
+  | "calcium_shell"
+  | "slow_stage_1"
+  | "slow_stage_2"
+  | "slow_stage_3"
+  | "fast_stage_1"
+  | "fast_stage_2"
+  | "fast_stage_3";
+
+export interface EckSubPatternMatch {
+  pattern: EckSubPattern;
+  label: string;
+  /** Deterministic reason this sub-pattern was detected */
+  evidence: string;
+  /** Related ECK principles (educational context only) */
+  eckPrinciples: ECKPrinciple[];
+}
+
+export interface EckSubClassification {
+  version: string;
+  subPatterns: EckSubPatternMatch[];
+  explanation: string; // Why these sub-patterns - deterministic reasoning
+  thresholdWarnings: string[]; // Near-threshold cautions
+}
+
+export interface EckOxidationClassification extends OxidationClassification {
+  eckSubClassification: EckSubClassification;
+}
+
+// ============================================================================
+// THRESHOLDS (Locked)
+// ============================================================================
+
+const ECK_THRESHOLDS = {
+  /** Hair calcium (mg%) at or above which the calcium shell pattern applies */
+  calciumShell: 165,
+  /** Ca/K boundaries between slow oxidation stages (stage 1 below stage2) */
+  slowStageCaK: { stage2: 20, stage3: 40 },
+  /** Ca/K boundaries between fast oxidation stages (stage 1 above stage2) */
+  fastStageCaK: { stage2: 1.5, stage3: 1.0 },
+} as const;
+
+const PROXIMITY_PERCENT = 0.05; // 5% threshold, same as the base engine
+
+// ============================================================================
+// LOCKED LABELS & EDUCATIONAL CONTEXT
+// ============================================================================
+
+const SUB_PATTERN_LABELS: Record<EckSubPattern, string> = {
+  four_lows: "Four Lows",
+  four_highs: "Four Highs",
+  sympathetic_dominance: "Sympathetic Dominance",
+  calcium_shell: "Calcium Shell",
+  slow_stage_1: "Slow Oxidation - Stage 1",
+  slow_stage_2: "Slow Oxidation - Stage 2",
+  slow_stage_3: "Slow Oxidation - Stage 3",
+  fast_stage_1: "Fast Oxidation - Stage 1",
+  fast_stage_2: "Fast Oxidation - Stage 2",
+  fast_stage_3: "Fast Oxidation - Stage 3",
+};
+
+/** ECK_PRINCIPLES ids shown as context for each sub-pattern */
+const SUB_PATTERN_PRINCIPLE_IDS: Record<EckSubPattern, number[]> = {
+  four_lows: [14, 9],
+  four_highs: [1, 9],
+  sympathetic_dominance: [10, 7],
+  calcium_shell: [1, 8],
+  slow_stage_1: [10, 6],
+  slow_stage_2: [10, 6],
+  slow_stage_3: [10, 6, 13],
+  fast_stage_1: [10, 4],
+  fast_stage_2: [10, 4],
+  fast_stage_3: [10, 4, 13],
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function buildMatch(pattern: EckSubPattern, evidence: string): EckSubPatternMatch {
+  return {
+    pattern,
+    label: SUB_PATTERN_LABELS[pattern],
+    evidence,
+    eckPrinciples: SUB_PATTERN_PRINCIPLE_IDS[pattern]
+      .map((id) => getECKPrinciple(id))
+      .filter((p): p is ECKPrinciple => p !== undefined),
+  };
+}
+
+function isNear(value: number, threshold: number): boolean {
+  return Math.abs(value - threshold) / threshold <= PROXIMITY_PERCENT;
+}
+
+function getSlowStage(caK: number): EckSubPattern {
+  if (caK > ECK_THRESHOLDS.slowStageCaK.stage3) return "slow_stage_3";
+  if (caK > ECK_THRESHOLDS.slowStageCaK.stage2) return "slow_stage_2";
+  return "slow_stage_1";
+}
+
+function getFastStage(caK: number): EckSubPattern {
+  if (caK < ECK_THRESHOLDS.fastStageCaK.stage3) return "fast_stage_3";
+  if (caK < ECK_THRESHOLDS.fastStageCaK.stage2) return "fast_stage_2";
+  return "fast_stage_1";
+}
+
+// ============================================================================
+// CORE SUB-CLASSIFICATION LOGIC
+// ============================================================================
+
+function detectSubPatterns(
+  base: OxidationClassification,
+  minerals: MineralInput
+): { subPatterns: EckSubPatternMatch[]; thresholdWarnings: string[] } {
+  const { Ca, Mg, Na, K } = minerals;
+  const caK = Ca / K;
+  const statuses = [
+    base.indicators.calciumStatus,
+    base.indicators.magnesiumStatus,
+    base.indicators.sodiumStatus,
+    base.indicators.potassiumStatus,
+  ];
+  const lowCount = statuses.filter((s) => s === "low").length;
+  const highCount = statuses.filter((s) => s === "high").length;
+
+  const subPatterns: EckSubPatternMatch[] = [];
+  const thresholdWarnings: string[] = [];
+
+  // Four lows / four highs: all four macro minerals outside range together
+  if (lowCount === 4) {
+    subPatterns.push(
+      buildMatch("four_lows", "Ca, Mg, Na and K are all below their ranges")
+    );
+  } else if (lowCount === 3) {
+    thresholdWarnings.push(
+      "Three of four macro minerals are low - one value away from a four lows pattern"
+    );
+  }
+
+  if (highCount === 4) {
+    subPatterns.push(
+      buildMatch("four_highs", "Ca, Mg, Na and K are all above their ranges")
+    );
+  } else if (highCount === 3) {
+    thresholdWarnings.push(
+      "Three of four macro minerals are high - one value away from a four highs pattern"
+    );
+  }
+
+  // Sympathetic dominance: Na and K both high with a fast Ca/Mg signal
+  if (
+    base.indicators.sodiumStatus === "high" &&
+    base.indicators.potassiumStatus === "high" &&
+    base.indicators.ratioSignals.caMg === "fast"
+  ) {
+    subPatterns.push(
+      buildMatch(
+        "sympathetic_dominance",
+        `Na and K elevated with Ca/Mg ratio ${(Ca / Mg).toFixed(
+          1
+        )} in the fast range`
+      )
+    );
+  }
+
+  // Calcium shell: very high hair calcium
+  if (Ca >= ECK_THRESHOLDS.calciumShell) {
+    subPatterns.push(
+      buildMatch(
+        "calcium_shell",
+        `Ca ${Ca.toFixed(1)} mg% is at or above ${ECK_THRESHOLDS.calciumShell} mg%`
+      )
+    );
+  }
+  if (isNear(Ca, ECK_THRESHOLDS.calciumShell)) {
+    thresholdWarnings.push(
+      `Ca (${Ca.toFixed(1)}) is within 5% of calcium shell threshold (${
+        ECK_THRESHOLDS.calciumShell
+      })`
+    );
+  }
+
+  // Stage-specific slow / fast oxidation, graded by Ca/K
+  if (base.type === "slow") {
+    const stage = getSlowStage(caK);
+    subPatterns.push(
+      buildMatch(stage, `Slow oxidation with Ca/K ratio ${caK.toFixed(1)}`)
+    );
+    for (const threshold of Object.values(ECK_THRESHOLDS.slowStageCaK)) {
+      if (isNear(caK, threshold)) {
+        thresholdWarnings.push(
+          `Ca/K ratio (${caK.toFixed(
+            2
+          )}) is within 5% of slow stage threshold (${threshold})`
+        );
+      }
+    }
+  } else if (base.type === "fast") {
+    const stage = getFastStage(caK);
+    subPatterns.push(
+      buildMatch(stage, `Fast oxidation with Ca/K ratio ${caK.toFixed(1)}`)
+    );
+    for (const threshold of Object.values(ECK_THRESHOLDS.fastStageCaK)) {
+      if (isNear(caK, threshold)) {
+        thresholdWarnings.push(
+          `Ca/K ratio (${caK.toFixed(
+            2
+          )}) is within 5% of fast stage threshold (${threshold})`
+        );
+      }
+    }
+  }
+
+  return { subPatterns, thresholdWarnings };
+}
+
+/**
+ * Generate deterministic explanation of the detected sub-patterns
+ */
+function generateExplanation(subPatterns: EckSubPatternMatch[]): string {
+  if (subPatterns.length === 0) {
+    return "No Eck sub-pattern detected beyond the primary oxidation type.";
+  }
+  return (
+    subPatterns.map((m) => `${m.label}: ${m.evidence}`).join(". ") + "."
+  );
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Sub-classify an existing base classification
+ *
+ * @param base - Result of classifyOxidation() for the same minerals
+ * @param minerals - Core mineral values (Ca, Mg, Na, K)
+ */
+export function classifyEckSubPatterns(
+  base: OxidationClassification,
+  minerals: MineralInput
+): EckSubClassification {
+  const { Ca, Mg, Na, K } = minerals;
+
+  // Same validation as the base engine - nothing to sub-classify
+  if (!Ca || !Mg || !Na || !K || Ca <= 0 || Mg <= 0 || Na <= 0 || K <= 0) {
+    return {
+      version: ECK_SUBCLASSIFICATION_VERSION,
+      subPatterns: [],
+      explanation:
+        "Cannot sub-classify: one or more required minerals (Ca, Mg, Na, K) are missing or invalid",
+      thresholdWarnings: ["Incomplete mineral data provided"],
+    };
+  }
+
+  const { subPatterns, thresholdWarnings } = detectSubPatterns(base, minerals);
+
+  return {
+    version: ECK_SUBCLASSIFICATION_VERSION,
+    subPatterns,
+    explanation: generateExplanation(subPatterns),
+    thresholdWarnings,
+  };
+}
+
+/**
+ * Classify oxidation type and Eck sub-patterns in one call
+ *
+ * @param minerals - Core mineral values (Ca, Mg, Na, K)
+ * @param rangeVersion - Reference range version for the base thresholds
+ * @returns Base classification extended with eckSubClassification
+ */
+export function classifyOxidationWithEck(
+  minerals: MineralInput,
+  rangeVersion: ReferenceRangeVersion
+): EckOxidationClassification {
+  const base = classifyOxidation(minerals, rangeVersion);
+  return {
+    ...base,
+    eckSubClassification: classifyEckSubPatterns(base, minerals),
+  };
+}
+
+/**
+ * Get human-readable sub-pattern label
+ */
+export function getEckSubPatternLabel(pattern: EckSubPattern): string {
+  return SUB_PATTERN_LABELS[pattern];
+}
@@ -0,0 +1,449 @@
+/**
+ * HTMA Genius — Guardrails Policy Workflow
+ * Version: 1.1.0
+ * Reviewed: 2026-10-19
+ *
+ * The interpretation guardrails' phrase lists (blocked phrases, forbidden
+ * scope, softeners) as versioned data, so an accepted practitioner
+ * suggestion changes them without a code deploy.
+ *
+ * A stored policy moves through:
+ *   draft → approved → active → retired
+ * - draft:    copy of the active lists with the proposed changes
+ * - approved: reviewed and ready to activate
+ * - active:   applied to every server analysis (one at a time)
+ * - retired:  replaced by a newer active policy; can be re-activated
+ *
+ * Policies are numbered 1, 2, 3... Results carry
+ * "<guardrails version>+policy.<number>" (e.g. "1.2.0+policy.3") as
+ * GuardrailsResult.version. With no active policy the built-in lists apply
+ * and results carry the plain guardrails version. On-device analyses
+ * (chromeAI.ts) always use the built-in lists.
+ *
+ * Storage (guardrailsPolicyStore.ts): guardrailsPolicies/global holds
+ * latestNumber and activeNumber; each policy is a document in its versions
+ * subcollection.
+ */
+
+import { z } from "zod";
+import {
+  GuardrailsContext,
+  GuardrailsPolicy,
+  GuardrailsPolicyRules,
+  INTERPRETATION_GUARDRAILS_VERSION,
+  applyGuardrails,
+} from "./interpretationGuardrails";
+
+export const GUARDRAILS_POLICY_WORKFLOW_VERSION = "1.1.0";
+
+/** Upper bound per pattern list, keeps matching and storage small */
+export const MAX_POLICY_PATTERNS = 100;
+
+/** Changed statements returned by a preview */
+const MAX_PREVIEW_CHANGES = 50;
+
+// ============================================================================
+// SCHEMAS & TYPE DEFINITIONS
+// ============================================================================
+
+function isValidPattern(source: string): boolean {
+  try {
+    new RegExp(source, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const BACKREFERENCE = /\\(?:[1-9]|k<)/;
+
+/**
+ * Placeholders for reduced parts of a pattern: an atom that may match any
+ * character (escape, class, group) and one that repeats
+ */
+const ANY_ATOM = "\uE000";
+const REPEATED_ATOM = "\uE001";
+
+/**
+ * Whether a group under a repeating quantifier ("*", "+", "{n,}") has a
+ * body that fails `isAmbiguous`. Groups are reduced innermost first; a
+ * group with a quantifier inside or after it counts as a repeated atom in
+ * the enclosing group.
+ */
+function hasAmbiguousRepeatedGroup(
+  source: string,
+  isAmbiguous: (body: string) => boolean
+): boolean {
+  let rest = source
+    .replace(/\\./g, ANY_ATOM)
+    .replace(/\[[^\]]*\]/g, ANY_ATOM)
+    .replace(/\(\?(?:[:=!]|<[=!]|<[A-Za-z]\w*>)/g, "(");
+  const innermost = /\(([^()]*)\)([*+]|\{\d+,\d*\})?/;
+
+  for (;;) {
+    const match = innermost.exec(rest);
+    if (!match) return false;
+
+    if (match[2] && isAmbiguous(match[1])) return true;
+    rest =
+      rest.slice(0, match.index) +
+      (hasQuantifier(match[1]) || match[2] ? REPEATED_ATOM : ANY_ATOM) +
+      rest.slice(match.index + match[0].length);
+  }
+}
+
+function hasQuantifier(body: string): boolean {
+  return new RegExp(`[*+?}${REPEATED_ATOM}]`).test(body);
+}
+
+/**
+ * Whether two alternatives can start with the same character ("a|a",
+ * "\w|\d", "a|ab"); escapes, classes, "." and groups could start with
+ * anything, and an empty alternative overlaps every other
+ */
+function hasOverlappingAlternatives(body: string): boolean {
+  const alternatives = body.split("|");
+  if (alternatives.length < 2) return false;
+
+  const wildcards = ["", ".", ANY_ATOM, REPEATED_ATOM];
+  const firsts = alternatives.map((alt) => alt.charAt(0).toLowerCase());
+  return (
+    firsts.some((c) => wildcards.includes(c)) ||
+    new Set(firsts).size < firsts.length
+  );
+}
+
+/**
+ * Patterns run against every AI statement, so they are checked for
+ * catastrophic backtracking when a policy is saved: backreferences, nested
+ * quantifiers and repeated groups with overlapping alternatives are
+ * rejected.
+ */
+const PolicyPatternSchema = z
+  .string()
+  .trim()
+  .min(1)
+  // Room for the built-in part-of-speech "treat" pattern (~630 characters)
+  .max(1000)
+  .refine(isValidPattern, "Invalid regular expression")
+  .refine(
+    (source) => !BACKREFERENCE.test(source),
+    "Backreferences are not allowed"
+  )
+  .refine(
+    (source) => !hasAmbiguousRepeatedGroup(source, hasQuantifier),
+    "Nested quantifiers such as (a+)+ are not allowed"
+  )
+  .refine(
+    (source) => !hasAmbiguousRepeatedGroup(source, hasOverlappingAlternatives),
+    "Repeated groups with overlapping alternatives such as (a|a)* are " +
+      "not allowed"
+  );
+
+export const GuardrailsPolicyRulesSchema = z.object({
+  blockedPhrases: z.array(PolicyPatternSchema).max(MAX_POLICY_PATTERNS),
+  forbiddenScope: z.array(PolicyPatternSchema).max(MAX_POLICY_PATTERNS),
+  softeners: z
+    .array(z.string().trim().min(1).max(120))
+    .min(1, "At least one softener is required")
+    .max(10),
+});
+
+export type GuardrailsPolicyStatus =
+  | "draft"
+  | "approved"
+  | "active"
+  | "retired";
+
+export type GuardrailsPolicyAction = "approve" | "activate";
+
+export interface StoredGuardrailsPolicy {
+  number: number;
+  status: GuardrailsPolicyStatus;
+  rules: GuardrailsPolicyRules;
+  /** Policy the draft started from (0 = built-in lists) */
+  basedOn: number;
+  changeNote?: string;
+  /** guardrailsSuggestions document the draft was accepted from */
+  suggestionId?: string;
+  createdAt: string;
+  createdBy: string;
+  approvedAt?: string;
+  approvedBy?: string;
+  activatedAt?: string;
+  activatedBy?: string;
+  retiredAt?: string;
+  /** Who activated the policy that replaced this one */
+  retiredBy?: string;
+}
+
+export type PolicyRulesList = keyof GuardrailsPolicyRules;
+
+export interface PolicyRulesDiff {
+  list: PolicyRulesList;
+  added: string[];
+  removed: string[];
+}
+
+export interface GuardrailsPolicySample {
+  analysisId: string;
+  insights: string[];
+  recommendations: string[];
+  /** Context the analysis was guarded with (policy is replaced) */
+  ctx: GuardrailsContext;
+}
+
+export interface GuardrailsPolicyPreviewChange {
+  analysisId: string;
+  kind: "insight" | "recommendation";
+  original: string;
+  /** null = removed */
+  current: string | null;
+  candidate: string | null;
+}
+
+export interface GuardrailsPolicyPreview {
+  currentVersion: string;
+  candidateVersion: string;
+  analysesChecked: number;
+  statementsChecked: number;
+  /** Statements removed or changed by each policy */
+  totals: {
+    current: { removed: number; changed: number };
+    candidate: { removed: number; changed: number };
+  };
+  /** Statements whose output differs (first MAX_PREVIEW_CHANGES) */
+  changes: GuardrailsPolicyPreviewChange[];
+}
+
+// ============================================================================
+// VERSIONS & LIFECYCLE
+// ============================================================================
+
+/**
+ * Version stamped on results guarded by a stored policy
+ */
+export function guardrailsPolicyVersion(number: number): string {
+  return `${INTERPRETATION_GUARDRAILS_VERSION}+policy.${number}`;
+}
+
+/**
+ * The policy applyGuardrails() takes for a stored policy
+ */
+export function toGuardrailsPolicy(
+  stored: StoredGuardrailsPolicy
+): GuardrailsPolicy {
+  return {
+    version: guardrailsPolicyVersion(stored.number),
+    reviewedDate: (stored.approvedAt ?? stored.createdAt).slice(0, 10),
+    rules: stored.rules,
+  };
+}
+
+/** Statuses each action may start from */
+const ALLOWED_TRANSITIONS: Record<
+  GuardrailsPolicyAction,
+  ReadonlyArray<GuardrailsPolicyStatus>
+> = {
+  approve: ["draft"],
+  // Re-activating a retired policy is a rollback
+  activate: ["approved", "retired"],
+};
+
+export function canTransitionPolicy(
+  status: GuardrailsPolicyStatus,
+  action: GuardrailsPolicyAction
+): boolean {
+  return ALLOWED_TRANSITIONS[action].includes(status);
+}
+
+/**
+ * User ids allowed to approve and activate policies
+ * (GUARDRAILS_POLICY_APPROVERS, comma separated). Nobody when unset.
+ */
+export function getPolicyApprovers(
+  env: Readonly<Record<string, string | undefined>> = process.env
+): string[] {
+  return (env.GUARDRAILS_POLICY_APPROVERS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Why a user may not approve or activate a policy; null when they may.
+ * Only approvers can, and never for a policy they drafted themselves.
+ */
+export function getPolicyActionDenial(
+  policy: Pick<StoredGuardrailsPolicy, "createdBy">,
+  userId: string,
+  approvers: ReadonlyArray<string>
+): string | null {
+  if (!approvers.includes(userId)) {
+    return "Only guardrails policy approvers can approve or activate policies";
+  }
+  if (policy.createdBy === userId) {
+    return "A policy must be approved and activated by someone other than its author";
+  }
+  return null;
+}
+
+// ============================================================================
+// DRAFTS
+// ============================================================================
+
+/**
+ * Patterns proposed per suggestion issue (generate-suggestions.ts labels).
+ * Issues about wording (clarity, complexity) have no pattern to add.
+ */
+const SUGGESTED_ADDITIONS: Record<
+  string,
+  Partial<Record<PolicyRulesList, string[]>>
+> = {
+  "SCOPE VIOLATION": {
+    forbiddenScope: ["\\bdisease\\b", "\\bdisorder\\b", "\\bsyndrome\\b"],
+    blockedPhrases: ["\\bmedical condition\\b"],
+  },
+  SAFETY: {
+    blockedPhrases: ["\\b(start|stop) taking\\b", "\\bhigh doses?\\b"],
+  },
+  "ACTION LANGUAGE": {
+    blockedPhrases: [
+      "\\byou (should|must|need to)\\b",
+      "\\b(start|stop) taking\\b",
+    ],
+  },
+  ACCURACY: {
+    blockedPhrases: ["\\balways\\b", "\\bproves?\\b", "\\bclearly shows\\b"],
+  },
+};
+
+/**
+ * Draft lists for a suggestion: the base lists plus the patterns proposed
+ * for its issue. The reviewer edits them before saving.
+ */
+export function suggestPolicyRules(
+  suggestion: { issue: string },
+  base: GuardrailsPolicyRules
+): GuardrailsPolicyRules {
+  const additions = SUGGESTED_ADDITIONS[suggestion.issue.toUpperCase()] ?? {};
+  const extend = (list: PolicyRulesList): string[] =>
+    Array.from(new Set([...base[list], ...(additions[list] ?? [])]));
+
+  return {
+    blockedPhrases: extend("blockedPhrases"),
+    forbiddenScope: extend("forbiddenScope"),
+    softeners: extend("softeners"),
+  };
+}
+
+/**
+ * Entries added and removed per list; unchanged lists are left out
+ */
+export function diffPolicyRules(
+  base: GuardrailsPolicyRules,
+  draft: GuardrailsPolicyRules
+): PolicyRulesDiff[] {
+  const lists: PolicyRulesList[] = [
+    "blockedPhrases",
+    "forbiddenScope",
+    "softeners",
+  ];
+  return lists
+    .map((list) => ({
+      list,
+      added: draft[list].filter((entry) => !base[list].includes(entry)),
+      removed: base[list].filter((entry) => !draft[list].includes(entry)),
+    }))
+    .filter((diff) => diff.added.length > 0 || diff.removed.length > 0);
+}
+
+// ============================================================================
+// PREVIEW
+// ============================================================================
+
+/**
+ * Guard one statement on its own; null when it is removed
+ */
+function guardWithPolicy(
+  statement: string,
+  ctx: GuardrailsContext,
+  policy: GuardrailsPolicy
+): string | null {
+  const result = applyGuardrails({
+    insights: [statement],
+    recommendations: [],
+    ctx: { ...ctx, policy },
+  });
+  return result.insights[0] ?? null;
+}
+
+/**
+ * Run the unguarded AI statements of recent analyses through the current
+ * and the candidate policy and report the statements that come out
+ * differently
+ */
+export function previewGuardrailsPolicy(
+  samples: ReadonlyArray<GuardrailsPolicySample>,
+  current: GuardrailsPolicy,
+  candidate: GuardrailsPolicy
+): GuardrailsPolicyPreview {
+  const totals = {
+    current: { removed: 0, changed: 0 },
+    candidate: { removed: 0, changed: 0 },
+  };
+  const changes: GuardrailsPolicyPreviewChange[] = [];
+  let statementsChecked = 0;
+
+  const count = (
+    tally: { removed: number; changed: number },
+    original: string,
+    output: string | null
+  ) => {
+    if (output === null) tally.removed++;
+    else if (output !== original) tally.changed++;
+  };
+
+  samples.forEach((sample) => {
+    const statements = [
+      ...sample.insights.map((text) => ({ kind: "insight" as const, text })),
+      ...sample.recommendations.map((text) => ({
+        kind: "recommendation" as const,
+        text,
+      })),
+    ];
+
+    statements.forEach(({ kind, text }) => {
+      const original = text.replace(/\s+/g, " ").trim();
+      if (!original) return;
+      statementsChecked++;
+
+      const currentOutput = guardWithPolicy(original, sample.ctx, current);
+      const candidateOutput = guardWithPolicy(original, sample.ctx, candidate);
+      count(totals.current, original, currentOutput);
+      count(totals.candidate, original, candidateOutput);
+
+      if (
+        currentOutput !== candidateOutput &&
+        changes.length < MAX_PREVIEW_CHANGES
+      ) {
+        changes.push({
+          analysisId: sample.analysisId,
+          kind,
+          original,
+          current: currentOutput,
+          candidate: candidateOutput,
+        });
+      }
+    });
+  });
+
+  return {
+    currentVersion: current.version,
+    candidateVersion: candidate.version,
+    analysesChecked: samples.length,
+    statementsChecked,
+    totals,
+    changes,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * HTMA Genius — Guardrails Policy Store
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Firestore storage for guardrails policies (workflow in guardrailsPolicy.ts):
+ * - guardrailsPolicies/global                 { latestNumber, activeNumber }
+ * - guardrailsPolicies/global/versions/{n}    StoredGuardrailsPolicy
+ *
+ * The active policy is cached in memory for a minute, so analyses don't
+ * read Firestore on every request. Activation clears this instance's cache;
+ * other instances pick the new policy up within the minute.
+ *
+ * Server only (Firestore Admin SDK).
+ */
+
+import { admin } from "./firebaseAdmin";
+import {
+  BUILT_IN_GUARDRAILS_POLICY,
+  GuardrailsPolicy,
+} from "./interpretationGuardrails";
+import { StoredGuardrailsPolicy, toGuardrailsPolicy } from "./guardrailsPolicy";
+
+const POLICY_COLLECTION = "guardrailsPolicies";
+const POLICY_STATE_DOC = "global";
+
+const ACTIVE_POLICY_TTL_MS = 60_000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface GuardrailsPolicyState {
+  latestNumber: number;
+  /** 0 = no stored policy active (built-in lists apply) */
+  activeNumber: number;
+}
+
+// ============================================================================
+// REFERENCES
+// ============================================================================
+
+export function policyStateRef() {
+  return admin.firestore().collection(POLICY_COLLECTION).doc(POLICY_STATE_DOC);
+}
+
+export function policyVersionRef(number: number) {
+  return policyStateRef().collection("versions").doc(String(number));
+}
+
+export function readPolicyState(
+  data: admin.firestore.DocumentData | undefined
+): GuardrailsPolicyState {
+  return {
+    latestNumber: data?.latestNumber ?? 0,
+    activeNumber: data?.activeNumber ?? 0,
+  };
+}
+
+// ============================================================================
+// ACTIVE POLICY
+// ============================================================================
+
+let activePolicyCache: { policy: GuardrailsPolicy; loadedAt: number } | null =
+  null;
+
+/**
+ * Policy server analyses are guarded with. Falls back to the built-in
+ * lists when none is active or Firestore can't be read - guardrails
+ * always apply.
+ */
+export async function loadActiveGuardrailsPolicy(): Promise<GuardrailsPolicy> {
+  if (
+    activePolicyCache &&
+    Date.now() - activePolicyCache.loadedAt < ACTIVE_POLICY_TTL_MS
+  ) {
+    return activePolicyCache.policy;
+  }
+
+  let policy = BUILT_IN_GUARDRAILS_POLICY;
+  try {
+    const state = readPolicyState((await policyStateRef().get()).data());
+    if (state.activeNumber > 0) {
+      const stored = await loadStoredGuardrailsPolicy(state.activeNumber);
+      if (stored) policy = toGuardrailsPolicy(stored);
+    }
+  } catch (error) {
+    console.warn(
+      "⚠️ Guardrails policy read failed, using built-in lists:",
+      error
+    );
+    return policy;
+  }
+
+  activePolicyCache = { policy, loadedAt: Date.now() };
+  return policy;
+}
+
+/**
+ * Forget the cached active policy (after an activation)
+ */
+export function clearActiveGuardrailsPolicyCache(): void {
+  activePolicyCache = null;
+}
+
+// ============================================================================
+// STORED POLICIES
+// ============================================================================
+
+export async function loadStoredGuardrailsPolicy(
+  number: number
+): Promise<StoredGuardrailsPolicy | null> {
+  const doc = await policyVersionRef(number).get();
+  return doc.exists ? (doc.data() as StoredGuardrailsPolicy) : null;
+}
+
+/**
+ * Newest policies first
+ */
+export async function listStoredGuardrailsPolicies(
+  limit = 20
+): Promise<StoredGuardrailsPolicy[]> {
+  const snapshot = await policyStateRef()
+    .collection("versions")
+    .orderBy("number", "desc")
+    .limit(limit)
+    .get();
+  return snapshot.docs.map((doc) => doc.data() as StoredGuardrailsPolicy);
+}
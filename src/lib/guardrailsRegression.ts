@@ -0,0 +1,258 @@
+/**
+ * HTMA Genius — Guardrails Regression Runner
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Runs a guardrails policy against the corpus in guardrailsTestCases.ts and
+ * reports:
+ * - pass/fail per case and context (audience + channel)
+ * - outcome changes between two policies (e.g. active vs. previous)
+ * - false-positive hot spots: rules that fire on statements expected to be
+ *   kept or only softened
+ *
+ * Statements are guarded the way the app guards them: the api channel in
+ * rewrite mode, other channels in remove mode. A case's `rewritten` text
+ * must match the rewrite-mode output exactly. Evidence is always present,
+ * so the limited-data softener never fires and outcomes depend on the
+ * phrase lists alone.
+ */
+
+import {
+  GuardrailsContext,
+  GuardrailsMode,
+  GuardrailsPolicy,
+  Channel,
+  applyGuardrails,
+} from "./interpretationGuardrails";
+import {
+  GUARDRAILS_TEST_CASES,
+  GuardrailsExpectedOutcome,
+  GuardrailsTestCase,
+  GuardrailsTestContext,
+} from "./guardrailsTestCases";
+
+export const GUARDRAILS_REGRESSION_VERSION = "1.1.0";
+
+const CORPUS_EVIDENCE: GuardrailsContext["evidence"] = {
+  abnormalMinerals: ["Ca", "Na"],
+  abnormalRatios: ["Ca/Mg"],
+};
+
+/** Outcome severity, used to tell false positives from misses */
+const OUTCOME_SEVERITY: Record<GuardrailsExpectedOutcome, number> = {
+  kept: 0,
+  softened: 1,
+  removed: 2,
+  scope_blocked: 3,
+};
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface GuardrailsCaseOutcome {
+  outcome: GuardrailsExpectedOutcome;
+  /** null when the statement was removed */
+  output: string | null;
+  /** Rules that fired (GuardrailTransformation.rules) */
+  rules: string[];
+}
+
+export interface GuardrailsCaseResult extends GuardrailsCaseOutcome {
+  caseId: string;
+  context: GuardrailsTestContext;
+  expected: GuardrailsExpectedOutcome;
+  passed: boolean;
+}
+
+export interface GuardrailsCorpusRun {
+  policyVersion: string;
+  total: number;
+  passed: number;
+  failed: number;
+  results: GuardrailsCaseResult[];
+}
+
+export interface GuardrailsRunChange {
+  caseId: string;
+  context: GuardrailsTestContext;
+  expected: GuardrailsExpectedOutcome;
+  previous: GuardrailsCaseOutcome;
+  current: GuardrailsCaseOutcome;
+}
+
+export interface GuardrailsHotSpot {
+  rule: string;
+  /** Failing results the rule fired on */
+  count: number;
+  caseIds: string[];
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Mode the app guards a channel with (analyses rewrite, reports remove)
+ */
+export function guardrailsModeForChannel(channel: Channel): GuardrailsMode {
+  return channel === "api" ? "rewrite" : "remove";
+}
+
+/**
+ * Guard one corpus statement and classify what happened to it
+ */
+export function classifyGuardrailsOutcome(
+  testCase: Pick<GuardrailsTestCase, "kind" | "text">,
+  context: GuardrailsTestContext,
+  policy: GuardrailsPolicy
+): GuardrailsCaseOutcome {
+  const isInsight = testCase.kind === "insight";
+  const result = applyGuardrails({
+    insights: isInsight ? [testCase.text] : [],
+    recommendations: isInsight ? [] : [testCase.text],
+    ctx: {
+      ...context,
+      mode: guardrailsModeForChannel(context.channel),
+      policy,
+      evidence: CORPUS_EVIDENCE,
+    },
+  });
+
+  const transformation = result.transformations[0];
+  if (!transformation) {
+    return { outcome: "kept", output: testCase.text, rules: [] };
+  }
+
+  const { rules } = transformation;
+  if (transformation.action !== "removed") {
+    return { outcome: "softened", output: transformation.result, rules };
+  }
+
+  return {
+    outcome: rules.some((r) => r.startsWith("forbidden_scope:"))
+      ? "scope_blocked"
+      : "removed",
+    output: null,
+    rules,
+  };
+}
+
+/**
+ * Run every case in every context it has an expectation for
+ */
+export function runGuardrailsCorpus(
+  policy: GuardrailsPolicy,
+  cases: ReadonlyArray<GuardrailsTestCase> = GUARDRAILS_TEST_CASES
+): GuardrailsCorpusRun {
+  const results: GuardrailsCaseResult[] = [];
+
+  cases.forEach((testCase) => {
+    testCase.expectations.forEach(({ expected, ...context }) => {
+      const outcome = classifyGuardrailsOutcome(testCase, context, policy);
+      const checksRewrite =
+        testCase.rewritten !== undefined &&
+        expected === "softened" &&
+        guardrailsModeForChannel(context.channel) === "rewrite";
+      results.push({
+        caseId: testCase.id,
+        context,
+        expected,
+        passed:
+          outcome.outcome === expected &&
+          (!checksRewrite || outcome.output === testCase.rewritten),
+        ...outcome,
+      });
+    });
+  });
+
+  const passed = results.filter((r) => r.passed).length;
+  return {
+    policyVersion: policy.version,
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    results,
+  };
+}
+
+// ============================================================================
+// COMPARISON & HOT SPOTS
+// ============================================================================
+
+function contextKey(caseId: string, context: GuardrailsTestContext): string {
+  return `${caseId}|${context.audience}|${context.channel}`;
+}
+
+/**
+ * Results whose outcome or output differs between two runs of the same
+ * corpus
+ */
+export function diffGuardrailsRuns(
+  current: GuardrailsCorpusRun,
+  previous: GuardrailsCorpusRun
+): GuardrailsRunChange[] {
+  const previousByKey = new Map(
+    previous.results.map((r) => [contextKey(r.caseId, r.context), r])
+  );
+
+  const changes: GuardrailsRunChange[] = [];
+  current.results.forEach((result) => {
+    const before = previousByKey.get(contextKey(result.caseId, result.context));
+    if (
+      !before ||
+      (before.outcome === result.outcome && before.output === result.output)
+    ) {
+      return;
+    }
+    changes.push({
+      caseId: result.caseId,
+      context: result.context,
+      expected: result.expected,
+      previous: {
+        outcome: before.outcome,
+        output: before.output,
+        rules: before.rules,
+      },
+      current: {
+        outcome: result.outcome,
+        output: result.output,
+        rules: result.rules,
+      },
+    });
+  });
+  return changes;
+}
+
+/**
+ * Whether the policy was harsher than expected (blocked or softened a
+ * statement that should have passed)
+ */
+export function isFalsePositive(result: GuardrailsCaseResult): boolean {
+  return OUTCOME_SEVERITY[result.outcome] > OUTCOME_SEVERITY[result.expected];
+}
+
+/**
+ * Blocking rules behind false positives, most frequent first. Rewrite ids
+ * are left out: they follow from the blocked phrase that triggered them.
+ */
+export function findFalsePositiveHotSpots(
+  run: GuardrailsCorpusRun
+): GuardrailsHotSpot[] {
+  const spots = new Map<string, GuardrailsHotSpot>();
+
+  run.results.filter(isFalsePositive).forEach((result) => {
+    result.rules
+      .filter((rule) => !rule.startsWith("rewrite:"))
+      .forEach((rule) => {
+        const spot = spots.get(rule) ?? { rule, count: 0, caseIds: [] };
+        spot.count++;
+        if (!spot.caseIds.includes(result.caseId)) {
+          spot.caseIds.push(result.caseId);
+        }
+        spots.set(rule, spot);
+      });
+  });
+
+  return Array.from(spots.values()).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,386 @@
+/**
+ * Interpretation Guardrails Test Cases
+ *
+ * Regression corpus for the guardrails engine: AI-style sentences with the
+ * outcome we WANT per audience and channel. The built-in policy passes
+ * every case; a stored policy that fails one is a regression.
+ *
+ * Outcomes:
+ * - kept:          passes through unchanged
+ * - softened:      kept with changed wording (softener prefix, rewrite,
+ *                  dosage placeholder)
+ * - removed:       dropped for diagnosis/treatment language
+ * - scope_blocked: dropped for forbidden medical scope
+ *
+ * Cases with `rewritten` also check the exact rewrite-mode output, so
+ * ungrammatical rewrites ("recommende", "help help with") fail.
+ *
+ * Version: 1.2.0
+ */
+
+import { Audience, Channel } from "./interpretationGuardrails";
+
+export type GuardrailsExpectedOutcome =
+  | "kept"
+  | "softened"
+  | "removed"
+  | "scope_blocked";
+
+export type GuardrailsTestCategory =
+  | "safe"
+  | "diagnosis"
+  | "treatment"
+  | "scope"
+  | "dosage"
+  | "false_positive";
+
+export interface GuardrailsTestContext {
+  audience: Audience;
+  channel: Channel;
+}
+
+export interface GuardrailsTestExpectation extends GuardrailsTestContext {
+  expected: GuardrailsExpectedOutcome;
+}
+
+export interface GuardrailsTestCase {
+  id: string;
+  description: string;
+  category: GuardrailsTestCategory;
+  kind: "insight" | "recommendation";
+  text: string;
+  expectations: GuardrailsTestExpectation[];
+  /** Expected output in rewrite mode (consumer/api), when it is softened */
+  rewritten?: string;
+  note: string;
+}
+
+/**
+ * Contexts the app guards text in: analyses (api, consumer), client PDF
+ * reports and practitioner PDF reports
+ */
+export const GUARDRAILS_TEST_CONTEXTS: ReadonlyArray<GuardrailsTestContext> = [
+  { audience: "consumer", channel: "api" },
+  { audience: "consumer", channel: "pdf" },
+  { audience: "practitioner", channel: "pdf" },
+];
+
+/**
+ * Same outcome in every context, with per-context overrides
+ */
+function expectIn(
+  expected: GuardrailsExpectedOutcome,
+  overrides: Partial<Record<string, GuardrailsExpectedOutcome>> = {}
+): GuardrailsTestExpectation[] {
+  return GUARDRAILS_TEST_CONTEXTS.map((ctx) => ({
+    ...ctx,
+    expected: overrides[`${ctx.audience}/${ctx.channel}`] ?? expected,
+  }));
+}
+
+export const GUARDRAILS_TEST_CASES: GuardrailsTestCase[] = [
+  // === SAFE EDUCATIONAL LANGUAGE ===
+  {
+    id: "SAFE_01",
+    description: "Plain observation about a mineral level",
+    category: "safe",
+    kind: "insight",
+    text: "Calcium is elevated relative to the reference range.",
+    expectations: expectIn("kept"),
+    note: "No blocked phrasing; must never be touched",
+  },
+  {
+    id: "SAFE_02",
+    description: "Statement that already uses a softener",
+    category: "safe",
+    kind: "insight",
+    text: "This pattern may suggest increased calcium retention.",
+    expectations: expectIn("kept"),
+    note: "'may suggest' is a softener; no second prefix",
+  },
+  {
+    id: "SAFE_03",
+    description: "Ratio interpretation with educational tone",
+    category: "safe",
+    kind: "insight",
+    text: "The sodium to potassium ratio can reflect adrenal activity.",
+    expectations: expectIn("kept"),
+    note: "Full mineral names, no symbols",
+  },
+  {
+    id: "SAFE_04",
+    description: "Referral to a practitioner",
+    category: "safe",
+    kind: "recommendation",
+    text: "Consider discussing these results with a qualified practitioner.",
+    expectations: expectIn("kept"),
+    note: "The standard safe recommendation",
+  },
+  {
+    id: "SAFE_05",
+    description: "Manganese symbol in parentheses",
+    category: "safe",
+    kind: "insight",
+    text: "Manganese (Mn) is within the ideal range.",
+    expectations: expectIn("kept"),
+    note: "Symbols other than Mg must not trip dosage patterns",
+  },
+  {
+    id: "SAFE_06",
+    description: "Scope disclaimer",
+    category: "safe",
+    kind: "recommendation",
+    text: "This report does not diagnose, treat, or cure any condition.",
+    expectations: expectIn("kept"),
+    note: "Negated diagnosis/treatment verbs are a disclaimer, not a claim",
+  },
+
+  // === DIAGNOSIS LANGUAGE ===
+  {
+    id: "DIAG_01",
+    description: "Confirms a condition about the client",
+    category: "diagnosis",
+    kind: "insight",
+    text: "This confirms you have adrenal fatigue.",
+    expectations: expectIn("softened"),
+    rewritten: "This may suggest adrenal fatigue.",
+    note: "Rewritten on the api channel, softener prefix in PDFs",
+  },
+  {
+    id: "DIAG_02",
+    description: "Results presented as a diagnosis",
+    category: "diagnosis",
+    kind: "insight",
+    text: "Your results diagnose hypothyroidism.",
+    expectations: expectIn("removed"),
+    note: "Diagnosis language is removed everywhere, never rewritten",
+  },
+  {
+    id: "DIAG_03",
+    description: "Certainty claim",
+    category: "diagnosis",
+    kind: "insight",
+    text: "You are definitely a slow oxidizer.",
+    expectations: expectIn("softened"),
+    note: "'you are' and 'definitely' are softened, not removed",
+  },
+  {
+    id: "DIAG_04",
+    description: "Past diagnosis",
+    category: "diagnosis",
+    kind: "insight",
+    text: "You were diagnosed with anemia.",
+    expectations: expectIn("removed"),
+    note: "Must not become 'You is sometimes associated with anemia'",
+  },
+  {
+    id: "DIAG_05",
+    description: "Diagnosis as an outcome",
+    category: "diagnosis",
+    kind: "insight",
+    text: "Low iron could lead to a diagnosis of hypothyroidism.",
+    expectations: expectIn("removed"),
+    note: "Disease labels from 'diagnosis of' are removed, not softened",
+  },
+
+  // === TREATMENT LANGUAGE ===
+  {
+    id: "TREAT_01",
+    description: "Cure claim",
+    category: "treatment",
+    kind: "insight",
+    text: "Zinc can cure acne.",
+    expectations: expectIn("removed", { "consumer/api": "softened" }),
+    rewritten: "Zinc can help with acne.",
+    note: "Hard block in PDFs; the api channel rewrites 'cure' to 'help with'",
+  },
+  {
+    id: "TREAT_02",
+    description: "Treatment plan wording",
+    category: "treatment",
+    kind: "recommendation",
+    text: "A magnesium treatment plan is recommended.",
+    expectations: expectIn("softened"),
+    rewritten: "A magnesium support plan is recommended.",
+    note: "'treatment' is softened or rewritten to 'support'",
+  },
+  {
+    id: "TREAT_03",
+    description: "Prescription wording",
+    category: "treatment",
+    kind: "recommendation",
+    text: "A practitioner may prescribe iodine.",
+    expectations: expectIn("softened"),
+    rewritten: "A practitioner may recommend iodine.",
+    note: "'prescribe' is softened or rewritten to 'recommend'",
+  },
+  {
+    id: "TREAT_04",
+    description: "Past-tense prescription",
+    category: "treatment",
+    kind: "recommendation",
+    text: "Your practitioner prescribed extra zinc.",
+    expectations: expectIn("softened"),
+    rewritten: "Your practitioner recommended extra zinc.",
+    note: "The rewrite keeps the tense",
+  },
+  {
+    id: "TREAT_05",
+    description: "'help treat'",
+    category: "treatment",
+    kind: "insight",
+    text: "Zinc may help treat skin issues.",
+    expectations: expectIn("removed", { "consumer/api": "softened" }),
+    rewritten: "Zinc may help with skin issues.",
+    note: "Must not become 'help help with'",
+  },
+  {
+    id: "TREAT_06",
+    description: "Treatment verb, third person",
+    category: "treatment",
+    kind: "insight",
+    text: "Magnesium treats muscle cramps.",
+    expectations: expectIn("removed", { "consumer/api": "softened" }),
+    rewritten: "Magnesium helps with muscle cramps.",
+    note: "'treats' followed by an object is the verb",
+  },
+
+  // === FORBIDDEN SCOPE ===
+  {
+    id: "SCOPE_01",
+    description: "Disease association",
+    category: "scope",
+    kind: "insight",
+    text: "High copper is linked to cancer risk.",
+    expectations: expectIn("scope_blocked"),
+    note: "Disease names are out of scope everywhere",
+  },
+  {
+    id: "SCOPE_02",
+    description: "Pregnancy",
+    category: "scope",
+    kind: "insight",
+    text: "This pattern is common during pregnancy.",
+    expectations: expectIn("scope_blocked"),
+    note: "Pregnancy is out of scope, even with a softener",
+  },
+  {
+    id: "SCOPE_03",
+    description: "Child (singular)",
+    category: "scope",
+    kind: "insight",
+    text: "A child with this pattern may need extra support.",
+    expectations: expectIn("scope_blocked"),
+    note: "Pediatric interpretation is out of scope",
+  },
+  {
+    id: "SCOPE_04",
+    description: "Children (plural)",
+    category: "scope",
+    kind: "insight",
+    text: "Children often show higher sodium levels.",
+    expectations: expectIn("scope_blocked"),
+    note: "The child pattern matches the plural too",
+  },
+
+  // === DOSAGE & TIMELINES ===
+  {
+    id: "DOSE_01",
+    description: "Explicit supplement dosage",
+    category: "dosage",
+    kind: "recommendation",
+    text: "Take 400 mg magnesium daily.",
+    expectations: expectIn("softened"),
+    note: "Consumers get a dosage placeholder; practitioners keep the amount with a softener",
+  },
+  {
+    id: "DOSE_02",
+    description: "Timeline promise",
+    category: "dosage",
+    kind: "recommendation",
+    text: "Supplement for 8 weeks to see results.",
+    expectations: expectIn("softened"),
+    rewritten: "Supplement over time to see results.",
+    note: "Durations are rewritten or softened",
+  },
+  {
+    id: "DOSE_03",
+    description: "Dosage in a unit the blocked list doesn't name",
+    category: "dosage",
+    kind: "recommendation",
+    text: "Consider 15 mcg selenium with meals.",
+    expectations: expectIn("softened", { "practitioner/pdf": "kept" }),
+    note: "Only consumer output strips amounts; practitioners see them",
+  },
+
+  // === FALSE POSITIVE HOT SPOTS ===
+  {
+    id: "FP_01",
+    description: "Magnesium symbol",
+    category: "false_positive",
+    kind: "insight",
+    text: "Mg is low relative to Ca.",
+    expectations: expectIn("kept"),
+    note: "The dosage pattern needs a number before 'mg', so the symbol passes",
+  },
+  {
+    id: "FP_02",
+    description: "Ratio that names magnesium",
+    category: "false_positive",
+    kind: "insight",
+    text: "The Ca/Mg ratio is above the ideal range.",
+    expectations: expectIn("kept"),
+    note: "Same dosage pattern, inside a ratio name",
+  },
+  {
+    id: "FP_03",
+    description: "'Treat' as a food",
+    category: "false_positive",
+    kind: "recommendation",
+    text: "Pumpkin seeds make a zinc-rich treat.",
+    expectations: expectIn("kept"),
+    note: "'treat' after an article and before punctuation is the noun",
+  },
+  {
+    id: "FP_04",
+    description: "'Treats' as food",
+    category: "false_positive",
+    kind: "recommendation",
+    text: "Dark chocolate treats are a source of magnesium.",
+    expectations: expectIn("kept"),
+    note: "'treats' before 'are' is the noun",
+  },
+  {
+    id: "FP_06",
+    description: "'Treats' after an adjective",
+    category: "false_positive",
+    kind: "recommendation",
+    text: "Nuts make healthy treats rich in magnesium.",
+    expectations: expectIn("kept"),
+    note: "'treats' after an adjective and before 'rich in' is the noun",
+  },
+  {
+    id: "FP_07",
+    description: "'Treats' as the subject",
+    category: "false_positive",
+    kind: "recommendation",
+    text: "Dark chocolate treats contain magnesium.",
+    expectations: expectIn("kept"),
+    note: "'treats' followed by a verb is the noun",
+  },
+  {
+    id: "FP_05",
+    description: "Conditional 'you have'",
+    category: "false_positive",
+    kind: "recommendation",
+    text: "If you have questions, ask your practitioner.",
+    expectations: expectIn("kept"),
+    note: "'you have' after 'if' is not a claim about the client",
+  },
+];
+
+export function getTestCasesByCategory(
+  category: GuardrailsTestCategory
+): GuardrailsTestCase[] {
+  return GUARDRAILS_TEST_CASES.filter((tc) => tc.category === category);
+}
@@ -6,25 +6,48 @@
  * - Critical Ratios (30%): Balance of key mineral relationships
  * - Red Flags (10%): Severe deficiencies or toxicities
  *
+ * Partial panels: each component is scored only over what was provided.
+ * Missing minerals are not counted as "Low", ratios whose minerals are
+ * missing are skipped, and a component with nothing to evaluate is left out
+ * and the remaining weights are rescaled to 100. The result reports how
+ * complete the panel was so partial tests are not compared as if they were
+ * full panels.
+ *
+ * A graded-deviation score (v2) is calculated alongside this one in
+ * healthScoreV2.ts; this v1 score is unchanged by it.
+ *
  * IMPORTANT: Score weights and semantics are defined in healthScoreSemantics.ts
  * Do not modify weights here - use centralized constants.
  */
 
-import { MineralData } from "../components/HTMAInputForm";
+import {
+  MineralData,
+  MINERAL_NAMES,
+  hasMineralValue,
+} from "./mineralModel";
 import {
   MINERAL_REFERENCE_RANGES,
   RATIO_REFERENCE_RANGES,
+  MINERAL_SYMBOLS,
   getMineralStatus,
   getRatioStatus,
   calculateRatio,
 } from "./htmaConstants";
 import {
   HEALTH_SCORE_WEIGHTS,
+  HEALTH_SCORE_SEMANTICS_VERSION,
   getGrade,
   HealthScoreGrade,
 } from "./healthScoreSemantics";
+import {
+  MineralUnit,
+  CANONICAL_UNIT,
+  toCanonicalMineralData,
+} from "./unitConversion";
 
 export interface HealthScoreBreakdown {
+  /** Semantics that produced this score (absent on scores saved before v2 existed) */
+  semanticsVersion?: string;
   totalScore: number;
   mineralScore: number;
   ratioScore: number;
@@ -36,42 +59,70 @@ export interface HealthScoreBreakdown {
     high: number;
   };
   criticalIssues: string[];
+  /** How much of the panel the score covers (absent on scores saved before partial-panel scoring) */
+  completeness?: ScoreCompleteness;
+}
+
+export type ScoreComponent = "mineralScore" | "ratioScore" | "redFlagScore";
+
+export interface ScoreCompleteness {
+  /** Minerals with a measured value */
+  mineralsEvaluated: number;
+  mineralsTotal: number;
+  /** Ratios whose numerator and denominator were both measured */
+  ratiosEvaluated: number;
+  ratiosTotal: number;
+  /** Share of minerals + ratios that could be evaluated (0-100) */
+  percent: number;
+  /** True when anything was missing */
+  isPartial: boolean;
+  /** Symbols of minerals that were not measured */
+  missingMinerals: string[];
+  /** Ratio names that could not be evaluated */
+  unevaluatedRatios: string[];
+  /** Components left out of the total because nothing in them was measured */
+  unevaluatedComponents: ScoreComponent[];
 }
 
 /**
  * Calculate comprehensive HTMA health score
+ *
+ * @param mineralData - Mineral values (null = not measured)
+ * @param unit - Unit the values are in (converted to mg% before scoring)
  */
 export function calculateHealthScore(
-  mineralData: MineralData
+  mineralData: MineralData,
+  unit: MineralUnit = CANONICAL_UNIT
 ): HealthScoreBreakdown {
-  // Parse mineral values
-  const getValue = (val: string): number => parseFloat(val) || 0;
-
-  const mineralValues = {
-    Ca: getValue(mineralData.calcium),
-    Mg: getValue(mineralData.magnesium),
-    Na: getValue(mineralData.sodium),
-    K: getValue(mineralData.potassium),
-    P: getValue(mineralData.phosphorus),
-    Cu: getValue(mineralData.copper),
-    Zn: getValue(mineralData.zinc),
-    Fe: getValue(mineralData.iron),
-    Mn: getValue(mineralData.manganese),
-    Cr: getValue(mineralData.chromium),
-    Se: getValue(mineralData.selenium),
-    B: getValue(mineralData.boron),
-    Co: getValue(mineralData.cobalt),
-    Mo: getValue(mineralData.molybdenum),
-    S: getValue(mineralData.sulfur),
-  };
+  // Score in the canonical unit so reference ranges apply
+  const canonicalData = toCanonicalMineralData(mineralData, unit);
+
+  // Measured values only, keyed by symbol
+  const mineralValues: Record<string, number> = {};
+  for (const name of MINERAL_NAMES) {
+    const value = canonicalData[name];
+    if (hasMineralValue(value)) mineralValues[MINERAL_SYMBOLS[name]] = value;
+  }
+  const isMeasured = (symbol: string) => symbol in mineralValues;
+
+  const mineralPool = HEALTH_SCORE_WEIGHTS.MINERAL_WEIGHT * 100;
+  const ratioPool = HEALTH_SCORE_WEIGHTS.RATIO_WEIGHT * 100;
+  const redFlagPool = HEALTH_SCORE_WEIGHTS.RED_FLAG_WEIGHT * 100;
 
   // ===== 1. MINERAL STATUS SCORE (weight from semantics) =====
   let optimalCount = 0;
   let lowCount = 0;
   let highCount = 0;
 
-  MINERAL_REFERENCE_RANGES.forEach((ref) => {
-    const value = mineralValues[ref.symbol as keyof typeof mineralValues];
+  const measuredMinerals = MINERAL_REFERENCE_RANGES.filter((ref) =>
+    isMeasured(ref.symbol)
+  );
+  const missingMinerals = MINERAL_REFERENCE_RANGES.filter(
+    (ref) => !isMeasured(ref.symbol)
+  ).map((ref) => ref.symbol);
+
+  measuredMinerals.forEach((ref) => {
+    const value = mineralValues[ref.symbol];
     const status = getMineralStatus(value, ref.minIdeal, ref.maxIdeal);
 
     if (status === "Optimal") optimalCount++;
@@ -79,20 +130,28 @@ export function calculateHealthScore(
     else if (status === "High") highCount++;
   });
 
-  // Score: 100% if all optimal, decreases linearly
+  // Score: 100% if all measured minerals are optimal, decreases linearly
   // Uses centralized weight from healthScoreSemantics.ts
   const mineralScore =
-    (optimalCount / 15) * (HEALTH_SCORE_WEIGHTS.MINERAL_WEIGHT * 100);
+    measuredMinerals.length > 0
+      ? (optimalCount / measuredMinerals.length) * mineralPool
+      : 0;
 
   // ===== 2. CRITICAL RATIOS SCORE (weight from semantics) =====
   let optimalRatios = 0;
 
-  RATIO_REFERENCE_RANGES.forEach((ref) => {
-    const numeratorValue =
-      mineralValues[ref.numeratorSymbol as keyof typeof mineralValues];
-    const denominatorValue =
-      mineralValues[ref.denominatorSymbol as keyof typeof mineralValues];
-    const ratioValue = calculateRatio(numeratorValue, denominatorValue);
+  const evaluableRatios = RATIO_REFERENCE_RANGES.filter(
+    (ref) => isMeasured(ref.numeratorSymbol) && isMeasured(ref.denominatorSymbol)
+  );
+  const unevaluatedRatios = RATIO_REFERENCE_RANGES.filter(
+    (ref) => !evaluableRatios.includes(ref)
+  ).map((ref) => ref.name);
+
+  evaluableRatios.forEach((ref) => {
+    const ratioValue = calculateRatio(
+      mineralValues[ref.numeratorSymbol],
+      mineralValues[ref.denominatorSymbol]
+    );
     const status = getRatioStatus(ratioValue, ref.minIdeal, ref.maxIdeal);
 
     if (status === "Optimal") optimalRatios++;
@@ -100,15 +159,18 @@ export function calculateHealthScore(
 
   // Uses centralized weight from healthScoreSemantics.ts
   const ratioScore =
-    (optimalRatios / 6) * (HEALTH_SCORE_WEIGHTS.RATIO_WEIGHT * 100);
+    evaluableRatios.length > 0
+      ? (optimalRatios / evaluableRatios.length) * ratioPool
+      : 0;
 
   // ===== 3. RED FLAGS SCORE (weight from semantics) =====
+  // Only measured minerals/ratios can raise a flag
   const criticalIssues: string[] = [];
   let redFlagPenalty = 0;
 
   // Check for severe deficiencies (< 50% of minimum)
-  MINERAL_REFERENCE_RANGES.forEach((ref) => {
-    const value = mineralValues[ref.symbol as keyof typeof mineralValues];
+  measuredMinerals.forEach((ref) => {
+    const value = mineralValues[ref.symbol];
 
     if (value < ref.minIdeal * 0.5) {
       criticalIssues.push(`Severe ${ref.name} deficiency`);
@@ -123,36 +185,77 @@ export function calculateHealthScore(
   });
 
   // Check for critical ratio imbalances
-  const caMgRatio = calculateRatio(mineralValues.Ca, mineralValues.Mg);
-  if (caMgRatio > 10 || caMgRatio < 4) {
+  const ratioIfMeasured = (numerator: string, denominator: string) =>
+    isMeasured(numerator) && isMeasured(denominator)
+      ? calculateRatio(mineralValues[numerator], mineralValues[denominator])
+      : null;
+
+  const caMgRatio = ratioIfMeasured("Ca", "Mg");
+  if (caMgRatio !== null && (caMgRatio > 10 || caMgRatio < 4)) {
     criticalIssues.push("Critical Ca/Mg imbalance");
     redFlagPenalty += 1;
   }
 
-  const naKRatio = calculateRatio(mineralValues.Na, mineralValues.K);
-  if (naKRatio > 4 || naKRatio < 1.5) {
+  const naKRatio = ratioIfMeasured("Na", "K");
+  if (naKRatio !== null && (naKRatio > 4 || naKRatio < 1.5)) {
     criticalIssues.push("Critical Na/K imbalance");
     redFlagPenalty += 1;
   }
 
-  const znCuRatio = calculateRatio(mineralValues.Zn, mineralValues.Cu);
-  if (znCuRatio > 10 || znCuRatio < 3) {
+  const znCuRatio = ratioIfMeasured("Zn", "Cu");
+  if (znCuRatio !== null && (znCuRatio > 10 || znCuRatio < 3)) {
     criticalIssues.push("Critical Zn/Cu imbalance");
     redFlagPenalty += 1;
   }
 
-  const redFlagScore = Math.max(
-    0,
-    HEALTH_SCORE_WEIGHTS.RED_FLAG_WEIGHT * 100 - redFlagPenalty
-  );
+  const redFlagScore = Math.max(0, redFlagPool - redFlagPenalty);
 
   // ===== FINAL SCORE =====
-  const totalScore = mineralScore + ratioScore + redFlagScore;
+  // Components with nothing measured are left out; the remaining weights are
+  // rescaled so a partial panel is still scored out of 100
+  const unevaluatedComponents: ScoreComponent[] = [];
+  if (measuredMinerals.length === 0) unevaluatedComponents.push("mineralScore");
+  if (evaluableRatios.length === 0) unevaluatedComponents.push("ratioScore");
+  if (measuredMinerals.length === 0 && evaluableRatios.length === 0) {
+    unevaluatedComponents.push("redFlagScore");
+  }
+
+  const evaluatedPool =
+    (unevaluatedComponents.includes("mineralScore") ? 0 : mineralPool) +
+    (unevaluatedComponents.includes("ratioScore") ? 0 : ratioPool) +
+    (unevaluatedComponents.includes("redFlagScore") ? 0 : redFlagPool);
+
+  const rawScore =
+    (unevaluatedComponents.includes("redFlagScore") ? 0 : redFlagScore) +
+    mineralScore +
+    ratioScore;
+  const totalScore = evaluatedPool > 0 ? (rawScore / evaluatedPool) * 100 : 0;
 
   // Grade calculation using centralized semantics
   const grade = getGrade(totalScore);
 
+  const mineralsTotal = MINERAL_REFERENCE_RANGES.length;
+  const ratiosTotal = RATIO_REFERENCE_RANGES.length;
+  const completeness: ScoreCompleteness = {
+    mineralsEvaluated: measuredMinerals.length,
+    mineralsTotal,
+    ratiosEvaluated: evaluableRatios.length,
+    ratiosTotal,
+    percent: Math.round(
+      ((measuredMinerals.length + evaluableRatios.length) /
+        (mineralsTotal + ratiosTotal)) *
+        100
+    ),
+    isPartial:
+      measuredMinerals.length < mineralsTotal ||
+      evaluableRatios.length < ratiosTotal,
+    missingMinerals,
+    unevaluatedRatios,
+    unevaluatedComponents,
+  };
+
   return {
+    semanticsVersion: HEALTH_SCORE_SEMANTICS_VERSION,
     totalScore: Math.round(totalScore),
     mineralScore: Math.round(mineralScore),
     ratioScore: Math.round(ratioScore),
@@ -164,6 +267,7 @@ export function calculateHealthScore(
       high: highCount,
     },
     criticalIssues,
+    completeness,
   };
 }
 
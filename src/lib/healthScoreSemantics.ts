@@ -280,10 +280,10 @@ export const SCORE_COMPONENT_LABELS = {
  * Descriptions for score components
  */
 export const SCORE_COMPONENT_DESCRIPTIONS = {
-  mineralScore: `How many of the 15 essential minerals are in optimal range (${
+  mineralScore: `How many of the measured essential minerals (up to 15) are in optimal range (${
     HEALTH_SCORE_WEIGHTS.MINERAL_WEIGHT * 100
   }% of total score)`,
-  ratioScore: `Balance of 6 key mineral relationships like Ca/Mg, Na/K (${
+  ratioScore: `Balance of up to 6 key mineral relationships like Ca/Mg, Na/K (${
     HEALTH_SCORE_WEIGHTS.RATIO_WEIGHT * 100
   }% of total score)`,
   redFlagScore: `Penalties for severe deficiencies or toxicities (${
@@ -304,15 +304,19 @@ export const SCORE_COMPONENT_DESCRIPTIONS = {
  * - Grade definitions change
  * - Clinical interpretations change
  * - Weights change
+ * - Scoring rules change
+ *
+ * 1.1.0 - Partial panels: components are scored over measured minerals and
+ *         evaluable ratios only, unevaluable components are rescaled out
  *
  * This is separate from ANALYSIS_ENGINE_VERSION but should be coordinated.
  */
-export const HEALTH_SCORE_SEMANTICS_VERSION = "1.0.0";
+export const HEALTH_SCORE_SEMANTICS_VERSION = "1.1.0";
 
 /**
  * Last review date
  */
-export const SEMANTICS_LAST_REVIEWED = "2025-12-21";
+export const SEMANTICS_LAST_REVIEWED = "2026-10-19";
 
 /**
  * Export all semantics for audit trail
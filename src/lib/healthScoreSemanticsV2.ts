@@ -0,0 +1,134 @@
+/**
+ * HTMA Health Score Semantics - v2 (Graded Deviation)
+ *
+ * CENTRALIZED DEFINITION for the graded-deviation Health Score.
+ *
+ * The v1 score (healthScoreSemantics.ts) counts each mineral and ratio as
+ * optimal or not optimal, so Ca at 46 and Ca at 200 cost the same. v2 gives
+ * partial credit based on how far a value sits outside its reference range,
+ * measured on a log2 scale so "twice the maximum" and "half the minimum" are
+ * equally far from ideal.
+ *
+ * v2 is computed ALONGSIDE v1 and does not replace it. v1 semantics stay
+ * locked; this file has its own version, weights and governance:
+ * 1. Clinical review
+ * 2. Version increment (HEALTH_SCORE_V2_SEMANTICS_VERSION)
+ * 3. Documentation update (HEALTH_SCORE_SEMANTICS_LOCK.md)
+ *
+ * Grade ranges, interpretations and disclaimers are shared with v1.
+ */
+
+// ============================================================================
+// SCORE COMPOSITION WEIGHTS (LOCKED)
+// ============================================================================
+
+/**
+ * Fixed weights for the v2 Health Score
+ *
+ * There is no separate red flag component: severe deviations already earn
+ * little or no credit on the graded scale.
+ */
+export const HEALTH_SCORE_V2_WEIGHTS = {
+  /** Mineral deviation contribution (60%) */
+  MINERAL_WEIGHT: 0.6,
+
+  /** Ratio deviation contribution (40%) */
+  RATIO_WEIGHT: 0.4,
+
+  /** Total expected (should always be 1.0) */
+  TOTAL: 1.0,
+} as const;
+
+// Load-time check that weights sum to 1.0 (with floating-point tolerance)
+const _WEIGHT_CHECK: number =
+  HEALTH_SCORE_V2_WEIGHTS.MINERAL_WEIGHT + HEALTH_SCORE_V2_WEIGHTS.RATIO_WEIGHT;
+
+if (Math.abs(_WEIGHT_CHECK - HEALTH_SCORE_V2_WEIGHTS.TOTAL) > 0.0001) {
+  throw new Error(
+    `Health Score v2 weights must sum to ${HEALTH_SCORE_V2_WEIGHTS.TOTAL}, got ${_WEIGHT_CHECK}`
+  );
+}
+
+// ============================================================================
+// DEVIATION SCALE (LOCKED)
+// ============================================================================
+
+/**
+ * Log2 distance from the range at which a value earns no credit.
+ *
+ * 2 means a value 4x above the maximum (or 1/4 of the minimum) scores 0;
+ * credit falls linearly in log space between the range edge and that point.
+ */
+export const ZERO_CREDIT_LOG2_DEVIATION = 2;
+
+/**
+ * Log2 distance of a value from its reference range
+ *
+ * @returns 0 inside the range, positive outside it, Infinity for values <= 0
+ */
+export function getLog2Deviation(
+  value: number,
+  minIdeal: number,
+  maxIdeal: number
+): number {
+  if (value <= 0) return Infinity;
+  if (value < minIdeal) return Math.log2(minIdeal / value);
+  if (value > maxIdeal) return Math.log2(value / maxIdeal);
+  return 0;
+}
+
+/**
+ * Credit (0-1) earned for a given log2 deviation
+ */
+export function getDeviationCredit(log2Deviation: number): number {
+  return Math.max(0, 1 - log2Deviation / ZERO_CREDIT_LOG2_DEVIATION);
+}
+
+// ============================================================================
+// SCORE BREAKDOWN LABELS (LOCKED)
+// ============================================================================
+
+export const SCORE_V2_COMPONENT_LABELS = {
+  mineralScore: "Mineral Deviation",
+  ratioScore: "Ratio Deviation",
+  totalScore: "Graded Health Score",
+} as const;
+
+export const SCORE_V2_COMPONENT_DESCRIPTIONS = {
+  mineralScore: `How close each measured mineral is to its reference range, graded on a log scale (${
+    HEALTH_SCORE_V2_WEIGHTS.MINERAL_WEIGHT * 100
+  }% of total score)`,
+  ratioScore: `How close each evaluable key ratio is to its reference range, graded on a log scale (${
+    HEALTH_SCORE_V2_WEIGHTS.RATIO_WEIGHT * 100
+  }% of total score)`,
+  totalScore:
+    "Composite indicator of mineral balance that also reflects how far values are out of range",
+} as const;
+
+// ============================================================================
+// VERSION & AUDIT
+// ============================================================================
+
+/**
+ * v2 semantics version - independent of HEALTH_SCORE_SEMANTICS_VERSION (v1)
+ *
+ * 2.0.0 - Initial graded-deviation score
+ */
+export const HEALTH_SCORE_V2_SEMANTICS_VERSION = "2.0.0";
+
+/**
+ * Last review date
+ */
+export const SEMANTICS_V2_LAST_REVIEWED = "2026-10-19";
+
+/**
+ * Export v2 semantics for audit trail
+ */
+export function exportSemanticsV2() {
+  return {
+    version: HEALTH_SCORE_V2_SEMANTICS_VERSION,
+    lastReviewed: SEMANTICS_V2_LAST_REVIEWED,
+    weights: HEALTH_SCORE_V2_WEIGHTS,
+    zeroCreditLog2Deviation: ZERO_CREDIT_LOG2_DEVIATION,
+  };
+}
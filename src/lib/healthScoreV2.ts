@@ -0,0 +1,226 @@
+/**
+ * HTMA Health Score v2 Calculator (Graded Deviation)
+ *
+ * Calculates a composite health score (0-100) from how far each measured
+ * mineral and key ratio sits from its reference range:
+ * - Mineral Deviation (60%)
+ * - Ratio Deviation (40%)
+ *
+ * Runs alongside calculateHealthScore() (v1), which stays the locked
+ * headline score. Partial panels are handled the same way as v1: only
+ * measured minerals and evaluable ratios are graded and an empty component
+ * is rescaled out.
+ *
+ * IMPORTANT: Weights and the deviation scale are defined in
+ * healthScoreSemanticsV2.ts - do not modify them here.
+ */
+
+import { MineralData, MINERAL_NAMES, hasMineralValue } from "./mineralModel";
+import {
+  MINERAL_REFERENCE_RANGES,
+  RATIO_REFERENCE_RANGES,
+  MINERAL_SYMBOLS,
+  calculateRatio,
+} from "./htmaConstants";
+import { getGrade, HealthScoreGrade } from "./healthScoreSemantics";
+import {
+  HEALTH_SCORE_V2_WEIGHTS,
+  HEALTH_SCORE_V2_SEMANTICS_VERSION,
+  getLog2Deviation,
+  getDeviationCredit,
+} from "./healthScoreSemanticsV2";
+import { ScoreComponent, ScoreCompleteness } from "./healthScore";
+import {
+  MineralUnit,
+  CANONICAL_UNIT,
+  toCanonicalMineralData,
+} from "./unitConversion";
+
+export interface GradedDeviation {
+  /** Mineral symbol or ratio name */
+  key: string;
+  value: number;
+  minIdeal: number;
+  maxIdeal: number;
+  /** Log2 distance outside the range (0 = in range, null = value <= 0) */
+  log2Deviation: number | null;
+  direction: "low" | "in_range" | "high";
+  /** Credit earned, 0-1 */
+  credit: number;
+}
+
+export interface HealthScoreV2Breakdown {
+  /** Semantics that produced these numbers (HEALTH_SCORE_V2_SEMANTICS_VERSION) */
+  semanticsVersion: string;
+  totalScore: number;
+  mineralScore: number;
+  ratioScore: number;
+  grade: HealthScoreGrade;
+  mineralDeviations: GradedDeviation[];
+  ratioDeviations: GradedDeviation[];
+  completeness: ScoreCompleteness;
+}
+
+/**
+ * Comparison of two v2 scores, stored next to the v1 score delta
+ */
+export interface HealthScoreV2Delta {
+  semanticsVersion: string;
+  previousScore: number;
+  currentScore: number;
+  delta: number;
+}
+
+function gradeDeviation(
+  key: string,
+  value: number,
+  minIdeal: number,
+  maxIdeal: number
+): GradedDeviation {
+  const log2Deviation = getLog2Deviation(value, minIdeal, maxIdeal);
+  return {
+    key,
+    value,
+    minIdeal,
+    maxIdeal,
+    log2Deviation: Number.isFinite(log2Deviation)
+      ? Math.round(log2Deviation * 100) / 100
+      : null,
+    direction:
+      value < minIdeal ? "low" : value > maxIdeal ? "high" : "in_range",
+    credit: getDeviationCredit(log2Deviation),
+  };
+}
+
+/**
+ * Calculate the graded-deviation (v2) health score
+ *
+ * @param mineralData - Mineral values (null = not measured)
+ * @param unit - Unit the values are in (converted to mg% before scoring)
+ */
+export function calculateHealthScoreV2(
+  mineralData: MineralData,
+  unit: MineralUnit = CANONICAL_UNIT
+): HealthScoreV2Breakdown {
+  const canonicalData = toCanonicalMineralData(mineralData, unit);
+
+  // Measured values only, keyed by symbol
+  const mineralValues: Record<string, number> = {};
+  for (const name of MINERAL_NAMES) {
+    const value = canonicalData[name];
+    if (hasMineralValue(value)) mineralValues[MINERAL_SYMBOLS[name]] = value;
+  }
+  const isMeasured = (symbol: string) => symbol in mineralValues;
+
+  const mineralPool = HEALTH_SCORE_V2_WEIGHTS.MINERAL_WEIGHT * 100;
+  const ratioPool = HEALTH_SCORE_V2_WEIGHTS.RATIO_WEIGHT * 100;
+
+  // ===== 1. MINERAL DEVIATION =====
+  const mineralDeviations = MINERAL_REFERENCE_RANGES.filter((ref) =>
+    isMeasured(ref.symbol)
+  ).map((ref) =>
+    gradeDeviation(
+      ref.symbol,
+      mineralValues[ref.symbol],
+      ref.minIdeal,
+      ref.maxIdeal
+    )
+  );
+  const missingMinerals = MINERAL_REFERENCE_RANGES.filter(
+    (ref) => !isMeasured(ref.symbol)
+  ).map((ref) => ref.symbol);
+
+  const mineralScore =
+    mineralDeviations.length > 0
+      ? (mineralDeviations.reduce((sum, d) => sum + d.credit, 0) /
+          mineralDeviations.length) *
+        mineralPool
+      : 0;
+
+  // ===== 2. RATIO DEVIATION =====
+  const evaluableRatios = RATIO_REFERENCE_RANGES.filter(
+    (ref) => isMeasured(ref.numeratorSymbol) && isMeasured(ref.denominatorSymbol)
+  );
+  const unevaluatedRatios = RATIO_REFERENCE_RANGES.filter(
+    (ref) => !evaluableRatios.includes(ref)
+  ).map((ref) => ref.name);
+
+  const ratioDeviations = evaluableRatios.map((ref) =>
+    gradeDeviation(
+      ref.name,
+      calculateRatio(
+        mineralValues[ref.numeratorSymbol],
+        mineralValues[ref.denominatorSymbol]
+      ),
+      ref.minIdeal,
+      ref.maxIdeal
+    )
+  );
+
+  const ratioScore =
+    ratioDeviations.length > 0
+      ? (ratioDeviations.reduce((sum, d) => sum + d.credit, 0) /
+          ratioDeviations.length) *
+        ratioPool
+      : 0;
+
+  // ===== FINAL SCORE =====
+  // Same partial-panel rule as v1: empty components are rescaled out
+  const unevaluatedComponents: ScoreComponent[] = [];
+  if (mineralDeviations.length === 0) unevaluatedComponents.push("mineralScore");
+  if (ratioDeviations.length === 0) unevaluatedComponents.push("ratioScore");
+
+  const evaluatedPool =
+    (mineralDeviations.length > 0 ? mineralPool : 0) +
+    (ratioDeviations.length > 0 ? ratioPool : 0);
+  const totalScore =
+    evaluatedPool > 0 ? ((mineralScore + ratioScore) / evaluatedPool) * 100 : 0;
+
+  const mineralsTotal = MINERAL_REFERENCE_RANGES.length;
+  const ratiosTotal = RATIO_REFERENCE_RANGES.length;
+
+  return {
+    semanticsVersion: HEALTH_SCORE_V2_SEMANTICS_VERSION,
+    totalScore: Math.round(totalScore),
+    mineralScore: Math.round(mineralScore),
+    ratioScore: Math.round(ratioScore),
+    grade: getGrade(totalScore),
+    mineralDeviations,
+    ratioDeviations,
+    completeness: {
+      mineralsEvaluated: mineralDeviations.length,
+      mineralsTotal,
+      ratiosEvaluated: ratioDeviations.length,
+      ratiosTotal,
+      percent: Math.round(
+        ((mineralDeviations.length + ratioDeviations.length) /
+          (mineralsTotal + ratiosTotal)) *
+          100
+      ),
+      isPartial:
+        mineralDeviations.length < mineralsTotal ||
+        ratioDeviations.length < ratiosTotal,
+      missingMinerals,
+      unevaluatedRatios,
+      unevaluatedComponents,
+    },
+  };
+}
+
+/**
+ * Compare two v2 scores
+ *
+ * @param previousScore - Earlier v2 total score
+ * @param current - Current v2 breakdown
+ */
+export function compareHealthScoresV2(
+  previousScore: number,
+  current: HealthScoreV2Breakdown
+): HealthScoreV2Delta {
+  return {
+    semanticsVersion: current.semanticsVersion,
+    previousScore,
+    currentScore: current.totalScore,
+    delta: current.totalScore - previousScore,
+  };
+}
@@ -17,7 +17,7 @@
 export const HTMA_GENIUS_VERSION = "1.0.0";
 export const ANALYSIS_ENGINE_VERSION = "1.0.0";
 export const AI_MODEL = "Gemini 1.5 Pro";
-export const PROMPT_VERSION = "1.2.0"; // Updated for 15 minerals
+export const PROMPT_VERSION = "1.3.0"; // JSON response contract
 export const REFERENCE_STANDARD = "TEI (Trace Elements Inc.)";
 
 // ============================================================================
@@ -157,9 +157,16 @@ export const MINERAL_REFERENCE_RANGES: ReadonlyArray<MineralReferenceRange> = [
 ] as const;
 
 // ============================================================================
-// RATIO REFERENCE RANGES
+// RATIO REGISTRY
 // ============================================================================
 
+/**
+ * Ratio role
+ * - scoring: counted by the health score (v1 and v2)
+ * - display_only: shown in reports and panels, never scored (like toxic elements)
+ */
+export type RatioRole = "scoring" | "display_only";
+
 export interface RatioReferenceRange {
   readonly name: string;
   readonly numeratorSymbol: string;
@@ -168,9 +175,21 @@ export interface RatioReferenceRange {
   readonly maxIdeal: number;
   readonly displayOrder: number;
   readonly clinicalSignificance: string;
+  readonly role: RatioRole;
+  /**
+   * Protective-to-toxic ratios only have a floor: any value at or above
+   * minIdeal is Optimal (maxIdeal is kept for display only)
+   */
+  readonly minimumOnly?: boolean;
 }
 
-export const RATIO_REFERENCE_RANGES: ReadonlyArray<RatioReferenceRange> = [
+/**
+ * All ratios known to the engine, in display order
+ *
+ * Display-only ratios may use toxic element symbols (Cd, Hg, Pb) and are
+ * only calculated when both elements were measured.
+ */
+export const RATIO_REGISTRY: ReadonlyArray<RatioReferenceRange> = [
   {
     name: "Ca/Mg",
     numeratorSymbol: "Ca",
@@ -179,6 +198,7 @@ export const RATIO_REFERENCE_RANGES: ReadonlyArray<RatioReferenceRange> = [
     maxIdeal: 7.5,
     displayOrder: 1,
     clinicalSignificance: "Thyroid and metabolic rate",
+    role: "scoring",
   },
   {
     name: "Na/K",
@@ -188,6 +208,7 @@ export const RATIO_REFERENCE_RANGES: ReadonlyArray<RatioReferenceRange> = [
     maxIdeal: 3.0,
     displayOrder: 2,
     clinicalSignificance: "Adrenal function and stress response",
+    role: "scoring",
   },
   {
     name: "Ca/P",
@@ -197,6 +218,7 @@ export const RATIO_REFERENCE_RANGES: ReadonlyArray<RatioReferenceRange> = [
     maxIdeal: 2.8,
     displayOrder: 3,
     clinicalSignificance: "Bone metabolism and parathyroid function",
+    role: "scoring",
   },
   {
     name: "Zn/Cu",
@@ -206,6 +228,7 @@ export const RATIO_REFERENCE_RANGES: ReadonlyArray<RatioReferenceRange> = [
     maxIdeal: 7.0,
     displayOrder: 4,
     clinicalSignificance: "Immune function and hormonal balance",
+    role: "scoring",
   },
   {
     name: "Fe/Cu",
@@ -215,6 +238,7 @@ export const RATIO_REFERENCE_RANGES: ReadonlyArray<RatioReferenceRange> = [
     maxIdeal: 1.0,
     displayOrder: 5,
     clinicalSignificance: "Oxygen transport and energy production",
+    role: "scoring",
   },
   {
     name: "Ca/K",
@@ -224,9 +248,97 @@ export const RATIO_REFERENCE_RANGES: ReadonlyArray<RatioReferenceRange> = [
     maxIdeal: 4.5,
     displayOrder: 6,
     clinicalSignificance: "Thyroid activity and metabolic rate",
+    role: "scoring",
+  },
+  {
+    name: "Cu/Mo",
+    numeratorSymbol: "Cu",
+    denominatorSymbol: "Mo",
+    minIdeal: 40,
+    maxIdeal: 60,
+    displayOrder: 7,
+    clinicalSignificance: "Copper-molybdenum antagonism",
+    role: "display_only",
+  },
+  {
+    name: "Na/Mg",
+    numeratorSymbol: "Na",
+    denominatorSymbol: "Mg",
+    minIdeal: 3.0,
+    maxIdeal: 5.0,
+    displayOrder: 8,
+    clinicalSignificance: "Adrenal and thyroid balance",
+    role: "display_only",
+  },
+  {
+    name: "Zn/Cd",
+    numeratorSymbol: "Zn",
+    denominatorSymbol: "Cd",
+    minIdeal: 250,
+    maxIdeal: 250,
+    displayOrder: 9,
+    clinicalSignificance: "Zinc protection against cadmium",
+    role: "display_only",
+    minimumOnly: true,
+  },
+  {
+    name: "Fe/Pb",
+    numeratorSymbol: "Fe",
+    denominatorSymbol: "Pb",
+    minIdeal: 4.0,
+    maxIdeal: 4.0,
+    displayOrder: 10,
+    clinicalSignificance: "Iron protection against lead",
+    role: "display_only",
+    minimumOnly: true,
+  },
+  {
+    name: "Ca/Pb",
+    numeratorSymbol: "Ca",
+    denominatorSymbol: "Pb",
+    minIdeal: 60,
+    maxIdeal: 60,
+    displayOrder: 11,
+    clinicalSignificance: "Calcium protection against lead",
+    role: "display_only",
+    minimumOnly: true,
+  },
+  {
+    name: "Se/Hg",
+    numeratorSymbol: "Se",
+    denominatorSymbol: "Hg",
+    minIdeal: 0.1,
+    maxIdeal: 0.1,
+    displayOrder: 12,
+    clinicalSignificance: "Selenium protection against mercury",
+    role: "display_only",
+    minimumOnly: true,
+  },
+  {
+    name: "S/Hg",
+    numeratorSymbol: "S",
+    denominatorSymbol: "Hg",
+    minIdeal: 5000,
+    maxIdeal: 5000,
+    displayOrder: 13,
+    clinicalSignificance: "Sulfur binding of mercury",
+    role: "display_only",
+    minimumOnly: true,
   },
 ] as const;
 
+/**
+ * Scoring ratios - the only ratios used by the health score
+ */
+export const RATIO_REFERENCE_RANGES: ReadonlyArray<RatioReferenceRange> =
+  RATIO_REGISTRY.filter((ratio) => ratio.role === "scoring");
+
+/**
+ * Display-only secondary ratios - shown for context, never scored
+ */
+export const SECONDARY_RATIO_REFERENCES: ReadonlyArray<RatioReferenceRange> =
+  RATIO_REGISTRY.filter((ratio) => ratio.role === "display_only");
+
 // ============================================================================
 // STATUS THRESHOLDS & COLORS
 // ============================================================================
@@ -295,6 +407,26 @@ export function getRatioStatus(
   return "Optimal";
 }
 
+/**
+ * Format a ratio's ideal range for display ("6-7.5" or ">= 250")
+ */
+export function formatRatioIdealRange(
+  ratio: Pick<RatioReferenceRange, "minIdeal" | "maxIdeal" | "minimumOnly">
+): string {
+  return ratio.minimumOnly
+    ? `>= ${ratio.minIdeal}`
+    : `${ratio.minIdeal}-${ratio.maxIdeal}`;
+}
+
+/**
+ * Get ratio definition from the registry by name (e.g., "Cu/Mo")
+ */
+export function getRatioReference(
+  name: string
+): RatioReferenceRange | undefined {
+  return RATIO_REGISTRY.find((r) => r.name === name);
+}
+
 /**
  * Get mineral reference range by symbol
  */
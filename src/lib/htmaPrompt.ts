@@ -1,16 +1,18 @@
-import { MineralData } from "../components/HTMAInputForm";
+import { MineralData } from "./mineralModel";
 import {
   ANALYSIS_ENGINE_VERSION,
   PROMPT_VERSION,
   AI_MODEL,
   REFERENCE_STANDARD,
 } from "./htmaConstants";
+import { generateResponseContractInstructions } from "./aiResponseContract";
 
 /**
  * Generates a comprehensive HTMA analysis prompt for AI
  * Includes all 15 TEI nutritional elements and their interactions
  *
  * Version metadata included for audit trail and reproducibility
+ * The answer is requested as JSON per the AI response contract
  */
 export function generateHTMAPrompt(mineralData: Partial<MineralData>): string {
   return `HTMA GENIUS ANALYSIS REQUEST
@@ -26,23 +28,23 @@ You are an expert in Hair Tissue Mineral Analysis (HTMA) with deep knowledge of
 **MINERAL TEST RESULTS (mg% unless noted):**
 
 **Major Minerals:**
-- Calcium (Ca): ${mineralData.calcium || "Not provided"}
-- Magnesium (Mg): ${mineralData.magnesium || "Not provided"}
-- Sodium (Na): ${mineralData.sodium || "Not provided"}
-- Potassium (K): ${mineralData.potassium || "Not provided"}
-- Phosphorus (P): ${mineralData.phosphorus || "Not provided"}
-- Sulfur (S): ${mineralData.sulfur || "Not provided"}
+- Calcium (Ca): ${mineralData.calcium ?? "Not provided"}
+- Magnesium (Mg): ${mineralData.magnesium ?? "Not provided"}
+- Sodium (Na): ${mineralData.sodium ?? "Not provided"}
+- Potassium (K): ${mineralData.potassium ?? "Not provided"}
+- Phosphorus (P): ${mineralData.phosphorus ?? "Not provided"}
+- Sulfur (S): ${mineralData.sulfur ?? "Not provided"}
 
 **Trace Minerals:**
-- Copper (Cu): ${mineralData.copper || "Not provided"}
-- Zinc (Zn): ${mineralData.zinc || "Not provided"}
-- Iron (Fe): ${mineralData.iron || "Not provided"}
-- Manganese (Mn): ${mineralData.manganese || "Not provided"}
-- Chromium (Cr): ${mineralData.chromium || "Not provided"}
-- Selenium (Se): ${mineralData.selenium || "Not provided"}
-- Boron (B): ${mineralData.boron || "Not provided"}
-- Cobalt (Co): ${mineralData.cobalt || "Not provided"}
-- Molybdenum (Mo): ${mineralData.molybdenum || "Not provided"}
+- Copper (Cu): ${mineralData.copper ?? "Not provided"}
+- Zinc (Zn): ${mineralData.zinc ?? "Not provided"}
+- Iron (Fe): ${mineralData.iron ?? "Not provided"}
+- Manganese (Mn): ${mineralData.manganese ?? "Not provided"}
+- Chromium (Cr): ${mineralData.chromium ?? "Not provided"}
+- Selenium (Se): ${mineralData.selenium ?? "Not provided"}
+- Boron (B): ${mineralData.boron ?? "Not provided"}
+- Cobalt (Co): ${mineralData.cobalt ?? "Not provided"}
+- Molybdenum (Mo): ${mineralData.molybdenum ?? "Not provided"}
 
 **ANALYSIS REQUIREMENTS:**
 
@@ -107,13 +109,10 @@ You are an expert in Hair Tissue Mineral Analysis (HTMA) with deep knowledge of
 - Base analysis on established HTMA research and TEI reference ranges
 - Be specific and actionable in recommendations
 - Use clear, accessible language while maintaining scientific accuracy
-- Include appropriate medical disclaimers (this is educational, not a diagnosis)
+- Keep the educational framing (this is not a diagnosis); the disclaimer is added by the application
 - Acknowledge limitations when minerals are not provided
 - Prioritize the most significant findings
 - Emphasize that HTMA is one tool among many for health assessment
 
-**DISCLAIMER TO INCLUDE:**
-"This analysis is for educational purposes only and does not constitute medical advice. HTMA results should be interpreted by a qualified healthcare practitioner familiar with mineral analysis. Always consult with your healthcare provider before making significant dietary or supplement changes."
-
-Provide your analysis in a clear, organized format with headers and bullet points for readability.`;
+${generateResponseContractInstructions()}`;
 }
@@ -5,21 +5,67 @@
  * Any user-facing insight/recommendation MUST be passed through applyGuardrails().
  *
  * Anchored to Trace Elements Inc. (TEI) interpretation principles.
+ *
+ * Modes (ctx.mode):
+ * - "remove" (default): hard-blocked statements are dropped, other blocked
+ *   phrasing gets a softening prefix
+ * - "rewrite": blocked phrasing is first swapped for educational phrasing
+ *   ("This confirms..." → "This may suggest...", "prescribed" →
+ *   "recommended"); only statements that are still blocked afterwards fall
+ *   back to "remove". Diagnosis language is never rewritten, it is removed.
+ *
+ * Sentences that disclaim ("does not diagnose, treat, or cure") are left
+ * alone in both modes.
+ *
+ * Every change to a statement is logged in result.transformations (original,
+ * rules hit, result) for practitioner review.
+ *
+ * Policy (ctx.policy): the blocked phrases, forbidden scope and softeners
+ * are data. The lists below are the built-in policy; practitioners publish
+ * changed lists as versioned policies (guardrailsPolicy.ts), and
+ * result.version names the policy that was applied. The rewrites and the
+ * removal rule are code, versioned with INTERPRETATION_GUARDRAILS_VERSION
+ * (part of every stored policy's version); they only act on phrasing the
+ * policy blocks.
  */
 
 import { TEI_PRINCIPLES } from "./teiInterpretationPrinciples";
 
-export const INTERPRETATION_GUARDRAILS_VERSION = "1.0.0";
-export const INTERPRETATION_GUARDRAILS_REVIEWED_DATE = "2025-12-21";
+export const INTERPRETATION_GUARDRAILS_VERSION = "1.3.0";
+export const INTERPRETATION_GUARDRAILS_REVIEWED_DATE = "2026-10-19";
 
 export type Audience = "consumer" | "practitioner";
 export type Channel = "ui" | "pdf" | "api" | "storage";
 
 export type Confidence = "low" | "moderate" | "high";
 
+export type GuardrailsMode = "remove" | "rewrite";
+
+/**
+ * Phrase lists the guardrails apply. Patterns are regular expression
+ * sources, matched case-insensitively.
+ */
+export type GuardrailsPolicyRules = {
+  blockedPhrases: string[];
+  forbiddenScope: string[];
+  /** The first softener prefixes softened statements */
+  softeners: string[];
+};
+
+export type GuardrailsPolicy = {
+  /** Reported as GuardrailsResult.version */
+  version: string;
+  reviewedDate: string;
+  rules: GuardrailsPolicyRules;
+};
+
 export type GuardrailsContext = {
   audience: Audience;
   channel: Channel;
+  /** How blocked phrasing is handled (default "remove") */
+  mode?: GuardrailsMode;
+  /** Policy to apply (default BUILT_IN_GUARDRAILS_POLICY) */
+  policy?: GuardrailsPolicy;
   /**
    * Optional: any structured "evidence" we can use to enforce "no empty claims".
    * If your pipeline doesn't provide this yet, it can be empty.
@@ -32,11 +78,29 @@ export type GuardrailsContext = {
   };
 };
 
+/**
+ * One statement the guardrails changed.
+ * Rules: "forbidden_scope:<match>", "blocked:<match>", "rewrite:<id>",
+ * "evidence:limited_data", "audience:dosage_removed"
+ */
+export type GuardrailTransformation = {
+  kind: "insight" | "recommendation";
+  action: "removed" | "rewritten" | "softened" | "adjusted";
+  rules: string[];
+  original: string;
+  /** null when the statement was removed */
+  result: string | null;
+};
+
 export type GuardrailsResult = {
   ok: boolean;
   version: string;
   reviewedDate: string;
+  mode: GuardrailsMode;
   removedCount: number;
+  rewrittenCount: number;
+  /** Every statement that was removed or changed */
+  transformations: GuardrailTransformation[];
   /** sanitized, safe outputs */
   insights: string[];
   recommendations: string[];
@@ -54,23 +118,65 @@ const FULL_DISCLAIMER =
  */
 const TEI_REFERENCE_DISCLAIMER = TEI_PRINCIPLES.referenceIntervals.disclaimer;
 
+/**
+ * Words that cannot start an object noun phrase: verbs, auxiliaries,
+ * conjunctions, prepositions and predicate adjectives
+ */
+const NOT_NOUN_PHRASE_START =
+  "are|is|was|were|be|been|and|or|but|like|such|as|than|rich|full|made|" +
+  "can|could|may|might|must|should|will|would|do|does|did|" +
+  "contains?|provides?|offers?|gives?|makes?|have|has|adds?|tastes?|" +
+  "supply|supplies|includes?|comes?|helps?|with|in|of|to|from|for|at|by|on";
+
+const DETERMINERS =
+  "a|an|the|no|some|any|these|those|your|our|their|my|his|her|its|" +
+  "many|few|more|other";
+
+/**
+ * Adjectives by suffix ("zinc-rich", "delicious", "healthy"). A "-y"
+ * word after "the", "this"... is a noun ("this therapy"); "-ly" words are
+ * adverbs.
+ */
+const ADJECTIVE =
+  "[\\w-]+(?:ful|ous|ish|less|able|ible|free|rich|friendly|based)|" +
+  `(?<!\\b(?:${DETERMINERS}|this|that)\\s+)[a-z]+[bcdfghjkmnpqrstvwxz]y`;
+
+/**
+ * "treat" as a verb, by part of speech. The noun follows a determiner or
+ * an adjective ("a treat", "healthy treats"), or is followed by something
+ * that cannot be its object: punctuation, a verb or a predicate word
+ * ("treats are", "treats contain", "treats rich in").
+ */
+const TREAT_VERB = new RegExp(
+  "\\btreat(?:ed|ing)\\b|" +
+    `(?<!\\b(?:${DETERMINERS}|${ADJECTIVE})\\s+)\\btreats?\\b` +
+    `(?!\\s*(?:[.,;:!?]|$)|\\s+(?:${NOT_NOUN_PHRASE_START})\\b)`,
+  "i"
+);
+
 /**
  * Words/phrases that often push content into diagnosis/prescription territory.
  * We don't try to be perfect — we enforce guardrails conservatively.
  */
 const BLOCKED_PHRASES: RegExp[] = [
   /\bdiagnos(e|is|ed)\b/i,
-  /\byou (have|are|suffer from)\b/i,
+  // Not after "if/when" ("If you have questions, ...")
+  /(?<!\b(?:if|when|whether|unless)\s)\byou (have|are|suffer from)\b/i,
   /\bthis means you\b/i,
   /\bconfirms?\b/i,
   /\bdefinitely\b/i,
   /\bguarantee(d)?\b/i,
   /\bcure(s|d)?\b/i,
-  /\btreat(s|ed|ment)?\b/i,
+  // "treat" as a noun ("a zinc-rich treat", "chocolate treats are") is
+  // left alone
+  new RegExp(`\\btreatments?\\b|${TREAT_VERB.source}`, "i"),
   /\bprescribe(d|s)?\b/i,
   /\bmedication\b/i,
   /\bdose\b/i, // dosages should be avoided in consumer output
-  /\bmg\b/i, // catches "500mg", "mg/day" etc; we'll allow practitioner to override later
+  // Amounts in mg ("500mg", "400 mg/day"). A number is required: the
+  // patterns are case-insensitive, so a bare "mg" would also catch the Mg
+  // symbol; lab units (mg%, mg/kg) are values, not doses.
+  /\b\d+(?:\.\d+)?\s*mg\b(?!%|\/kg)/i,
   /\bIU\b/i,
   /\bfor \d+\s*(days|weeks|months)\b/i, // timeline promises
 ];
@@ -90,7 +196,7 @@ const FORBIDDEN_SCOPE: RegExp[] = [
   /\bpregnan(t|cy)\b/i,
   /\binfant\b/i,
   /\bpediatric\b/i,
-  /\bchild\b/i,
+  /\bchild(ren)?\b/i,
 ];
 
 /**
@@ -103,32 +209,359 @@ const SOFTENERS = [
   "may be worth discussing with a qualified practitioner",
 ] as const;
 
-function hasBlockedPhrase(text: string): boolean {
-  return BLOCKED_PHRASES.some((re) => re.test(text));
+/**
+ * Sentences that say what the content does NOT do ("does not diagnose,
+ * treat, or cure", "is not a substitute for treatment"): a negation at
+ * most four words before a diagnosis or treatment verb. They are left as
+ * they are.
+ */
+const DISCLAIMER_SENTENCE =
+  /\b(?:not|never|cannot|can't|doesn't|don't|won't|isn't)\s+(?:[\w'-]+,?\s+){0,4}?(?:diagnos|treat|cur(?:e|ing)|prescrib)/i;
+
+/**
+ * Blocked phrasing that is removed rather than softened: diagnosis
+ * language, cure claims and "treat" as a verb. Checked only when the
+ * policy blocks something in the statement, after rewriting.
+ */
+const HARD_BLOCKED: RegExp[] = [
+  /\bdiagnos/i,
+  /\bcur(?:e[sd]?|ing)\b/i,
+  TREAT_VERB,
+];
+
+type VerbForms = { base: string; s: string; ed: string; ing: string };
+
+const HELP_WITH: VerbForms = {
+  base: "help with",
+  s: "helps with",
+  ed: "helped with",
+  ing: "helping with",
+};
+
+const RECOMMEND: VerbForms = {
+  base: "recommend",
+  s: "recommends",
+  ed: "recommended",
+  ing: "recommending",
+};
+
+/**
+ * The replacement verb in the form of the verb it replaces
+ */
+function inflectLike(verb: string, forms: VerbForms): string {
+  const lower = verb.toLowerCase();
+  if (lower.endsWith("ing")) return forms.ing;
+  if (lower.endsWith("ed")) return forms.ed;
+  if (lower.endsWith("s")) return forms.s;
+  return forms.base;
+}
+
+const DETERMINER_BEFORE =
+  /\b(?:a|an|the|no|some|any|these|those|your|our|their|my|his|her|its)\s+$/i;
+const NOUN_PHRASE_AFTER = new RegExp(
+  `^\\s+(?!(?:${NOT_NOUN_PHRASE_START})\\b)[\\w'-]`,
+  "i"
+);
+
+/**
+ * Post-rewrite grammar check for one replacement. It must not double a
+ * word at either seam ("help help with"), and a replacement ending in
+ * "with" is a verb phrase: no determiner before it ("a helps with") and a
+ * noun phrase after it ("helps with contain" fails). Replacements that
+ * fail are not made; the statement is then softened or removed instead.
+ */
+function fitsSentence(
+  before: string,
+  replacement: string,
+  after: string
+): boolean {
+  const words = replacement.toLowerCase().split(/\s+/);
+  const previous = before.match(/([\w'-]+)\s+$/)?.[1]?.toLowerCase();
+  const next = after.match(/^\s+([\w'-]+)/)?.[1]?.toLowerCase();
+  if (previous === words[0] || next === words[words.length - 1]) {
+    return false;
+  }
+  if (words[words.length - 1] !== "with") return true;
+  return !DETERMINER_BEFORE.test(before) && NOUN_PHRASE_AFTER.test(after);
+}
+
+type RewriteRule = {
+  id: string;
+  /** Global, case-insensitive */
+  pattern: RegExp;
+  /**
+   * Replacement for a match, given the policy's first softener; null
+   * leaves the match as it is
+   */
+  replace: (match: RegExpMatchArray, softener: string) => string | null;
+};
+
+/**
+ * Rewrite mode: educational replacements for blocked phrasing. Rewrites
+ * are part of the engine (INTERPRETATION_GUARDRAILS_VERSION, which every
+ * stored policy version includes), not of the policy data: a rewrite only
+ * applies to text the active policy blocks, and claim rewrites use the
+ * policy's first softener.
+ *
+ * Diagnosis language, cure nouns and anything without a safe rewrite
+ * (e.g. "medication", "IU") are left to removal or the softener prefix.
+ */
+const REWRITES: ReadonlyArray<RewriteRule> = [
+  {
+    id: "claim_about_you",
+    pattern: /\b(confirms|means|shows) (that )?you (have|are|suffer from)\b/gi,
+    replace: (_, softener) => softener,
+  },
+  {
+    id: "you_have",
+    pattern: /(?<!\b(if|when|whether|unless) )\byou (have|suffer from)\b/gi,
+    replace: (_, softener) => `your results ${softener}`,
+  },
+  {
+    id: "you_are",
+    pattern: /(?<!\b(if|when|whether|unless) )\byou are\b/gi,
+    replace: (_, softener) => `your results ${softener} being`,
+  },
+  {
+    id: "this_means_you",
+    pattern: /\bthis means you\b/gi,
+    replace: (_, softener) => `this ${softener} you`,
+  },
+  {
+    id: "confirms",
+    pattern: /\bconfirms\b/gi,
+    replace: (_, softener) => softener,
+  },
+  {
+    id: "confirm",
+    pattern: /\bconfirm\b/gi,
+    replace: () => "explore",
+  },
+  { id: "definitely", pattern: /\bdefinitely\b/gi, replace: () => "possibly" },
+  { id: "guaranteed", pattern: /\bguaranteed\b/gi, replace: () => "likely" },
+  {
+    id: "cure",
+    pattern: /\bcur(?:e[sd]?|ing)\b/gi,
+    replace: (m) => inflectLike(m[0], HELP_WITH),
+  },
+  {
+    id: "treatment",
+    pattern: /\btreatments?\b/gi,
+    replace: (m) => (m[0].toLowerCase().endsWith("s") ? "supports" : "support"),
+  },
+  {
+    // "help treat" / "helps to treat" → "help with" / "helps with"
+    id: "treat",
+    pattern: /\b(?:(help(?:s|ed|ing)?)\s+(?:to\s+)?)?(treat(?:s|ed|ing)?)\b/gi,
+    replace: (m) => {
+      const text = m.input ?? "";
+      const verbIndex = (m.index ?? 0) + m[0].length - m[2].length;
+      const verb = new RegExp(TREAT_VERB.source, "iy");
+      verb.lastIndex = verbIndex;
+      // Lookbehind needs the text before the word, so match in place
+      if (!verb.test(text)) return null;
+      return m[1] ? `${m[1].toLowerCase()} with` : inflectLike(m[2], HELP_WITH);
+    },
+  },
+  {
+    id: "prescribe",
+    pattern: /\bprescrib(?:e|es|ed|ing)\b/gi,
+    replace: (m) => inflectLike(m[0], RECOMMEND),
+  },
+  {
+    id: "dose",
+    pattern: /\bdoses?\b/gi,
+    replace: (m) => (m[0].toLowerCase() === "doses" ? "amounts" : "amount"),
+  },
+  {
+    id: "duration",
+    pattern: /\bfor \d+\s*(days|weeks|months)\b/gi,
+    replace: () => "over time",
+  },
+];
+
+/**
+ * The policy shipped with this code; used when no stored policy is active
+ */
+export const BUILT_IN_GUARDRAILS_POLICY: GuardrailsPolicy = {
+  version: INTERPRETATION_GUARDRAILS_VERSION,
+  reviewedDate: INTERPRETATION_GUARDRAILS_REVIEWED_DATE,
+  rules: {
+    blockedPhrases: BLOCKED_PHRASES.map((re) => re.source),
+    forbiddenScope: FORBIDDEN_SCOPE.map((re) => re.source),
+    softeners: [...SOFTENERS],
+  },
+};
+
+type CompiledPolicy = {
+  blocked: RegExp[];
+  forbidden: RegExp[];
+  softeners: string[];
+};
+
+const compiledPolicies = new WeakMap<GuardrailsPolicyRules, CompiledPolicy>();
+
+/**
+ * Patterns that don't compile are skipped (stored policies are validated
+ * before they are saved, see guardrailsPolicy.ts)
+ */
+function compilePatterns(sources: ReadonlyArray<string>): RegExp[] {
+  return sources.flatMap((source) => {
+    try {
+      return [new RegExp(source, "i")];
+    } catch {
+      console.warn(`⚠️ Skipping invalid guardrails pattern: ${source}`);
+      return [];
+    }
+  });
+}
+
+function compilePolicy(rules: GuardrailsPolicyRules): CompiledPolicy {
+  let compiled = compiledPolicies.get(rules);
+  if (!compiled) {
+    compiled = {
+      blocked: compilePatterns(rules.blockedPhrases),
+      forbidden: compilePatterns(rules.forbiddenScope),
+      softeners:
+        rules.softeners.length > 0 ? rules.softeners : [...SOFTENERS],
+    };
+    compiledPolicies.set(rules, compiled);
+  }
+  return compiled;
+}
+
+function hasBlockedPhrase(text: string, policy: CompiledPolicy): boolean {
+  return policy.blocked.some((re) => re.test(text));
+}
+
+function hasForbiddenScope(text: string, policy: CompiledPolicy): boolean {
+  return policy.forbidden.some((re) => re.test(text));
+}
+
+/**
+ * Rule labels for the patterns a text matches ("blocked:confirms")
+ */
+function matchedRules(
+  patterns: ReadonlyArray<RegExp>,
+  text: string,
+  prefix: string
+): string[] {
+  return patterns.flatMap((re) => {
+    const match = text.match(re);
+    return match ? [`${prefix}:${match[0].toLowerCase()}`] : [];
+  });
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/);
+}
+
+/**
+ * The statement without its disclaimer sentences; blocked phrases are
+ * only looked for in what is left
+ */
+function claimText(text: string): string {
+  return splitSentences(text)
+    .filter((sentence) => !DISCLAIMER_SENTENCE.test(sentence))
+    .join(" ");
 }
 
-function hasForbiddenScope(text: string): boolean {
-  return FORBIDDEN_SCOPE.some((re) => re.test(text));
+/**
+ * Where the policy's blocked phrases match in a text
+ */
+function blockedSpans(
+  text: string,
+  policy: CompiledPolicy
+): Array<[number, number]> {
+  return policy.blocked.flatMap((re) =>
+    Array.from(text.matchAll(new RegExp(re.source, "gi")), (m) => {
+      const start = m.index ?? 0;
+      return [start, start + m[0].length] as [number, number];
+    })
+  );
+}
+
+/**
+ * Apply REWRITES to the claim sentences, where they overlap a phrase the
+ * policy blocks and the result passes fitsSentence(); replacements at the
+ * start of a sentence are capitalized
+ */
+function rewriteBlockedPhrasing(
+  text: string,
+  policy: CompiledPolicy
+): {
+  text: string;
+  rewrites: string[];
+} {
+  const rewrites: string[] = [];
+  const softener = policy.softeners[0];
+
+  const rewriteSentence = (sentence: string) =>
+    REWRITES.reduce((current, rule) => {
+      const spans = blockedSpans(current, policy);
+      let out = "";
+      let last = 0;
+
+      for (const match of current.matchAll(rule.pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (!spans.some(([from, to]) => from < end && start < to)) continue;
+
+        const before = current.slice(0, start);
+        const replacement = rule.replace(match, softener);
+        if (
+          replacement === null ||
+          !fitsSentence(before, replacement, current.slice(end))
+        ) {
+          continue;
+        }
+        if (!rewrites.includes(rule.id)) rewrites.push(rule.id);
+
+        const atSentenceStart = start === 0 || /[.!?:]\s+$/.test(before);
+        out +=
+          current.slice(last, start) +
+          (atSentenceStart
+            ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+            : replacement);
+        last = end;
+      }
+
+      return out + current.slice(last);
+    }, sentence);
+
+  const rewritten = splitSentences(text)
+    .map((sentence) =>
+      DISCLAIMER_SENTENCE.test(sentence) ? sentence : rewriteSentence(sentence)
+    )
+    .join(" ");
+
+  return { text: rewritten, rewrites };
 }
 
 function normalizeWhitespace(s: string): string {
   return s.replace(/\s+/g, " ").trim();
 }
 
-function ensureEducationalTone(text: string): string {
+function ensureEducationalTone(text: string, policy: CompiledPolicy): string {
   // If already contains a softener, leave it.
   const lower = text.toLowerCase();
-  if (SOFTENERS.some((s) => lower.includes(s))) return text;
+  if (policy.softeners.some((s) => lower.includes(s.toLowerCase()))) {
+    return text;
+  }
 
   // Add a gentle softener at the front for safety.
-  return `This pattern ${SOFTENERS[0]}: ${text}`;
+  return `This pattern ${policy.softeners[0]}: ${text}`;
 }
 
 /**
  * Evidence rule: If we have evidence context and none exists, we don't allow strong claims.
  * (We don't remove, we soften heavily.)
  */
-function applyEvidenceConstraint(text: string, ctx: GuardrailsContext): string {
+function applyEvidenceConstraint(
+  text: string,
+  ctx: GuardrailsContext,
+  policy: CompiledPolicy
+): string {
   const evidence = ctx.evidence;
   if (!evidence) return text;
 
@@ -141,7 +574,8 @@ function applyEvidenceConstraint(text: string, ctx: GuardrailsContext): string {
   if (totalEvidence <= 0) {
     // No supporting evidence available → force very cautious tone
     return `Educational note (limited data context): ${ensureEducationalTone(
-      text
+      text,
+      policy
     )}`;
   }
   return text;
@@ -156,12 +590,16 @@ function enforceAudiencePolicy(text: string, ctx: GuardrailsContext): string {
 
   if (ctx.audience === "consumer") {
     // Remove explicit dosage/timing patterns if they slipped through
+    // (lab values in mg% or mg/kg stay)
     const stripped = t
       .replace(
-        /\b\d+(\.\d+)?\s*(mg|mcg|g|iu|IU)\/?(day|daily)?\b/g,
+        /\b\d+(\.\d+)?\s*(mg|mcg|g|iu|IU)(?!%|\/kg)\/?(day|daily)?\b/g,
+        "[supplement amount]"
+      )
+      .replace(
+        /\b\d+(\.\d+)?\s*(mg|mcg|g|iu|IU)\b(?!%|\/kg)/g,
         "[supplement amount]"
       )
-      .replace(/\b\d+(\.\d+)?\s*(mg|mcg|g|iu|IU)\b/g, "[supplement amount]")
       .replace(/\bfor\s+\d+\s*(days|weeks|months)\b/gi, "for a period of time");
 
     return stripped;
@@ -177,7 +615,12 @@ export function applyGuardrails(input: {
   ctx: GuardrailsContext;
 }): GuardrailsResult {
   const notes: string[] = [];
+  const transformations: GuardrailTransformation[] = [];
+  const mode: GuardrailsMode = input.ctx.mode ?? "remove";
+  const policy = input.ctx.policy ?? BUILT_IN_GUARDRAILS_POLICY;
+  const compiled = compilePolicy(policy.rules);
   let removedCount = 0;
+  let rewrittenCount = 0;
 
   const sanitizeList = (
     items: string[],
@@ -186,39 +629,95 @@ export function applyGuardrails(input: {
     const out: string[] = [];
 
     for (const raw of items || []) {
-      let text = normalizeWhitespace(String(raw ?? ""));
+      const original = normalizeWhitespace(String(raw ?? ""));
+      let text = original;
 
       if (!text) continue;
 
-      // Block forbidden scope
-      if (hasForbiddenScope(text)) {
+      const rules: string[] = [];
+      const remove = () => {
         removedCount++;
+        transformations.push({
+          kind,
+          action: "removed",
+          rules: Array.from(new Set(rules)),
+          original,
+          result: null,
+        });
+      };
+
+      // Block forbidden scope
+      if (hasForbiddenScope(text, compiled)) {
+        rules.push(
+          ...matchedRules(compiled.forbidden, text, "forbidden_scope")
+        );
         notes.push(`[removed:${kind}] forbidden scope → "${text}"`);
+        remove();
         continue;
       }
 
-      // Block diagnosis/prescription language (conservative)
-      if (hasBlockedPhrase(text)) {
+      // Rewrite mode: swap blocked phrasing for educational phrasing first
+      if (mode === "rewrite" && hasBlockedPhrase(claimText(text), compiled)) {
+        const rewritten = rewriteBlockedPhrasing(text, compiled);
+        if (rewritten.rewrites.length > 0) {
+          rules.push(
+            ...matchedRules(compiled.blocked, claimText(text), "blocked")
+          );
+          rules.push(...rewritten.rewrites.map((id) => `rewrite:${id}`));
+          notes.push(
+            `[rewritten:${kind}] ${rewritten.rewrites.join(", ")} → "${
+              rewritten.text
+            }"`
+          );
+          text = rewritten.text;
+          rewrittenCount++;
+        }
+      }
+
+      // Block diagnosis/prescription language (conservative); disclaimer
+      // sentences ("does not diagnose") are left alone
+      const claims = claimText(text);
+      if (hasBlockedPhrase(claims, compiled)) {
+        rules.push(...matchedRules(compiled.blocked, claims, "blocked"));
+
         // Instead of outright delete, we can soften if it's not too risky.
-        // But if it contains "diagnose/cure/treat/prescribe" we remove.
-        const hardBlock = /\b(diagnos|cure|treat|prescrib)\b/i.test(text);
+        // But diagnosis, cure and treatment claims are removed.
+        const hardBlock = HARD_BLOCKED.some((re) => re.test(claims));
         if (hardBlock) {
-          removedCount++;
           notes.push(`[removed:${kind}] blocked phrase → "${text}"`);
+          remove();
           continue;
         }
         // Soft block → soften tone
-        text = ensureEducationalTone(text);
+        text = ensureEducationalTone(text, compiled);
         notes.push(`[softened:${kind}] blocked phrase softened`);
       }
 
       // Enforce evidence constraint
-      text = applyEvidenceConstraint(text, input.ctx);
+      const beforeEvidence = text;
+      text = applyEvidenceConstraint(text, input.ctx, compiled);
+      if (text !== beforeEvidence) rules.push("evidence:limited_data");
 
       // Enforce audience policy
+      const beforeAudience = text;
       text = enforceAudiencePolicy(text, input.ctx);
+      if (text !== beforeAudience) rules.push("audience:dosage_removed");
 
       out.push(text);
+
+      if (text !== original) {
+        transformations.push({
+          kind,
+          action: rules.some((r) => r.startsWith("rewrite:"))
+            ? "rewritten"
+            : rules.some((r) => r.startsWith("blocked:"))
+            ? "softened"
+            : "adjusted",
+          rules: Array.from(new Set(rules)),
+          original,
+          result: text,
+        });
+      }
     }
 
     return out;
@@ -247,11 +746,79 @@ export function applyGuardrails(input: {
 
   return {
     ok: true,
-    version: INTERPRETATION_GUARDRAILS_VERSION,
-    reviewedDate: INTERPRETATION_GUARDRAILS_REVIEWED_DATE,
+    version: policy.version,
+    reviewedDate: policy.reviewedDate,
+    mode,
     removedCount,
+    rewrittenCount,
+    transformations,
     insights: safeInsights,
     recommendations: finalRecs,
     notes: input.ctx.audience === "practitioner" ? notes : undefined,
   };
 }
+
+// ============================================================================
+// PRACTITIONER REVIEW
+// ============================================================================
+
+export type DiffSegment = {
+  type: "same" | "removed" | "added";
+  text: string;
+};
+
+/**
+ * Word-level before/after diff of a transformation (longest common
+ * subsequence); a removed statement is one "removed" segment
+ */
+export function diffTransformation(
+  transformation: GuardrailTransformation
+): DiffSegment[] {
+  const before = transformation.original.split(" ");
+  const after =
+    transformation.result === null ? [] : transformation.result.split(" ");
+
+  // lcs[i][j] = common words in before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], word: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      segments.push({ type, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      push("same", before[i]);
+      i++;
+      j++;
+    } else if (
+      i < before.length &&
+      (j >= after.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      push("removed", before[i]);
+      i++;
+    } else {
+      push("added", after[j]);
+      j++;
+    }
+  }
+
+  return segments;
+}
@@ -0,0 +1,694 @@
+/**
+ * HTMA Lab Report Parser
+ *
+ * Deterministic text-layer extractors for known HTMA lab report layouts:
+ * - TEI (Trace Elements Inc.)
+ * - ARL (Analytical Research Labs)
+ * - DDI (Doctor's Data Inc.)
+ *
+ * Each extractor reads the plain text layer of a lab PDF and returns every
+ * nutrient mineral in MINERAL_REFERENCE_RANGES, every toxic element in
+ * TOXIC_ELEMENT_REFERENCES, every additional element in
+ * ADDITIONAL_ELEMENT_REFERENCES, plus the test date and lab accession number.
+ *
+ * The same text always produces the same result, so parsing is reproducible
+ * and can be verified offline against sample PDFs. AI extraction is only used
+ * by /api/parse-htma when no layout here matches.
+ *
+ * Version: 1.0.0
+ */
+
+import {
+  MINERAL_REFERENCE_RANGES,
+  TOXIC_ELEMENT_REFERENCES,
+  ADDITIONAL_ELEMENT_REFERENCES,
+  MINERAL_SYMBOLS,
+} from "./htmaConstants";
+import {
+  MineralUnit,
+  CANONICAL_UNIT,
+  toCanonical,
+  normalizeUnit,
+} from "./unitConversion";
+
+// ============================================================================
+// VERSION
+// ============================================================================
+
+export const LAB_REPORT_PARSER_VERSION = "1.0.0";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LabLayoutId = "TEI" | "ARL" | "DDI";
+
+/** How the values were obtained */
+export type ExtractionMethod = "layout" | "ai-fallback";
+
+export type ElementGroup = "mineral" | "toxic" | "additional";
+
+/**
+ * Per-field extraction confidence
+ * - high: matched by element name on a known layout
+ * - medium: matched by bare symbol, or reported below the detection limit
+ * - low: AI extraction, or value outside plausible bounds
+ */
+export type ExtractionConfidence = "high" | "medium" | "low";
+
+/**
+ * Provenance for a single extracted value, used by the review step
+ * before values reach the input form or analysis.
+ */
+export interface ExtractedField {
+  readonly group: ElementGroup;
+  readonly symbol: string;
+  readonly name: string;
+
+  /** Extracted value (mg%) */
+  readonly value: number;
+
+  /** Text line the value was read from (null for AI extraction) */
+  readonly snippet: string | null;
+
+  /** 1-based page number (null when unknown) */
+  readonly page: number | null;
+
+  readonly confidence: ExtractionConfidence;
+
+  /** Value lies outside plausible bounds for hair tissue */
+  readonly outOfBounds: boolean;
+}
+
+export interface ParsedLabReport {
+  /** Matched lab layout, or null when extracted by the AI fallback */
+  readonly lab: LabLayoutId | null;
+
+  /** Human-readable lab name */
+  readonly labName: string;
+
+  /** How the values were extracted */
+  readonly method: ExtractionMethod;
+
+  /** Parser version used */
+  readonly parserVersion: string;
+
+  /** Unit printed on the source report (values below are always mg%) */
+  readonly sourceUnit: MineralUnit;
+
+  /** Nutrient minerals keyed by symbol (mg%), null when not found */
+  readonly minerals: Readonly<Record<string, number | null>>;
+
+  /** Toxic elements keyed by symbol (mg%), null when not found */
+  readonly toxicElements: Readonly<Record<string, number | null>>;
+
+  /** Additional elements keyed by symbol (mg%), null when not found */
+  readonly additionalElements: Readonly<Record<string, number | null>>;
+
+  /** Test / collection date (ISO yyyy-mm-dd), null when not found */
+  readonly testDate: string | null;
+
+  /** Lab accession / sample number, null when not found */
+  readonly accessionNumber: string | null;
+
+  /** Symbols of elements that could not be located in the report */
+  readonly missing: ReadonlyArray<string>;
+
+  /** Provenance for every value that was found */
+  readonly fields: ReadonlyArray<ExtractedField>;
+}
+
+interface ElementLabel {
+  readonly group: ElementGroup;
+  readonly symbol: string;
+  readonly names: ReadonlyArray<string>;
+}
+
+interface TextLine {
+  readonly text: string;
+  readonly page: number;
+}
+
+interface ElementMatch {
+  readonly value: number;
+  readonly snippet: string;
+  readonly page: number;
+  readonly confidence: ExtractionConfidence;
+}
+
+export interface LabLayout {
+  readonly id: LabLayoutId;
+  readonly labName: string;
+
+  /** Unit values are printed in (converted to mg% on extraction) */
+  readonly sourceUnit: MineralUnit;
+
+  /** Text markers identifying the lab (any one must match) */
+  readonly markers: ReadonlyArray<RegExp>;
+
+  /** Date labels in priority order (collection date before received date) */
+  readonly datePatterns: ReadonlyArray<RegExp>;
+
+  /** Accession / lab number labels in priority order */
+  readonly accessionPatterns: ReadonlyArray<RegExp>;
+
+  /** Whether result rows print the element symbol next to (or instead of) the name */
+  readonly printsSymbols: boolean;
+}
+
+// ============================================================================
+// ELEMENT LABELS
+// ============================================================================
+
+/** Alternate spellings seen on lab reports */
+const NAME_ALIASES: Readonly<Record<string, ReadonlyArray<string>>> = {
+  S: ["Sulphur"],
+  Al: ["Aluminium"],
+};
+
+const toLabel =
+  (group: ElementGroup) =>
+  (e: { symbol: string; name: string }): ElementLabel => ({
+    group,
+    symbol: e.symbol,
+    names: [e.name, ...(NAME_ALIASES[e.symbol] || [])],
+  });
+
+const MINERAL_LABELS = MINERAL_REFERENCE_RANGES.map(toLabel("mineral"));
+const TOXIC_LABELS = TOXIC_ELEMENT_REFERENCES.map(toLabel("toxic"));
+const ADDITIONAL_LABELS = ADDITIONAL_ELEMENT_REFERENCES.map(
+  toLabel("additional")
+);
+
+/** Minerals that must be found for a layout match to be accepted */
+const REQUIRED_SYMBOLS = ["Ca", "Mg", "Na", "K"];
+
+// ============================================================================
+// LAB LAYOUTS
+// ============================================================================
+
+const DATE_VALUE = String.raw`(\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4}|\d{4}-\d{2}-\d{2})`;
+const ACCESSION_VALUE = String.raw`([A-Z0-9][A-Z0-9\-]{2,})`;
+
+const TEI_LAYOUT: LabLayout = {
+  id: "TEI",
+  labName: "Trace Elements Inc.",
+  sourceUnit: "mg%",
+  markers: [/trace\s+elements,?\s+inc/i, /traceelements\.com/i],
+  datePatterns: [
+    new RegExp(String.raw`test\s+date\s*:?\s*${DATE_VALUE}`, "i"),
+    new RegExp(String.raw`date\s+received\s*:?\s*${DATE_VALUE}`, "i"),
+    new RegExp(String.raw`\bdate\s*:?\s*${DATE_VALUE}`, "i"),
+  ],
+  accessionPatterns: [
+    new RegExp(String.raw`lab\s*(?:number|no\.?|#)\s*:?\s*${ACCESSION_VALUE}`, "i"),
+    new RegExp(String.raw`accession\s*(?:number|no\.?|#)?\s*:?\s*${ACCESSION_VALUE}`, "i"),
+  ],
+  printsSymbols: true,
+};
+
+const ARL_LAYOUT: LabLayout = {
+  id: "ARL",
+  labName: "Analytical Research Labs",
+  sourceUnit: "mg%",
+  markers: [/analytical\s+research\s+lab/i, /arltma\.com/i],
+  datePatterns: [
+    new RegExp(String.raw`test\s+date\s*:?\s*${DATE_VALUE}`, "i"),
+    new RegExp(String.raw`date\s+(?:received|sampled)\s*:?\s*${DATE_VALUE}`, "i"),
+    new RegExp(String.raw`\bdate\s*:?\s*${DATE_VALUE}`, "i"),
+  ],
+  accessionPatterns: [
+    new RegExp(String.raw`lab\s*(?:number|no\.?|#)\s*:?\s*${ACCESSION_VALUE}`, "i"),
+    new RegExp(String.raw`sample\s*(?:number|no\.?|#)\s*:?\s*${ACCESSION_VALUE}`, "i"),
+  ],
+  printsSymbols: true,
+};
+
+const DDI_LAYOUT: LabLayout = {
+  id: "DDI",
+  labName: "Doctor's Data Inc.",
+  sourceUnit: "µg/g",
+  markers: [/doctor['’]?s\s+data/i, /doctorsdata\.com/i],
+  datePatterns: [
+    new RegExp(String.raw`date\s+collected\s*:?\s*${DATE_VALUE}`, "i"),
+    new RegExp(String.raw`date\s+received\s*:?\s*${DATE_VALUE}`, "i"),
+  ],
+  accessionPatterns: [
+    new RegExp(String.raw`lab\s*(?:number|no\.?|#)\s*:?\s*${ACCESSION_VALUE}`, "i"),
+    new RegExp(String.raw`accession\s*(?:number|no\.?|#)?\s*:?\s*${ACCESSION_VALUE}`, "i"),
+  ],
+  printsSymbols: false,
+};
+
+/** Registry of known layouts, checked in order */
+export const LAB_LAYOUTS: ReadonlyArray<LabLayout> = [
+  TEI_LAYOUT,
+  ARL_LAYOUT,
+  DDI_LAYOUT,
+];
+
+// ============================================================================
+// PLAUSIBILITY BOUNDS
+// ============================================================================
+
+/** How far outside the reference range a value may sit before it is flagged */
+const PLAUSIBILITY_FACTOR = 10;
+
+/** Additional elements have no reference range; anything above this is flagged */
+const ADDITIONAL_ELEMENT_PLAUSIBLE_MAX = 5;
+
+/**
+ * Check whether an extracted value (mg%) is physically plausible for hair
+ * tissue. Implausible values usually mean a misread column, a unit mismatch
+ * or a reference range picked up instead of the result.
+ *
+ * @param group - Element group
+ * @param symbol - Element symbol
+ * @param value - Value in mg%
+ * @returns True if the value lies within plausible bounds
+ */
+export function isPlausibleValue(
+  group: ElementGroup,
+  symbol: string,
+  value: number
+): boolean {
+  if (!isFinite(value) || value < 0) return false;
+
+  if (group === "mineral") {
+    const ref = MINERAL_REFERENCE_RANGES.find((r) => r.symbol === symbol);
+    if (!ref) return true;
+    return (
+      value >= ref.minIdeal / PLAUSIBILITY_FACTOR &&
+      value <= ref.maxIdeal * PLAUSIBILITY_FACTOR
+    );
+  }
+
+  if (group === "toxic") {
+    const ref = TOXIC_ELEMENT_REFERENCES.find((r) => r.symbol === symbol);
+    if (!ref) return true;
+    return value <= ref.referenceHigh * PLAUSIBILITY_FACTOR;
+  }
+
+  return value <= ADDITIONAL_ELEMENT_PLAUSIBLE_MAX;
+}
+
+// ============================================================================
+// TEXT HELPERS
+// ============================================================================
+
+const NUMBER_VALUE = String.raw`(<\s*)?(\d+(?:,\d{3})*(?:\.\d+)?|\.\d+)`;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Split raw page texts into trimmed, whitespace-normalized lines
+ * tagged with their 1-based page number
+ */
+function toLines(pages: ReadonlyArray<string>): TextLine[] {
+  return pages.flatMap((pageText, index) =>
+    pageText
+      .split(/\r?\n/)
+      .map((l) => l.replace(/\s+/g, " ").trim())
+      .filter((l) => l.length > 0)
+      .map((text) => ({ text, page: index + 1 }))
+  );
+}
+
+/**
+ * Build the row patterns for one element.
+ *
+ * Names match case-insensitively anywhere in a line ("Calcium", "CALCIUM"),
+ * so multi-column rows are handled, optionally followed by the symbol in
+ * parentheses. Bare symbols are case-sensitive and must be followed by
+ * whitespace or a colon, so "Ca/Mg" ratio rows and "Cobalt" never match "Ca"
+ * or "Co". One-letter symbols (B, K, P, S, V, W) must also start the line so
+ * text such as "Vitamin B 12" is not read as boron.
+ */
+function buildRowPatterns(
+  label: ElementLabel,
+  printsSymbols: boolean
+): RegExp[] {
+  const names = label.names.map(escapeRegExp).join("|");
+  const symbol = escapeRegExp(label.symbol);
+
+  const patterns = [
+    new RegExp(
+      String.raw`(?:^|[^A-Za-z])(?:${names})(?:\s*\(${symbol}\))?\s*:?\s*${NUMBER_VALUE}(?![\/\d])`,
+      "i"
+    ),
+  ];
+
+  if (printsSymbols) {
+    patterns.push(
+      new RegExp(
+        String.raw`${symbol.length === 1 ? "^" : "(?:^|\\s)"}${symbol}(?:\s*:\s*|\s+)${NUMBER_VALUE}(?![\/\d])`
+      )
+    );
+  }
+
+  return patterns;
+}
+
+/**
+ * Find the first reported value for an element.
+ * Values reported below the detection limit ("< 0.001") are returned as 0.
+ */
+function findElement(
+  lines: ReadonlyArray<TextLine>,
+  label: ElementLabel,
+  layout: LabLayout
+): ElementMatch | null {
+  const patterns = buildRowPatterns(label, layout.printsSymbols);
+
+  for (const line of lines) {
+    for (let i = 0; i < patterns.length; i++) {
+      const match = line.text.match(patterns[i]);
+      if (!match) continue;
+
+      const belowDetection = Boolean(match[1]);
+      const value = belowDetection
+        ? 0
+        : parseFloat(match[2].replace(/,/g, ""));
+      if (!isFinite(value)) continue;
+
+      return {
+        value: toCanonical(value, layout.sourceUnit),
+        snippet: line.text,
+        page: line.page,
+        // Pattern 0 matches the element name; later patterns match the bare symbol
+        confidence: i === 0 && !belowDetection ? "high" : "medium",
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a printed date (MM/DD/YYYY, MM-DD-YY, YYYY-MM-DD) to ISO yyyy-mm-dd
+ */
+export function normalizeReportDate(raw: string): string | null {
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return raw;
+
+  const parts = raw.split(/[\/\-.]/).map((p) => parseInt(p, 10));
+  if (parts.length !== 3 || parts.some((p) => isNaN(p))) return null;
+
+  const [month, day] = parts;
+  let year = parts[2];
+  if (year < 100) year += 2000;
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+function findFirst(
+  text: string,
+  patterns: ReadonlyArray<RegExp>
+): string | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match && match[1]) return match[1];
+  }
+  return null;
+}
+
+function findAccessionNumber(
+  text: string,
+  patterns: ReadonlyArray<RegExp>
+): string | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    // Accession numbers always contain a digit; skip labels like "Lab Number: N/A"
+    if (match && match[1] && /\d/.test(match[1])) return match[1];
+  }
+  return null;
+}
+
+function toField(
+  label: ElementLabel,
+  value: number,
+  snippet: string | null,
+  page: number | null,
+  confidence: ExtractionConfidence
+): ExtractedField {
+  const outOfBounds = !isPlausibleValue(label.group, label.symbol, value);
+  return {
+    group: label.group,
+    symbol: label.symbol,
+    name: label.names[0],
+    value,
+    snippet,
+    page,
+    confidence: outOfBounds ? "low" : confidence,
+    outOfBounds,
+  };
+}
+
+function extractGroup(
+  lines: ReadonlyArray<TextLine>,
+  labels: ReadonlyArray<ElementLabel>,
+  layout: LabLayout,
+  missing: string[],
+  fields: ExtractedField[]
+): Record<string, number | null> {
+  const values: Record<string, number | null> = {};
+  for (const label of labels) {
+    const match = findElement(lines, label, layout);
+    values[label.symbol] = match ? match.value : null;
+
+    if (match) {
+      fields.push(
+        toField(label, match.value, match.snippet, match.page, match.confidence)
+      );
+    } else {
+      missing.push(label.symbol);
+    }
+  }
+  return values;
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * Detect which known lab layout produced this text
+ *
+ * @param text - Raw PDF text layer
+ * @returns Matching layout, or null if no known lab markers are present
+ */
+export function detectLabLayout(text: string): LabLayout | null {
+  return LAB_LAYOUTS.find((l) => l.markers.some((m) => m.test(text))) || null;
+}
+
+/**
+ * Extract a full report using a specific layout
+ *
+ * @param pages - Raw PDF text layer, one entry per page
+ * @param layout - Lab layout to apply
+ * @returns Parsed report (values in mg%)
+ */
+export function extractWithLayout(
+  pages: ReadonlyArray<string>,
+  layout: LabLayout
+): ParsedLabReport {
+  const text = pages.join("\n");
+  const lines = toLines(pages);
+  const missing: string[] = [];
+  const fields: ExtractedField[] = [];
+
+  const minerals = extractGroup(
+    lines,
+    MINERAL_LABELS,
+    layout,
+    missing,
+    fields
+  );
+  const toxicElements = extractGroup(
+    lines,
+    TOXIC_LABELS,
+    layout,
+    missing,
+    fields
+  );
+  const additionalElements = extractGroup(
+    lines,
+    ADDITIONAL_LABELS,
+    layout,
+    missing,
+    fields
+  );
+
+  const rawDate = findFirst(text, layout.datePatterns);
+
+  return {
+    lab: layout.id,
+    labName: layout.labName,
+    method: "layout",
+    parserVersion: LAB_REPORT_PARSER_VERSION,
+    sourceUnit: layout.sourceUnit,
+    minerals,
+    toxicElements,
+    additionalElements,
+    testDate: rawDate ? normalizeReportDate(rawDate) : null,
+    accessionNumber: findAccessionNumber(text, layout.accessionPatterns),
+    missing,
+    fields,
+  };
+}
+
+/**
+ * Parse a lab report from its PDF text layer, page by page
+ *
+ * A layout only counts as matched when its lab markers are present AND the
+ * required minerals (Ca, Mg, Na, K) were all found. Otherwise null is
+ * returned and the caller should fall back to AI extraction.
+ *
+ * @param pages - Raw PDF text layer, one entry per page
+ * @returns Parsed report, or null if no known layout matches
+ */
+export function parseLabReportPages(
+  pages: ReadonlyArray<string>
+): ParsedLabReport | null {
+  const text = pages.join("\n");
+  if (text.trim().length === 0) return null;
+
+  const layout = detectLabLayout(text);
+  if (!layout) return null;
+
+  const report = extractWithLayout(pages, layout);
+  const hasRequired = REQUIRED_SYMBOLS.every(
+    (s) => report.minerals[s] !== null
+  );
+
+  return hasRequired ? report : null;
+}
+
+/**
+ * Parse a lab report from a single block of text (page numbers all report as 1)
+ *
+ * @param text - Raw PDF text layer
+ * @returns Parsed report, or null if no known layout matches
+ */
+export function parseLabReportText(text: string): ParsedLabReport | null {
+  if (!text) return null;
+  return parseLabReportPages([text]);
+}
+
+// ============================================================================
+// AI FALLBACK NORMALIZATION
+// ============================================================================
+
+const toNumberOrNull = (value: unknown): number | null => {
+  if (typeof value !== "number" && typeof value !== "string") return null;
+  if (value === "") return null;
+  const num = typeof value === "number" ? value : parseFloat(value);
+  return isFinite(num) ? num : null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const stringOrEmpty = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : "";
+
+/**
+ * Normalize a loosely-structured AI extraction into a ParsedLabReport
+ *
+ * Accepts minerals keyed by name ("calcium") or symbol ("Ca"), and toxic /
+ * additional elements keyed by symbol. Values are converted to mg% from the
+ * reported "unit" (mg% when absent or unrecognized).
+ *
+ * @param raw - Parsed JSON returned by the AI model (anything; fields of the
+ *   wrong type are treated as missing)
+ * @returns Normalized report with method "ai-fallback"
+ */
+export function normalizeAIExtraction(raw: unknown): ParsedLabReport {
+  const missing: string[] = [];
+  const fields: ExtractedField[] = [];
+  const source = isRecord(raw) ? raw : {};
+  const sourceUnit =
+    normalizeUnit(stringOrEmpty(source.unit)) || CANONICAL_UNIT;
+
+  const pick = (
+    rawGroup: unknown,
+    labels: ReadonlyArray<ElementLabel>
+  ): Record<string, number | null> => {
+    const group = isRecord(rawGroup) ? rawGroup : undefined;
+    const values: Record<string, number | null> = {};
+    for (const label of labels) {
+      const byName = label.names
+        .map((n) => group?.[n.toLowerCase()])
+        .find((v) => v !== undefined);
+      const printed = toNumberOrNull(group?.[label.symbol] ?? byName);
+      const value = printed === null ? null : toCanonical(printed, sourceUnit);
+      values[label.symbol] = value;
+
+      if (value === null) {
+        missing.push(label.symbol);
+      } else {
+        // AI extraction has no verifiable source text, so it is never above "low"
+        fields.push(toField(label, value, null, null, "low"));
+      }
+    }
+    return values;
+  };
+
+  const rawDate = stringOrEmpty(source.testDate);
+  const accessionNumber = stringOrEmpty(source.accessionNumber);
+
+  return {
+    lab: null,
+    labName: stringOrEmpty(source.labName) || "Unknown",
+    method: "ai-fallback",
+    parserVersion: LAB_REPORT_PARSER_VERSION,
+    sourceUnit,
+    minerals: pick(source.minerals, MINERAL_LABELS),
+    toxicElements: pick(source.toxicElements, TOXIC_LABELS),
+    additionalElements: pick(source.additionalElements, ADDITIONAL_LABELS),
+    testDate: rawDate ? normalizeReportDate(rawDate) : null,
+    accessionNumber: accessionNumber || null,
+    missing,
+    fields,
+  };
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Convert a parsed report's minerals into MineralData-style keys
+ * ("calcium", "magnesium", ...) so it can feed HTMAInputForm directly.
+ * Minerals that were not found are omitted.
+ */
+export function toMineralNameMap(
+  report: ParsedLabReport
+): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const [name, symbol] of Object.entries(MINERAL_SYMBOLS)) {
+    const value = report.minerals[symbol];
+    if (value !== null && value !== undefined) result[name] = value;
+  }
+  return result;
+}
+
+/**
+ * Drop null entries from an element map
+ */
+export function compactElements(
+  values: Readonly<Record<string, number | null>>
+): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== null) result[key] = value;
+  }
+  return result;
+}
@@ -0,0 +1,240 @@
+/**
+ * HTMA Mineral Model
+ *
+ * Single typed representation of a 15-mineral HTMA panel, shared by the
+ * client, every API route and stored Firestore documents.
+ *
+ * - Values are numbers in the canonical unit (mg%)
+ * - A mineral that was not measured is null, never 0, so "missing" and
+ *   "measured as zero" stay distinguishable end to end
+ * - The zod schemas below are the one validation contract: the input form
+ *   checks its payload with them before sending, API routes check every
+ *   request with them before computing or writing anything
+ *
+ * Older documents stored every mineral as a string ("42.5", "" for empty).
+ * readMineralData() is the compatibility reader for those.
+ *
+ * Version: 1.0.0
+ */
+
+import { z } from "zod";
+import { MINERAL_SYMBOLS } from "./htmaConstants";
+import { MineralInput } from "./oxidationClassification";
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+export const MINERAL_MODEL_VERSION = "1.0.0";
+
+/**
+ * Complete TEI (Trace Elements Inc.) Nutritional Elements
+ * All 15 minerals tested in standard HTMA panels
+ *
+ * Major Minerals: Ca, Mg, Na, K, P, S
+ * Trace Minerals: Cu, Zn, Fe, Mn, Cr, Se, B, Co, Mo
+ */
+export const MINERAL_NAMES = [
+  "calcium",
+  "magnesium",
+  "sodium",
+  "potassium",
+  "copper",
+  "zinc",
+  "phosphorus",
+  "iron",
+  "manganese",
+  "chromium",
+  "selenium",
+  "boron",
+  "cobalt",
+  "molybdenum",
+  "sulfur",
+] as const;
+
+export type MineralName = (typeof MINERAL_NAMES)[number];
+
+/** Minerals required for oxidation classification */
+export const REQUIRED_MINERALS: ReadonlyArray<MineralName> = [
+  "calcium",
+  "magnesium",
+  "sodium",
+  "potassium",
+];
+
+/** A measured value in mg%, or null when the mineral was not measured */
+export type MineralValue = number | null;
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+export const MineralValueSchema = z.number().nonnegative().nullable();
+
+/**
+ * Full panel. Omitted minerals are filled in as null (missing), not 0.
+ */
+export const MineralDataSchema = z.object({
+  calcium: MineralValueSchema.default(null),
+  magnesium: MineralValueSchema.default(null),
+  sodium: MineralValueSchema.default(null),
+  potassium: MineralValueSchema.default(null),
+  copper: MineralValueSchema.default(null),
+  zinc: MineralValueSchema.default(null),
+  phosphorus: MineralValueSchema.default(null),
+  iron: MineralValueSchema.default(null),
+  manganese: MineralValueSchema.default(null),
+  chromium: MineralValueSchema.default(null),
+  selenium: MineralValueSchema.default(null),
+  boron: MineralValueSchema.default(null),
+  cobalt: MineralValueSchema.default(null),
+  molybdenum: MineralValueSchema.default(null),
+  sulfur: MineralValueSchema.default(null),
+});
+
+export type MineralData = z.infer<typeof MineralDataSchema>;
+
+/**
+ * Panel that can be analyzed: Ca, Mg, Na and K must be present and positive
+ */
+export const AnalyzableMineralDataSchema = MineralDataSchema.superRefine(
+  (data, ctx) => {
+    for (const name of REQUIRED_MINERALS) {
+      const value = data[name];
+      if (value === null || value <= 0) {
+        ctx.addIssue({
+          code: "custom",
+          path: [name],
+          message: `${name} is required for analysis`,
+        });
+      }
+    }
+  }
+);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a mineral value was measured
+ */
+export function hasMineralValue(value: MineralValue | undefined): value is number {
+  return typeof value === "number";
+}
+
+/**
+ * Create a panel with every mineral missing
+ */
+export function createEmptyMineralData(): MineralData {
+  return Object.fromEntries(
+    MINERAL_NAMES.map((name) => [name, null])
+  ) as MineralData;
+}
+
+/**
+ * Parse a single value as typed in a form or stored by an older document.
+ * Empty, non-numeric and negative values are missing (null).
+ *
+ * @param raw - Number, numeric string, or anything else
+ * @returns Value, or null if missing/invalid
+ */
+export function readMineralValue(raw: unknown): MineralValue {
+  let num: number;
+  if (typeof raw === "number") {
+    num = raw;
+  } else if (typeof raw === "string" && raw.trim() !== "") {
+    num = Number(raw.trim());
+  } else {
+    return null;
+  }
+  return Number.isFinite(num) && num >= 0 ? num : null;
+}
+
+/**
+ * Compatibility reader for stored or loosely-typed panels
+ *
+ * Accepts current documents (numbers/null), older documents that stored
+ * strings ("42.5", ""), and panels keyed by symbol ({ Ca: 42.5 }).
+ * Anything unreadable becomes null rather than 0.
+ *
+ * @param raw - Stored mineralData object (or anything)
+ * @returns Typed MineralData
+ */
+export function readMineralData(raw: unknown): MineralData {
+  const data = createEmptyMineralData();
+  if (!raw || typeof raw !== "object") return data;
+
+  const source = raw as Record<string, unknown>;
+  for (const name of MINERAL_NAMES) {
+    const value =
+      source[name] !== undefined ? source[name] : source[MINERAL_SYMBOLS[name]];
+    data[name] = readMineralValue(value);
+  }
+  return data;
+}
+
+/**
+ * Look up a mineral by its symbol ("Ca", "Zn", ...)
+ */
+export function getMineralValueBySymbol(
+  data: MineralData,
+  symbol: string
+): MineralValue {
+  const name = MINERAL_NAMES.find((n) => MINERAL_SYMBOLS[n] === symbol);
+  return name ? data[name] : null;
+}
+
+/**
+ * Minerals that were not measured, in panel order
+ */
+export function getMissingMinerals(data: MineralData): MineralName[] {
+  return MINERAL_NAMES.filter((name) => !hasMineralValue(data[name]));
+}
+
+/**
+ * Measured values keyed by symbol. Missing minerals are omitted.
+ */
+export function toMeasuredSymbolValues(
+  data: MineralData
+): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const name of MINERAL_NAMES) {
+    const value = data[name];
+    if (hasMineralValue(value)) values[MINERAL_SYMBOLS[name]] = value;
+  }
+  return values;
+}
+
+/**
+ * Ca, Mg, Na and K for oxidation classification, or null when any of them
+ * was not measured (or is 0). Callers skip classification on null instead
+ * of letting the engine fall back to a "balanced" placeholder.
+ */
+export function getOxidationMinerals(data: MineralData): MineralInput | null {
+  const { calcium, magnesium, sodium, potassium } = data;
+  if (
+    !hasMineralValue(calcium) ||
+    !hasMineralValue(magnesium) ||
+    !hasMineralValue(sodium) ||
+    !hasMineralValue(potassium) ||
+    calcium <= 0 ||
+    magnesium <= 0 ||
+    sodium <= 0 ||
+    potassium <= 0
+  ) {
+    return null;
+  }
+  return { Ca: calcium, Mg: magnesium, Na: sodium, K: potassium };
+}
+
+/**
+ * Format a value for display; missing values show as an em dash
+ */
+export function formatMineralValue(
+  value: MineralValue | undefined,
+  digits?: number
+): string {
+  if (!hasMineralValue(value)) return "—";
+  return digits === undefined ? String(value) : value.toFixed(digits);
+}
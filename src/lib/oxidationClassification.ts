@@ -1,14 +1,21 @@
 /**
  * HTMA Genius — Oxidation Type Classification Engine
- * Version: 1.0.0
- * Reviewed: 2025-12-21
+ * Version: 1.1.0
+ * Reviewed: 2026-10-19
  *
  * Purpose: Pattern classification based on mineral relationships
  * NOT a diagnosis, disease label, treatment directive, or prediction
+ *
+ * v1.1.0 - Mineral and ratio thresholds come from the oxidation section of
+ * a ReferenceRangeVersion; each result records the version used. Callers
+ * pass the active version (getActiveReferenceRangeVersion()).
  */
 
-export const OXIDATION_ENGINE_VERSION = "1.0.0";
-export const OXIDATION_ENGINE_REVIEWED_DATE = "2025-12-21";
+import { ReferenceRangeVersion, OxidationThresholds } from "./reportSnapshot";
+import { getOxidationThresholds } from "./rangeVersionEngine";
+
+export const OXIDATION_ENGINE_VERSION = "1.1.0";
+export const OXIDATION_ENGINE_REVIEWED_DATE = "2026-10-19";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -38,6 +45,7 @@ export interface OxidationClassification {
   explanation: string; // Why this classification - deterministic reasoning
   thresholdWarnings: string[]; // Near-threshold cautions
   semanticsVersion: string;
+  referenceRangeVersion: string; // Version the thresholds were taken from
   metadata: {
     mineralValues: {
       ca: number;
@@ -61,23 +69,6 @@ export interface MineralInput {
   K: number;
 }
 
-// ============================================================================
-// REFERENCE RANGES (TEI-Aligned, Locked)
-// ============================================================================
-
-const MINERAL_RANGES = {
-  Ca: { low: 35, high: 55 },
-  Mg: { low: 4.0, high: 7.0 },
-  Na: { low: 20, high: 50 },
-  K: { low: 8, high: 18 },
-} as const;
-
-const RATIO_RANGES = {
-  caK: { fast: 2.5, slow: 10 }, // <2.5 = fast, >10 = slow
-  naK: { fast: 2.8, slow: 1.8 }, // >2.8 = fast, <1.8 = slow
-  caMg: { fast: 6, slow: 10 }, // <6 = fast, >10 = slow
-} as const;
-
 // ============================================================================
 // LOCKED INTERPRETATIONS
 // ============================================================================
@@ -104,21 +95,30 @@ function getMineralStatus(
   return "optimal";
 }
 
-function getCaKSignal(ratio: number): RatioSignal {
-  if (ratio < RATIO_RANGES.caK.fast) return "fast";
-  if (ratio > RATIO_RANGES.caK.slow) return "slow";
+function getCaKSignal(
+  ratio: number,
+  ratios: OxidationThresholds["ratios"]
+): RatioSignal {
+  if (ratio < ratios.caK.fast) return "fast";
+  if (ratio > ratios.caK.slow) return "slow";
   return "optimal";
 }
 
-function getNaKSignal(ratio: number): RatioSignal {
-  if (ratio > RATIO_RANGES.naK.fast) return "fast";
-  if (ratio < RATIO_RANGES.naK.slow) return "slow";
+function getNaKSignal(
+  ratio: number,
+  ratios: OxidationThresholds["ratios"]
+): RatioSignal {
+  if (ratio > ratios.naK.fast) return "fast";
+  if (ratio < ratios.naK.slow) return "slow";
   return "optimal";
 }
 
-function getCaMgSignal(ratio: number): RatioSignal {
-  if (ratio < RATIO_RANGES.caMg.fast) return "fast";
-  if (ratio > RATIO_RANGES.caMg.slow) return "slow";
+function getCaMgSignal(
+  ratio: number,
+  ratios: OxidationThresholds["ratios"]
+): RatioSignal {
+  if (ratio < ratios.caMg.fast) return "fast";
+  if (ratio > ratios.caMg.slow) return "slow";
   return "optimal";
 }
 
@@ -228,7 +228,8 @@ function generateExplanation(
   caMgSignal: RatioSignal,
   caK: number,
   naK: number,
-  caMg: number
+  caMg: number,
+  ratios: OxidationThresholds["ratios"]
 ): string {
   const parts: string[] = [];
 
@@ -237,26 +238,45 @@ function generateExplanation(
 
   // Ratio signals (primary drivers)
   const ratioSignals: string[] = [];
+  const { caK: caKR, naK: naKR, caMg: caMgR } = ratios;
   if (caKSignal === "fast")
-    ratioSignals.push(`Ca/K ratio ${caK.toFixed(1)} indicates fast (< 2.5)`);
+    ratioSignals.push(
+      `Ca/K ratio ${caK.toFixed(1)} indicates fast (< ${caKR.fast})`
+    );
   if (caKSignal === "slow")
-    ratioSignals.push(`Ca/K ratio ${caK.toFixed(1)} indicates slow (> 10)`);
+    ratioSignals.push(
+      `Ca/K ratio ${caK.toFixed(1)} indicates slow (> ${caKR.slow})`
+    );
   if (caKSignal === "optimal")
-    ratioSignals.push(`Ca/K ratio ${caK.toFixed(1)} is optimal (2.5-10)`);
+    ratioSignals.push(
+      `Ca/K ratio ${caK.toFixed(1)} is optimal (${caKR.fast}-${caKR.slow})`
+    );
 
   if (naKSignal === "fast")
-    ratioSignals.push(`Na/K ratio ${naK.toFixed(1)} indicates fast (> 2.8)`);
+    ratioSignals.push(
+      `Na/K ratio ${naK.toFixed(1)} indicates fast (> ${naKR.fast})`
+    );
   if (naKSignal === "slow")
-    ratioSignals.push(`Na/K ratio ${naK.toFixed(1)} indicates slow (< 1.8)`);
+    ratioSignals.push(
+      `Na/K ratio ${naK.toFixed(1)} indicates slow (< ${naKR.slow})`
+    );
   if (naKSignal === "optimal")
-    ratioSignals.push(`Na/K ratio ${naK.toFixed(1)} is optimal (1.8-2.8)`);
+    ratioSignals.push(
+      `Na/K ratio ${naK.toFixed(1)} is optimal (${naKR.slow}-${naKR.fast})`
+    );
 
   if (caMgSignal === "fast")
-    ratioSignals.push(`Ca/Mg ratio ${caMg.toFixed(1)} indicates fast (< 6)`);
+    ratioSignals.push(
+      `Ca/Mg ratio ${caMg.toFixed(1)} indicates fast (< ${caMgR.fast})`
+    );
   if (caMgSignal === "slow")
-    ratioSignals.push(`Ca/Mg ratio ${caMg.toFixed(1)} indicates slow (> 10)`);
+    ratioSignals.push(
+      `Ca/Mg ratio ${caMg.toFixed(1)} indicates slow (> ${caMgR.slow})`
+    );
   if (caMgSignal === "optimal")
-    ratioSignals.push(`Ca/Mg ratio ${caMg.toFixed(1)} is optimal (6-10)`);
+    ratioSignals.push(
+      `Ca/Mg ratio ${caMg.toFixed(1)} is optimal (${caMgR.fast}-${caMgR.slow})`
+    );
 
   if (ratioSignals.length > 0) {
     parts.push("Ratio signals: " + ratioSignals.join("; "));
@@ -295,14 +315,15 @@ function generateExplanation(
 function detectThresholdProximity(
   caK: number,
   naK: number,
-  caMg: number
+  caMg: number,
+  ratios: OxidationThresholds["ratios"]
 ): string[] {
   const warnings: string[] = [];
   const PROXIMITY_PERCENT = 0.05; // 5% threshold
 
-  // Ca/K thresholds: 2.5 (fast) and 10 (slow)
-  const caKFastThreshold = RATIO_RANGES.caK.fast;
-  const caKSlowThreshold = RATIO_RANGES.caK.slow;
+  // Ca/K thresholds: fast and slow boundaries
+  const caKFastThreshold = ratios.caK.fast;
+  const caKSlowThreshold = ratios.caK.slow;
 
   if (
     Math.abs(caK - caKFastThreshold) / caKFastThreshold <=
@@ -325,9 +346,9 @@ function detectThresholdProximity(
     );
   }
 
-  // Na/K thresholds: 1.8 (slow) and 2.8 (fast)
-  const naKSlowThreshold = RATIO_RANGES.naK.slow;
-  const naKFastThreshold = RATIO_RANGES.naK.fast;
+  // Na/K thresholds: slow and fast boundaries
+  const naKSlowThreshold = ratios.naK.slow;
+  const naKFastThreshold = ratios.naK.fast;
 
   if (
     Math.abs(naK - naKSlowThreshold) / naKSlowThreshold <=
@@ -350,9 +371,9 @@ function detectThresholdProximity(
     );
   }
 
-  // Ca/Mg thresholds: 6 (fast) and 10 (slow)
-  const caMgFastThreshold = RATIO_RANGES.caMg.fast;
-  const caMgSlowThreshold = RATIO_RANGES.caMg.slow;
+  // Ca/Mg thresholds: fast and slow boundaries
+  const caMgFastThreshold = ratios.caMg.fast;
+  const caMgSlowThreshold = ratios.caMg.slow;
 
   if (
     Math.abs(caMg - caMgFastThreshold) / caMgFastThreshold <=
@@ -386,12 +407,15 @@ function detectThresholdProximity(
  * Classify oxidation type from mineral values
  *
  * @param minerals - Core mineral values (Ca, Mg, Na, K)
+ * @param rangeVersion - Reference range version supplying the thresholds
  * @returns Complete oxidation classification with confidence and interpretation
  */
 export function classifyOxidation(
-  minerals: MineralInput
+  minerals: MineralInput,
+  rangeVersion: ReferenceRangeVersion
 ): OxidationClassification {
   const { Ca, Mg, Na, K } = minerals;
+  const thresholds = getOxidationThresholds(rangeVersion);
 
   // Validate inputs - return safe fallback instead of throwing
   if (!Ca || !Mg || !Na || !K || Ca <= 0 || Mg <= 0 || Na <= 0 || K <= 0) {
@@ -419,6 +443,7 @@ export function classifyOxidation(
         "Cannot classify oxidation type: one or more required minerals (Ca, Mg, Na, K) are missing or invalid",
       thresholdWarnings: ["Incomplete mineral data provided"],
       semanticsVersion: OXIDATION_ENGINE_VERSION,
+      referenceRangeVersion: rangeVersion.version,
       metadata: {
         mineralValues: {
           ca: Ca || 0,
@@ -442,15 +467,15 @@ export function classifyOxidation(
   const caMg = Ca / Mg;
 
   // Determine mineral statuses
-  const caStatus = getMineralStatus(Ca, MINERAL_RANGES.Ca);
-  const mgStatus = getMineralStatus(Mg, MINERAL_RANGES.Mg);
-  const naStatus = getMineralStatus(Na, MINERAL_RANGES.Na);
-  const kStatus = getMineralStatus(K, MINERAL_RANGES.K);
+  const caStatus = getMineralStatus(Ca, thresholds.minerals.Ca);
+  const mgStatus = getMineralStatus(Mg, thresholds.minerals.Mg);
+  const naStatus = getMineralStatus(Na, thresholds.minerals.Na);
+  const kStatus = getMineralStatus(K, thresholds.minerals.K);
 
   // Determine ratio signals
-  const caKSignal = getCaKSignal(caK);
-  const naKSignal = getNaKSignal(naK);
-  const caMgSignal = getCaMgSignal(caMg);
+  const caKSignal = getCaKSignal(caK, thresholds.ratios);
+  const naKSignal = getNaKSignal(naK, thresholds.ratios);
+  const caMgSignal = getCaMgSignal(caMg, thresholds.ratios);
 
   // Classify type and get alignment score
   const { type, alignmentScore } = classifyOxidationType(
@@ -478,11 +503,17 @@ export function classifyOxidation(
     caMgSignal,
     caK,
     naK,
-    caMg
+    caMg,
+    thresholds.ratios
   );
 
   // Detect near-threshold warnings
-  const thresholdWarnings = detectThresholdProximity(caK, naK, caMg);
+  const thresholdWarnings = detectThresholdProximity(
+    caK,
+    naK,
+    caMg,
+    thresholds.ratios
+  );
 
   // Build result
   return {
@@ -503,6 +534,7 @@ export function classifyOxidation(
     explanation,
     thresholdWarnings,
     semanticsVersion: OXIDATION_ENGINE_VERSION,
+    referenceRangeVersion: rangeVersion.version,
     metadata: {
       mineralValues: {
         ca: Math.round(Ca * 10) / 10,
@@ -1,12 +1,16 @@
 /**
  * HTMA Genius — Oxidation Pattern Delta Engine
- * Version: 1.0.0
- * Reviewed: 2025-12-22
+ * Version: 1.1.0
+ * Reviewed: 2026-10-19
  *
  * Purpose: Deterministic detection of oxidation pattern changes between tests
  * Identifies milestones (pattern shifts), calculates distance to balanced,
  * and provides non-diagnostic explanations for metabolic pattern changes.
  *
+ * v1.1.0 - Key changes carry a lab-variability significance
+ *          (referenceChangeValue.ts). A pattern change driven only by
+ *          changes within noise is not treated as a milestone.
+ *
  * NOT a diagnosis, disease label, treatment directive, or prediction.
  * This engine uses pure mathematics and locked semantics.
  */
@@ -15,9 +19,14 @@ import {
   OxidationClassification,
   OxidationType,
 } from "./oxidationClassification";
+import {
+  ChangeSignificance,
+  assessMineralChange,
+  assessRatioChange,
+} from "./referenceChangeValue";
 
-export const OXIDATION_DELTA_ENGINE_VERSION = "1.0.0";
-export const OXIDATION_DELTA_ENGINE_REVIEWED_DATE = "2025-12-22";
+export const OXIDATION_DELTA_ENGINE_VERSION = "1.1.0";
+export const OXIDATION_DELTA_ENGINE_REVIEWED_DATE = "2026-10-19";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -47,6 +56,8 @@ export interface OxidationDelta {
     type: PatternChangeType;
     isMilestone: boolean;
     description: string;
+    /** Pattern changed, but every underlying value moved within lab variation */
+    withinNoise: boolean;
   };
 
   /** Distance to balanced metabolic pattern */
@@ -64,6 +75,7 @@ export interface OxidationDelta {
     to: string;
     impact: "positive" | "neutral" | "negative";
     note: string;
+    significance: ChangeSignificance;
   }>;
 
   /** Non-diagnostic summary */
@@ -210,8 +222,11 @@ function generateKeyChanges(
   to: string;
   impact: "positive" | "neutral" | "negative";
   note: string;
+  significance: ChangeSignificance;
 }> {
   const changes: Array<any> = [];
+  const prevValues = previous.metadata;
+  const currValues = current.metadata;
 
   // Ca/K ratio change (thyroid indicator)
   const caKPrev = previous.indicators.ratioSignals.caK;
@@ -229,6 +244,11 @@ function generateKeyChanges(
       to: caKCurr,
       impact,
       note: `Ca/K signal changed (${caKPrev} → ${caKCurr}), associated with thyroid activity patterns`,
+      significance: assessRatioChange(
+        "Ca/K",
+        prevValues.ratioValues.caK,
+        currValues.ratioValues.caK
+      ).significance,
     });
   }
 
@@ -248,6 +268,11 @@ function generateKeyChanges(
       to: naKCurr,
       impact,
       note: `Na/K signal changed (${naKPrev} → ${naKCurr}), associated with adrenal activity patterns`,
+      significance: assessRatioChange(
+        "Na/K",
+        prevValues.ratioValues.naK,
+        currValues.ratioValues.naK
+      ).significance,
     });
   }
 
@@ -267,6 +292,11 @@ function generateKeyChanges(
       to: caCurr,
       impact,
       note: `Calcium status changed (${caPrev} → ${caCurr})`,
+      significance: assessMineralChange(
+        "Ca",
+        prevValues.mineralValues.ca,
+        currValues.mineralValues.ca
+      ).significance,
     });
   }
 
@@ -286,10 +316,46 @@ function generateKeyChanges(
       to: naCurr,
       impact,
       note: `Sodium status changed (${naPrev} → ${naCurr})`,
+      significance: assessMineralChange(
+        "Na",
+        prevValues.mineralValues.na,
+        currValues.mineralValues.na
+      ).significance,
     });
   }
 
-  return changes;
+  // Within noise: every change is flagged accordingly
+  return changes.map((change) =>
+    change.significance === "within_noise"
+      ? {
+          ...change,
+          impact: "neutral",
+          note: `${change.note} - within typical lab variation`,
+        }
+      : change
+  );
+}
+
+/**
+ * Whether every value behind the oxidation pattern (Ca, Mg, Na, K and the
+ * three pattern ratios) moved by less than lab variation
+ */
+function isPatternChangeWithinNoise(
+  previous: OxidationClassification,
+  current: OxidationClassification
+): boolean {
+  const prev = previous.metadata;
+  const curr = current.metadata;
+  const assessments = [
+    assessMineralChange("Ca", prev.mineralValues.ca, curr.mineralValues.ca),
+    assessMineralChange("Mg", prev.mineralValues.mg, curr.mineralValues.mg),
+    assessMineralChange("Na", prev.mineralValues.na, curr.mineralValues.na),
+    assessMineralChange("K", prev.mineralValues.k, curr.mineralValues.k),
+    assessRatioChange("Ca/K", prev.ratioValues.caK, curr.ratioValues.caK),
+    assessRatioChange("Na/K", prev.ratioValues.naK, curr.ratioValues.naK),
+    assessRatioChange("Ca/Mg", prev.ratioValues.caMg, curr.ratioValues.caMg),
+  ];
+  return assessments.every((a) => a.significance === "within_noise");
 }
 
 /**
@@ -361,6 +427,7 @@ export function analyzeOxidationDelta(
           current.type,
           "new_test"
         ),
+        withinNoise: false,
       },
       distanceToBalanced: {
         previous: 0,
@@ -384,11 +451,13 @@ export function analyzeOxidationDelta(
   const distanceChange = currentDistance - previousDistance;
   const direction = determineDirection(previousDistance, currentDistance);
 
-  // Determine pattern change
-  const { type: changeType, isMilestone } = determinePatternChangeType(
-    previous.type,
-    current.type
-  );
+  // Determine pattern change - a shift driven only by lab variation is
+  // never a milestone
+  const { type: changeType, isMilestone: isPatternMilestone } =
+    determinePatternChangeType(previous.type, current.type);
+  const withinNoise =
+    changeType !== "stable" && isPatternChangeWithinNoise(previous, current);
+  const isMilestone = isPatternMilestone && !withinNoise;
 
   const description = generatePatternChangeDescription(
     previous.type,
@@ -400,12 +469,16 @@ export function analyzeOxidationDelta(
   const keyChanges = generateKeyChanges(previous, current);
 
   // Generate summary
-  const summary = generateSummary(
-    { type: changeType, isMilestone, description },
-    { direction, change: distanceChange },
-    previous.type,
-    current.type
-  );
+  const summary =
+    generateSummary(
+      { type: changeType, isMilestone, description },
+      { direction, change: distanceChange },
+      previous.type,
+      current.type
+    ) +
+    (withinNoise
+      ? " The underlying values moved within typical lab variation, so this shift may reflect measurement differences rather than a real change."
+      : "");
 
   return {
     version: OXIDATION_DELTA_ENGINE_VERSION,
@@ -416,6 +489,7 @@ export function analyzeOxidationDelta(
       type: changeType,
       isMilestone,
       description,
+      withinNoise,
     },
     distanceToBalanced: {
       previous: previousDistance,
@@ -3,11 +3,13 @@
  *
  * Regression test dataset for validating oxidation type classification
  * Covers clear cases, boundary cases, and edge scenarios
+ * v1.1.0 - Eck sub-pattern cases (eckSubClassification.ts)
  *
- * Version: 1.0.1
+ * Version: 1.1.0
  */
 
 import { OxidationType } from "./oxidationClassification";
+import { EckSubPattern } from "./eckSubClassification";
 
 export interface OxidationTestCase {
   id: string;
@@ -19,6 +21,8 @@ export interface OxidationTestCase {
     K: number;
   };
   expectedType: OxidationType;
+  /** Exact Eck sub-patterns expected (checked only when set) */
+  expectedSubPatterns?: EckSubPattern[];
   note: string;
 }
 
@@ -174,6 +178,88 @@ export const OXIDATION_TEST_CASES: OxidationTestCase[] = [
     expectedType: "mixed",
     note: "Ca borderline high, Mg borderline low, Na borderline high, K optimal",
   },
+
+  // === ECK SUB-PATTERN CASES ===
+  {
+    id: "ECK_FOUR_LOWS_01",
+    description: "Four lows - all macro minerals below range",
+    mineralValues: { Ca: 25, Mg: 3, Na: 12, K: 5 },
+    expectedType: "mixed",
+    expectedSubPatterns: ["four_lows"],
+    note: "Ca, Mg, Na, K all low; ratios optimal (Ca/K=5, Na/K=2.4, Ca/Mg=8.3)",
+  },
+  {
+    id: "ECK_FOUR_HIGHS_01",
+    description: "Four highs - all macro minerals above range",
+    mineralValues: { Ca: 70, Mg: 9, Na: 60, K: 22 },
+    expectedType: "mixed",
+    expectedSubPatterns: ["four_highs"],
+    note: "Ca, Mg, Na, K all high; ratios optimal (Ca/K=3.2, Na/K=2.7, Ca/Mg=7.8)",
+  },
+  {
+    id: "ECK_SYMPATHETIC_01",
+    description: "Sympathetic dominance - Na and K high, fast Ca/Mg",
+    mineralValues: { Ca: 40, Mg: 8, Na: 70, K: 22 },
+    expectedType: "fast",
+    expectedSubPatterns: ["sympathetic_dominance", "fast_stage_1"],
+    note: "Na high, K high, Ca/Mg=5 (fast), Ca/K=1.8 (stage 1)",
+  },
+  {
+    id: "ECK_CALCIUM_SHELL_01",
+    description: "Calcium shell - very high hair calcium",
+    mineralValues: { Ca: 180, Mg: 12, Na: 10, K: 3 },
+    expectedType: "slow",
+    expectedSubPatterns: ["calcium_shell", "slow_stage_3"],
+    note: "Ca=180 (>= 165), Ca/K=60 (stage 3)",
+  },
+  {
+    id: "ECK_SLOW_STAGE_1",
+    description: "Slow oxidation stage 1",
+    mineralValues: { Ca: 60, Mg: 5, Na: 18, K: 5 },
+    expectedType: "slow",
+    expectedSubPatterns: ["slow_stage_1"],
+    note: "Ca/K=12 (<= 20)",
+  },
+  {
+    id: "ECK_SLOW_STAGE_2",
+    description: "Slow oxidation stage 2",
+    mineralValues: { Ca: 90, Mg: 6, Na: 15, K: 3 },
+    expectedType: "slow",
+    expectedSubPatterns: ["slow_stage_2"],
+    note: "Ca/K=30 (20-40)",
+  },
+  {
+    id: "ECK_SLOW_STAGE_3",
+    description: "Slow oxidation stage 3 without calcium shell",
+    mineralValues: { Ca: 130, Mg: 8, Na: 12, K: 3 },
+    expectedType: "slow",
+    expectedSubPatterns: ["slow_stage_3"],
+    note: "Ca/K=43.3 (> 40), Ca below calcium shell threshold",
+  },
+  {
+    id: "ECK_FAST_STAGE_1",
+    description: "Fast oxidation stage 1",
+    mineralValues: { Ca: 34, Mg: 5, Na: 55, K: 17 },
+    expectedType: "fast",
+    expectedSubPatterns: ["fast_stage_1"],
+    note: "Ca/K=2.0 (>= 1.5), K optimal so no sympathetic dominance",
+  },
+  {
+    id: "ECK_FAST_STAGE_2",
+    description: "Fast oxidation stage 2",
+    mineralValues: { Ca: 24, Mg: 4.5, Na: 55, K: 18 },
+    expectedType: "fast",
+    expectedSubPatterns: ["fast_stage_2"],
+    note: "Ca/K=1.33 (1.0-1.5)",
+  },
+  {
+    id: "ECK_FAST_STAGE_3",
+    description: "Fast oxidation stage 3",
+    mineralValues: { Ca: 15, Mg: 4.5, Na: 45, K: 17 },
+    expectedType: "fast",
+    expectedSubPatterns: ["fast_stage_3"],
+    note: "Ca/K=0.88 (< 1.0)",
+  },
 ];
 
 /**
@@ -190,6 +276,13 @@ export function getBoundaryTestCases(): OxidationTestCase[] {
   return OXIDATION_TEST_CASES.filter((tc) => tc.id.startsWith("BOUNDARY_"));
 }
 
+/**
+ * Get Eck sub-pattern test cases
+ */
+export function getEckSubPatternTestCases(): OxidationTestCase[] {
+  return OXIDATION_TEST_CASES.filter((tc) => tc.expectedSubPatterns);
+}
+
 /**
  * Get edge test cases
  */
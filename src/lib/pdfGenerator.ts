@@ -11,17 +11,22 @@
  * All insights are passed through applyGuardrails() before rendering to PDF,
  * ensuring medical/legal compliance regardless of how the PDF logic evolves.
  * This creates the final safety lock: API → Storage → PDF all guarded.
+ * Engine text and client-visible annotations get the same pass
+ * (contentSafety.ts), even when the snapshot was already guarded.
  */
 
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 import { ReportSnapshot, PractitionerAnnotation } from "./reportSnapshot";
-import { STATUS_COLORS } from "./htmaConstants";
+import { STATUS_COLORS, formatRatioIdealRange } from "./htmaConstants";
 import { applyGuardrails } from "./interpretationGuardrails";
+import { guardReportSections } from "./contentSafety";
 import { getScoreColor, getInterpretation } from "./healthScoreSemantics";
 import { getTEIDisclaimer } from "./teiInterpretationPrinciples";
 import { getECKNineRulesFormattedText } from "./eckInterpretationPrinciples";
 import { OxidationDelta } from "./oxidationDeltaEngine";
+import { formatTrendRate } from "./trendExplainer";
+import { getOxidationTypeLabel } from "./oxidationClassification";
 import {
   getConfidenceIcon,
   getConfidenceDescription,
@@ -31,14 +36,31 @@ import {
 /**
  * Generate a PDF report from an immutable ReportSnapshot
  *
- * @param snapshot - Immutable snapshot containing all report data
+ * @param sourceSnapshot - Immutable snapshot containing all report data
  * @param oxidationDelta - Optional oxidation pattern delta analysis
  * @returns Promise that resolves when PDF is generated and downloaded
  */
 export async function generateHTMAPDFReport(
-  snapshot: ReportSnapshot,
+  sourceSnapshot: ReportSnapshot,
   oxidationDelta?: OxidationDelta | null
 ): Promise<void> {
+  // === CONTENT SAFETY FOR ENGINE TEXT ===
+  // Render only guarded copies of the text sections, checked with the
+  // policy that was active when the snapshot was created
+  const policy = sourceSnapshot.guardrailsPolicy;
+  const guardedSections = guardReportSections(sourceSnapshot, {
+    audience: sourceSnapshot.metadata.isPractitionerMode
+      ? "practitioner"
+      : "consumer",
+    channel: "pdf",
+    policy,
+  });
+  const snapshot: ReportSnapshot = {
+    ...sourceSnapshot,
+    ...guardedSections.sections,
+    contentSafety: guardedSections.contentSafety,
+  };
+
   // Extract data from immutable snapshot (read-only)
   const { metadata, patientInfo, minerals, ratios, aiInsights } = snapshot;
 
@@ -95,7 +117,10 @@ export async function generateHTMAPDFReport(
     .filter((m) => m.status === "Low" || m.status === "High")
     .map((m) => m.symbol);
   const abnormalRatios = ratios
-    .filter((r) => r.status === "Low" || r.status === "High")
+    .filter(
+      (r) =>
+        r.role !== "display_only" && (r.status === "Low" || r.status === "High")
+    )
     .map((r) => r.name);
 
   // Apply interpretation guardrails
@@ -105,6 +130,7 @@ export async function generateHTMAPDFReport(
     ctx: {
       audience: metadata.isPractitionerMode ? "practitioner" : "consumer",
       channel: "pdf",
+      policy,
       evidence: {
         abnormalMinerals,
         abnormalRatios,
@@ -291,6 +317,52 @@ export async function generateHTMAPDFReport(
     );
     yPosition += 22;
 
+    // Panel completeness (partial panels are scored on provided values only)
+    const completeness = snapshot.healthScore.completeness;
+    if (completeness) {
+      doc.setFontSize(9);
+      doc.setFont("helvetica", completeness.isPartial ? "bold" : "normal");
+      if (completeness.isPartial) {
+        doc.setTextColor(180, 83, 9);
+      } else {
+        doc.setTextColor(80, 80, 80);
+      }
+      doc.text(
+        `${completeness.isPartial ? "Partial panel" : "Complete panel"}: ${
+          completeness.percent
+        }% evaluated (${completeness.mineralsEvaluated}/${
+          completeness.mineralsTotal
+        } minerals, ${completeness.ratiosEvaluated}/${
+          completeness.ratiosTotal
+        } ratios)`,
+        margin,
+        yPosition
+      );
+      yPosition += 5;
+
+      if (completeness.isPartial) {
+        doc.setFont("helvetica", "italic");
+        doc.setTextColor(80, 80, 80);
+        const notes = [
+          completeness.missingMinerals.length > 0
+            ? `Not measured: ${completeness.missingMinerals.join(", ")}.`
+            : "",
+          completeness.unevaluatedRatios.length > 0
+            ? `Ratios not evaluated: ${completeness.unevaluatedRatios.join(
+                ", "
+              )}.`
+            : "",
+          "Score is rescaled over the values provided; compare with full-panel scores carefully.",
+        ]
+          .filter(Boolean)
+          .join(" ");
+        const noteLines = doc.splitTextToSize(notes, pageWidth - 2 * margin);
+        doc.text(noteLines, margin, yPosition);
+        yPosition += noteLines.length * 4 + 2;
+      }
+      doc.setFont("helvetica", "normal");
+    }
+
     // Score breakdown (if practitioner mode)
     if (metadata.isPractitionerMode) {
       doc.setFontSize(9);
@@ -383,16 +455,24 @@ export async function generateHTMAPDFReport(
         // Bullet point
         doc.circle(margin + 2, yPosition - 1, 0.5, "F");
 
+        // Changes within lab variation are printed muted
+        const isWithinNoise = driver.significance === "within_noise";
+        const noteColor = isWithinNoise ? [150, 150, 150] : [0, 0, 0];
+
         // Driver note
         const noteLines = doc.splitTextToSize(
           driver.note,
           pageWidth - 2 * margin - 25
         );
+        doc.setTextColor(noteColor[0], noteColor[1], noteColor[2]);
         doc.text(noteLines[0], margin + 5, yPosition);
 
         // Impact points (colored)
-        const impactColor =
-          driver.impactPoints > 0 ? [34, 197, 94] : [239, 68, 68];
+        const impactColor = isWithinNoise
+          ? noteColor
+          : driver.impactPoints > 0
+          ? [34, 197, 94]
+          : [239, 68, 68];
         doc.setTextColor(impactColor[0], impactColor[1], impactColor[2]);
         doc.setFont("helvetica", "bold");
         doc.text(
@@ -401,7 +481,7 @@ export async function generateHTMAPDFReport(
           yPosition,
           { align: "right" }
         );
-        doc.setTextColor(0, 0, 0);
+        doc.setTextColor(noteColor[0], noteColor[1], noteColor[2]);
         doc.setFont("helvetica", "normal");
 
         yPosition += 6;
@@ -411,10 +491,12 @@ export async function generateHTMAPDFReport(
           if (checkPageBreak(6)) {
             doc.setFontSize(10);
             doc.setFont("helvetica", "normal");
+            doc.setTextColor(noteColor[0], noteColor[1], noteColor[2]);
           }
           doc.text(noteLines[i], margin + 5, yPosition);
           yPosition += 6;
         }
+        doc.setTextColor(0, 0, 0);
       });
 
       if (hasMultipleTypes) yPosition += 4;
@@ -444,16 +526,24 @@ export async function generateHTMAPDFReport(
         // Bullet point
         doc.circle(margin + 2, yPosition - 1, 0.5, "F");
 
+        // Changes within lab variation are printed muted
+        const isWithinNoise = driver.significance === "within_noise";
+        const noteColor = isWithinNoise ? [150, 150, 150] : [0, 0, 0];
+
         // Driver note
         const noteLines = doc.splitTextToSize(
           driver.note,
           pageWidth - 2 * margin - 25
         );
+        doc.setTextColor(noteColor[0], noteColor[1], noteColor[2]);
         doc.text(noteLines[0], margin + 5, yPosition);
 
         // Impact points (colored)
-        const impactColor =
-          driver.impactPoints > 0 ? [34, 197, 94] : [239, 68, 68];
+        const impactColor = isWithinNoise
+          ? noteColor
+          : driver.impactPoints > 0
+          ? [34, 197, 94]
+          : [239, 68, 68];
         doc.setTextColor(impactColor[0], impactColor[1], impactColor[2]);
         doc.setFont("helvetica", "bold");
         doc.text(
@@ -462,7 +552,7 @@ export async function generateHTMAPDFReport(
           yPosition,
           { align: "right" }
         );
-        doc.setTextColor(0, 0, 0);
+        doc.setTextColor(noteColor[0], noteColor[1], noteColor[2]);
         doc.setFont("helvetica", "normal");
 
         yPosition += 6;
@@ -472,10 +562,12 @@ export async function generateHTMAPDFReport(
           if (checkPageBreak(6)) {
             doc.setFontSize(10);
             doc.setFont("helvetica", "normal");
+            doc.setTextColor(noteColor[0], noteColor[1], noteColor[2]);
           }
           doc.text(noteLines[i], margin + 5, yPosition);
           yPosition += 6;
         }
+        doc.setTextColor(0, 0, 0);
       });
 
       if (hasMultipleTypes && flagDrivers.length > 0) yPosition += 4;
@@ -541,10 +633,16 @@ export async function generateHTMAPDFReport(
     }
 
     // Version info (subtle)
+    const hasNoiseDrivers = snapshot.scoreDelta.topDrivers.some(
+      (d) => d.significance === "within_noise"
+    );
     doc.setFontSize(7);
     doc.setTextColor(120, 120, 120);
     doc.text(
-      `Locked semantics (v${snapshot.scoreDelta.engine.semanticsVersion})`,
+      `Locked semantics (v${snapshot.scoreDelta.engine.semanticsVersion})` +
+        (hasNoiseDrivers
+          ? " | Grey items changed by less than typical lab variation between tests"
+          : ""),
       margin,
       yPosition + 3
     );
@@ -955,6 +1053,50 @@ export async function generateHTMAPDFReport(
     );
     contentY += 8;
 
+    // Least-squares fit (trend engine v1.1.0+)
+    const scoreTrend = snapshot.trendAnalysis.scoreTrend;
+    if (scoreTrend) {
+      doc.setFont("helvetica", "bold");
+      doc.text(
+        "Trend Fit (least squares over days between tests):",
+        margin + boxPadding,
+        contentY
+      );
+      contentY += 6;
+
+      doc.setFont("helvetica", "normal");
+      const { fit, projection } = scoreTrend;
+      const fitLines = [
+        `Rate: ${formatTrendRate(fit)} points per 30 days (95% CI)`,
+        `R²: ${fit.rSquared.toFixed(2)} | Tests: ${fit.n} | Slope SE: ${(
+          fit.slopeStandardError * 30
+        ).toFixed(2)} points per 30 days`,
+        `Next expected test (${new Date(
+          projection.date
+        ).toLocaleDateString()}): ${projection.predicted.toFixed(
+          0
+        )} points, 95% band ${projection.lower.toFixed(
+          0
+        )}-${projection.upper.toFixed(0)}`,
+      ];
+      fitLines.forEach((line) => {
+        doc.text(line, margin + boxPadding + 5, contentY);
+        contentY += 5;
+      });
+
+      doc.setFont("helvetica", "italic");
+      doc.setFontSize(7);
+      doc.setTextColor(100, 100, 100);
+      doc.text(
+        "The band is a statistical range if the past pattern continued, not a prediction of outcome.",
+        margin + boxPadding + 5,
+        contentY
+      );
+      doc.setFontSize(9);
+      doc.setTextColor(0, 0, 0);
+      contentY += 8;
+    }
+
     // Summary
     doc.setFont("helvetica", "bold");
     doc.text("Summary:", margin + boxPadding, contentY);
@@ -1018,6 +1160,59 @@ export async function generateHTMAPDFReport(
       contentY += 5;
     }
 
+    // Ratio trends (trend engine v1.2.0+)
+    const ratioTrends = snapshot.trendAnalysis.ratioTrends ?? [];
+    if (ratioTrends.length > 0) {
+      doc.setFont("helvetica", "bold");
+      doc.text("Ratio Trends:", margin + boxPadding, contentY);
+      contentY += 6;
+
+      doc.setFont("helvetica", "normal");
+      ratioTrends.forEach((trend) => {
+        const marker =
+          trend.direction === "toward_ideal"
+            ? "↑"
+            : trend.direction === "away_from_ideal"
+            ? "↓"
+            : "→";
+        const ratioLines = doc.splitTextToSize(
+          `${marker} ${trend.note}`,
+          pageWidth - 2 * margin - 2 * boxPadding - 5
+        );
+        ratioLines.forEach((line: string) => {
+          doc.text(line, margin + boxPadding + 5, contentY);
+          contentY += 5;
+        });
+      });
+
+      contentY += 5;
+    }
+
+    // Oxidation pattern sequence (trend engine v1.2.0+)
+    const trajectory = snapshot.trendAnalysis.oxidationTrajectory;
+    if (trajectory) {
+      doc.setFont("helvetica", "bold");
+      doc.text("Oxidation Pattern Sequence:", margin + boxPadding, contentY);
+      contentY += 6;
+
+      doc.setFont("helvetica", "normal");
+      const sequenceLines = doc.splitTextToSize(
+        [
+          trajectory.sequence
+            .map((entry) => getOxidationTypeLabel(entry.type))
+            .join(" → "),
+          trajectory.note,
+        ].join(". "),
+        pageWidth - 2 * margin - 2 * boxPadding - 5
+      );
+      sequenceLines.forEach((line: string) => {
+        doc.text(line, margin + boxPadding + 5, contentY);
+        contentY += 5;
+      });
+
+      contentY += 5;
+    }
+
     // Timespan info
     doc.setFillColor(254, 252, 232); // Very light yellow
     doc.roundedRect(
@@ -1069,13 +1264,40 @@ export async function generateHTMAPDFReport(
   doc.text("Mineral Levels & Reference Ranges", margin, yPosition);
   yPosition += 8;
 
+  // Values entered in another unit: show both, computed in mg%
+  const inputUnit = metadata.inputUnit;
+  const showEnteredUnit = Boolean(inputUnit && inputUnit !== "mg%");
+  if (showEnteredUnit) {
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "italic");
+    doc.setTextColor(80, 80, 80);
+    doc.text(
+      `Values were entered in ${inputUnit} and converted to mg% for analysis (1 mg% = 10 ${inputUnit}).`,
+      margin,
+      yPosition
+    );
+    yPosition += 6;
+  }
+
   // Use minerals from immutable snapshot
+  const statusColumnIndex = showEnteredUnit ? 4 : 3;
   autoTable(doc, {
     startY: yPosition,
-    head: [["Mineral", "Value", "Ideal Range", "Status"]],
+    head: [
+      showEnteredUnit
+        ? ["Mineral", `Entered (${inputUnit})`, "Value", "Ideal Range", "Status"]
+        : ["Mineral", "Value", "Ideal Range", "Status"],
+    ],
     body: minerals.map((m) => [
       `${m.name} (${m.symbol})`,
-      `${m.value.toFixed(3)} ${m.unit}`,
+      ...(showEnteredUnit
+        ? [
+            m.enteredValue !== undefined
+              ? `${m.enteredValue.toFixed(3)} ${inputUnit}`
+              : "-",
+          ]
+        : []),
+      m.value !== null ? `${m.value.toFixed(3)} ${m.unit}` : "-",
       `${m.minIdeal}-${m.maxIdeal} ${m.unit}`,
       m.status,
     ]),
@@ -1093,7 +1315,10 @@ export async function generateHTMAPDFReport(
       fillColor: [245, 245, 245],
     },
     didParseCell: function (data) {
-      if (data.section === "body" && data.column.index === 3) {
+      if (
+        data.section === "body" &&
+        data.column.index === statusColumnIndex
+      ) {
         const status = data.cell.raw as string;
         // Use constants for color consistency
         if (status === "Low" || status === "High") {
@@ -1121,12 +1346,13 @@ export async function generateHTMAPDFReport(
     // Use ratios from immutable snapshot
     autoTable(doc, {
       startY: yPosition,
-      head: [["Ratio", "Calculated", "Ideal Range", "Status"]],
+      head: [["Ratio", "Calculated", "Ideal Range", "Status", "Role"]],
       body: ratios.map((r) => [
         r.name,
         r.value.toFixed(2),
-        `${r.minIdeal}-${r.maxIdeal}`,
+        formatRatioIdealRange(r),
         r.status,
+        r.role === "display_only" ? "Display only" : "Scoring",
       ]),
       theme: "grid",
       headStyles: {
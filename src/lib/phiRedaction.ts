@@ -0,0 +1,389 @@
+/**
+ * HTMA Genius — PHI Redaction for Free Text
+ * Version: 1.2.0
+ * Reviewed: 2026-10-19
+ *
+ * validateNoPHI() (auditEvent.ts) only checks audit metadata keys. Free
+ * text - practitioner annotations, practitionerFeedback comments and
+ * annotationFeedback entries - often mentions the client. This module finds
+ * and redacts identifiers in that text:
+ * - email addresses, phone numbers, SSNs
+ * - medical record numbers ("MRN 00123456")
+ * - street addresses ("12 Oak Street")
+ * - dates of birth ("DOB: 03/14/1982") and other full dates
+ * - names after an honorific ("Mrs. Smith") or a label
+ *   ("client Jane Doe", "Patient: Mary Jones", "name: Jane")
+ * - unlabeled first and last names before a possessive or a mineral
+ *   ("John Smith's calcium", "Jane Doe magnesium")
+ *
+ * Where it runs:
+ * - before feedback is written to Firestore (PractitionerFeedbackInline,
+ *   AnnotationFeedback) and before an annotation is saved
+ *   (PractitionerAnnotationPanel)
+ * - before /api/analyze-feedback and /api/generate-suggestions process
+ *   comments, for documents written before this existed
+ *
+ * Detection is pattern-based and conservative: it catches the common forms,
+ * not every name. Known gaps and trade-offs:
+ * - an unlabeled name is only found before a possessive or a mineral;
+ *   "Spoke with John Smith today" is kept
+ * - single names without a label or honorific ("Jane's calcium") are kept
+ * - any two capitalized words before a possessive are taken for a name,
+ *   so "Dark Chocolate's magnesium" is redacted too
+ * - phone numbers need "-" or "." separators, "(555)" or a leading "+";
+ *   space-separated runs such as lab values "100 200 3000" are kept
+ * Reports carry counts per kind, never the redacted values.
+ *
+ * Allow-list: terms that are never redacted (e.g. "Dr. Paul Eck", cited in
+ * the interpretation content). DEFAULT_PHI_ALLOW_LIST plus the
+ * comma-separated NEXT_PUBLIC_PHI_ALLOW_LIST environment variable.
+ */
+
+import { MINERAL_REFERENCE_RANGES } from "./htmaConstants";
+
+export const PHI_REDACTION_VERSION = "1.2.0";
+
+export type PHIKind =
+  | "email"
+  | "phone"
+  | "ssn"
+  | "mrn"
+  | "address"
+  | "date_of_birth"
+  | "date"
+  | "name";
+
+/** HTMA authorities cited by name in the interpretation content */
+export const DEFAULT_PHI_ALLOW_LIST: ReadonlyArray<string> = [
+  "Dr. Paul Eck",
+  "Dr. Eck",
+  "Paul Eck",
+  "Dr. David L. Watts",
+  "Dr. David Watts",
+  "Dr. Watts",
+  "David Watts",
+];
+
+const REPLACEMENTS: Record<PHIKind, string> = {
+  email: "[email redacted]",
+  phone: "[phone redacted]",
+  ssn: "[ID number redacted]",
+  mrn: "[record number redacted]",
+  address: "[address redacted]",
+  date_of_birth: "[date of birth redacted]",
+  date: "[date redacted]",
+  name: "[name redacted]",
+};
+
+const KIND_LABELS: Record<PHIKind, string> = {
+  email: "email",
+  phone: "phone number",
+  ssn: "ID number",
+  mrn: "medical record number",
+  address: "address",
+  date_of_birth: "date of birth",
+  date: "date",
+  name: "name",
+};
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface PHIRedactionReport {
+  redactedCount: number;
+  byKind: Partial<Record<PHIKind, number>>;
+  /** Matches kept because they are on the allow-list */
+  allowListedCount: number;
+}
+
+export interface PHIRedactionResult {
+  text: string;
+  report: PHIRedactionReport;
+}
+
+export interface PHIRedactionOptions {
+  /** Replaces the configured allow-list (default getPHIAllowList()) */
+  allowList?: ReadonlyArray<string>;
+}
+
+interface PHIMatch {
+  kind: PHIKind;
+  start: number;
+  end: number;
+}
+
+// ============================================================================
+// DETECTORS
+// ============================================================================
+
+const MONTHS =
+  "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+
+/** 03/14/1982, 3-14-82, 1982-03-14, March 14, 1982, 14 March 1982 */
+const DATE_SOURCE = [
+  "\\d{1,2}[/.-]\\d{1,2}[/.-](?:\\d{4}|\\d{2})",
+  "\\d{4}-\\d{2}-\\d{2}",
+  `${MONTHS}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`,
+  `\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTHS}\\s+\\d{4}`,
+].join("|");
+
+const CAPITALIZED_NAME = "[A-Z][a-z]+(?:-[A-Z][a-z]+)?";
+
+/** "Calcium", "calcium" and "Ca" for every mineral */
+const MINERAL_WORDS = MINERAL_REFERENCE_RANGES.flatMap((range) => [
+  range.name,
+  range.name.toLowerCase(),
+  range.symbol,
+]).join("|");
+
+const STREET_SUFFIX =
+  "(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|" +
+  "Court|Ct|Way|Place|Pl)";
+
+/**
+ * Each detector's last capture group (or whole match) is the value to
+ * redact; leading context such as "DOB:" or "client" is kept
+ */
+const DETECTORS: ReadonlyArray<{ kind: PHIKind; pattern: RegExp }> = [
+  {
+    kind: "email",
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  },
+  {
+    kind: "mrn",
+    pattern:
+      /\b(?:MRN|medical record (?:number|no\.?|#))[:#\s]*([A-Z]?\d{5,})\b/gi,
+  },
+  { kind: "ssn", pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  // "555-123-4567", "555.123.4567", "(555) 123 4567", "+44 20 7946 0958";
+  // bare space-separated digits are lab values more often than phones
+  {
+    kind: "phone",
+    pattern:
+      /(?:\+1[\s.-]?|\b1[.-])?(?:\(\d{3}\)\s?\d{3}[\s.-]|\b\d{3}-\d{3}-|\b\d{3}\.\d{3}\.)\d{4}\b|\+\d{1,3}(?:[\s.-]?\d{2,4}){2,4}\b/g,
+  },
+  {
+    kind: "date_of_birth",
+    pattern: new RegExp(
+      `\\b(?:dob|d\\.o\\.b\\.?|date of birth|birth ?date|born(?: on)?)[:\\s]+(${DATE_SOURCE})`,
+      "gi"
+    ),
+  },
+  {
+    kind: "date",
+    pattern: new RegExp(
+      `\\b(\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{4}|\\d{4}-\\d{2}-\\d{2}|${MONTHS}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTHS}\\s+\\d{4})\\b`,
+      "gi"
+    ),
+  },
+  // "12 Oak Street", "350 5th Ave", "9 N. Main St"
+  {
+    kind: "address",
+    pattern: new RegExp(
+      `\\b\\d{1,5}\\s+(?:(?:[A-Z][a-z]*\\.?|\\d+(?:st|nd|rd|th))\\s+){1,3}${STREET_SUFFIX}\\b`,
+      "g"
+    ),
+  },
+  {
+    kind: "name",
+    pattern: new RegExp(
+      `\\b(?:Mr|Mrs|Ms|Miss|Mx|Dr)\\.?\\s+${CAPITALIZED_NAME}(?:\\s+${CAPITALIZED_NAME})?`,
+      "g"
+    ),
+  },
+  {
+    kind: "name",
+    pattern: new RegExp(
+      `\\b(?:[Nn]amed|[Nn]ame(?: is|:))\\s*(${CAPITALIZED_NAME}(?:\\s+${CAPITALIZED_NAME})?)`,
+      "g"
+    ),
+  },
+  // Needs first and last name: "client Jane Doe", not "client Jane"
+  {
+    kind: "name",
+    pattern: new RegExp(
+      `\\b(?:[Cc]lient|[Pp]atient)[:\\s]+(${CAPITALIZED_NAME}(?:\\s+${CAPITALIZED_NAME})+)`,
+      "g"
+    ),
+  },
+  // Unlabeled: "John Smith's calcium", "Jane Doe magnesium"
+  {
+    kind: "name",
+    pattern: new RegExp(
+      `\\b${CAPITALIZED_NAME}\\s+${CAPITALIZED_NAME}(?=['’]s\\b|\\s+(?:${MINERAL_WORDS})\\b)`,
+      "g"
+    ),
+  },
+];
+
+/** "patient Ca Mg ..." and "Low Calcium" are about minerals, not a person */
+const MINERAL_NAMES = new Set(
+  MINERAL_REFERENCE_RANGES.flatMap((range) => [range.symbol, range.name])
+);
+
+function isMineralReference(value: string): boolean {
+  return value.split(/\s+/).some((word) => MINERAL_NAMES.has(word));
+}
+
+/**
+ * The configured allow-list: defaults plus NEXT_PUBLIC_PHI_ALLOW_LIST
+ */
+export function getPHIAllowList(): string[] {
+  const configured = (process.env.NEXT_PUBLIC_PHI_ALLOW_LIST || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return Array.from(new Set([...DEFAULT_PHI_ALLOW_LIST, ...configured]));
+}
+
+/**
+ * Case-insensitive pattern for an allow-list entry; dots are optional and
+ * any whitespace matches ("Dr Paul  Eck" matches "Dr. Paul Eck")
+ */
+function allowListPattern(entry: string): RegExp {
+  const source = entry
+    .trim()
+    .split(/\s+/)
+    .map((word) =>
+      word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\\\./g, "\\.?")
+    )
+    .join("\\s+");
+  return new RegExp(`\\b${source}`, "gi");
+}
+
+function findRanges(text: string, pattern: RegExp): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const value = match[match.length - 1] ?? match[0];
+    // The value group ends the match, so it starts at end - value.length
+    const end = (match.index ?? 0) + match[0].length;
+    ranges.push([end - value.length, end]);
+  }
+  return ranges;
+}
+
+function overlaps(a: [number, number], b: [number, number]): boolean {
+  return a[0] < b[1] && b[0] < a[1];
+}
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+export function emptyPHIReport(): PHIRedactionReport {
+  return { redactedCount: 0, byKind: {}, allowListedCount: 0 };
+}
+
+/**
+ * Redact identifiers from free text. Redacted text is stable: running it
+ * again changes nothing.
+ */
+export function redactPHI(
+  text: string,
+  options: PHIRedactionOptions = {}
+): PHIRedactionResult {
+  const report = emptyPHIReport();
+  if (!text) return { text, report };
+
+  const allowList = options.allowList ?? getPHIAllowList();
+  const allowed = allowList.flatMap((entry) =>
+    entry.trim() ? findRanges(text, allowListPattern(entry)) : []
+  );
+
+  // First detector wins on overlap (emails before names, DOB before date)
+  const matches: PHIMatch[] = [];
+  DETECTORS.forEach(({ kind, pattern }) => {
+    findRanges(text, pattern).forEach((range) => {
+      if (matches.some((m) => overlaps([m.start, m.end], range))) return;
+      if (kind === "name" && isMineralReference(text.slice(...range))) return;
+      if (allowed.some((a) => overlaps(a, range))) {
+        report.allowListedCount++;
+        return;
+      }
+      matches.push({ kind, start: range[0], end: range[1] });
+    });
+  });
+
+  // Replace from the end so earlier offsets stay valid
+  let redacted = text;
+  matches
+    .sort((a, b) => b.start - a.start)
+    .forEach((match) => {
+      redacted =
+        redacted.slice(0, match.start) +
+        REPLACEMENTS[match.kind] +
+        redacted.slice(match.end);
+      report.redactedCount++;
+      report.byKind[match.kind] = (report.byKind[match.kind] ?? 0) + 1;
+    });
+
+  return { text: redacted, report };
+}
+
+/**
+ * Drop redaction placeholders, e.g. before keyword extraction so
+ * "name redacted" never surfaces as a feedback pattern
+ */
+export function stripPHIPlaceholders(text: string): string {
+  return Object.values(REPLACEMENTS).reduce(
+    (result, placeholder) => result.split(placeholder).join(" "),
+    text
+  );
+}
+
+export function mergePHIReports(
+  reports: ReadonlyArray<PHIRedactionReport>
+): PHIRedactionReport {
+  return reports.reduce((total, report) => {
+    total.redactedCount += report.redactedCount;
+    total.allowListedCount += report.allowListedCount;
+    (Object.keys(report.byKind) as PHIKind[]).forEach((kind) => {
+      total.byKind[kind] =
+        (total.byKind[kind] ?? 0) + (report.byKind[kind] ?? 0);
+    });
+    return total;
+  }, emptyPHIReport());
+}
+
+/**
+ * Redact the comment of each feedback document (other fields untouched)
+ */
+export function redactFeedbackComments<T extends Record<string, unknown>>(
+  items: ReadonlyArray<T>,
+  options: PHIRedactionOptions = {}
+): { items: T[]; report: PHIRedactionReport } {
+  const reports: PHIRedactionReport[] = [];
+  const redacted = items.map((item) => {
+    if (typeof item.comment !== "string" || !item.comment) return item;
+    const result = redactPHI(item.comment, options);
+    reports.push(result.report);
+    return { ...item, comment: result.text };
+  });
+  return { items: redacted, report: mergePHIReports(reports) };
+}
+
+/**
+ * One-line summary for practitioners, e.g.
+ * "Redacted 2 identifiers (email, phone number)"; null when nothing was
+ * redacted or allow-listed
+ */
+export function describePHIRedaction(
+  report: PHIRedactionReport
+): string | null {
+  const parts: string[] = [];
+  if (report.redactedCount > 0) {
+    const kinds = (Object.keys(report.byKind) as PHIKind[])
+      .map((kind) => KIND_LABELS[kind])
+      .join(", ");
+    parts.push(
+      `Redacted ${report.redactedCount} ${
+        report.redactedCount === 1 ? "identifier" : "identifiers"
+      } (${kinds})`
+    );
+  }
+  if (report.allowListedCount > 0) {
+    parts.push(`kept ${report.allowListedCount} allow-listed`);
+  }
+  return parts.length > 0 ? parts.join("; ") : null;
+}
@@ -0,0 +1,407 @@
+/**
+ * HTMA Genius — Practitioner Pattern Rule Engine
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Clinic-specific rules of thumb, written by practitioners instead of
+ * being hard-coded in the engines. A rule names a pattern and lists the
+ * conditions that must ALL hold, e.g.
+ *
+ *   Calcium shell (clinic) :  Ca > 100
+ *                             Mg > 10
+ *                             K < 4
+ *
+ * Conditions can test minerals, ratios (any "A/B" of known symbols),
+ * toxic elements and the oxidation type. Rule sets are stored per
+ * practitioner as immutable, numbered versions; every match records the
+ * rule set version it came from.
+ *
+ * Evaluation is deterministic: same rule set + same analysis = same
+ * matches, in rule order. A missing value never satisfies a condition.
+ *
+ * Purpose: Surfacing practitioner-defined patterns as evidence
+ * NOT a diagnosis - matches are shown to practitioners only
+ */
+
+import { z } from "zod";
+import {
+  MINERAL_REFERENCE_RANGES,
+  TOXIC_ELEMENT_REFERENCES,
+} from "./htmaConstants";
+import { MineralData, toMeasuredSymbolValues } from "./mineralModel";
+import { OxidationType } from "./oxidationClassification";
+
+export const PRACTITIONER_RULE_ENGINE_VERSION = "1.0.0";
+export const PRACTITIONER_RULE_ENGINE_REVIEWED_DATE = "2026-10-19";
+
+/** Upper bound per rule set, keeps evaluation and storage small */
+export const MAX_RULES_PER_SET = 50;
+
+// ============================================================================
+// SCHEMAS & TYPE DEFINITIONS
+// ============================================================================
+
+const MINERAL_SYMBOLS = MINERAL_REFERENCE_RANGES.map((m) => m.symbol);
+const TOXIC_SYMBOLS = TOXIC_ELEMENT_REFERENCES.map((t) => t.symbol);
+const KNOWN_SYMBOLS = [...MINERAL_SYMBOLS, ...TOXIC_SYMBOLS];
+const OXIDATION_TYPES: ReadonlyArray<OxidationType> = [
+  "fast",
+  "slow",
+  "mixed",
+  "balanced",
+];
+
+export const RuleComparatorSchema = z.enum([">", ">=", "<", "<="]);
+
+const ThresholdSchema = z.number().finite().nonnegative();
+
+export const RuleConditionSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("mineral"),
+    symbol: z
+      .string()
+      .refine((s) => MINERAL_SYMBOLS.includes(s), "Unknown mineral symbol"),
+    comparator: RuleComparatorSchema,
+    value: ThresholdSchema,
+  }),
+  z.object({
+    kind: z.literal("ratio"),
+    numerator: z
+      .string()
+      .refine((s) => KNOWN_SYMBOLS.includes(s), "Unknown element symbol"),
+    denominator: z
+      .string()
+      .refine((s) => KNOWN_SYMBOLS.includes(s), "Unknown element symbol"),
+    comparator: RuleComparatorSchema,
+    value: ThresholdSchema,
+  }),
+  z.object({
+    kind: z.literal("toxic"),
+    symbol: z
+      .string()
+      .refine((s) => TOXIC_SYMBOLS.includes(s), "Unknown toxic element"),
+    comparator: RuleComparatorSchema,
+    value: ThresholdSchema,
+  }),
+  z.object({
+    kind: z.literal("oxidation"),
+    types: z.array(z.enum(["fast", "slow", "mixed", "balanced"])).min(1),
+  }),
+]);
+
+export const PractitionerRuleSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1, "Rule name is required").max(80),
+  /** Pattern shown when the rule matches, e.g. "Calcium shell pattern" */
+  patternLabel: z.string().trim().min(1, "Pattern label is required").max(80),
+  conditions: z
+    .array(RuleConditionSchema)
+    .min(1, "A rule needs at least one condition")
+    .max(10),
+  enabled: z.boolean().default(true),
+  note: z.string().max(500).optional(),
+});
+
+export const PractitionerRulesSchema = z
+  .array(PractitionerRuleSchema)
+  .max(MAX_RULES_PER_SET)
+  .refine(
+    (rules) => new Set(rules.map((r) => r.id)).size === rules.length,
+    "Rule ids must be unique"
+  );
+
+export type RuleComparator = z.infer<typeof RuleComparatorSchema>;
+export type RuleCondition = z.infer<typeof RuleConditionSchema>;
+export type PractitionerRule = z.infer<typeof PractitionerRuleSchema>;
+
+/**
+ * One stored version of a practitioner's rules (never edited in place)
+ */
+export interface PractitionerRuleSet {
+  practitionerId: string;
+  version: number;
+  rules: PractitionerRule[];
+  createdAt: string; // ISO 8601
+  changeNote?: string;
+  engineVersion: string;
+}
+
+/**
+ * Values a rule set is evaluated against (mg%, measured values only)
+ */
+export interface RuleEvaluationInput {
+  minerals: Record<string, number>;
+  toxicElements: Record<string, number>;
+  oxidationType?: OxidationType;
+}
+
+export interface PractitionerRuleMatch {
+  ruleId: string;
+  ruleName: string;
+  patternLabel: string;
+  ruleSetVersion: number;
+  /** One line per condition with the actual value, e.g. "Ca 120 > 100" */
+  evidence: string[];
+}
+
+export interface PractitionerRuleEvaluation {
+  engineVersion: string;
+  ruleSetVersion: number;
+  evaluatedRuleCount: number;
+  matches: PractitionerRuleMatch[];
+}
+
+// ============================================================================
+// CONDITION TEXT FORMAT
+// ============================================================================
+
+/**
+ * Human-readable condition, also the text format accepted by
+ * parseRuleCondition (round-trips)
+ */
+export function formatRuleCondition(condition: RuleCondition): string {
+  switch (condition.kind) {
+    case "mineral":
+    case "toxic":
+      return `${condition.symbol} ${condition.comparator} ${condition.value}`;
+    case "ratio":
+      return `${condition.numerator}/${condition.denominator} ${condition.comparator} ${condition.value}`;
+    case "oxidation":
+      return `oxidation is ${condition.types.join(" or ")}`;
+  }
+}
+
+/**
+ * Parse one condition line:
+ * - "Ca > 100"               mineral
+ * - "Pb >= 0.5"              toxic element
+ * - "Ca/Mg < 4"              ratio of any two known symbols
+ * - "oxidation is slow or mixed"
+ */
+export function parseRuleCondition(
+  text: string
+): { condition: RuleCondition } | { error: string } {
+  const line = text.trim();
+
+  const oxidationMatch = /^oxidation\s+(?:is|in|=)\s+(.+)$/i.exec(line);
+  if (oxidationMatch) {
+    const types = oxidationMatch[1]
+      .split(/\s*(?:,|\bor\b)\s*/i)
+      .map((t) => t.trim().toLowerCase())
+      .filter((t) => t.length > 0);
+    const unknown = types.filter(
+      (t) => !OXIDATION_TYPES.includes(t as OxidationType)
+    );
+    if (types.length === 0 || unknown.length > 0) {
+      return {
+        error: `Unknown oxidation type "${unknown[0] ?? ""}" (use ${OXIDATION_TYPES.join(", ")})`,
+      };
+    }
+    return {
+      condition: { kind: "oxidation", types: types as OxidationType[] },
+    };
+  }
+
+  const comparisonMatch =
+    /^([A-Za-z]{1,2})(?:\s*\/\s*([A-Za-z]{1,2}))?\s*(>=|<=|>|<)\s*(\d+(?:\.\d+)?)$/.exec(
+      line
+    );
+  if (!comparisonMatch) {
+    return {
+      error: `Cannot read "${line}" - use e.g. "Ca > 100", "Ca/Mg < 4" or "oxidation is slow"`,
+    };
+  }
+
+  const [, first, second, comparator, rawValue] = comparisonMatch;
+  const value = Number(rawValue);
+  const numerator = normalizeSymbol(first);
+  if (!numerator) return { error: `Unknown element "${first}"` };
+
+  if (second !== undefined) {
+    const denominator = normalizeSymbol(second);
+    if (!denominator) return { error: `Unknown element "${second}"` };
+    return {
+      condition: {
+        kind: "ratio",
+        numerator,
+        denominator,
+        comparator: comparator as RuleComparator,
+        value,
+      },
+    };
+  }
+
+  return {
+    condition: {
+      kind: TOXIC_SYMBOLS.includes(numerator) ? "toxic" : "mineral",
+      symbol: numerator,
+      comparator: comparator as RuleComparator,
+      value,
+    },
+  };
+}
+
+/**
+ * Parse a block of conditions, one per line (blank lines ignored)
+ */
+export function parseRuleConditions(text: string): {
+  conditions: RuleCondition[];
+  errors: string[];
+} {
+  const conditions: RuleCondition[] = [];
+  const errors: string[] = [];
+
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .forEach((line, i) => {
+      const result = parseRuleCondition(line);
+      if ("error" in result) {
+        errors.push(`Line ${i + 1}: ${result.error}`);
+      } else {
+        conditions.push(result.condition);
+      }
+    });
+
+  return { conditions, errors };
+}
+
+/**
+ * Case-insensitive match against known mineral and toxic symbols
+ */
+function normalizeSymbol(raw: string): string | null {
+  return (
+    KNOWN_SYMBOLS.find((s) => s.toLowerCase() === raw.toLowerCase()) ?? null
+  );
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function compare(
+  actual: number,
+  comparator: RuleComparator,
+  threshold: number
+): boolean {
+  switch (comparator) {
+    case ">":
+      return actual > threshold;
+    case ">=":
+      return actual >= threshold;
+    case "<":
+      return actual < threshold;
+    case "<=":
+      return actual <= threshold;
+  }
+}
+
+function formatActual(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+function getElementValue(
+  input: RuleEvaluationInput,
+  symbol: string
+): number | undefined {
+  return input.minerals[symbol] ?? input.toxicElements[symbol];
+}
+
+/**
+ * Evaluate one condition; evidence is null when the condition is not met
+ */
+function evaluateCondition(
+  condition: RuleCondition,
+  input: RuleEvaluationInput
+): string | null {
+  switch (condition.kind) {
+    case "mineral":
+    case "toxic": {
+      const actual = getElementValue(input, condition.symbol);
+      if (actual === undefined) return null;
+      return compare(actual, condition.comparator, condition.value)
+        ? `${condition.symbol} ${formatActual(actual)} ${condition.comparator} ${condition.value}`
+        : null;
+    }
+    case "ratio": {
+      const numerator = getElementValue(input, condition.numerator);
+      const denominator = getElementValue(input, condition.denominator);
+      if (numerator === undefined || !denominator) return null;
+      const actual = numerator / denominator;
+      return compare(actual, condition.comparator, condition.value)
+        ? `${condition.numerator}/${condition.denominator} ${formatActual(
+            actual
+          )} ${condition.comparator} ${condition.value}`
+        : null;
+    }
+    case "oxidation":
+      return input.oxidationType &&
+        condition.types.includes(input.oxidationType)
+        ? `Oxidation type ${input.oxidationType}`
+        : null;
+  }
+}
+
+/**
+ * Build evaluation input from a mineral panel (mg%), optional toxic
+ * elements and the classified oxidation type
+ */
+export function buildRuleEvaluationInput(
+  mineralData: MineralData,
+  toxicElements?: ReadonlyArray<{ key: string; value: number }>,
+  oxidationType?: OxidationType
+): RuleEvaluationInput {
+  const toxicValues: Record<string, number> = {};
+  toxicElements?.forEach((t) => {
+    if (Number.isFinite(t.value)) toxicValues[t.key] = t.value;
+  });
+
+  return {
+    minerals: toMeasuredSymbolValues(mineralData),
+    toxicElements: toxicValues,
+    oxidationType,
+  };
+}
+
+/**
+ * Run every enabled rule in a rule set against one analysis
+ *
+ * A rule matches when ALL of its conditions hold.
+ */
+export function evaluatePractitionerRules(
+  ruleSet: Pick<PractitionerRuleSet, "version" | "rules">,
+  input: RuleEvaluationInput
+): PractitionerRuleEvaluation {
+  const enabledRules = ruleSet.rules.filter((rule) => rule.enabled);
+  const matches: PractitionerRuleMatch[] = [];
+
+  enabledRules.forEach((rule) => {
+    const evidence = rule.conditions.map((c) => evaluateCondition(c, input));
+    if (evidence.every((e): e is string => e !== null)) {
+      matches.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        patternLabel: rule.patternLabel,
+        ruleSetVersion: ruleSet.version,
+        evidence,
+      });
+    }
+  });
+
+  return {
+    engineVersion: PRACTITIONER_RULE_ENGINE_VERSION,
+    ruleSetVersion: ruleSet.version,
+    evaluatedRuleCount: enabledRules.length,
+    matches,
+  };
+}
+
+/**
+ * One-line description of a match, used as confidence evidence
+ */
+export function describeRuleMatch(match: PractitionerRuleMatch): string {
+  return `${match.patternLabel} (practitioner rule "${
+    match.ruleName
+  }", v${match.ruleSetVersion}): ${match.evidence.join(", ")}`;
+}
@@ -6,9 +6,11 @@
  * - Impact analysis when ranges are updated
  * - Migration of old analyses to new ranges
  * - Audit trail for clinical compliance
+ * - Oxidation classification thresholds per version (v1.8.0)
+ * - One active version for every analysis, configurable (v1.8.1)
  *
  * @module rangeVersionEngine
- * @version 1.7.0
+ * @version 1.8.1
  */
 
 import { v4 as uuidv4 } from "uuid";
@@ -17,6 +19,7 @@ import {
   RangeChange,
   RangeChangeType,
   RangeVersionStats,
+  OxidationThresholds,
 } from "./reportSnapshot";
 import {
   MINERAL_REFERENCE_RANGES,
@@ -57,6 +60,9 @@ export interface CreateVersionParams {
 
   /** Complete mineral ranges for this version */
   mineralRanges: ReadonlyArray<MineralReferenceRange>;
+
+  /** Oxidation thresholds (derived from mineralRanges when omitted) */
+  oxidationThresholds?: OxidationThresholds;
 }
 
 /**
@@ -85,6 +91,9 @@ export function createReferenceRangeVersion(
       maxIdeal: range.maxIdeal,
       unit: range.unit,
     })),
+    oxidationThresholds:
+      params.oxidationThresholds ??
+      deriveOxidationThresholds(params.mineralRanges),
   };
 }
 
@@ -101,9 +110,145 @@ export function createInitialVersion(createdBy: string): ReferenceRangeVersion {
     createdBy,
     notes: "Initial reference ranges imported from TEI standards",
     mineralRanges: [...MINERAL_REFERENCE_RANGES],
+    oxidationThresholds: CALIBRATED_OXIDATION_THRESHOLDS,
   });
 }
 
+// ============================================================================
+// OXIDATION THRESHOLDS
+// ============================================================================
+
+/**
+ * Ratio boundaries used by the oxidation engine
+ */
+export const DEFAULT_OXIDATION_RATIO_THRESHOLDS: OxidationThresholds["ratios"] =
+  {
+    caK: { fast: 2.5, slow: 10 }, // <2.5 = fast, >10 = slow
+    naK: { fast: 2.8, slow: 1.8 }, // >2.8 = fast, <1.8 = slow
+    caMg: { fast: 6, slow: 10 }, // <6 = fast, >10 = slow
+  };
+
+/**
+ * Thresholds the oxidation engine was calibrated against (OXIDATION_TEST_CASES).
+ * Mineral boundaries are wider than MINERAL_REFERENCE_RANGES for Ca, Mg, Na
+ * and K; the initial version records them explicitly.
+ */
+export const CALIBRATED_OXIDATION_THRESHOLDS: OxidationThresholds = {
+  minerals: {
+    Ca: { low: 35, high: 55 },
+    Mg: { low: 4.0, high: 7.0 },
+    Na: { low: 20, high: 50 },
+    K: { low: 8, high: 18 },
+  },
+  ratios: DEFAULT_OXIDATION_RATIO_THRESHOLDS,
+};
+
+/**
+ * Build oxidation thresholds from a version's mineral ranges, so the
+ * oxidation engine uses the same Ca/Mg/Na/K boundaries as the rest of the
+ * analysis
+ */
+export function deriveOxidationThresholds(
+  mineralRanges: ReferenceRangeVersion["mineralRanges"],
+  ratios: OxidationThresholds["ratios"] = DEFAULT_OXIDATION_RATIO_THRESHOLDS
+): OxidationThresholds {
+  const boundary = (symbol: string) => {
+    const range =
+      mineralRanges.find((r) => r.symbol === symbol) ??
+      MINERAL_REFERENCE_RANGES.find((r) => r.symbol === symbol)!;
+    return { low: range.minIdeal, high: range.maxIdeal };
+  };
+
+  return {
+    minerals: {
+      Ca: boundary("Ca"),
+      Mg: boundary("Mg"),
+      Na: boundary("Na"),
+      K: boundary("K"),
+    },
+    ratios,
+  };
+}
+
+/**
+ * Oxidation thresholds for a version (versions stored without the section
+ * derive it from their mineral ranges)
+ */
+export function getOxidationThresholds(
+  version: ReferenceRangeVersion
+): OxidationThresholds {
+  return (
+    version.oxidationThresholds ?? deriveOxidationThresholds(version.mineralRanges)
+  );
+}
+
+/**
+ * Built-in versions are constants: createdAt is the effective date rather
+ * than "now", so they are identical on every load
+ */
+function createFixedVersion(
+  params: CreateVersionParams,
+  isActive: boolean
+): ReferenceRangeVersion {
+  return {
+    ...createReferenceRangeVersion(params),
+    createdAt: params.effectiveDate,
+    isActive,
+  };
+}
+
+/**
+ * Built-in initial version - the active version unless
+ * NEXT_PUBLIC_REFERENCE_RANGE_VERSION selects another
+ */
+export const DEFAULT_REFERENCE_RANGE_VERSION: ReferenceRangeVersion =
+  createFixedVersion(
+    {
+      version: "1.0.0",
+      name: "TEI Standard Ranges (Initial)",
+      standard: "TEI (Trace Elements Inc.)",
+      effectiveDate: "2025-12-21T00:00:00.000Z",
+      changes: [],
+      createdBy: "system",
+      notes: "Initial reference ranges imported from TEI standards",
+      mineralRanges: [...MINERAL_REFERENCE_RANGES],
+      oxidationThresholds: CALIBRATED_OXIDATION_THRESHOLDS,
+    },
+    true
+  );
+
+/**
+ * Inactive candidate version whose oxidation mineral boundaries match
+ * MINERAL_REFERENCE_RANGES. Lets practitioners run the oxidation test cases
+ * against aligned thresholds before adopting them.
+ *
+ * It stays inactive because it classifies fewer OXIDATION_TEST_CASES
+ * correctly than the calibrated thresholds (22 of 30 against 25 of 30);
+ * deployments opt in with NEXT_PUBLIC_REFERENCE_RANGE_VERSION=1.1.0.
+ */
+export const ALIGNED_OXIDATION_RANGE_VERSION: ReferenceRangeVersion =
+  createFixedVersion(
+    {
+      version: "1.1.0",
+      name: "TEI Standard Ranges (Aligned Oxidation Thresholds)",
+      standard: "TEI (Trace Elements Inc.)",
+      effectiveDate: "2026-10-19T00:00:00.000Z",
+      supersedes: "1.0.0",
+      changes: [],
+      createdBy: "system",
+      notes:
+        "Oxidation Ca/Mg/Na/K boundaries derived from the mineral reference ranges (candidate, not active)",
+      mineralRanges: [...MINERAL_REFERENCE_RANGES],
+    },
+    false
+  );
+
+/**
+ * Versions the oxidation validation page offers out of the box
+ */
+export const BUILT_IN_REFERENCE_RANGE_VERSIONS: ReadonlyArray<ReferenceRangeVersion> =
+  [DEFAULT_REFERENCE_RANGE_VERSION, ALIGNED_OXIDATION_RANGE_VERSION];
+
 /**
  * Mark a version as deprecated
  */
@@ -520,6 +665,31 @@ export function getActiveVersion(
   return versions.find((v) => v.isActive && !v.deprecatedAt);
 }
 
+/**
+ * The reference range version every analysis runs against: the version
+ * named by NEXT_PUBLIC_REFERENCE_RANGE_VERSION (e.g. "1.1.0"), otherwise
+ * the active one. Entry points (API routes, pages) resolve it once and pass
+ * it to the oxidation engine; results and saved analyses record it.
+ *
+ * @param versions - Versions to choose from (default: built-in versions)
+ */
+export function getActiveReferenceRangeVersion(
+  versions: ReadonlyArray<ReferenceRangeVersion> = BUILT_IN_REFERENCE_RANGE_VERSIONS
+): ReferenceRangeVersion {
+  const configured = process.env.NEXT_PUBLIC_REFERENCE_RANGE_VERSION;
+  const selected = configured
+    ? getVersionById(versions, configured.trim())
+    : undefined;
+  if (configured && !selected) {
+    console.warn(
+      `⚠️ Unknown NEXT_PUBLIC_REFERENCE_RANGE_VERSION "${configured}", using the active version`
+    );
+  }
+  return (
+    selected ?? getActiveVersion(versions) ?? DEFAULT_REFERENCE_RANGE_VERSION
+  );
+}
+
 /**
  * Get version by identifier
  */
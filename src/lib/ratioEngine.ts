@@ -9,13 +9,20 @@
  */
 
 import {
+  RATIO_REGISTRY,
   RATIO_REFERENCE_RANGES,
   RatioReferenceRange,
+  RatioRole,
   MineralStatus,
   getRatioStatus,
   calculateRatio,
   ANALYSIS_ENGINE_VERSION,
 } from "./htmaConstants";
+import {
+  MineralUnit,
+  CANONICAL_UNIT,
+  toCanonicalValues,
+} from "./unitConversion";
 
 // ============================================================================
 // RATIO RESULT INTERFACE
@@ -46,6 +53,12 @@ export interface RatioResult {
   /** Clinical significance / interpretation key */
   readonly interpretationKey: string;
 
+  /** Scoring or display-only (display-only ratios never affect the health score) */
+  readonly role: RatioRole;
+
+  /** True when only the lower bound applies (protective-to-toxic ratios) */
+  readonly minimumOnly: boolean;
+
   /** Engine version used for this calculation */
   readonly engineVersion: string;
 }
@@ -66,6 +79,13 @@ export interface MineralValues {
   readonly [key: string]: number;
 }
 
+/**
+ * Symbol-keyed values where a mineral that was not measured is absent
+ * (see toMeasuredSymbolValues). Ratios that use an absent mineral are left
+ * out of the results rather than calculated from 0.
+ */
+export type MeasuredMineralValues = Readonly<Record<string, number>>;
+
 // ============================================================================
 // RATIO CALCULATION ENGINE
 // ============================================================================
@@ -81,13 +101,17 @@ export interface MineralValues {
  */
 export function calculateRatioResult(
   ratioRef: RatioReferenceRange,
-  mineralValues: MineralValues
+  mineralValues: MeasuredMineralValues
 ): RatioResult {
   const numeratorValue = mineralValues[ratioRef.numeratorSymbol] || 0;
   const denominatorValue = mineralValues[ratioRef.denominatorSymbol] || 0;
 
   const value = calculateRatio(numeratorValue, denominatorValue);
-  const status = getRatioStatus(value, ratioRef.minIdeal, ratioRef.maxIdeal);
+  const status = ratioRef.minimumOnly
+    ? value >= ratioRef.minIdeal
+      ? "Optimal"
+      : "Low"
+    : getRatioStatus(value, ratioRef.minIdeal, ratioRef.maxIdeal);
 
   return {
     name: ratioRef.name,
@@ -98,25 +122,70 @@ export function calculateRatioResult(
     idealMax: ratioRef.maxIdeal,
     status,
     interpretationKey: ratioRef.clinicalSignificance,
+    role: ratioRef.role,
+    minimumOnly: ratioRef.minimumOnly === true,
     engineVersion: ANALYSIS_ENGINE_VERSION,
   };
 }
 
 /**
- * Calculate all 6 critical ratios
+ * Whether a registry ratio should be calculated for these values
+ *
+ * Every ratio needs both elements measured (present in the map); a missing
+ * mineral is never treated as 0. Display-only ratios additionally need both
+ * values above zero.
+ */
+function isRatioCalculable(
+  ratioRef: RatioReferenceRange,
+  mineralValues: MeasuredMineralValues
+): boolean {
+  const numerator = mineralValues[ratioRef.numeratorSymbol];
+  const denominator = mineralValues[ratioRef.denominatorSymbol];
+  if (numerator === undefined || denominator === undefined) return false;
+  if (ratioRef.role === "scoring") return true;
+  return numerator > 0 && denominator > 0;
+}
+
+/**
+ * Calculate the scoring ratios plus any calculable display-only ratios
  *
  * This is the ONLY function that should be used to calculate ratios
  * throughout the application. Ensures consistency and traceability.
  *
- * @param mineralValues - Map of mineral symbols to values
- * @returns Array of all ratio results in display order
+ * @param mineralValues - Map of mineral symbols to measured values (may
+ *   include toxic element symbols, see withToxicElementValues). Ratios
+ *   that use a mineral absent from the map are left out.
+ * @param unit - Unit the values are in (converted to mg% before calculation)
+ * @returns Array of all calculable ratio results in display order
  */
 export function calculateAllRatios(
-  mineralValues: MineralValues
+  mineralValues: MeasuredMineralValues,
+  unit: MineralUnit = CANONICAL_UNIT
 ): ReadonlyArray<RatioResult> {
-  return RATIO_REFERENCE_RANGES.map((ratioRef) =>
-    calculateRatioResult(ratioRef, mineralValues)
-  );
+  const canonicalValues = toCanonicalValues(mineralValues, unit);
+  return RATIO_REGISTRY.filter((ratioRef) =>
+    isRatioCalculable(ratioRef, canonicalValues)
+  ).map((ratioRef) => calculateRatioResult(ratioRef, canonicalValues));
+}
+
+/**
+ * Add toxic element values to a mineral value map so the toxic-to-protective
+ * ratios (Zn/Cd, Fe/Pb, Se/Hg, Ca/Pb, S/Hg) can be calculated
+ *
+ * @param mineralValues - Map of mineral symbols to values
+ * @param toxicElements - Toxic elements keyed by symbol (e.g. from a lab report)
+ */
+export function withToxicElementValues(
+  mineralValues: MeasuredMineralValues,
+  toxicElements?: ReadonlyArray<{ key: string; value: number }>
+): MeasuredMineralValues {
+  if (!toxicElements || toxicElements.length === 0) return mineralValues;
+
+  const combined: Record<string, number> = {};
+  toxicElements.forEach((element) => {
+    combined[element.key] = element.value;
+  });
+  return { ...combined, ...mineralValues };
 }
 
 /**
@@ -130,7 +199,7 @@ export function getRatioByName(
   ratioName: string,
   mineralValues: MineralValues
 ): RatioResult | undefined {
-  const ratioRef = RATIO_REFERENCE_RANGES.find((r) => r.name === ratioName);
+  const ratioRef = RATIO_REGISTRY.find((r) => r.name === ratioName);
   if (!ratioRef) return undefined;
 
   return calculateRatioResult(ratioRef, mineralValues);
@@ -0,0 +1,193 @@
+/**
+ * HTMA Genius — Reference Change Value (RCV) Model
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Hair mineral results vary between repeat tests of the same sample. This
+ * module decides whether a change between two tests is larger than that
+ * analytical variation, so delta explainers don't present measurement
+ * jitter as real change.
+ *
+ * Reference change value (two results, same analytical CV):
+ *   RCV% = z × √2 × CV%
+ *
+ * A change is classified as:
+ * - within_noise:       |change| < RCV at z = 1.28 (80%)
+ * - possible_change:    between the 80% and 95% RCVs
+ * - significant_change: |change| ≥ RCV at z = 1.96 (95%)
+ *
+ * Ratio CVs combine numerator and denominator CVs: √(CVa² + CVb²).
+ *
+ * Purpose: Measurement-aware interpretation of change
+ * NOT a diagnosis or a statement about clinical relevance
+ */
+
+export const REFERENCE_CHANGE_MODEL_VERSION = "1.0.0";
+export const REFERENCE_CHANGE_MODEL_REVIEWED_DATE = "2026-10-19";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ChangeSignificance =
+  | "within_noise"
+  | "possible_change"
+  | "significant_change";
+
+export interface ChangeAssessment {
+  significance: ChangeSignificance;
+  /** Signed percent change from the previous value (null if previous was 0) */
+  percentChange: number | null;
+  /** RCV (%) at 80% - below this the change is within noise */
+  possibleRcv: number;
+  /** RCV (%) at 95% - at or above this the change is significant */
+  significantRcv: number;
+}
+
+// ============================================================================
+// ANALYTICAL VARIATION (Locked)
+// ============================================================================
+
+/**
+ * Analytical coefficient of variation (%) per mineral, from repeat
+ * measurements of the same hair sample
+ */
+export const ANALYTICAL_CV: Readonly<Record<string, number>> = {
+  Ca: 5,
+  Mg: 6,
+  Na: 10,
+  K: 10,
+  P: 5,
+  Cu: 8,
+  Zn: 6,
+  Fe: 12,
+  Mn: 15,
+  Cr: 15,
+  Se: 10,
+  B: 12,
+  Co: 15,
+  Mo: 15,
+  S: 4,
+};
+
+/** CV used for elements without a locked analytical CV */
+const DEFAULT_CV = 15;
+
+const Z_POSSIBLE = 1.28; // 80% two-sided
+const Z_SIGNIFICANT = 1.96; // 95% two-sided
+
+// ============================================================================
+// CORE CALCULATIONS
+// ============================================================================
+
+/**
+ * Analytical CV (%) for a mineral symbol
+ */
+export function getAnalyticalCV(symbol: string): number {
+  return ANALYTICAL_CV[symbol] ?? DEFAULT_CV;
+}
+
+/**
+ * Combined CV (%) for a ratio name such as "Ca/Mg"
+ */
+export function getRatioCV(ratioName: string): number {
+  const [numerator, denominator] = ratioName.split("/");
+  const cvA = getAnalyticalCV(numerator);
+  const cvB = getAnalyticalCV(denominator);
+  return Math.sqrt(cvA * cvA + cvB * cvB);
+}
+
+/**
+ * Reference change value (%) for a CV at a given z
+ */
+export function calculateRCV(cv: number, z: number = Z_SIGNIFICANT): number {
+  return z * Math.SQRT2 * cv;
+}
+
+/**
+ * Classify a change between two results with the given CV
+ */
+export function assessChange(
+  previous: number,
+  current: number,
+  cv: number
+): ChangeAssessment {
+  const possibleRcv = round1(calculateRCV(cv, Z_POSSIBLE));
+  const significantRcv = round1(calculateRCV(cv, Z_SIGNIFICANT));
+
+  if (!Number.isFinite(previous) || !Number.isFinite(current)) {
+    return {
+      significance: "within_noise",
+      percentChange: null,
+      possibleRcv,
+      significantRcv,
+    };
+  }
+
+  // No baseline to compare against: only "nothing to something" is real
+  if (previous <= 0) {
+    return {
+      significance: current > 0 ? "significant_change" : "within_noise",
+      percentChange: null,
+      possibleRcv,
+      significantRcv,
+    };
+  }
+
+  const percentChange = ((current - previous) / previous) * 100;
+  const magnitude = Math.abs(percentChange);
+
+  const significance: ChangeSignificance =
+    magnitude >= significantRcv
+      ? "significant_change"
+      : magnitude >= possibleRcv
+      ? "possible_change"
+      : "within_noise";
+
+  return {
+    significance,
+    percentChange: round1(percentChange),
+    possibleRcv,
+    significantRcv,
+  };
+}
+
+/**
+ * Classify a mineral change (e.g., "Ca" 42 → 47)
+ */
+export function assessMineralChange(
+  symbol: string,
+  previous: number,
+  current: number
+): ChangeAssessment {
+  return assessChange(previous, current, getAnalyticalCV(symbol));
+}
+
+/**
+ * Classify a ratio change (e.g., "Ca/Mg" 6.8 → 7.6)
+ */
+export function assessRatioChange(
+  ratioName: string,
+  previous: number,
+  current: number
+): ChangeAssessment {
+  return assessChange(previous, current, getRatioCV(ratioName));
+}
+
+// ============================================================================
+// DISPLAY HELPERS
+// ============================================================================
+
+export function getChangeSignificanceLabel(
+  significance: ChangeSignificance
+): string {
+  return {
+    within_noise: "Within lab variation",
+    possible_change: "Possible change",
+    significant_change: "Significant change",
+  }[significance];
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
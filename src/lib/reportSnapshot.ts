@@ -8,13 +8,17 @@
  * audit trail capabilities for legal and clinical compliance.
  */
 
-import { MineralStatus } from "./htmaConstants";
+import { MineralStatus, RatioRole } from "./htmaConstants";
 import { ScoreDeltaExplanation } from "./scoreDeltaExplainer";
 import { HealthScoreBreakdown } from "./healthScore";
 import { ChangeFocusSummary } from "./changeCoachingEngine";
 import { TrendExplanation } from "./trendExplainer";
 import { OxidationClassification } from "./oxidationClassification";
 import { ConfidenceScore } from "./aiConfidenceScoring";
+import { PractitionerRuleMatch } from "./practitionerRuleEngine";
+import { MineralUnit } from "./unitConversion";
+import { ReportContentSafety } from "./contentSafety";
+import { GuardrailsPolicy } from "./interpretationGuardrails";
 
 // ============================================================================
 // PRACTITIONER ANNOTATIONS (v1.6.0)
@@ -178,6 +182,43 @@ export interface ReferenceRangeVersion {
     readonly maxIdeal: number;
     readonly unit: string;
   }>;
+
+  /**
+   * Thresholds used by the oxidation classification engine (optional, added
+   * v1.8.0). Versions stored without it derive it from mineralRanges.
+   */
+  readonly oxidationThresholds?: OxidationThresholds;
+}
+
+/**
+ * Low/high boundaries (mg%) for one oxidation mineral
+ */
+export interface OxidationMineralThreshold {
+  readonly low: number;
+  readonly high: number;
+}
+
+/**
+ * Oxidation classification thresholds for a reference range version
+ */
+export interface OxidationThresholds {
+  /** Ca, Mg, Na, K status boundaries */
+  readonly minerals: {
+    readonly Ca: OxidationMineralThreshold;
+    readonly Mg: OxidationMineralThreshold;
+    readonly Na: OxidationMineralThreshold;
+    readonly K: OxidationMineralThreshold;
+  };
+
+  /** Ratio signal boundaries */
+  readonly ratios: {
+    /** < fast = fast signal, > slow = slow signal */
+    readonly caK: { readonly fast: number; readonly slow: number };
+    /** > fast = fast signal, < slow = slow signal */
+    readonly naK: { readonly fast: number; readonly slow: number };
+    /** < fast = fast signal, > slow = slow signal */
+    readonly caMg: { readonly fast: number; readonly slow: number };
+  };
 }
 
 /**
@@ -257,22 +298,42 @@ export interface ReportMetadata {
 
   /** Whether practitioner mode was enabled */
   readonly isPractitionerMode: boolean;
+
+  /** Unit the mineral values were entered in (optional, added v1.7.0) - values are always stored in mg% */
+  readonly inputUnit?: MineralUnit;
 }
 
 // ============================================================================
 // MINERAL DATA
 // ============================================================================
 
+/**
+ * Status of a mineral row. Minerals missing from a partial panel are
+ * "Not measured" (added v1.12.0) instead of being scored as 0.
+ */
+export type MineralSnapshotStatus = MineralStatus | "Not measured";
+
 export interface MineralSnapshot {
   readonly symbol: string;
   readonly name: string;
-  readonly value: number;
+  /** Value in mg%, or null when not measured (nullable since v1.12.0) */
+  readonly value: number | null;
   readonly unit: string;
+  /** Value as entered, in metadata.inputUnit (optional, added v1.7.0) */
+  readonly enteredValue?: number;
   readonly minIdeal: number;
   readonly maxIdeal: number;
-  readonly status: MineralStatus;
+  readonly status: MineralSnapshotStatus;
 }
 
+/**
+ * A mineral row with a measured value
+ */
+export type MeasuredMineralSnapshot = MineralSnapshot & {
+  readonly value: number;
+  readonly status: MineralStatus;
+};
+
 // ============================================================================
 // RATIO DATA
 // ============================================================================
@@ -286,6 +347,10 @@ export interface RatioSnapshot {
   readonly maxIdeal: number;
   readonly status: MineralStatus;
   readonly clinicalSignificance: string;
+  /** Scoring or display-only (optional, added v1.9.0) - absent means scoring */
+  readonly role?: RatioRole;
+  /** Only the lower bound applies (optional, added v1.9.0) */
+  readonly minimumOnly?: boolean;
 }
 
 // ============================================================================
@@ -311,7 +376,10 @@ export interface ReportSnapshot {
   /** All 15 mineral measurements with reference ranges and status */
   readonly minerals: ReadonlyArray<MineralSnapshot>;
 
-  /** All 6 calculated ratios with reference ranges and status */
+  /**
+   * The scoring ratios whose minerals were measured (all 6 for a full
+   * panel) plus any calculable display-only ratios
+   */
   readonly ratios: ReadonlyArray<RatioSnapshot>;
 
   /** Complete AI-generated insights text (immutable) */
@@ -343,12 +411,27 @@ export interface ReportSnapshot {
 
   /** Practitioner annotations (optional, added v1.6.0) - Review and override system */
   readonly practitionerAnnotations?: ReadonlyArray<PractitionerAnnotation>;
+
+  /** Matched practitioner pattern rules (optional, added v1.10.0) - Practitioner-only evidence */
+  readonly practitionerRuleMatches?: ReadonlyArray<PractitionerRuleMatch>;
+
+  /** Guardrails reports per text section (optional, added v1.11.0) - Engine text and annotations are guarded at creation */
+  readonly contentSafety?: ReportContentSafety;
+
+  /** Guardrails policy active at creation (optional, added v1.12.0) - The PDF guards the text again with it */
+  readonly guardrailsPolicy?: GuardrailsPolicy;
 }
 
 // ============================================================================
 // TYPE GUARDS
 // ============================================================================
 
+export function isMeasuredMineral(
+  mineral: MineralSnapshot
+): mineral is MeasuredMineralSnapshot {
+  return mineral.value !== null;
+}
+
 export function isValidReportSnapshot(obj: any): obj is ReportSnapshot {
   return (
     obj &&
@@ -359,7 +442,9 @@ export function isValidReportSnapshot(obj: any): obj is ReportSnapshot {
     Array.isArray(obj.minerals) &&
     obj.minerals.length === 15 &&
     Array.isArray(obj.ratios) &&
-    obj.ratios.length === 6 &&
+    // Up to 6 scoring ratios (fewer for partial panels), plus display-only
+    // ratios since v1.9.0
+    obj.ratios.filter((r: any) => r?.role !== "display_only").length <= 6 &&
     typeof obj.aiInsights === "string" &&
     // healthScore, scoreDelta, focusSummary, and trendAnalysis are optional (added in v1.1.0+)
     (obj.healthScore === undefined || typeof obj.healthScore === "object") &&
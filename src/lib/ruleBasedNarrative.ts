@@ -0,0 +1,287 @@
+/**
+ * HTMA Genius — Rule-Based Narrative Generator
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Deterministic, no-AI analysis used when no AI provider is available
+ * (offline, outages). Every statement is built from the engines' results
+ * for the submitted values:
+ * - calculateHealthScore (score, grade, status counts, completeness)
+ * - classifyOxidation (oxidation type and interpretation)
+ * - calculateAllRatios (scoring ratios outside their ideal range)
+ * - ECK_PRINCIPLES (interpretive context)
+ *
+ * The output follows the AI response contract, so it goes through the
+ * same validation, guardrails and storage as AI answers.
+ *
+ * Values are written without units on purpose: consumer guardrails treat
+ * "mg" amounts as dosages.
+ *
+ * Purpose: Data-accurate educational summary
+ * NOT a diagnosis or treatment recommendation
+ */
+
+import {
+  MineralData,
+  getOxidationMinerals,
+  toMeasuredSymbolValues,
+} from "./mineralModel";
+import {
+  MINERAL_REFERENCE_RANGES,
+  formatRatioIdealRange,
+  getMineralStatus,
+} from "./htmaConstants";
+import { calculateHealthScore } from "./healthScore";
+import { calculateAllRatios, RatioResult } from "./ratioEngine";
+import { ReferenceRangeVersion } from "./reportSnapshot";
+import {
+  classifyOxidation,
+  getOxidationTypeLabel,
+} from "./oxidationClassification";
+import { ECKPrinciple, getECKPrinciple } from "./eckInterpretationPrinciples";
+import {
+  AI_RESPONSE_CONTRACT_VERSION,
+  AIInsight,
+  AIRecommendation,
+  AIResponse,
+} from "./aiResponseContract";
+
+export const RULE_BASED_NARRATIVE_VERSION = "1.0.0";
+
+/** Model label recorded in analysis metadata */
+export const RULE_BASED_NARRATIVE_MODEL = `Rule-based narrative v${RULE_BASED_NARRATIVE_VERSION}`;
+
+const OXIDATION_SYMBOLS = ["Ca", "Mg", "Na", "K"] as const;
+
+/** Contract limit on evidence references and targets per statement */
+const MAX_REFERENCES = 10;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(value >= 10 ? 1 : 3)));
+}
+
+/**
+ * ECK principle as a context sentence
+ */
+function eckContext(id: number): string {
+  const principle = getECKPrinciple(id) as ECKPrinciple;
+  return `Interpretive context (Dr. Paul Eck): ${principle.principle}`;
+}
+
+/**
+ * Scoring ratios outside their ideal range, furthest from the range first
+ * (the ratio engine only returns ratios whose minerals were both measured)
+ */
+function getAbnormalScoringRatios(
+  ratios: ReadonlyArray<RatioResult>
+): RatioResult[] {
+  const distance = (r: RatioResult) =>
+    r.status === "Low"
+      ? (r.idealMin - r.value) / r.idealMin
+      : (r.value - r.idealMax) / r.idealMax;
+
+  return ratios
+    .filter((r) => r.role === "scoring" && r.status !== "Optimal")
+    .sort((a, b) => distance(b) - distance(a));
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Symbols of measured minerals outside their reference range
+ */
+export function getAbnormalMineralSymbols(mineralData: MineralData): string[] {
+  const measured = toMeasuredSymbolValues(mineralData);
+  return MINERAL_REFERENCE_RANGES.filter(
+    (ref) =>
+      measured[ref.symbol] !== undefined &&
+      getMineralStatus(measured[ref.symbol], ref.minIdeal, ref.maxIdeal) !==
+        "Optimal"
+  ).map((ref) => ref.symbol);
+}
+
+/**
+ * Names of scoring ratios outside their ideal range (measured minerals only)
+ */
+export function getAbnormalRatioNames(mineralData: MineralData): string[] {
+  return getAbnormalScoringRatios(
+    calculateAllRatios(toMeasuredSymbolValues(mineralData))
+  ).map((r) => r.name);
+}
+
+/**
+ * Build the educational narrative for a mineral panel (mg%)
+ *
+ * @param rangeVersion - Reference range version for oxidation thresholds
+ */
+export function generateRuleBasedNarrative(
+  mineralData: MineralData,
+  rangeVersion: ReferenceRangeVersion
+): AIResponse {
+  const measured = toMeasuredSymbolValues(mineralData);
+  const score = calculateHealthScore(mineralData);
+  const ratios = calculateAllRatios(measured);
+  const insights: AIInsight[] = [];
+  const recommendations: AIRecommendation[] = [];
+
+  // === OVERVIEW ===
+  const completeness = score.completeness;
+  insights.push({
+    category: "general",
+    text:
+      `Your health score is ${score.totalScore}/100 (grade ${score.grade}): ` +
+      `${score.statusCounts.optimal} minerals within their reference range, ` +
+      `${score.statusCounts.low} below and ${score.statusCounts.high} above.` +
+      (completeness?.isPartial
+        ? ` The score covers ${completeness.mineralsEvaluated} of ${completeness.mineralsTotal} minerals because ${completeness.missingMinerals.join(", ")} were not measured.`
+        : ""),
+    evidence: [],
+    targets: [],
+  });
+
+  // === OXIDATION ===
+  const oxidationMinerals = getOxidationMinerals(mineralData);
+  if (oxidationMinerals) {
+    const oxidation = classifyOxidation(oxidationMinerals, rangeVersion);
+    const { caK, naK } = oxidation.metadata.ratioValues;
+
+    insights.push({
+      category: "oxidation",
+      text:
+        `Your calcium, magnesium, sodium and potassium levels match a ` +
+        `${getOxidationTypeLabel(oxidation.type).toLowerCase()} pattern ` +
+        `(${oxidation.confidence} confidence; Ca/K ${formatNumber(
+          caK
+        )}, Na/K ${formatNumber(naK)}). ${oxidation.interpretation} ` +
+        eckContext(oxidation.type === "fast" || oxidation.type === "slow" ? 10 : 4),
+      evidence: [{ type: "oxidation", key: oxidation.type }],
+      targets: [...OXIDATION_SYMBOLS],
+    });
+  } else {
+    insights.push({
+      category: "oxidation",
+      text: "The oxidation pattern could not be classified because calcium, magnesium, sodium and potassium were not all measured.",
+      evidence: [],
+      targets: [],
+    });
+  }
+
+  // === RATIOS ===
+  const abnormalRatios = getAbnormalScoringRatios(ratios);
+  abnormalRatios.forEach((ratio) => {
+    insights.push({
+      category: "ratio",
+      text:
+        `Your ${ratio.name} ratio is ${formatNumber(ratio.value)}, ` +
+        `${ratio.status === "Low" ? "below" : "above"} the ideal range of ` +
+        `${formatRatioIdealRange({
+          minIdeal: ratio.idealMin,
+          maxIdeal: ratio.idealMax,
+          minimumOnly: ratio.minimumOnly,
+        })}. This ratio is associated with ${ratio.interpretationKey.toLowerCase()}.`,
+      evidence: [{ type: "ratio", key: ratio.name }],
+      targets: [ratio.name],
+    });
+  });
+  if (abnormalRatios.length === 0) {
+    insights.push({
+      category: "ratio",
+      text: `All measured scoring ratios are within their ideal ranges. ${eckContext(
+        2
+      )}`,
+      evidence: [],
+      targets: [],
+    });
+  }
+
+  // === MINERALS ===
+  const outOfRange = MINERAL_REFERENCE_RANGES.filter(
+    (ref) => measured[ref.symbol] !== undefined
+  )
+    .map((ref) => ({
+      ref,
+      value: measured[ref.symbol],
+      status: getMineralStatus(measured[ref.symbol], ref.minIdeal, ref.maxIdeal),
+    }))
+    .filter((m) => m.status !== "Optimal");
+
+  if (outOfRange.length > 0) {
+    const describe = (status: "High" | "Low") =>
+      outOfRange
+        .filter((m) => m.status === status)
+        .map(
+          (m) =>
+            `${m.ref.name} (${m.ref.symbol}) ${formatNumber(m.value)}, reference ${
+              m.ref.minIdeal
+            }-${m.ref.maxIdeal}`
+        );
+    const high = describe("High");
+    const low = describe("Low");
+
+    insights.push({
+      category: "mineral_balance",
+      text:
+        [
+          high.length > 0 ? `Above the reference range: ${high.join("; ")}.` : "",
+          low.length > 0 ? `Below the reference range: ${low.join("; ")}.` : "",
+        ]
+          .filter(Boolean)
+          .join(" ") + ` ${eckContext(1)}`,
+      evidence: outOfRange
+        .map((m) => ({ type: "mineral" as const, key: m.ref.symbol }))
+        .slice(0, MAX_REFERENCES),
+      targets: outOfRange.map((m) => m.ref.symbol).slice(0, MAX_REFERENCES),
+    });
+  }
+
+  // === PATTERNS ===
+  if (score.criticalIssues.length > 0) {
+    insights.push({
+      category: "pattern",
+      text: `Marked imbalances flagged by the score: ${score.criticalIssues.join(
+        ", "
+      )}. ${eckContext(9)}`,
+      evidence: [{ type: "pattern", key: "critical_issues" }],
+      targets: [],
+    });
+  }
+
+  // === RECOMMENDATIONS ===
+  if (abnormalRatios.length > 0 || outOfRange.length > 0) {
+    recommendations.push({
+      category: "practitioner_review",
+      text: `Review the ${[
+        ...abnormalRatios.map((r) => r.name),
+        ...outOfRange.map((m) => m.ref.symbol),
+      ].join(", ")} findings with a practitioner familiar with hair mineral analysis before changing diet or supplements.`,
+      evidence: [
+        ...abnormalRatios.map((r) => ({ type: "ratio" as const, key: r.name })),
+        ...outOfRange.map((m) => ({
+          type: "mineral" as const,
+          key: m.ref.symbol,
+        })),
+      ].slice(0, MAX_REFERENCES),
+      targets: [],
+    });
+  }
+  recommendations.push({
+    category: "retest",
+    text: `Consider a retest in about three months to see how these patterns evolve. ${eckContext(
+      3
+    )}`,
+    evidence: [],
+    targets: [],
+  });
+
+  return {
+    contractVersion: AI_RESPONSE_CONTRACT_VERSION,
+    insights,
+    recommendations,
+  };
+}
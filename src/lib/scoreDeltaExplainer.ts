@@ -1,12 +1,20 @@
 // src/lib/scoreDeltaExplainer.ts
 // Rule-based "Why This Changed" engine
 // Tied to locked health score semantics.
-// Version: 1.0.0 (2025-12-21)
+// Version: 1.1.0 (2026-10-19)
+// 1.1.0 - Drivers carry a lab-variability significance (referenceChangeValue.ts);
+//         changes within noise are sorted last and never lead the summary.
 
 import {
   HEALTH_SCORE_WEIGHTS,
   HEALTH_SCORE_SEMANTICS_VERSION,
 } from "./healthScoreSemantics";
+import {
+  ChangeSignificance,
+  REFERENCE_CHANGE_MODEL_VERSION,
+  assessMineralChange,
+  assessRatioChange,
+} from "./referenceChangeValue";
 
 /**
  * We assume your snapshots already contain:
@@ -49,13 +57,16 @@ export type DeltaDriver = {
   direction: "improved" | "worsened" | "unchanged";
   impactPoints: number; // signed points contribution to score delta
   note: string; // short human explanation
+  significance?: ChangeSignificance; // lab-variability class (minerals/ratios, added 1.1.0)
+  percentChange?: number | null; // signed % change in value (minerals/ratios, added 1.1.0)
 };
 
 export type ScoreDeltaExplanation = {
   engine: {
     name: "scoreDeltaExplainer";
-    version: "1.0.0";
+    version: "1.0.0" | "1.1.0";
     semanticsVersion: string; // from your locked semantics module
+    changeModelVersion?: string; // reference change value model (added 1.1.0)
   };
   delta: number; // next.score - prev.score (rounded)
   headline: string;
@@ -168,13 +179,22 @@ function makeHeadline(delta: number) {
   return "Health Score stayed about the same";
 }
 
+function isWithinNoise(driver: DeltaDriver): boolean {
+  return driver.significance === "within_noise";
+}
+
 function makeSummary(drivers: DeltaDriver[], delta: number) {
-  const improved = drivers
+  // Changes within lab variation never lead the summary
+  const meaningful = drivers.filter((d) => !isWithinNoise(d));
+  const improved = meaningful
     .filter((d) => d.direction === "improved")
     .slice(0, 2);
-  const worsened = drivers
+  const worsened = meaningful
     .filter((d) => d.direction === "worsened")
     .slice(0, 1);
+  const noiseOnly = drivers.filter(
+    (d) => isWithinNoise(d) && d.direction !== "unchanged"
+  );
 
   const parts: string[] = [];
   if (improved.length) {
@@ -189,6 +209,13 @@ function makeSummary(drivers: DeltaDriver[], delta: number) {
       `Main limiter: ${worsened[0].key} moved away from optimal or stayed abnormal.`
     );
   }
+  if (!parts.length && noiseOnly.length) {
+    parts.push(
+      `Status changes in ${noiseOnly
+        .map((d) => d.key)
+        .join(", ")} are within typical lab variation between tests.`
+    );
+  }
   if (!parts.length) {
     parts.push(
       "No major drivers detected; changes were small across minerals/ratios."
@@ -311,6 +338,11 @@ export function explainScoreDelta(prev: any, next: any): ScoreDeltaExplanation {
     if (dir === "unchanged" && to !== "optimal") impact = -perMineral * 0.25;
 
     if (impact !== 0) {
+      const change = assessMineralChange(k, pv, nv);
+      const noiseNote =
+        dir !== "unchanged" && change.significance === "within_noise"
+          ? " The change is within typical lab variation."
+          : "";
       drivers.push({
         type: "mineral",
         key: k,
@@ -319,11 +351,14 @@ export function explainScoreDelta(prev: any, next: any): ScoreDeltaExplanation {
         direction: dir,
         impactPoints: round1(impact),
         note:
-          dir === "improved"
+          (dir === "improved"
             ? `${k} moved closer to the optimal band.`
             : dir === "worsened"
             ? `${k} moved away from the optimal band.`
-            : `${k} remained outside optimal and may be limiting progress.`,
+            : `${k} remained outside optimal and may be limiting progress.`) +
+          noiseNote,
+        significance: change.significance,
+        percentChange: change.percentChange,
       });
     }
   }
@@ -367,6 +402,11 @@ export function explainScoreDelta(prev: any, next: any): ScoreDeltaExplanation {
       const significance = significanceMap[k] || "mineral balance";
       const fromVal = pv.toFixed(2);
       const toVal = nv.toFixed(2);
+      const change = assessRatioChange(k, pv, nv);
+      const noiseNote =
+        dir !== "unchanged" && change.significance === "within_noise"
+          ? " The change is within typical lab variation."
+          : "";
 
       drivers.push({
         type: "ratio",
@@ -376,11 +416,14 @@ export function explainScoreDelta(prev: any, next: any): ScoreDeltaExplanation {
         direction: dir,
         impactPoints: round1(impact),
         note:
-          dir === "improved"
+          (dir === "improved"
             ? `${k} improved (${fromVal}→${toVal}), supporting ${significance}.`
             : dir === "worsened"
             ? `${k} declined (${fromVal}→${toVal}), affecting ${significance}.`
-            : `${k} remained ${to} (${toVal}), may be limiting ${significance}.`,
+            : `${k} remained ${to} (${toVal}), may be limiting ${significance}.`) +
+          noiseNote,
+        significance: change.significance,
+        percentChange: change.percentChange,
       });
     }
   }
@@ -423,17 +466,21 @@ export function explainScoreDelta(prev: any, next: any): ScoreDeltaExplanation {
     }
   }
 
-  // Sort by absolute impact (biggest drivers first)
+  // Sort by absolute impact (biggest drivers first), changes within lab
+  // variation after all others
   const sorted = [...drivers].sort(
-    (a, b) => Math.abs(b.impactPoints) - Math.abs(a.impactPoints)
+    (a, b) =>
+      Number(isWithinNoise(a)) - Number(isWithinNoise(b)) ||
+      Math.abs(b.impactPoints) - Math.abs(a.impactPoints)
   );
   const topDrivers = sorted.slice(0, 6);
 
   return {
     engine: {
       name: "scoreDeltaExplainer",
-      version: "1.0.0",
+      version: "1.1.0",
       semanticsVersion: HEALTH_SCORE_SEMANTICS_VERSION ?? "unknown",
+      changeModelVersion: REFERENCE_CHANGE_MODEL_VERSION,
     },
     delta,
     headline: makeHeadline(delta),
@@ -10,7 +10,7 @@
  * Logic is fully transparent and clinically grounded.
  */
 
-import { MineralData } from "../components/HTMAInputForm";
+import { MineralData, toMeasuredSymbolValues } from "./mineralModel";
 import {
   MINERAL_REFERENCE_RANGES,
   RATIO_REFERENCE_RANGES,
@@ -150,11 +150,15 @@ function analyzeMineralChanges(
   currData: MineralData
 ): MineralChange[] {
   const changes: MineralChange[] = [];
+  const prevValues = toMeasuredSymbolValues(prevData);
+  const currValues = toMeasuredSymbolValues(currData);
 
   MINERAL_REFERENCE_RANGES.forEach((ref) => {
-    const symbol = ref.symbol.toLowerCase();
-    const oldValue = parseFloat((prevData as any)[symbol]) || 0;
-    const newValue = parseFloat((currData as any)[symbol]) || 0;
+    const oldValue = prevValues[ref.symbol];
+    const newValue = currValues[ref.symbol];
+
+    // A change needs both values; missing minerals are not scored
+    if (oldValue === undefined || newValue === undefined) return;
 
     const oldStatus = getMineralStatus(oldValue, ref.minIdeal, ref.maxIdeal);
     const newStatus = getMineralStatus(newValue, ref.minIdeal, ref.maxIdeal);
@@ -197,16 +201,23 @@ function analyzeRatioChanges(
   currData: MineralData
 ): RatioChange[] {
   const changes: RatioChange[] = [];
+  const prevValues = toMeasuredSymbolValues(prevData);
+  const currValues = toMeasuredSymbolValues(currData);
 
   RATIO_REFERENCE_RANGES.forEach((ref) => {
-    const prevNumerator =
-      parseFloat((prevData as any)[ref.numeratorSymbol.toLowerCase()]) || 0;
-    const prevDenominator =
-      parseFloat((prevData as any)[ref.denominatorSymbol.toLowerCase()]) || 0;
-    const currNumerator =
-      parseFloat((currData as any)[ref.numeratorSymbol.toLowerCase()]) || 0;
-    const currDenominator =
-      parseFloat((currData as any)[ref.denominatorSymbol.toLowerCase()]) || 0;
+    const prevNumerator = prevValues[ref.numeratorSymbol];
+    const prevDenominator = prevValues[ref.denominatorSymbol];
+    const currNumerator = currValues[ref.numeratorSymbol];
+    const currDenominator = currValues[ref.denominatorSymbol];
+
+    // Ratios that use a missing mineral are not scored
+    if (
+      [prevNumerator, prevDenominator, currNumerator, currDenominator].some(
+        (value) => value === undefined
+      )
+    ) {
+      return;
+    }
 
     const oldValue = calculateRatio(prevNumerator, prevDenominator);
     const newValue = calculateRatio(currNumerator, currDenominator);
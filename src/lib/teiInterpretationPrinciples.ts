@@ -28,7 +28,7 @@ export const TEI_PRINCIPLES = {
    */
   levels: {
     title: "LEVELS",
-    text: `All mineral levels are reported in milligrams percent (milligrams per one-hundred grams of hair). One milligram percent (mg%) is equal to parts per million (ppm).`,
+    text: `All mineral levels are reported in milligrams percent (milligrams per one-hundred grams of hair). One milligram percent (mg%) is equal to 10 parts per million (ppm).`,
   },
 
   /**
@@ -4,13 +4,47 @@
  * Analyzes patterns across 3+ HTMA analyses to identify improving/worsening trends.
  * Provides deterministic, rule-based explanations tied to locked health score semantics.
  *
+ * Score and mineral trends are fitted by ordinary least squares against the
+ * actual number of days since the first test, so unevenly spaced tests are
+ * weighted by when they happened rather than by their position in the list.
+ * Each fit carries a 95% confidence interval for the slope and a 95%
+ * prediction band for the next expected test date.
+ *
+ * Ratio trends report movement relative to each ratio's ideal band, and the
+ * oxidation-type sequence uses analyzeOxidationDelta on each consecutive
+ * pair of tests to separate lasting transitions from back-and-forth
+ * oscillation.
+ *
  * NO AI, NO SPECULATION, NON-DIAGNOSTIC.
  *
- * @version 1.0.0
- * @reviewedDate 2025-12-21
+ * @version 1.2.0
+ * @reviewedDate 2026-10-19
+ *
+ * Version history:
+ * - 1.2.0: Ratio trends against ideal bands and oxidation-type trajectory
+ * - 1.1.0: Least-squares trend fits, slope confidence intervals and
+ *   next-test projection bands; direction uses the fitted change
+ * - 1.0.0: First-to-last comparison with step sign counts
  */
 
 import { HEALTH_SCORE_SEMANTICS_VERSION } from "./healthScoreSemantics";
+import { RATIO_REFERENCE_RANGES } from "./htmaConstants";
+import {
+  classifyOxidation,
+  getOxidationTypeLabel,
+  OxidationClassification,
+  OxidationType,
+} from "./oxidationClassification";
+import {
+  analyzeOxidationDelta,
+  PatternChangeType,
+} from "./oxidationDeltaEngine";
+import { assessRatioChange } from "./referenceChangeValue";
+import { ReferenceRangeVersion } from "./reportSnapshot";
+
+export const TREND_ENGINE_VERSION = "1.2.0";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
 
 // ============================================================================
 // TYPES
@@ -25,6 +59,47 @@ export interface TrendDataPoint {
   minerals: Record<string, number>;
   ratios?: Record<string, number>;
   flags?: string[];
+  /** Classified from Ca, Mg, Na, K when omitted (added v1.2.0) */
+  oxidation?: OxidationClassification;
+}
+
+export interface TrendObservation {
+  date: string; // ISO 8601
+  value: number;
+}
+
+/**
+ * Ordinary least-squares fit of value against days since the first test
+ */
+export interface LinearTrendFit {
+  n: number;
+  degreesOfFreedom: number;
+  slopePerDay: number;
+  intercept: number; // Fitted value on the first test date
+  slopeStandardError: number;
+  /** 95% confidence interval for the slope (per day) */
+  slopeCI: { lower: number; upper: number };
+  residualStandardError: number;
+  rSquared: number; // 0-1
+  /** True when the 95% slope interval excludes zero */
+  slopeIsSignificant: boolean;
+}
+
+/**
+ * 95% prediction band for the next expected test
+ */
+export interface TrendProjection {
+  date: string; // ISO 8601
+  daysFromLast: number;
+  predicted: number;
+  lower: number;
+  upper: number;
+}
+
+export interface SeriesTrend {
+  observations: TrendObservation[];
+  fit: LinearTrendFit;
+  projection: TrendProjection;
 }
 
 export interface TrendPattern {
@@ -33,6 +108,7 @@ export interface TrendPattern {
   scoreDelta: number; // Total change from first to last
   avgChangePerPeriod: number; // Average change between consecutive analyses
   consistency: number; // 0-1, how consistent is the trend
+  fittedDelta?: number; // Least-squares change over the timespan (added v1.1.0)
 }
 
 export interface MineralTrend {
@@ -44,6 +120,64 @@ export interface MineralTrend {
     | "declining-then-improving"
     | "erratic";
   note: string;
+  fit?: LinearTrendFit; // (added v1.1.0)
+}
+
+export type RatioBandPosition = "below" | "within" | "above";
+
+export type RatioTrendDirection =
+  | "toward_ideal"
+  | "away_from_ideal"
+  | "holding_in_ideal"
+  | "stable";
+
+export interface RatioTrend {
+  ratio: string;
+  firstValue: number;
+  lastValue: number;
+  idealMin: number;
+  idealMax: number;
+  startPosition: RatioBandPosition;
+  endPosition: RatioBandPosition;
+  /** Movement relative to the ideal band (fitted trend when available) */
+  direction: RatioTrendDirection;
+  note: string;
+  fit?: LinearTrendFit;
+}
+
+/**
+ * How a change in oxidation type between two consecutive tests played out:
+ * - lasting: the new type held at the following test and never reverted
+ * - reversed: the next change went straight back (back-and-forth oscillation)
+ * - unconfirmed: no later test yet, or the type moved on to a third type
+ */
+export type OxidationTransitionOutcome = "lasting" | "reversed" | "unconfirmed";
+
+export interface OxidationTransition {
+  fromDate: string;
+  toDate: string;
+  from: OxidationType;
+  to: OxidationType;
+  changeType: PatternChangeType;
+  isMilestone: boolean;
+  /** Every underlying value moved within lab variation */
+  withinNoise: boolean;
+  outcome: OxidationTransitionOutcome;
+}
+
+export type OxidationTrajectoryPattern =
+  | "stable"
+  | "lasting_transition"
+  | "oscillating"
+  | "recent_change"
+  | "unsettled";
+
+export interface OxidationTrajectory {
+  sequence: Array<{ date: string; type: OxidationType }>;
+  transitions: OxidationTransition[];
+  pattern: OxidationTrajectoryPattern;
+  oscillationCount: number;
+  note: string;
 }
 
 export interface TrendExplanation {
@@ -57,7 +191,16 @@ export interface TrendExplanation {
     lastDate: string;
     periodCount: number;
     avgDaysBetween: number;
+    nextExpectedDate?: string; // Last date + average interval (added v1.1.0)
   };
+  /** Least-squares fit and projection for the health score (added v1.1.0) */
+  scoreTrend?: SeriesTrend;
+  /** Least-squares fits and projections per mineral symbol (added v1.1.0) */
+  mineralFits?: Record<string, SeriesTrend>;
+  /** Scoring ratio trends relative to their ideal bands (added v1.2.0) */
+  ratioTrends?: RatioTrend[];
+  /** Oxidation-type sequence across all tests (added v1.2.0) */
+  oxidationTrajectory?: OxidationTrajectory | null;
   engine: {
     version: string;
     semanticsVersion: string;
@@ -74,9 +217,12 @@ export interface TrendExplanation {
  *
  * Requires at least 3 data points for meaningful trend analysis.
  * Returns deterministic explanation based on statistical patterns.
+ * Points without a stored oxidation classification are classified with
+ * rangeVersion (the active reference range version).
  */
 export function analyzeTrends(
-  dataPoints: TrendDataPoint[]
+  dataPoints: TrendDataPoint[],
+  rangeVersion: ReferenceRangeVersion
 ): TrendExplanation | null {
   // Require at least 3 data points
   if (dataPoints.length < 3) {
@@ -88,12 +234,6 @@ export function analyzeTrends(
     (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
   );
 
-  // === OVERALL SCORE TREND ===
-  const overall = analyzeScoreTrend(sorted);
-
-  // === MINERAL TRENDS ===
-  const mineralTrends = analyzeMineralTrends(sorted);
-
   // === TIMESPAN CALCULATION ===
   const firstDate = sorted[0].date;
   const lastDate = sorted[sorted.length - 1].date;
@@ -101,19 +241,36 @@ export function analyzeTrends(
 
   const daysBetweenPairs = [];
   for (let i = 1; i < sorted.length; i++) {
-    const days =
-      (new Date(sorted[i].date).getTime() -
-        new Date(sorted[i - 1].date).getTime()) /
-      (1000 * 60 * 60 * 24);
-    daysBetweenPairs.push(days);
+    daysBetweenPairs.push(daysBetween(sorted[i - 1].date, sorted[i].date));
   }
   const avgDaysBetween =
     daysBetweenPairs.reduce((sum, d) => sum + d, 0) / daysBetweenPairs.length;
+  const nextExpectedDate = getNextExpectedDate(
+    lastDate,
+    Math.round(avgDaysBetween)
+  );
+
+  // === LEAST-SQUARES FITS ===
+  const scoreTrend = fitTrendSeries(
+    sorted.map((dp) => ({ date: dp.date, value: dp.score })),
+    { min: 0, max: 100, nextDate: nextExpectedDate }
+  );
+  const mineralFits = fitMineralSeries(sorted, nextExpectedDate);
+
+  // === OVERALL SCORE TREND ===
+  const overall = analyzeScoreTrend(sorted, scoreTrend);
+
+  // === MINERAL TRENDS ===
+  const mineralTrends = analyzeMineralTrends(sorted, mineralFits);
+
+  // === RATIO & OXIDATION TRAJECTORIES ===
+  const ratioTrends = analyzeRatioTrends(sorted, nextExpectedDate);
+  const oxidationTrajectory = analyzeOxidationTrajectory(sorted, rangeVersion);
 
   // === GENERATE EXPLANATION ===
   const headline = generateHeadline(overall, sorted.length);
   const summary = generateSummary(overall, mineralTrends);
-  const keyInsights = generateKeyInsights(overall, mineralTrends);
+  const keyInsights = generateKeyInsights(overall, mineralTrends, scoreTrend);
 
   return {
     overall,
@@ -126,9 +283,14 @@ export function analyzeTrends(
       lastDate,
       periodCount,
       avgDaysBetween: Math.round(avgDaysBetween),
+      nextExpectedDate,
     },
+    scoreTrend: scoreTrend ?? undefined,
+    mineralFits,
+    ratioTrends,
+    oxidationTrajectory,
     engine: {
-      version: "1.0.0",
+      version: TREND_ENGINE_VERSION,
       semanticsVersion: HEALTH_SCORE_SEMANTICS_VERSION,
       computedAt: new Date().toISOString(),
     },
@@ -139,10 +301,21 @@ export function analyzeTrends(
 // SCORE TREND ANALYSIS
 // ============================================================================
 
-function analyzeScoreTrend(sorted: TrendDataPoint[]): TrendPattern {
+function analyzeScoreTrend(
+  sorted: TrendDataPoint[],
+  scoreTrend: SeriesTrend | null
+): TrendPattern {
   const scores = sorted.map((d) => d.score);
   const scoreDelta = scores[scores.length - 1] - scores[0];
 
+  // Direction and strength follow the fitted change over the real timespan;
+  // the raw first-to-last delta is only used when no fit is possible
+  const fittedDelta = scoreTrend
+    ? scoreTrend.fit.slopePerDay *
+      daysBetween(sorted[0].date, sorted[sorted.length - 1].date)
+    : undefined;
+  const trendDelta = fittedDelta ?? scoreDelta;
+
   // Calculate consecutive deltas
   const deltas = [];
   for (let i = 1; i < scores.length; i++) {
@@ -153,13 +326,13 @@ function analyzeScoreTrend(sorted: TrendDataPoint[]): TrendPattern {
 
   // Determine direction
   let direction: TrendDirection;
-  if (Math.abs(scoreDelta) < 3) {
+  if (Math.abs(trendDelta) < 3) {
     direction = "stable";
-  } else if (scoreDelta > 0) {
+  } else if (trendDelta > 0) {
     // Check for volatility (if deltas have opposite signs)
     const positiveCount = deltas.filter((d) => d > 0).length;
     const negativeCount = deltas.filter((d) => d < 0).length;
-    if (positiveCount > 0 && negativeCount > 0 && Math.abs(scoreDelta) < 8) {
+    if (positiveCount > 0 && negativeCount > 0 && Math.abs(trendDelta) < 8) {
       direction = "volatile";
     } else {
       direction = "improving";
@@ -167,7 +340,7 @@ function analyzeScoreTrend(sorted: TrendDataPoint[]): TrendPattern {
   } else {
     const positiveCount = deltas.filter((d) => d > 0).length;
     const negativeCount = deltas.filter((d) => d < 0).length;
-    if (positiveCount > 0 && negativeCount > 0 && Math.abs(scoreDelta) < 8) {
+    if (positiveCount > 0 && negativeCount > 0 && Math.abs(trendDelta) < 8) {
       direction = "volatile";
     } else {
       direction = "declining";
@@ -176,9 +349,9 @@ function analyzeScoreTrend(sorted: TrendDataPoint[]): TrendPattern {
 
   // Determine strength
   let strength: TrendStrength;
-  if (Math.abs(scoreDelta) < 5) {
+  if (Math.abs(trendDelta) < 5) {
     strength = "weak";
-  } else if (Math.abs(scoreDelta) < 15) {
+  } else if (Math.abs(trendDelta) < 15) {
     strength = "moderate";
   } else {
     strength = "strong";
@@ -199,6 +372,8 @@ function analyzeScoreTrend(sorted: TrendDataPoint[]): TrendPattern {
     scoreDelta: Math.round(scoreDelta * 10) / 10,
     avgChangePerPeriod: Math.round(avgChangePerPeriod * 10) / 10,
     consistency: Math.round(consistency * 100) / 100,
+    fittedDelta:
+      fittedDelta === undefined ? undefined : Math.round(fittedDelta * 10) / 10,
   };
 }
 
@@ -206,7 +381,10 @@ function analyzeScoreTrend(sorted: TrendDataPoint[]): TrendPattern {
 // MINERAL TREND ANALYSIS
 // ============================================================================
 
-function analyzeMineralTrends(sorted: TrendDataPoint[]): MineralTrend[] {
+function analyzeMineralTrends(
+  sorted: TrendDataPoint[],
+  mineralFits: Record<string, SeriesTrend>
+): MineralTrend[] {
   const trends: MineralTrend[] = [];
 
   // Get all minerals that appear in data
@@ -225,7 +403,16 @@ function analyzeMineralTrends(sorted: TrendDataPoint[]): MineralTrend[] {
 
     const firstValue = values[0];
     const lastValue = values[values.length - 1];
-    const delta = lastValue - firstValue;
+
+    // Use the fitted change over the mineral's own timespan when available
+    const series = mineralFits[mineral];
+    const delta = series
+      ? series.fit.slopePerDay *
+        daysBetween(
+          series.observations[0].date,
+          series.observations[series.observations.length - 1].date
+        )
+      : lastValue - firstValue;
     const percentChange = (delta / firstValue) * 100;
 
     // Calculate pattern
@@ -295,6 +482,7 @@ function analyzeMineralTrends(sorted: TrendDataPoint[]): MineralTrend[] {
       direction,
       pattern,
       note,
+      fit: series?.fit,
     });
   });
 
@@ -314,6 +502,268 @@ function analyzeMineralTrends(sorted: TrendDataPoint[]): MineralTrend[] {
   });
 }
 
+// ============================================================================
+// RATIO TREND ANALYSIS
+// ============================================================================
+
+/**
+ * Ratio value for a data point: supplied ratios first, otherwise derived
+ * from the numerator and denominator minerals
+ */
+function getRatioValue(
+  dp: TrendDataPoint,
+  ratio: { name: string; numeratorSymbol: string; denominatorSymbol: string }
+): number | undefined {
+  const supplied = dp.ratios?.[ratio.name];
+  if (supplied !== undefined && Number.isFinite(supplied)) return supplied;
+
+  const numerator = dp.minerals[ratio.numeratorSymbol];
+  const denominator = dp.minerals[ratio.denominatorSymbol];
+  if (!numerator || !denominator || numerator <= 0 || denominator <= 0) {
+    return undefined;
+  }
+  return numerator / denominator;
+}
+
+function getBandPosition(
+  value: number,
+  idealMin: number,
+  idealMax: number
+): RatioBandPosition {
+  if (value < idealMin) return "below";
+  if (value > idealMax) return "above";
+  return "within";
+}
+
+/**
+ * Relative distance outside the ideal band (0 inside the band)
+ */
+function distanceFromBand(
+  value: number,
+  idealMin: number,
+  idealMax: number
+): number {
+  if (value < idealMin) return (idealMin - value) / idealMin;
+  if (value > idealMax) return (value - idealMax) / idealMax;
+  return 0;
+}
+
+function analyzeRatioTrends(
+  sorted: TrendDataPoint[],
+  nextDate: string
+): RatioTrend[] {
+  const trends: RatioTrend[] = [];
+
+  RATIO_REFERENCE_RANGES.forEach((ratio) => {
+    const observations: TrendObservation[] = [];
+    sorted.forEach((dp) => {
+      const value = getRatioValue(dp, ratio);
+      if (value !== undefined) observations.push({ date: dp.date, value });
+    });
+    if (observations.length < 3) return;
+
+    const series = fitTrendSeries(observations, { min: 0, nextDate });
+    const firstValue = observations[0].value;
+    const lastValue = observations[observations.length - 1].value;
+
+    // Compare fitted start and end so a single outlier test doesn't decide
+    // the direction
+    const span = daysBetween(
+      observations[0].date,
+      observations[observations.length - 1].date
+    );
+    const start = series ? Math.max(0, series.fit.intercept) : firstValue;
+    const end = series
+      ? Math.max(0, series.fit.intercept + series.fit.slopePerDay * span)
+      : lastValue;
+
+    const { minIdeal, maxIdeal } = ratio;
+    const startDistance = distanceFromBand(start, minIdeal, maxIdeal);
+    const endDistance = distanceFromBand(end, minIdeal, maxIdeal);
+    const endPosition = getBandPosition(lastValue, minIdeal, maxIdeal);
+
+    let direction: RatioTrendDirection;
+    if (startDistance === 0 && endDistance === 0) {
+      direction = "holding_in_ideal";
+    } else if (
+      assessRatioChange(ratio.name, start, end).significance ===
+        "within_noise" ||
+      Math.abs(endDistance - startDistance) < 0.05
+    ) {
+      direction = "stable";
+    } else {
+      direction =
+        endDistance < startDistance ? "toward_ideal" : "away_from_ideal";
+    }
+
+    const range = `${minIdeal}-${maxIdeal}`;
+    const values = `${firstValue.toFixed(2)} → ${lastValue.toFixed(2)}`;
+    const note = {
+      toward_ideal: `${ratio.name} moved toward the ideal band (${range}): ${values}`,
+      away_from_ideal: `${ratio.name} moved away from the ideal band (${range}): ${values}`,
+      holding_in_ideal: `${ratio.name} held within the ideal band (${range}): ${values}`,
+      stable: `${ratio.name} showed no clear movement relative to the ideal band (${range}): ${values}, currently ${endPosition} the band`,
+    }[direction];
+
+    trends.push({
+      ratio: ratio.name,
+      firstValue,
+      lastValue,
+      idealMin: minIdeal,
+      idealMax: maxIdeal,
+      startPosition: getBandPosition(firstValue, minIdeal, maxIdeal),
+      endPosition,
+      direction,
+      note,
+      fit: series?.fit,
+    });
+  });
+
+  return trends;
+}
+
+// ============================================================================
+// OXIDATION TRAJECTORY ANALYSIS
+// ============================================================================
+
+/**
+ * Stored classification, else classify with the active range version
+ */
+function getOxidation(
+  dp: TrendDataPoint,
+  rangeVersion: ReferenceRangeVersion
+): OxidationClassification | null {
+  if (dp.oxidation) return dp.oxidation;
+
+  const { Ca, Mg, Na, K } = dp.minerals;
+  if (!Ca || !Mg || !Na || !K || Ca <= 0 || Mg <= 0 || Na <= 0 || K <= 0) {
+    return null;
+  }
+  return classifyOxidation({ Ca, Mg, Na, K }, rangeVersion);
+}
+
+function getTransitionOutcome(
+  types: OxidationType[],
+  index: number
+): OxidationTransitionOutcome {
+  const from = types[index - 1];
+  const to = types[index];
+  if (index === types.length - 1) return "unconfirmed";
+
+  const nextDifferent = types.slice(index + 1).find((t) => t !== to);
+  if (nextDifferent === from) return "reversed";
+  return types[index + 1] === to ? "lasting" : "unconfirmed";
+}
+
+function analyzeOxidationTrajectory(
+  sorted: TrendDataPoint[],
+  rangeVersion: ReferenceRangeVersion
+): OxidationTrajectory | null {
+  const classified = sorted
+    .map((dp) => ({
+      date: dp.date,
+      oxidation: getOxidation(dp, rangeVersion),
+    }))
+    .filter(
+      (c): c is { date: string; oxidation: OxidationClassification } =>
+        c.oxidation !== null
+    );
+  if (classified.length < 3) return null;
+
+  const types = classified.map((c) => c.oxidation.type);
+  const transitions: OxidationTransition[] = [];
+
+  for (let i = 1; i < classified.length; i++) {
+    const delta = analyzeOxidationDelta(
+      classified[i - 1].oxidation,
+      classified[i].oxidation
+    );
+    if (!delta || delta.patternChange.type === "stable") continue;
+
+    transitions.push({
+      fromDate: classified[i - 1].date,
+      toDate: classified[i].date,
+      from: types[i - 1],
+      to: types[i],
+      changeType: delta.patternChange.type,
+      isMilestone: delta.patternChange.isMilestone,
+      withinNoise: delta.patternChange.withinNoise,
+      outcome: getTransitionOutcome(types, i),
+    });
+  }
+
+  const oscillationCount = transitions.filter(
+    (t) => t.outcome === "reversed"
+  ).length;
+  const lastingCount = transitions.filter(
+    (t) => t.outcome === "lasting"
+  ).length;
+
+  let pattern: OxidationTrajectoryPattern;
+  if (transitions.length === 0) {
+    pattern = "stable";
+  } else if (oscillationCount > 0 && oscillationCount >= lastingCount) {
+    pattern = "oscillating";
+  } else if (lastingCount > 0 && oscillationCount === 0) {
+    pattern = "lasting_transition";
+  } else if (lastingCount === 0 && oscillationCount === 0) {
+    pattern = "recent_change";
+  } else {
+    pattern = "unsettled";
+  }
+
+  return {
+    sequence: classified.map((c) => ({
+      date: c.date,
+      type: c.oxidation.type,
+    })),
+    transitions,
+    pattern,
+    oscillationCount,
+    note: generateTrajectoryNote(pattern, types, transitions),
+  };
+}
+
+function generateTrajectoryNote(
+  pattern: OxidationTrajectoryPattern,
+  types: OxidationType[],
+  transitions: OxidationTransition[]
+): string {
+  const last = getOxidationTypeLabel(types[types.length - 1]);
+
+  switch (pattern) {
+    case "stable":
+      return `Oxidation pattern held as ${last} across all ${types.length} tests.`;
+    case "lasting_transition": {
+      const lasting = transitions.filter((t) => t.outcome === "lasting");
+      const latest = lasting[lasting.length - 1];
+      return `Oxidation pattern moved from ${getOxidationTypeLabel(
+        latest.from
+      )} to ${getOxidationTypeLabel(
+        latest.to
+      )} and held at the following test${
+        latest.isMilestone ? " — a lasting milestone" : ""
+      }.`;
+    }
+    case "oscillating": {
+      const reversed = transitions.filter((t) => t.outcome === "reversed");
+      const noisy = reversed.every((t) => t.withinNoise);
+      return (
+        `Oxidation pattern moved back and forth ${reversed.length} time${
+          reversed.length === 1 ? "" : "s"
+        } and is currently ${last}.` +
+        (noisy
+          ? " These swings are within typical lab variation and may reflect measurement differences."
+          : " Look for a type that holds across consecutive tests before reading a change as lasting.")
+      );
+    }
+    case "recent_change":
+      return `Oxidation pattern changed to ${last} at the latest test; a follow-up test will show whether it holds.`;
+    default:
+      return `Oxidation pattern has both held and reverted across tests and is currently ${last}.`;
+  }
+}
+
 // ============================================================================
 // EXPLANATION GENERATION
 // ============================================================================
@@ -382,7 +832,8 @@ function generateSummary(
 
 function generateKeyInsights(
   trend: TrendPattern,
-  mineralTrends: MineralTrend[]
+  mineralTrends: MineralTrend[],
+  scoreTrend: SeriesTrend | null
 ): string[] {
   const insights: string[] = [];
 
@@ -449,7 +900,15 @@ function generateKeyInsights(
   }
 
   // Insight 5: Rate of change
-  if (trend.direction !== "stable") {
+  if (scoreTrend) {
+    insights.push(
+      `Fitted rate: ${formatTrendRate(scoreTrend.fit)} points per 30 days (${
+        scoreTrend.fit.slopeIsSignificant
+          ? "95% interval excludes zero"
+          : "95% interval includes zero"
+      })`
+    );
+  } else if (trend.direction !== "stable") {
     insights.push(
       `Average change: ${Math.abs(trend.avgChangePerPeriod).toFixed(
         1
@@ -459,3 +918,166 @@ function generateKeyInsights(
 
   return insights.slice(0, 5); // Limit to 5 insights
 }
+
+// ============================================================================
+// LEAST-SQUARES FIT
+// ============================================================================
+
+/**
+ * Two-sided 95% Student t critical values by degrees of freedom (1-30)
+ */
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08,
+  2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+function tCritical95(degreesOfFreedom: number): number {
+  return T_CRITICAL_95[degreesOfFreedom - 1] ?? 1.96;
+}
+
+function daysBetween(fromDate: string, toDate: string): number {
+  return (
+    (new Date(toDate).getTime() - new Date(fromDate).getTime()) / MS_PER_DAY
+  );
+}
+
+function getNextExpectedDate(lastDate: string, intervalDays: number): string {
+  return new Date(
+    new Date(lastDate).getTime() + intervalDays * MS_PER_DAY
+  ).toISOString();
+}
+
+function clamp(value: number, min?: number, max?: number): number {
+  let result = value;
+  if (min !== undefined) result = Math.max(min, result);
+  if (max !== undefined) result = Math.min(max, result);
+  return result;
+}
+
+/**
+ * Fit value against days since the first observation and project a 95%
+ * prediction band for the next test
+ *
+ * Returns null with fewer than 3 valid observations or when every
+ * observation falls on the same day (no slope can be estimated).
+ *
+ * @param observations - Dated values, any order
+ * @param options.min / options.max - Clamp for the projection band (e.g. 0-100)
+ * @param options.nextDate - Projection date (default: last date + mean interval)
+ */
+export function fitTrendSeries(
+  observations: ReadonlyArray<TrendObservation>,
+  options: { min?: number; max?: number; nextDate?: string } = {}
+): SeriesTrend | null {
+  const sorted = observations
+    .filter(
+      (o) =>
+        Number.isFinite(o.value) && !isNaN(new Date(o.date).getTime())
+    )
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const n = sorted.length;
+  if (n < 3) return null;
+
+  const firstDate = sorted[0].date;
+  const lastDate = sorted[n - 1].date;
+  const xs = sorted.map((o) => daysBetween(firstDate, o.date));
+  const ys = sorted.map((o) => o.value);
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slopePerDay = sxy / sxx;
+  const intercept = meanY - slopePerDay * meanX;
+
+  let sse = 0;
+  for (let i = 0; i < n; i++) {
+    sse += (ys[i] - (intercept + slopePerDay * xs[i])) ** 2;
+  }
+
+  const degreesOfFreedom = n - 2;
+  const residualStandardError = Math.sqrt(sse / degreesOfFreedom);
+  const slopeStandardError = residualStandardError / Math.sqrt(sxx);
+  const t = tCritical95(degreesOfFreedom);
+  const slopeCI = {
+    lower: slopePerDay - t * slopeStandardError,
+    upper: slopePerDay + t * slopeStandardError,
+  };
+
+  // Prediction interval at the next expected test date
+  const intervalDays = xs[n - 1] / (n - 1);
+  const nextDate =
+    options.nextDate ?? getNextExpectedDate(lastDate, Math.round(intervalDays));
+  const nextX = daysBetween(firstDate, nextDate);
+  const predicted = intercept + slopePerDay * nextX;
+  const margin =
+    t *
+    residualStandardError *
+    Math.sqrt(1 + 1 / n + (nextX - meanX) ** 2 / sxx);
+
+  return {
+    observations: sorted.map((o) => ({ date: o.date, value: o.value })),
+    fit: {
+      n,
+      degreesOfFreedom,
+      slopePerDay,
+      intercept,
+      slopeStandardError,
+      slopeCI,
+      residualStandardError,
+      rSquared: syy === 0 ? 1 : Math.max(0, 1 - sse / syy),
+      slopeIsSignificant: slopeCI.lower > 0 || slopeCI.upper < 0,
+    },
+    projection: {
+      date: nextDate,
+      daysFromLast: Math.round(daysBetween(lastDate, nextDate)),
+      predicted: clamp(predicted, options.min, options.max),
+      lower: clamp(predicted - margin, options.min, options.max),
+      upper: clamp(predicted + margin, options.min, options.max),
+    },
+  };
+}
+
+function fitMineralSeries(
+  sorted: TrendDataPoint[],
+  nextDate: string
+): Record<string, SeriesTrend> {
+  const allMinerals = new Set<string>();
+  sorted.forEach((dp) => {
+    Object.keys(dp.minerals).forEach((m) => allMinerals.add(m));
+  });
+
+  const fits: Record<string, SeriesTrend> = {};
+  allMinerals.forEach((mineral) => {
+    const series = fitTrendSeries(
+      sorted
+        .filter((dp) => dp.minerals[mineral] !== undefined)
+        .map((dp) => ({ date: dp.date, value: dp.minerals[mineral] })),
+      { min: 0, nextDate }
+    );
+    if (series) fits[mineral] = series;
+  });
+  return fits;
+}
+
+/**
+ * Signed slope per 30 days with its 95% interval, e.g. "+2.4 (0.8 to 4.0)"
+ */
+export function formatTrendRate(fit: LinearTrendFit, decimals = 1): string {
+  const per30 = (perDay: number) => (perDay * 30).toFixed(decimals);
+  const rate = fit.slopePerDay * 30;
+  return `${rate > 0 ? "+" : ""}${per30(fit.slopePerDay)} (${per30(
+    fit.slopeCI.lower
+  )} to ${per30(fit.slopeCI.upper)})`;
+}
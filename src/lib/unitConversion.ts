@@ -0,0 +1,172 @@
+/**
+ * HTMA Unit Conversion Layer
+ *
+ * Labs report hair mineral levels in different units. All engines (health
+ * score, ratios, oxidation, snapshots) compute in ONE canonical unit: mg%.
+ * Values entered or parsed in another unit are converted here, at the
+ * boundary, and the original unit is kept alongside the analysis so reports
+ * can show what was actually entered.
+ *
+ * Conversions:
+ *   1 mg% = 10 ppm = 10 µg/g = 10 mg/kg
+ *
+ * Ratios are unit-invariant as long as both minerals share a unit, but they
+ * still go through this layer so a mixed-unit input can never slip through.
+ *
+ * Version: 1.0.0
+ */
+
+import { MineralData, MINERAL_NAMES } from "./mineralModel";
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+export const UNIT_CONVERSION_VERSION = "1.0.0";
+
+export type MineralUnit = "mg%" | "ppm" | "µg/g" | "mg/kg";
+
+/** Unit every engine computes in */
+export const CANONICAL_UNIT: MineralUnit = "mg%";
+
+/** Units offered in the input form, in display order */
+export const SUPPORTED_UNITS: ReadonlyArray<MineralUnit> = [
+  "mg%",
+  "ppm",
+  "µg/g",
+  "mg/kg",
+];
+
+/** Multiply a value in the given unit by this factor to get mg% */
+const TO_MG_PERCENT: Readonly<Record<MineralUnit, number>> = {
+  "mg%": 1,
+  ppm: 0.1,
+  "µg/g": 0.1,
+  "mg/kg": 0.1,
+};
+
+/** Human-readable descriptions for UI and PDF */
+export const UNIT_DESCRIPTIONS: Readonly<Record<MineralUnit, string>> = {
+  "mg%": "milligrams percent (mg/100g)",
+  ppm: "parts per million",
+  "µg/g": "micrograms per gram",
+  "mg/kg": "milligrams per kilogram",
+};
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Round away floating-point noise introduced by scaling (e.g. 0.1 * 3)
+ */
+function roundValue(value: number): number {
+  return Math.round(value * 1e9) / 1e9;
+}
+
+/**
+ * Convert a value between any two supported units
+ *
+ * @param value - Numeric value
+ * @param from - Unit the value is in
+ * @param to - Target unit
+ * @returns Converted value
+ */
+export function convertValue(
+  value: number,
+  from: MineralUnit,
+  to: MineralUnit
+): number {
+  if (from === to) return value;
+  return roundValue((value * TO_MG_PERCENT[from]) / TO_MG_PERCENT[to]);
+}
+
+/**
+ * Convert a value to the canonical unit (mg%)
+ */
+export function toCanonical(value: number, unit: MineralUnit): number {
+  return convertValue(value, unit, CANONICAL_UNIT);
+}
+
+/**
+ * Convert a canonical (mg%) value to a display unit
+ */
+export function fromCanonical(value: number, unit: MineralUnit): number {
+  return convertValue(value, CANONICAL_UNIT, unit);
+}
+
+/**
+ * Normalize a unit label as printed on a lab report or stored in an old
+ * document ("ug/g", "mcg/g", "mg %", "PPM") to a supported unit
+ *
+ * @param raw - Unit label
+ * @returns Supported unit, or null if unrecognized
+ */
+export function normalizeUnit(raw: string | null | undefined): MineralUnit | null {
+  if (!raw) return null;
+
+  const label = raw.trim().toLowerCase().replace(/\s+/g, "");
+
+  if (label === "mg%" || label === "mg/100g" || label === "mgpercent") {
+    return "mg%";
+  }
+  if (label === "ppm") return "ppm";
+  if (label === "µg/g" || label === "μg/g" || label === "ug/g" || label === "mcg/g") {
+    return "µg/g";
+  }
+  if (label === "mg/kg") return "mg/kg";
+
+  return null;
+}
+
+/**
+ * Check whether a string is a supported unit
+ */
+export function isMineralUnit(value: unknown): value is MineralUnit {
+  return (
+    typeof value === "string" &&
+    (SUPPORTED_UNITS as ReadonlyArray<string>).includes(value)
+  );
+}
+
+/**
+ * Convert every mineral of a panel to the canonical unit.
+ * Missing (null) values stay missing.
+ *
+ * @param data - Mineral values as entered
+ * @param unit - Unit the values were entered in
+ * @returns MineralData in mg%
+ */
+export function toCanonicalMineralData(
+  data: MineralData,
+  unit: MineralUnit
+): MineralData {
+  if (unit === CANONICAL_UNIT) return data;
+
+  const converted = { ...data };
+  for (const name of MINERAL_NAMES) {
+    const value = data[name];
+    converted[name] = value === null ? null : toCanonical(value, unit);
+  }
+  return converted;
+}
+
+/**
+ * Convert a symbol-keyed value map (e.g. { Ca: 420, Mg: 60 }) to mg%
+ *
+ * @param values - Values keyed by mineral symbol
+ * @param unit - Unit the values are in
+ * @returns New map in mg%
+ */
+export function toCanonicalValues<T extends Record<string, number>>(
+  values: T,
+  unit: MineralUnit
+): T {
+  if (unit === CANONICAL_UNIT) return values;
+
+  const converted: Record<string, number> = {};
+  for (const [symbol, value] of Object.entries(values)) {
+    converted[symbol] = toCanonical(value, unit);
+  }
+  return converted as T;
+}
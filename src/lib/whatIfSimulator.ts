@@ -0,0 +1,263 @@
+/**
+ * HTMA Genius — What-If Mineral Simulator
+ * Version: 1.0.0
+ * Reviewed: 2026-10-19
+ *
+ * Practitioner tool: adjust one or more minerals and see how the client's
+ * picture would change. Every simulation re-runs the real engines against
+ * the real baseline - nothing is estimated here:
+ * - calculateHealthScore (score, grade, flags)
+ * - calculateAllRatios (ratio values and status)
+ * - classifyOxidation (oxidation type)
+ * - explainScoreDelta (drivers that changed)
+ *
+ * Results are hypothetical. They are never written back to the analysis;
+ * a practitioner can only save a scenario as a practitioner-only annotation.
+ *
+ * Purpose: Exploring mineral relationships
+ * NOT a prediction, treatment plan, or expected outcome
+ */
+
+import {
+  MineralData,
+  MineralName,
+  MINERAL_NAMES,
+  getOxidationMinerals,
+  toMeasuredSymbolValues,
+} from "./mineralModel";
+import {
+  MINERAL_SYMBOLS,
+  getMineralReferenceBySymbol,
+  formatRatioIdealRange,
+} from "./htmaConstants";
+import { calculateHealthScore, HealthScoreBreakdown } from "./healthScore";
+import { calculateAllRatios, RatioResult } from "./ratioEngine";
+import { ReferenceRangeVersion } from "./reportSnapshot";
+import {
+  classifyOxidation,
+  getOxidationTypeLabel,
+  OxidationClassification,
+} from "./oxidationClassification";
+import {
+  explainScoreDelta,
+  DeltaDriver,
+  ScoreDeltaExplanation,
+} from "./scoreDeltaExplainer";
+
+export const WHAT_IF_SIMULATOR_VERSION = "1.0.0";
+
+/** Annotation target used for saved scenarios */
+export const WHAT_IF_ANNOTATION_TARGET = "scenario";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface MineralAdjustment {
+  mineral: MineralName;
+  symbol: string;
+  baseline: number | null;
+  adjusted: number | null;
+}
+
+export interface RatioProjection {
+  name: string;
+  baseline: RatioResult;
+  projected: RatioResult;
+  statusChanged: boolean;
+}
+
+export interface WhatIfSimulation {
+  version: string;
+  adjustments: MineralAdjustment[];
+  baselineScore: HealthScoreBreakdown;
+  projectedScore: HealthScoreBreakdown;
+  scoreChange: number;
+  /** null when Ca, Mg, Na or K is missing (or 0) */
+  baselineOxidation: OxidationClassification | null;
+  projectedOxidation: OxidationClassification | null;
+  oxidationChanged: boolean;
+  ratios: RatioProjection[];
+  scoreDelta: ScoreDeltaExplanation;
+  /** Drivers whose status actually moved (improved or worsened) */
+  changedDrivers: DeltaDriver[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function classifyMinerals(
+  data: MineralData,
+  rangeVersion: ReferenceRangeVersion
+): OxidationClassification | null {
+  const minerals = getOxidationMinerals(data);
+  return minerals ? classifyOxidation(minerals, rangeVersion) : null;
+}
+
+/**
+ * Shape expected by explainScoreDelta for one side of the comparison
+ */
+function toDeltaSnapshot(
+  data: MineralData,
+  score: HealthScoreBreakdown,
+  ratios: ReadonlyArray<RatioResult>
+) {
+  return {
+    minerals: toMeasuredSymbolValues(data),
+    ratios: ratios
+      .filter((r) => r.role === "scoring")
+      .map((r) => ({ name: r.name, value: r.value, status: r.status })),
+    score: score.totalScore,
+    flags: score.criticalIssues,
+  };
+}
+
+function formatOxidation(oxidation: OxidationClassification | null): string {
+  return oxidation ? getOxidationTypeLabel(oxidation.type) : "not classified";
+}
+
+function formatValue(value: number | null): string {
+  return value === null ? "not measured" : String(Number(value.toFixed(4)));
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Slider bounds for a mineral, from its reference range and baseline value
+ */
+export function getSimulatorBounds(
+  mineral: MineralName,
+  baseline: number | null
+): { min: number; max: number; step: number } {
+  const ref = getMineralReferenceBySymbol(MINERAL_SYMBOLS[mineral]);
+  const maxIdeal = ref ? ref.maxIdeal : 1;
+  return {
+    min: 0,
+    max: Math.max(maxIdeal * 3, (baseline ?? 0) * 2),
+    step: maxIdeal / 100,
+  };
+}
+
+/**
+ * Run every engine on the baseline and the adjusted minerals
+ *
+ * @param baseline - The client's real mineral values (mg%)
+ * @param adjusted - The same panel with practitioner adjustments (mg%)
+ * @param rangeVersion - Reference range version for oxidation thresholds
+ */
+export function simulateWhatIf(
+  baseline: MineralData,
+  adjusted: MineralData,
+  rangeVersion: ReferenceRangeVersion
+): WhatIfSimulation {
+  const baselineScore = calculateHealthScore(baseline);
+  const projectedScore = calculateHealthScore(adjusted);
+
+  const baselineRatios = calculateAllRatios(toMeasuredSymbolValues(baseline));
+  const projectedRatios = calculateAllRatios(toMeasuredSymbolValues(adjusted));
+
+  const baselineOxidation = classifyMinerals(baseline, rangeVersion);
+  const projectedOxidation = classifyMinerals(adjusted, rangeVersion);
+
+  const scoreDelta = explainScoreDelta(
+    toDeltaSnapshot(baseline, baselineScore, baselineRatios),
+    toDeltaSnapshot(adjusted, projectedScore, projectedRatios)
+  );
+
+  const adjustments: MineralAdjustment[] = MINERAL_NAMES.filter(
+    (name) => baseline[name] !== adjusted[name]
+  ).map((name) => ({
+    mineral: name,
+    symbol: MINERAL_SYMBOLS[name],
+    baseline: baseline[name],
+    adjusted: adjusted[name],
+  }));
+
+  const ratios: RatioProjection[] = projectedRatios.map((projected) => {
+    const base =
+      baselineRatios.find((r) => r.name === projected.name) ?? projected;
+    return {
+      name: projected.name,
+      baseline: base,
+      projected,
+      statusChanged: base.status !== projected.status,
+    };
+  });
+
+  return {
+    version: WHAT_IF_SIMULATOR_VERSION,
+    adjustments,
+    baselineScore,
+    projectedScore,
+    scoreChange: projectedScore.totalScore - baselineScore.totalScore,
+    baselineOxidation,
+    projectedOxidation,
+    oxidationChanged: baselineOxidation?.type !== projectedOxidation?.type,
+    ratios,
+    scoreDelta,
+    changedDrivers: scoreDelta.allDrivers.filter(
+      (d) => d.direction !== "unchanged"
+    ),
+  };
+}
+
+/**
+ * Plain-text summary of a simulation, used as the content of a saved
+ * scenario annotation
+ */
+export function formatWhatIfScenario(
+  simulation: WhatIfSimulation,
+  scenarioName?: string
+): string {
+  const lines: string[] = [
+    `What-if scenario${scenarioName ? `: ${scenarioName}` : ""} ` +
+      `(hypothetical, simulator v${simulation.version})`,
+    "",
+    "Adjustments:",
+    ...(simulation.adjustments.length > 0
+      ? simulation.adjustments.map(
+          (a) =>
+            `- ${a.symbol}: ${formatValue(a.baseline)} -> ${formatValue(
+              a.adjusted
+            )} mg%`
+        )
+      : ["- None"]),
+    "",
+    `Projected health score: ${simulation.baselineScore.totalScore} -> ${
+      simulation.projectedScore.totalScore
+    } (${simulation.scoreChange >= 0 ? "+" : ""}${simulation.scoreChange}), grade ${
+      simulation.projectedScore.grade
+    }`,
+    `Projected oxidation type: ${formatOxidation(
+      simulation.baselineOxidation
+    )} -> ${formatOxidation(simulation.projectedOxidation)}`,
+  ];
+
+  const changedRatios = simulation.ratios.filter((r) => r.statusChanged);
+  if (changedRatios.length > 0) {
+    lines.push("", "Ratio status changes:");
+    changedRatios.forEach((r) =>
+      lines.push(
+        `- ${r.name}: ${r.baseline.status} -> ${r.projected.status} (${r.projected.value.toFixed(
+          2
+        )}, ideal ${formatRatioIdealRange({
+          minIdeal: r.projected.idealMin,
+          maxIdeal: r.projected.idealMax,
+          minimumOnly: r.projected.minimumOnly,
+        })})`
+      )
+    );
+  }
+
+  if (simulation.changedDrivers.length > 0) {
+    lines.push("", "Drivers that changed:");
+    simulation.changedDrivers.forEach((d) =>
+      lines.push(`- ${d.key}: ${d.from} -> ${d.to} (${d.direction})`)
+    );
+  }
+
+  return lines.join("\n");
+}
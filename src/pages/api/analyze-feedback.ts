@@ -1,5 +1,13 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { admin } from "../../lib/firebaseAdmin";
+import {
+  AnalyzeFeedbackRequestSchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import {
+  redactFeedbackComments,
+  stripPHIPlaceholders,
+} from "../../lib/phiRedaction";
 
 interface FeedbackPattern {
   phrase: string;
@@ -27,22 +35,30 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const { userId, minNegativePercent = 30 } = req.body;
-
-  if (!userId) {
-    return res.status(400).json({ error: "Missing userId" });
+  const parsed = AnalyzeFeedbackRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: describeValidationError(parsed.error),
+    });
   }
 
+  const { minNegativePercent } = parsed.data;
+
   try {
     const db = admin.firestore();
 
     // Fetch all feedback
     const feedbackSnapshot = await db.collection("practitionerFeedback").get();
 
-    const allFeedback = feedbackSnapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    // Comments saved before redaction existed may still name clients
+    const { items: allFeedback, report: phiRedaction } =
+      redactFeedbackComments(
+        feedbackSnapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+        }))
+      );
 
     // Analyze patterns
     const patterns = analyzePatterns(allFeedback as any[]);
@@ -64,6 +80,7 @@ export default async function handler(
       issues,
       insights,
       versionComparison,
+      phiRedaction,
       summary: {
         totalIssues: issues.length,
         highSeverityIssues: issues.filter((i) => i.severity === "high").length,
@@ -146,7 +163,7 @@ function extractKeywords(text: string): string[] {
     "be",
   ]);
 
-  const words = text
+  const words = stripPHIPlaceholders(text)
     .toLowerCase()
     .replace(/[^\w\s]/g, " ")
     .split(/\s+/)
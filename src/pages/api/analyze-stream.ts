@@ -0,0 +1,243 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { generateHTMAPrompt } from "../../lib/htmaPrompt";
+import {
+  AnalyzeRequestSchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import { AI_RESPONSE_CONTRACT_VERSION } from "../../lib/aiResponseContract";
+import {
+  describeProviderAttempts,
+  resolveProviderChain,
+  streamWithFallback,
+} from "../../lib/aiProviders";
+import {
+  createPreviewSentenceGuard,
+  processAnalysisAnswer,
+  saveAnalysisResult,
+  toClientResponse,
+} from "../../lib/analysisPipeline";
+import {
+  cacheAnalysisResult,
+  findCachedAnalysis,
+} from "../../lib/analysisCache";
+import { loadActiveGuardrailsPolicy } from "../../lib/guardrailsPolicyStore";
+import { getActiveReferenceRangeVersion } from "../../lib/rangeVersionEngine";
+import {
+  AnalysisStreamEvent,
+  StreamedSentence,
+  createSentenceStream,
+  formatSSEEvent,
+} from "../../lib/analysisStream";
+
+/**
+ * HTMA Analysis API Endpoint (streaming)
+ *
+ * Same request and result as /api/analyze, delivered as server-sent events
+ * (analysisStream.ts) so the answer shows while it is being generated:
+ * - provider:  the provider being asked (one per configured provider tried)
+ * - sentence:  each completed sentence, after interpretation guardrails;
+ *              sentences the guardrails remove or that contradict the
+ *              engines' results are not sent
+ * - restart:   the provider failed mid-answer and the next one takes over
+ * - final:     the /api/analyze response body and the save status
+ * - error:     the analysis failed
+ *
+ * Streamed sentences are a preview: contract validation, the consistency
+ * check and statement-level guardrails need the whole answer, so the final
+ * event's text replaces them.
+ *
+ * A cache hit (analysisCache.ts) is sent as the final event right away;
+ * like /api/analyze, it is only saved if the user doesn't have it yet.
+ *
+ * When the client disconnects, the provider stream is aborted and nothing
+ * else runs: no contract retry, no cache write, no save.
+ *
+ * Validation errors (400/405) are plain JSON responses, sent before the
+ * stream starts.
+ */
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  console.log("=== /api/analyze-stream called ===");
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const parsed = AnalyzeRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: describeValidationError(parsed.error),
+    });
+  }
+
+  // mineralData is always mg%; inputUnit records what the user entered
+  const {
+    mineralData,
+    userId,
+    inputUnit,
+    forceRegenerate,
+    isPractitionerMode,
+  } = parsed.data;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  // The response's close event before end() means the client went away
+  // (the request's close event has already fired once the body was read)
+  const abort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      console.log("ℹ️ Client disconnected - aborting analysis stream");
+      abort.abort();
+    }
+  });
+
+  const send = (event: AnalysisStreamEvent) => {
+    if (abort.signal.aborted || res.writableEnded) return;
+    res.write(formatSSEEvent(event));
+  };
+
+  try {
+    const prompt = generateHTMAPrompt(mineralData);
+    const request = {
+      task: "htma_analysis" as const,
+      prompt,
+      payload: {
+        minerals: mineralData,
+        responseContractVersion: AI_RESPONSE_CONTRACT_VERSION,
+      },
+      mineralData,
+      rangeVersion: getActiveReferenceRangeVersion(),
+      signal: abort.signal,
+    };
+
+    let sentences = createSentenceStream();
+    const sendSentences = (completed: StreamedSentence[]) => {
+      completed.forEach((sentence) => {
+        const text = guardPreview(sentence.text);
+        if (text !== undefined) {
+          send({ type: "sentence", ...sentence, text });
+        }
+      });
+    };
+
+    const chain = resolveProviderChain("htma_analysis");
+    const guardrailsPolicy = await loadActiveGuardrailsPolicy();
+    const guardPreview = createPreviewSentenceGuard(
+      mineralData,
+      request.rangeVersion,
+      guardrailsPolicy
+    );
+    if (!forceRegenerate) {
+      const cached = await findCachedAnalysis(
+        chain,
+        mineralData,
+        guardrailsPolicy.version,
+        request.rangeVersion.version
+      );
+      if (cached) {
+        if (abort.signal.aborted) return;
+        const save = await saveAnalysisResult({
+          userId,
+          mineralData,
+          inputUnit,
+          rangeVersion: request.rangeVersion,
+          result: cached,
+        });
+        send({
+          type: "final",
+          result: toClientResponse(cached.response, isPractitionerMode),
+          save,
+        });
+        return res.end();
+      }
+    }
+
+    const generation = await streamWithFallback(chain, request, {
+      onStart(provider) {
+        send({
+          type: "provider",
+          provider: provider.id,
+          model: provider.model,
+        });
+      },
+      onChunk(chunk) {
+        sendSentences(sentences.push(chunk));
+      },
+      onRestart(attempt) {
+        sentences = createSentenceStream();
+        send({
+          type: "restart",
+          reason: `${attempt.provider} failed: ${attempt.error}`,
+        });
+      },
+    });
+    if (abort.signal.aborted) return;
+
+    if (!generation.success) {
+      console.error("❌ All AI providers failed:", generation.attempts);
+      send({
+        type: "error",
+        message: "No AI provider could complete the analysis",
+        details: describeProviderAttempts(generation.attempts),
+      });
+      return res.end();
+    }
+    sendSentences(sentences.end());
+
+    const processed = await processAnalysisAnswer(
+      generation.body,
+      generation.provider,
+      generation.metadata,
+      request,
+      guardrailsPolicy
+    );
+    if (abort.signal.aborted) return;
+    if (!processed.success) {
+      send({
+        type: "error",
+        message: "AI provider returned no usable content",
+        details: processed.errors,
+      });
+      return res.end();
+    }
+    const result = await cacheAnalysisResult(
+      processed,
+      mineralData,
+      forceRegenerate
+    );
+    if (abort.signal.aborted) return;
+
+    const save = await saveAnalysisResult({
+      userId,
+      mineralData,
+      inputUnit,
+      rangeVersion: request.rangeVersion,
+      result,
+    });
+    send({
+      type: "final",
+      result: toClientResponse(result.response, isPractitionerMode),
+      save,
+    });
+    return res.end();
+  } catch (error) {
+    if (abort.signal.aborted) return;
+    console.error("❌ Error streaming HTMA analysis:", error);
+
+    send({
+      type: "error",
+      message: "Analyze stream failed",
+      details: [error instanceof Error ? error.message : "Unknown error"],
+    });
+    return res.end();
+  }
+}
@@ -1,6 +1,11 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { admin } from "../../lib/firebaseAdmin";
-import { INTERPRETATION_GUARDRAILS_VERSION } from "../../lib/interpretationGuardrails";
+import {
+  GenerateSuggestionsRequestSchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import { loadActiveGuardrailsPolicy } from "../../lib/guardrailsPolicyStore";
+import { redactFeedbackComments } from "../../lib/phiRedaction";
 
 interface GuardrailsSuggestion {
   id: string;
@@ -22,12 +27,16 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const { userId } = req.body;
-
-  if (!userId) {
-    return res.status(400).json({ error: "Missing userId" });
+  const parsed = GenerateSuggestionsRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Missing userId",
+      details: describeValidationError(parsed.error),
+    });
   }
 
+  const { userId } = parsed.data;
+
   try {
     const db = admin.firestore();
 
@@ -37,21 +46,33 @@ export default async function handler(
       .where("sentiment", "==", "negative")
       .get();
 
-    const negativeFeedback = feedbackSnapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    // Redact before relatedComments are copied into guardrailsSuggestions
+    const { items: negativeFeedback, report: phiRedaction } =
+      redactFeedbackComments(
+        feedbackSnapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+        }))
+      );
 
-    // Generate suggestions based on feedback patterns
-    const suggestions = generateSuggestions(negativeFeedback as any[]);
+    // Generate suggestions based on feedback patterns; the Firestore
+    // document id becomes the suggestion id so it can be accepted later
+    const suggestions = generateSuggestions(negativeFeedback as any[]).map(
+      (suggestion) => ({
+        ...suggestion,
+        id: db.collection("guardrailsSuggestions").doc().id,
+      })
+    );
+    const { version: currentGuardrailsVersion } =
+      await loadActiveGuardrailsPolicy();
 
     // Save suggestions to Firestore for tracking
     const batch = db.batch();
     suggestions.forEach((suggestion) => {
-      const docRef = db.collection("guardrailsSuggestions").doc();
+      const docRef = db.collection("guardrailsSuggestions").doc(suggestion.id);
       batch.set(docRef, {
         ...suggestion,
-        currentGuardrailsVersion: INTERPRETATION_GUARDRAILS_VERSION,
+        currentGuardrailsVersion,
         status: "pending",
         createdAt: admin.firestore.FieldValue.serverTimestamp(),
         createdBy: userId,
@@ -61,6 +82,7 @@ export default async function handler(
 
     return res.status(200).json({
       suggestions,
+      phiRedaction,
       summary: {
         total: suggestions.length,
         critical: suggestions.filter((s) => s.priority === "critical").length,
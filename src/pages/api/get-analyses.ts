@@ -1,5 +1,10 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { admin } from "../../lib/firebaseAdmin";
+import { readMineralData } from "../../lib/mineralModel";
+import {
+  GetAnalysesQuerySchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,12 +14,16 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const { userId } = req.query;
-
-  if (!userId || typeof userId !== "string") {
-    return res.status(400).json({ error: "User ID is required" });
+  const parsed = GetAnalysesQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "User ID is required",
+      details: describeValidationError(parsed.error),
+    });
   }
 
+  const { userId } = parsed.data;
+
   try {
     const db = admin.firestore();
 
@@ -26,9 +35,12 @@ export default async function handler(
       .limit(20)
       .get();
 
+    // Older documents stored minerals as strings; always return the typed
+    // model (numbers in mg%, null = not measured)
     const analyses = snapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
+      mineralData: readMineralData(doc.data().mineralData),
       createdAt: doc.data().createdAt?.toDate().toISOString(),
     }));
 
@@ -1,5 +1,9 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { admin } from "../../lib/firebaseAdmin";
+import {
+  GetFeedbackQuerySchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,12 +13,16 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const { userId, startDate, endDate, context } = req.query;
-
-  if (!userId) {
-    return res.status(400).json({ error: "Missing userId" });
+  const parsed = GetFeedbackQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: describeValidationError(parsed.error),
+    });
   }
 
+  const { startDate, endDate, context } = parsed.data;
+
   try {
     const db = admin.firestore();
 
@@ -29,14 +37,14 @@ export default async function handler(
       query = query.where(
         "metadata.timestamp",
         ">=",
-        new Date(startDate as string).toISOString()
+        new Date(startDate).toISOString()
       );
     }
     if (endDate) {
       query = query.where(
         "metadata.timestamp",
         "<=",
-        new Date(endDate as string).toISOString()
+        new Date(endDate).toISOString()
       );
     }
 
@@ -0,0 +1,64 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import {
+  GetGuardrailsPoliciesQuerySchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import {
+  BUILT_IN_GUARDRAILS_POLICY,
+  GuardrailsPolicy,
+} from "../../lib/interpretationGuardrails";
+import {
+  StoredGuardrailsPolicy,
+  toGuardrailsPolicy,
+} from "../../lib/guardrailsPolicy";
+import {
+  listStoredGuardrailsPolicies,
+  policyStateRef,
+  readPolicyState,
+} from "../../lib/guardrailsPolicyStore";
+
+/**
+ * Guardrails policies for the review page: the stored versions (newest
+ * first), the one that is active and the built-in lists drafts can start
+ * from when none is active
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const parsed = GetGuardrailsPoliciesQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "User ID is required",
+      details: describeValidationError(parsed.error),
+    });
+  }
+
+  try {
+    const state = readPolicyState((await policyStateRef().get()).data());
+    const versions = await listStoredGuardrailsPolicies();
+
+    const activeStored: StoredGuardrailsPolicy | null =
+      versions.find((policy) => policy.number === state.activeNumber) ?? null;
+    const active: GuardrailsPolicy = activeStored
+      ? toGuardrailsPolicy(activeStored)
+      : BUILT_IN_GUARDRAILS_POLICY;
+
+    return res.status(200).json({
+      activeNumber: activeStored ? activeStored.number : 0,
+      active,
+      builtIn: BUILT_IN_GUARDRAILS_POLICY,
+      versions,
+    });
+  } catch (error) {
+    console.error("Error fetching guardrails policies:", error);
+    return res.status(500).json({
+      error: "Failed to fetch guardrails policies",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { admin } from "../../lib/firebaseAdmin";
+import {
+  GetPractitionerRulesQuerySchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import { PractitionerRuleSet } from "../../lib/practitionerRuleEngine";
+
+/**
+ * Current pattern rule set for a practitioner plus the version history
+ *
+ * Storage: practitionerRuleSets/{userId} holds latestVersion; every saved
+ * version is an immutable document in its versions subcollection.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const parsed = GetPractitionerRulesQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "User ID is required",
+      details: describeValidationError(parsed.error),
+    });
+  }
+
+  const { userId } = parsed.data;
+
+  try {
+    const db = admin.firestore();
+
+    const snapshot = await db
+      .collection("practitionerRuleSets")
+      .doc(userId)
+      .collection("versions")
+      .orderBy("version", "desc")
+      .limit(20)
+      .get();
+
+    const versions = snapshot.docs.map(
+      (doc) => doc.data() as PractitionerRuleSet
+    );
+
+    // Newest first; the first entry is the version that gets evaluated
+    return res.status(200).json({
+      current: versions[0] ?? null,
+      versions,
+    });
+  } catch (error) {
+    console.error("Error fetching practitioner rules:", error);
+    return res.status(500).json({
+      error: "Failed to fetch practitioner rules",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
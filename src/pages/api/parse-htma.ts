@@ -1,7 +1,22 @@
 import { NextApiRequest, NextApiResponse } from "next";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+import pdfParse from "pdf-parse";
+import {
+  parseLabReportPages,
+  normalizeAIExtraction,
+  toMineralNameMap,
+  compactElements,
+  ParsedLabReport,
+} from "../../lib/labReportParser";
+import {
+  ParseHTMARequestSchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import {
+  AIGenerationMetadata,
+  describeProviderAttempts,
+  generateWithFallback,
+  resolveProviderChain,
+} from "../../lib/aiProviders";
 
 export const config = {
   api: {
@@ -11,6 +26,115 @@ export const config = {
   },
 };
 
+const AI_EXTRACTION_PROMPT = `Extract all element values from this HTMA (hair tissue mineral analysis) report.
+Return ONLY valid JSON with this format (values exactly as printed, use null when an element is not on the report):
+{
+  "labName": string,
+  "unit": "mg%" | "ppm" | "µg/g" | "mg/kg",
+  "testDate": "YYYY-MM-DD" | null,
+  "accessionNumber": string | null,
+  "minerals": { "calcium": number, "magnesium": number, "sodium": number, "potassium": number, "phosphorus": number, "copper": number, "zinc": number, "iron": number, "manganese": number, "chromium": number, "selenium": number, "boron": number, "cobalt": number, "molybdenum": number, "sulfur": number },
+  "toxicElements": { "Sb": number, "As": number, "Hg": number, "Be": number, "Cd": number, "Pb": number, "Al": number },
+  "additionalElements": { "Ge": number, "Ba": number, "Bi": number, "Rb": number, "Li": number, "Ni": number, "Pt": number, "Ti": number, "V": number, "Sr": number, "Sn": number, "W": number, "Zr": number }
+}`;
+
+/**
+ * The pdf.js page pdf-parse passes to pagerender (the parts used here;
+ * @types/pdf-parse leaves it untyped)
+ */
+interface PdfPageProxy {
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{ items: ReadonlyArray<PdfTextItem> }>;
+}
+
+/** One text run; transform[5] is its baseline y coordinate */
+interface PdfTextItem {
+  str: string;
+  transform: ReadonlyArray<number>;
+}
+
+/**
+ * Extract the PDF text layer, one string per page, so each extracted value
+ * can be traced back to its page. Text items on the same baseline are joined
+ * with a space so table rows stay readable ("Ca 42.0", not "Ca42.0").
+ *
+ * Returns an empty array for scanned/image-only PDFs or files pdf-parse
+ * cannot read, so the AI fallback can take over.
+ */
+async function extractPdfPages(buffer: Buffer): Promise<string[]> {
+  const pages: string[] = [];
+
+  try {
+    await pdfParse(buffer, {
+      pagerender: async (pageData: PdfPageProxy) => {
+        const content = await pageData.getTextContent({
+          normalizeWhitespace: false,
+          disableCombineTextItems: false,
+        });
+
+        let lastY: number | undefined;
+        let text = "";
+        for (const item of content.items) {
+          const y = item.transform[5];
+          if (lastY === undefined) text += item.str;
+          else if (y === lastY) text += " " + item.str;
+          else text += "\n" + item.str;
+          lastY = y;
+        }
+
+        pages.push(text);
+        return text;
+      },
+    });
+    return pages;
+  } catch (error) {
+    console.warn("⚠️ PDF text layer extraction failed:", error);
+    return [];
+  }
+}
+
+/**
+ * AI fallback - only used when no known lab layout matches. Runs through
+ * the lab_extraction provider chain (AI_EXTRACTION_PROVIDER_CHAIN).
+ */
+async function extractWithAI(
+  file: string
+): Promise<{ report: ParsedLabReport; aiMetadata: AIGenerationMetadata }> {
+  const generation = await generateWithFallback(
+    resolveProviderChain("lab_extraction"),
+    {
+      task: "lab_extraction",
+      prompt: AI_EXTRACTION_PROMPT,
+      attachment: { mimeType: "application/pdf", data: file },
+    }
+  );
+
+  if (!generation.success) {
+    throw new Error(
+      `AI extraction failed: ${describeProviderAttempts(
+        generation.attempts
+      ).join("; ")}`
+    );
+  }
+
+  console.log(
+    `🤖 ${generation.metadata.provider} response:`,
+    generation.body
+  );
+
+  const body =
+    typeof generation.body === "string"
+      ? JSON.parse(generation.body.replace(/```json|```/g, "").trim())
+      : generation.body;
+
+  return {
+    report: normalizeAIExtraction(body),
+    aiMetadata: generation.metadata,
+  };
+}
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -18,40 +142,57 @@ export default async function handler(
   if (req.method !== "POST") return res.status(405).send("Method Not Allowed");
 
   try {
-    const { file } = req.body;
-
-    if (!file || typeof file !== "string") {
-      return res.status(400).json({ error: "No valid file data received" });
+    const parsed = ParseHTMARequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "No valid file data received",
+        details: describeValidationError(parsed.error),
+      });
     }
 
+    const { file } = parsed.data;
+
     console.log("📦 Received base64 length:", file.length);
-    console.log("📦 First 50 chars:", file.substring(0, 50));
 
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+    const pages = await extractPdfPages(Buffer.from(file, "base64"));
+    let report = parseLabReportPages(pages);
+    let aiMetadata: AIGenerationMetadata | undefined;
 
-    const result = await model.generateContent([
-      {
-        inlineData: {
-          mimeType: "application/pdf",
-          data: file,
-        },
-      },
-      {
-        text: 'Extract all mineral values from this HTMA report. Return ONLY valid JSON with format: { "minerals": { "calcium": number, "magnesium": number, "sodium": number, "potassium": number } }',
-      },
-    ]);
-
-    const text = result.response.text();
-    console.log("🤖 Gemini response:", text);
+    if (report) {
+      console.log(
+        `✅ Parsed ${report.lab} layout deterministically (${report.missing.length} elements not found)`
+      );
+    } else {
+      console.log("🔁 No known lab layout matched, falling back to AI");
+      ({ report, aiMetadata } = await extractWithAI(file));
+    }
 
-    // Clean up markdown if present
-    const cleanJson = text.replace(/```json|```/g, "").trim();
+    const minerals = toMineralNameMap(report);
 
-    res.status(200).json(JSON.parse(cleanJson));
-  } catch (error: any) {
-    console.error("Gemini Direct Error:", error);
+    res.status(200).json({
+      success: true,
+      minerals,
+      count: Object.keys(minerals).length,
+      source: report.lab || "AI",
+      labName: report.labName,
+      method: report.method,
+      parserVersion: report.parserVersion,
+      sourceUnit: report.sourceUnit,
+      toxicElements: compactElements(report.toxicElements),
+      additionalElements: compactElements(report.additionalElements),
+      testDate: report.testDate,
+      accessionNumber: report.accessionNumber,
+      missing: report.missing,
+      fields: report.fields,
+      aiMetadata,
+    });
+  } catch (error) {
+    console.error("HTMA parse error:", error);
     res.status(500).json({
-      error: error.message || "Internal Server Error",
+      error:
+        error instanceof Error && error.message
+          ? error.message
+          : "Internal Server Error",
     });
   }
 }
@@ -0,0 +1,92 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { admin } from "../../lib/firebaseAdmin";
+import {
+  PreviewGuardrailsPolicyRequestSchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import { readMineralData } from "../../lib/mineralModel";
+import { createAnalysisGuardrailsContext } from "../../lib/analysisPipeline";
+import {
+  GuardrailsPolicySample,
+  previewGuardrailsPolicy,
+  toGuardrailsPolicy,
+} from "../../lib/guardrailsPolicy";
+import {
+  loadActiveGuardrailsPolicy,
+  loadStoredGuardrailsPolicy,
+} from "../../lib/guardrailsPolicyStore";
+
+/** Recent analyses a preview replays */
+const PREVIEW_ANALYSES = 20;
+
+/**
+ * Preview a guardrails policy against the active one
+ *
+ * Replays the unguarded AI statements of the reviewer's recent analyses
+ * (users/{userId}/analyses, aiUnguarded) through both policies. Analyses
+ * saved before unguarded statements were stored are skipped.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const parsed = PreviewGuardrailsPolicyRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: describeValidationError(parsed.error),
+    });
+  }
+
+  const { userId, number } = parsed.data;
+
+  try {
+    const candidate = await loadStoredGuardrailsPolicy(number);
+    if (!candidate) {
+      return res.status(404).json({
+        error: "Guardrails policy not found",
+        details: [`No guardrails policy ${number}`],
+      });
+    }
+
+    const snapshot = await admin
+      .firestore()
+      .collection("users")
+      .doc(userId)
+      .collection("analyses")
+      .orderBy("createdAt", "desc")
+      .limit(PREVIEW_ANALYSES)
+      .get();
+
+    const samples: GuardrailsPolicySample[] = snapshot.docs.flatMap((doc) => {
+      const data = doc.data();
+      if (!data.aiUnguarded) return [];
+      return [
+        {
+          analysisId: doc.id,
+          insights: data.aiUnguarded.insights ?? [],
+          recommendations: data.aiUnguarded.recommendations ?? [],
+          ctx: createAnalysisGuardrailsContext(readMineralData(data.minerals)),
+        },
+      ];
+    });
+
+    const preview = previewGuardrailsPolicy(
+      samples,
+      await loadActiveGuardrailsPolicy(),
+      toGuardrailsPolicy(candidate)
+    );
+
+    return res.status(200).json({ preview });
+  } catch (error) {
+    console.error("Error previewing guardrails policy:", error);
+    return res.status(500).json({
+      error: "Failed to preview guardrails policy",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
@@ -1,12 +1,25 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { admin } from "../../lib/firebaseAdmin";
 import { calculateHealthScore } from "../../lib/healthScore";
+import {
+  calculateHealthScoreV2,
+  compareHealthScoresV2,
+  HealthScoreV2Delta,
+} from "../../lib/healthScoreV2";
 import {
   createAuditEvent,
   serializeAuditEvent,
   logAuditEvent,
 } from "../../lib/auditEvent";
 import { explainScoreDelta } from "../../lib/scoreDeltaExplainer";
+import {
+  readMineralData,
+  toMeasuredSymbolValues,
+} from "../../lib/mineralModel";
+import {
+  SaveAnalysisRequestSchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
 import { v4 as uuidv4 } from "uuid";
 
 export default async function handler(
@@ -17,28 +30,32 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const {
-    userId,
-    mineralData,
-    insights,
-    isPractitionerMode = false,
-  } = req.body;
-
-  if (!userId || !mineralData || !insights) {
-    return res.status(400).json({ error: "Missing required fields" });
+  const parsed = SaveAnalysisRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: describeValidationError(parsed.error),
+    });
   }
 
+  // mineralData is always mg% (null = not measured); inputUnit records what
+  // the user entered
+  const { userId, mineralData, insights, isPractitionerMode, inputUnit } =
+    parsed.data;
+
   try {
     const db = admin.firestore();
 
     // Generate unique report ID for this analysis
     const reportId = uuidv4();
 
-    // Calculate health score
+    // Calculate health score (v1) and the graded-deviation score (v2)
     const healthScore = calculateHealthScore(mineralData);
+    const healthScoreV2 = calculateHealthScoreV2(mineralData);
 
     // Fetch most recent previous analysis for delta computation
     let scoreDelta = null;
+    let scoreDeltaV2: HealthScoreV2Delta | null = null;
     try {
       const previousAnalyses = await db
         .collection("analyses")
@@ -52,8 +69,11 @@ export default async function handler(
         const previousData = previousDoc.data();
 
         // Prepare previous analysis shape for delta explainer
+        // (older documents stored minerals as strings)
         const previousAnalysis = {
-          minerals: previousData.mineralData,
+          minerals: toMeasuredSymbolValues(
+            readMineralData(previousData.mineralData)
+          ),
           ratios: {}, // TODO: Extract ratios if available
           score: previousData.healthScore?.totalScore || 0,
           flags: previousData.healthScore?.criticalIssues || [],
@@ -61,7 +81,7 @@ export default async function handler(
 
         // Prepare current analysis shape
         const currentAnalysis = {
-          minerals: mineralData,
+          minerals: toMeasuredSymbolValues(mineralData),
           ratios: {}, // TODO: Extract ratios if available
           score: healthScore.totalScore,
           flags: healthScore.criticalIssues || [],
@@ -69,6 +89,16 @@ export default async function handler(
 
         // Compute delta explanation
         scoreDelta = explainScoreDelta(previousAnalysis, currentAnalysis);
+
+        // v2 delta: use the stored v2 score when it was produced by the same
+        // semantics, otherwise re-grade the previous minerals
+        const previousScoreV2 =
+          previousData.healthScoreV2?.semanticsVersion ===
+          healthScoreV2.semanticsVersion
+            ? previousData.healthScoreV2.totalScore
+            : calculateHealthScoreV2(readMineralData(previousData.mineralData))
+                .totalScore;
+        scoreDeltaV2 = compareHealthScoresV2(previousScoreV2, healthScoreV2);
       }
     } catch (deltaError) {
       console.warn("Failed to compute score delta:", deltaError);
@@ -79,12 +109,14 @@ export default async function handler(
     const auditEvent = createAuditEvent({
       eventType: "ANALYSIS_CREATED",
       reportId,
-      isPractitionerMode: Boolean(isPractitionerMode),
+      isPractitionerMode,
       userId,
       metadata: {
-        mineralCount: Object.keys(mineralData).length,
+        mineralCount: Object.keys(toMeasuredSymbolValues(mineralData)).length,
         healthScore: healthScore.totalScore,
+        healthScoreV2: healthScoreV2.totalScore,
         grade: healthScore.grade,
+        inputUnit,
       },
     });
 
@@ -96,9 +128,11 @@ export default async function handler(
       reportId, // Unique identifier for audit trail
       userId,
       mineralData,
+      inputUnit,
       insights,
       isPractitionerMode,
       healthScore: {
+        semanticsVersion: healthScore.semanticsVersion,
         totalScore: healthScore.totalScore,
         mineralScore: healthScore.mineralScore,
         ratioScore: healthScore.ratioScore,
@@ -106,8 +140,11 @@ export default async function handler(
         grade: healthScore.grade,
         statusCounts: healthScore.statusCounts,
         criticalIssues: healthScore.criticalIssues,
+        completeness: healthScore.completeness,
       },
+      healthScoreV2, // Graded-deviation score, stored alongside v1
       scoreDelta: scoreDelta, // Immutable delta explanation
+      scoreDeltaV2, // v2 score change (semantics version included)
       auditEvent: serializeAuditEvent(auditEvent), // Store audit metadata
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
     });
@@ -117,6 +154,7 @@ export default async function handler(
       analysisId: analysisRef.id,
       reportId, // Return reportId for client-side reference
       healthScore,
+      healthScoreV2,
       message: "Analysis saved successfully",
     });
   } catch (error) {
@@ -0,0 +1,107 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { admin } from "../../lib/firebaseAdmin";
+import { getVerifiedUserId } from "../../lib/apiAuth";
+import {
+  SaveGuardrailsPolicyRequestSchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import { StoredGuardrailsPolicy } from "../../lib/guardrailsPolicy";
+import {
+  policyStateRef,
+  policyVersionRef,
+  readPolicyState,
+} from "../../lib/guardrailsPolicyStore";
+
+/**
+ * Save guardrails lists as a new draft policy
+ *
+ * The author (createdBy) is the user of the request's Firebase ID token,
+ * since approval rules depend on who drafted a policy. Answers 401 without
+ * a valid token.
+ *
+ * When the draft accepts a suggestion, the guardrailsSuggestions document
+ * is marked accepted with the draft's number in the same transaction.
+ * Answers 404 when the suggestion doesn't exist.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const userId = await getVerifiedUserId(req);
+  if (!userId) {
+    return res.status(401).json({
+      error: "Sign in again to save guardrails policies",
+      details: ["Missing or invalid Firebase ID token"],
+    });
+  }
+
+  const parsed = SaveGuardrailsPolicyRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: describeValidationError(parsed.error),
+    });
+  }
+
+  const { rules, changeNote, basedOn, suggestionId } = parsed.data;
+
+  try {
+    const db = admin.firestore();
+    const stateRef = policyStateRef();
+    const suggestionRef = suggestionId
+      ? db.collection("guardrailsSuggestions").doc(suggestionId)
+      : null;
+
+    const policy = await db.runTransaction(async (transaction) => {
+      const state = readPolicyState((await transaction.get(stateRef)).data());
+      if (suggestionRef && !(await transaction.get(suggestionRef)).exists) {
+        return null;
+      }
+
+      const draft: StoredGuardrailsPolicy = {
+        number: state.latestNumber + 1,
+        status: "draft",
+        rules,
+        basedOn,
+        createdAt: new Date().toISOString(),
+        createdBy: userId,
+        ...(changeNote ? { changeNote } : {}),
+        ...(suggestionId ? { suggestionId } : {}),
+      };
+
+      transaction.set(
+        stateRef,
+        { latestNumber: draft.number },
+        { merge: true }
+      );
+      transaction.set(policyVersionRef(draft.number), draft);
+      if (suggestionRef) {
+        transaction.update(suggestionRef, {
+          status: "accepted",
+          acceptedIntoPolicy: draft.number,
+        });
+      }
+
+      return draft;
+    });
+
+    if (!policy) {
+      return res.status(404).json({
+        error: "Suggestion not found",
+        details: [`No guardrails suggestion ${suggestionId}`],
+      });
+    }
+
+    return res.status(200).json({ success: true, policy });
+  } catch (error) {
+    console.error("Error saving guardrails policy:", error);
+    return res.status(500).json({
+      error: "Failed to save guardrails policy",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
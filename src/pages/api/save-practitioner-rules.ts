@@ -0,0 +1,87 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { admin } from "../../lib/firebaseAdmin";
+import {
+  SavePractitionerRulesRequestSchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import {
+  PractitionerRuleSet,
+  PRACTITIONER_RULE_ENGINE_VERSION,
+} from "../../lib/practitionerRuleEngine";
+
+/**
+ * Save a practitioner's pattern rules as a new immutable version
+ *
+ * Answers 409 when someone saved a newer version since the edit started
+ * (baseVersion is stale), so edits are never silently overwritten.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const parsed = SavePractitionerRulesRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: describeValidationError(parsed.error),
+    });
+  }
+
+  const { userId, rules, changeNote, baseVersion } = parsed.data;
+
+  try {
+    const db = admin.firestore();
+    const ruleSetRef = db.collection("practitionerRuleSets").doc(userId);
+
+    const ruleSet = await db.runTransaction(async (transaction) => {
+      const current = await transaction.get(ruleSetRef);
+      const latestVersion: number = current.exists
+        ? current.data()?.latestVersion ?? 0
+        : 0;
+
+      if (latestVersion !== baseVersion) {
+        return null;
+      }
+
+      const next: PractitionerRuleSet = {
+        practitionerId: userId,
+        version: latestVersion + 1,
+        rules,
+        createdAt: new Date().toISOString(),
+        engineVersion: PRACTITIONER_RULE_ENGINE_VERSION,
+        ...(changeNote ? { changeNote } : {}),
+      };
+
+      transaction.set(
+        ruleSetRef,
+        { practitionerId: userId, latestVersion: next.version },
+        { merge: true }
+      );
+      transaction.set(
+        ruleSetRef.collection("versions").doc(String(next.version)),
+        next
+      );
+
+      return next;
+    });
+
+    if (!ruleSet) {
+      return res.status(409).json({
+        error: "Rules were changed since you started editing",
+        details: ["Reload the latest version and apply your changes again"],
+      });
+    }
+
+    return res.status(200).json({ success: true, ruleSet });
+  } catch (error) {
+    console.error("Error saving practitioner rules:", error);
+    return res.status(500).json({
+      error: "Failed to save practitioner rules",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
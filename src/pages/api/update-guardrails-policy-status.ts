@@ -0,0 +1,143 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { admin } from "../../lib/firebaseAdmin";
+import { getVerifiedUserId } from "../../lib/apiAuth";
+import {
+  UpdateGuardrailsPolicyStatusRequestSchema,
+  describeValidationError,
+} from "../../lib/apiSchemas";
+import {
+  StoredGuardrailsPolicy,
+  canTransitionPolicy,
+  getPolicyActionDenial,
+  getPolicyApprovers,
+} from "../../lib/guardrailsPolicy";
+import {
+  clearActiveGuardrailsPolicyCache,
+  policyStateRef,
+  policyVersionRef,
+  readPolicyState,
+} from "../../lib/guardrailsPolicyStore";
+
+/**
+ * Move a guardrails policy through its lifecycle (guardrailsPolicy.ts)
+ * - approve:  draft → approved
+ * - activate: approved or retired → active; the active policy is retired
+ *
+ * Only approvers (GUARDRAILS_POLICY_APPROVERS) may act, and not on a
+ * policy they drafted; approvedBy, activatedBy and retiredBy record who
+ * did what. The acting user is the user of the request's Firebase ID
+ * token, never a body field.
+ *
+ * Answers 401 without a valid token, 403 when the user may not act on the
+ * policy, 404 for an unknown policy and 409 when its status doesn't allow
+ * the action (e.g. activating a draft that was never approved).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const userId = await getVerifiedUserId(req);
+  if (!userId) {
+    return res.status(401).json({
+      error: "Sign in again to review guardrails policies",
+      details: ["Missing or invalid Firebase ID token"],
+    });
+  }
+
+  const parsed = UpdateGuardrailsPolicyStatusRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: describeValidationError(parsed.error),
+    });
+  }
+
+  const { number, action } = parsed.data;
+
+  try {
+    const db = admin.firestore();
+    const stateRef = policyStateRef();
+    const policyRef = policyVersionRef(number);
+
+    const outcome = await db.runTransaction(async (transaction) => {
+      const state = readPolicyState((await transaction.get(stateRef)).data());
+      const doc = await transaction.get(policyRef);
+      if (!doc.exists) return { status: 404 as const };
+
+      const policy = doc.data() as StoredGuardrailsPolicy;
+      const denial = getPolicyActionDenial(
+        policy,
+        userId,
+        getPolicyApprovers()
+      );
+      if (denial) return { status: 403 as const, denial };
+      if (!canTransitionPolicy(policy.status, action)) {
+        return { status: 409 as const, current: policy.status };
+      }
+
+      const now = new Date().toISOString();
+      let updated: StoredGuardrailsPolicy;
+      if (action === "approve") {
+        updated = {
+          ...policy,
+          status: "approved",
+          approvedAt: now,
+          approvedBy: userId,
+        };
+      } else {
+        updated = {
+          ...policy,
+          status: "active",
+          activatedAt: now,
+          activatedBy: userId,
+        };
+        if (state.activeNumber > 0 && state.activeNumber !== number) {
+          transaction.update(policyVersionRef(state.activeNumber), {
+            status: "retired",
+            retiredAt: now,
+            retiredBy: userId,
+          });
+        }
+        transaction.set(stateRef, { activeNumber: number }, { merge: true });
+      }
+
+      transaction.set(policyRef, updated);
+      return { status: 200 as const, policy: updated };
+    });
+
+    if (outcome.status === 403) {
+      console.warn(`⚠️ Guardrails policy ${action} denied for ${userId}`);
+      return res.status(403).json({
+        error: `Not allowed to ${action} this policy`,
+        details: [outcome.denial],
+      });
+    }
+    if (outcome.status === 404) {
+      return res.status(404).json({
+        error: "Guardrails policy not found",
+        details: [`No guardrails policy ${number}`],
+      });
+    }
+    if (outcome.status === 409) {
+      return res.status(409).json({
+        error: `Cannot ${action} a ${outcome.current} policy`,
+        details: ["Reload the policies and try again"],
+      });
+    }
+
+    if (action === "activate") {
+      clearActiveGuardrailsPolicyCache();
+    }
+    return res.status(200).json({ success: true, policy: outcome.policy });
+  } catch (error) {
+    console.error("Error updating guardrails policy:", error);
+    return res.status(500).json({
+      error: "Failed to update guardrails policy",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
@@ -1,12 +1,15 @@
-import { useState, useEffect } from "react";
-import HTMAInputForm, { MineralData } from "../components/HTMAInputForm";
+import { useState, useEffect, useMemo } from "react";
+import HTMAInputForm from "../components/HTMAInputForm";
+import HTMAUploader from "../components/HTMAUploader";
 import MineralChart from "../components/MineralChart";
 import HTMAPatternGraph from "../components/HTMAPatternGraph";
 import AIInsights from "../components/AIInsights";
 import ChromeAIStatus from "../components/ChromeAIStatus";
 import AISourceBadge from "../components/AISourceBadge";
+import GuardrailDiffView from "../components/GuardrailDiffView";
 import PractitionerPanel from "../components/PractitionerPanel";
 import PractitionerAnnotationPanel from "../components/PractitionerAnnotationPanel";
+import WhatIfSimulatorPanel from "../components/WhatIfSimulatorPanel";
 import AnnotationFeedback from "../components/AnnotationFeedback";
 import PDFReportButton from "../components/PDFReportButton";
 import AuthModal from "../components/AuthModal";
@@ -28,22 +31,43 @@ import PractitionerOnboarding from "../components/PractitionerOnboarding";
 import { useAuth } from "../contexts/AuthContext";
 import { usePractitionerMode } from "../hooks/usePractitionerMode";
 import { useAIAnalysis } from "../hooks/useAIAnalysis";
+import { usePractitionerRules } from "../hooks/usePractitionerRules";
+import { useGuardrailsPolicies } from "../hooks/useGuardrailsPolicies";
 import { calculateHealthScore, HealthScoreBreakdown } from "../lib/healthScore";
 import {
-  classifyOxidation,
-  OxidationClassification,
-} from "../lib/oxidationClassification";
+  calculateHealthScoreV2,
+  HealthScoreV2Breakdown,
+  HealthScoreV2Delta,
+} from "../lib/healthScoreV2";
 import {
+  classifyOxidationWithEck,
+  EckOxidationClassification,
+} from "../lib/eckSubClassification";
+import { getActiveReferenceRangeVersion } from "../lib/rangeVersionEngine";
+import {
+  applyConsistencyPenalty,
   calculateConfidenceScore,
   ConfidenceScore,
 } from "../lib/aiConfidenceScoring";
 import {
-  MINERAL_REFERENCE_RANGES,
-  getMineralStatus,
-} from "../lib/htmaConstants";
-import { calculateAllRatios, MineralValues } from "../lib/ratioEngine";
-import { MineralSnapshot, RatioSnapshot } from "../lib/reportSnapshot";
+  ConsistencyReport,
+  buildConsistencyReference,
+  checkTextConsistency,
+} from "../lib/aiConsistencyChecker";
+import {
+  PractitionerRuleMatch,
+  buildRuleEvaluationInput,
+  evaluatePractitionerRules,
+} from "../lib/practitionerRuleEngine";
+import { MINERAL_REFERENCE_RANGES } from "../lib/htmaConstants";
+import { calculateAllRatios } from "../lib/ratioEngine";
+import { RatioSnapshot } from "../lib/reportSnapshot";
+import { createMineralSnapshots } from "../lib/createReportSnapshot";
 import { explainScoreChange, ScoreExplanation } from "../lib/scoreExplainer";
+import {
+  guardReportSections,
+  guardScoreExplanation,
+} from "../lib/contentSafety";
 import { ScoreDeltaExplanation } from "../lib/scoreDeltaExplainer";
 import {
   ChangeFocusSummary,
@@ -51,6 +75,21 @@ import {
 } from "../lib/changeCoachingEngine";
 import { TrendExplanation, analyzeTrends } from "../lib/trendExplainer";
 import { PractitionerAnnotation } from "../lib/reportSnapshot";
+import { addAnnotation } from "../lib/annotationEngine";
+import {
+  MineralUnit,
+  CANONICAL_UNIT,
+  fromCanonical,
+  normalizeUnit,
+} from "../lib/unitConversion";
+import {
+  MineralData,
+  readMineralData,
+  toMeasuredSymbolValues,
+  getOxidationMinerals,
+  getMineralValueBySymbol,
+  hasMineralValue,
+} from "../lib/mineralModel";
 import { toast } from "sonner";
 
 export default function Home() {
@@ -63,6 +102,11 @@ export default function Home() {
     autoDetect: true,
   });
   const [mineralData, setMineralData] = useState<MineralData | null>(null);
+  const [inputUnit, setInputUnit] = useState<MineralUnit>(CANONICAL_UNIT);
+  const [extractedValues, setExtractedValues] =
+    useState<Partial<MineralData> | null>(null);
+  const [extractedUnit, setExtractedUnit] =
+    useState<MineralUnit>(CANONICAL_UNIT);
   const [insights, setInsights] = useState<string>("");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [hasAnalyzed, setHasAnalyzed] = useState(false);
@@ -71,6 +115,8 @@ export default function Home() {
   const [healthScore, setHealthScore] = useState<HealthScoreBreakdown | null>(
     null
   );
+  const [healthScoreV2, setHealthScoreV2] =
+    useState<HealthScoreV2Breakdown | null>(null);
   const [savedAnalyses, setSavedAnalyses] = useState<any[]>([]);
   const [showComparison, setShowComparison] = useState(false);
   const [comparisonAnalyses, setComparisonAnalyses] = useState<
@@ -81,6 +127,9 @@ export default function Home() {
   const [scoreDelta, setScoreDelta] = useState<ScoreDeltaExplanation | null>(
     null
   );
+  const [scoreDeltaV2, setScoreDeltaV2] = useState<HealthScoreV2Delta | null>(
+    null
+  );
   const [focusSummary, setFocusSummary] = useState<ChangeFocusSummary | null>(
     null
   );
@@ -92,7 +141,7 @@ export default function Home() {
   );
   const [showPdfFeedback, setShowPdfFeedback] = useState(false);
   const [oxidationClassification, setOxidationClassification] =
-    useState<OxidationClassification | null>(null);
+    useState<EckOxidationClassification | null>(null);
   const [aiConfidence, setAiConfidence] = useState<ConfidenceScore | null>(
     null
   );
@@ -102,6 +151,46 @@ export default function Home() {
   const [practitionerAnnotations, setPractitionerAnnotations] = useState<
     ReadonlyArray<PractitionerAnnotation>
   >([]);
+  const [practitionerRuleMatches, setPractitionerRuleMatches] = useState<
+    ReadonlyArray<PractitionerRuleMatch>
+  >([]);
+  const [aiConsistency, setAiConsistency] =
+    useState<ConsistencyReport | null>(null);
+  const { current: practitionerRuleSet } = usePractitionerRules(
+    user?.uid,
+    isPractitionerMode
+  );
+  // Engine text is guarded with the active policy (built-in lists until
+  // it loads or when signed out)
+  const { active: activeGuardrailsPolicy } = useGuardrailsPolicies(user?.uid);
+  const guardrailsPolicy = activeGuardrailsPolicy ?? undefined;
+
+  // The engine panels render guarded copies; the PDF snapshot is guarded
+  // from the raw sections
+  const guardedPanels = useMemo(
+    () =>
+      guardReportSections(
+        {
+          scoreDelta: scoreDelta ?? undefined,
+          focusSummary: focusSummary ?? undefined,
+          trendAnalysis: trendAnalysis ?? undefined,
+          oxidationClassification: oxidationClassification ?? undefined,
+        },
+        {
+          audience: isPractitionerMode ? "practitioner" : "consumer",
+          channel: "ui",
+          policy: guardrailsPolicy,
+        }
+      ).sections,
+    [
+      scoreDelta,
+      focusSummary,
+      trendAnalysis,
+      oxidationClassification,
+      isPractitionerMode,
+      guardrailsPolicy,
+    ]
+  );
 
   // Compute trend analysis when savedAnalyses changes (3+ analyses required)
   useEffect(() => {
@@ -111,12 +200,15 @@ export default function Home() {
         const dataPoints = savedAnalyses.map((analysis) => ({
           date: analysis.createdAt || new Date().toISOString(),
           score: analysis.healthScore?.totalScore || 0,
-          minerals: analysis.mineralData || {},
+          minerals: toMeasuredSymbolValues(analysis.mineralData),
           ratios: {}, // Could extract from analysis if available
           flags: analysis.healthScore?.criticalIssues || [],
         }));
 
-        const trends = analyzeTrends(dataPoints);
+        const trends = analyzeTrends(
+          dataPoints,
+          getActiveReferenceRangeVersion()
+        );
         setTrendAnalysis(trends);
       } catch (error) {
         console.error("Failed to compute trend analysis:", error);
@@ -145,92 +237,60 @@ export default function Home() {
     }
   }, [isPractitionerMode]);
 
-  const handleAnalyze = async (data: MineralData) => {
+  const handleAnalyze = async (
+    data: MineralData,
+    unit: MineralUnit = CANONICAL_UNIT,
+    options: { forceRegenerate?: boolean } = {}
+  ) => {
     setIsAnalyzing(true);
     setMineralData(data);
+    setInputUnit(unit);
     setHasAnalyzed(false);
     setHealthScore(null);
+    setHealthScoreV2(null);
     setAiConfidence(null);
+    setPractitionerRuleMatches([]);
+    setAiConsistency(null);
 
     try {
       // Try Chrome AI analysis first - pass userId for auto-save
-      await aiAnalysis.analyze(data, user?.uid);
+      await aiAnalysis.analyze(data, user?.uid, unit, {
+        isPractitionerMode,
+        forceRegenerate: options.forceRegenerate,
+      });
 
       // Use Chrome AI insights if available, otherwise fall back to cloud API
       if (aiAnalysis.insights && !aiAnalysis.error) {
         setInsights(aiAnalysis.insights);
         setHasAnalyzed(true);
 
-        // Calculate health score
+        // Calculate health score (v1) and graded-deviation score (v2)
         const score = calculateHealthScore(data);
         setHealthScore(score);
+        setHealthScoreV2(calculateHealthScoreV2(data));
 
         // Calculate oxidation classification
         try {
-          const getValue = (val: string): number => parseFloat(val) || 0;
-          const ca = getValue(data.calcium);
-          const mg = getValue(data.magnesium);
-          const na = getValue(data.sodium);
-          const k = getValue(data.potassium);
+          const rangeVersion = getActiveReferenceRangeVersion();
 
-          // Classify oxidation type
+          // Classify oxidation type (skipped when Ca, Mg, Na or K is missing)
           let oxidation = null;
-          if (ca > 0 && mg > 0 && na > 0 && k > 0) {
-            oxidation = classifyOxidation({
-              Ca: ca,
-              Mg: mg,
-              Na: na,
-              K: k,
-            });
+          const oxidationMinerals = getOxidationMinerals(data);
+          if (oxidationMinerals) {
+            oxidation = classifyOxidationWithEck(
+              oxidationMinerals,
+              rangeVersion
+            );
             setOxidationClassification(oxidation);
           }
 
           // Calculate AI confidence score
           // Build minerals and ratios arrays for confidence calculation
-          const mineralValues = {
-            Ca: getValue(data.calcium),
-            Mg: getValue(data.magnesium),
-            Na: getValue(data.sodium),
-            K: getValue(data.potassium),
-            P: getValue(data.phosphorus),
-            Cu: getValue(data.copper),
-            Zn: getValue(data.zinc),
-            Fe: getValue(data.iron),
-            Mn: getValue(data.manganese),
-            Cr: getValue(data.chromium),
-            Se: getValue(data.selenium),
-            B: getValue(data.boron),
-            Co: getValue(data.cobalt),
-            Mo: getValue(data.molybdenum),
-            S: getValue(data.sulfur),
-          };
-
-          // Create mineral snapshots
-          const minerals: MineralSnapshot[] = MINERAL_REFERENCE_RANGES.map(
-            (ref) => {
-              const value =
-                mineralValues[ref.symbol as keyof typeof mineralValues];
-              const status = getMineralStatus(
-                value,
-                ref.minIdeal,
-                ref.maxIdeal
-              );
-              return {
-                symbol: ref.symbol,
-                name: ref.name,
-                value,
-                unit: ref.unit,
-                minIdeal: ref.minIdeal,
-                maxIdeal: ref.maxIdeal,
-                status,
-              };
-            }
-          );
+          // Create mineral snapshots (missing minerals are "Not measured")
+          const minerals = createMineralSnapshots(data);
 
           // Create ratio snapshots
-          const ratioResults = calculateAllRatios(
-            mineralValues as MineralValues
-          );
+          const ratioResults = calculateAllRatios(toMeasuredSymbolValues(data));
           const ratios: RatioSnapshot[] = ratioResults.map((ratioResult) => ({
             name: ratioResult.name,
             numerator: ratioResult.numerator,
@@ -240,13 +300,38 @@ export default function Home() {
             maxIdeal: ratioResult.idealMax,
             status: ratioResult.status,
             clinicalSignificance: ratioResult.interpretationKey,
+            role: ratioResult.role,
+            minimumOnly: ratioResult.minimumOnly,
           }));
 
+          // Run the practitioner's own pattern rules (practitioner mode only)
+          const ruleMatches =
+            isPractitionerMode && practitionerRuleSet
+              ? evaluatePractitionerRules(
+                  practitionerRuleSet,
+                  buildRuleEvaluationInput(data, undefined, oxidation?.type)
+                ).matches
+              : [];
+          setPractitionerRuleMatches(ruleMatches);
+
+          // Claims in the AI text that contradict the engines lower confidence
+          const consistency =
+            aiAnalysis.consistency ??
+            checkTextConsistency(
+              aiAnalysis.insights,
+              buildConsistencyReference(data, rangeVersion)
+            );
+          setAiConsistency(consistency);
+
           // Calculate confidence
-          const confidence = calculateConfidenceScore(
-            minerals,
-            ratios,
-            oxidation || undefined
+          const confidence = applyConsistencyPenalty(
+            calculateConfidenceScore(
+              minerals,
+              ratios,
+              oxidation || undefined,
+              ruleMatches
+            ),
+            consistency.conflicts
           );
           setAiConfidence(confidence);
         } catch (error) {
@@ -265,7 +350,13 @@ export default function Home() {
             },
             { mineralData: data, healthScore: score }
           );
-          setScoreExplanation(explanation);
+          setScoreExplanation(
+            guardScoreExplanation(explanation, {
+              audience: isPractitionerMode ? "practitioner" : "consumer",
+              channel: "ui",
+              policy: guardrailsPolicy,
+            }).explanation
+          );
         } else {
           setScoreExplanation(null);
         }
@@ -274,7 +365,7 @@ export default function Home() {
 
         // Auto-save if user is logged in
         if (user) {
-          await saveAnalysis(data, aiAnalysis.insights);
+          await saveAnalysis(data, aiAnalysis.insights, unit);
         }
       } else if (aiAnalysis.error) {
         toast.error(aiAnalysis.error || "Failed to analyze data");
@@ -305,7 +396,11 @@ export default function Home() {
     }
   };
 
-  const saveAnalysis = async (data: MineralData, insights: string) => {
+  const saveAnalysis = async (
+    data: MineralData,
+    insights: string,
+    unit: MineralUnit
+  ) => {
     if (!user) {
       console.warn("Cannot save analysis: User not authenticated");
       return;
@@ -322,6 +417,7 @@ export default function Home() {
         body: JSON.stringify({
           userId: user.uid,
           mineralData: data,
+          inputUnit: unit,
           insights,
           isPractitionerMode, // Include practitioner mode in audit trail
         }),
@@ -351,15 +447,21 @@ export default function Home() {
   };
 
   const handleLoadAnalysis = (analysis: any) => {
-    setMineralData(analysis.mineralData);
+    // Older documents stored minerals as strings
+    const loadedData = readMineralData(analysis.mineralData);
+    setMineralData(loadedData);
+    setInputUnit(normalizeUnit(analysis.inputUnit) || CANONICAL_UNIT);
     setInsights(analysis.insights);
     setHasAnalyzed(true);
     setCurrentAnalysisId(analysis.id);
 
-    // Calculate health score if not stored
-    const score =
-      analysis.healthScore || calculateHealthScore(analysis.mineralData);
+    // Calculate health scores if not stored
+    const score = analysis.healthScore || calculateHealthScore(loadedData);
     setHealthScore(score);
+    setHealthScoreV2(
+      analysis.healthScoreV2 || calculateHealthScoreV2(loadedData)
+    );
+    setScoreDeltaV2(analysis.scoreDeltaV2 || null);
 
     // Use stored scoreDelta if available (immutable from save time)
     if (analysis.scoreDelta) {
@@ -390,9 +492,15 @@ export default function Home() {
             mineralData: previousAnalysis.mineralData,
             healthScore: previousAnalysis.healthScore,
           },
-          { mineralData: analysis.mineralData, healthScore: score }
+          { mineralData: loadedData, healthScore: score }
+        );
+        setScoreExplanation(
+          guardScoreExplanation(explanation, {
+            audience: isPractitionerMode ? "practitioner" : "consumer",
+            channel: "ui",
+            policy: guardrailsPolicy,
+          }).explanation
         );
-        setScoreExplanation(explanation);
       } else {
         setScoreExplanation(null);
       }
@@ -411,12 +519,14 @@ export default function Home() {
       setInsights("");
       setHasAnalyzed(false);
       setHealthScore(null);
+      setHealthScoreV2(null);
       setSavedAnalyses([]);
       setShowSavedAnalyses(false);
       setShowComparison(false);
       setComparisonAnalyses(null);
       setScoreExplanation(null);
       setScoreDelta(null);
+      setScoreDeltaV2(null);
       setFocusSummary(null);
       setTrendAnalysis(null);
       setCurrentAnalysisId(null);
@@ -509,6 +619,13 @@ export default function Home() {
               >
                 🧪 Validation
               </a>
+              <a
+                href="/practitioner/pattern-rules"
+                className="badge-link"
+                title="Practitioner Pattern Rules"
+              >
+                🧩 Rules
+              </a>
               <button
                 className="badge-close"
                 onClick={disablePractitionerMode}
@@ -563,11 +680,17 @@ export default function Home() {
                     {["Ca", "Mg", "Na", "K", "Fe", "Cu", "Zn", "P"].map(
                       (mineral) => {
                         const dataPoints = savedAnalyses
-                          .filter((a) => a.mineralData?.[mineral] !== undefined)
                           .map((a) => ({
                             date: a.createdAt,
-                            value: a.mineralData[mineral],
+                            value: getMineralValueBySymbol(
+                              a.mineralData,
+                              mineral
+                            ),
                           }))
+                          .filter(
+                            (p): p is { date: string; value: number } =>
+                              hasMineralValue(p.value)
+                          )
                           .sort(
                             (a, b) =>
                               new Date(a.date).getTime() -
@@ -626,16 +749,59 @@ export default function Home() {
           {/* Chrome AI Status & Preference Toggle */}
           <ChromeAIStatus onPreferenceChange={setPreferChromeAI} />
 
-          <HTMAInputForm onSubmit={handleAnalyze} isLoading={isAnalyzing} />
+          {/* PDF upload → practitioner review → prefilled form */}
+          <HTMAUploader
+            onExtractedData={(minerals, extraction) => {
+              // Prefill in the lab's own unit so the entered unit is preserved
+              const unit = extraction?.sourceUnit || CANONICAL_UNIT;
+              setExtractedUnit(unit);
+              setExtractedValues(
+                Object.fromEntries(
+                  Object.entries(minerals).map(([name, value]) => [
+                    name,
+                    fromCanonical(value, unit),
+                  ])
+                ) as Partial<MineralData>
+              );
+            }}
+          />
+
+          <HTMAInputForm
+            onSubmit={handleAnalyze}
+            isLoading={isAnalyzing}
+            initialValues={extractedValues}
+            initialUnit={extractedUnit}
+          />
 
           {(mineralData || isAnalyzing) && (
             <div className="results-section">
               {/* AI Source Badge */}
               {hasAnalyzed && aiAnalysis.metadata && (
-                <AISourceBadge
-                  usingChromeAI={aiAnalysis.usingChromeAI}
-                  model={aiAnalysis.metadata.model}
-                />
+                <div className="ai-source-row">
+                  <AISourceBadge
+                    usingChromeAI={aiAnalysis.usingChromeAI}
+                    model={aiAnalysis.metadata.model}
+                    source={aiAnalysis.metadata.source}
+                    cache={aiAnalysis.metadata.cache}
+                  />
+                  {/* Cached results can be replaced by a fresh AI answer */}
+                  {isPractitionerMode &&
+                    mineralData &&
+                    !aiAnalysis.usingChromeAI && (
+                      <button
+                        className="regenerate-button"
+                        onClick={() =>
+                          handleAnalyze(mineralData, inputUnit, {
+                            forceRegenerate: true,
+                          })
+                        }
+                        disabled={isAnalyzing}
+                        title="Skip the analysis cache and ask the AI again"
+                      >
+                        🔄 Regenerate
+                      </button>
+                    )}
+                </div>
               )}
 
               {/* HTMA Pattern Graph - Visual representation */}
@@ -645,11 +811,7 @@ export default function Home() {
                     key: ref.symbol.toLowerCase(),
                     name: ref.name,
                     value:
-                      parseFloat(
-                        mineralData[
-                          ref.symbol.toLowerCase() as keyof MineralData
-                        ] || "0"
-                      ) || 0,
+                      getMineralValueBySymbol(mineralData, ref.symbol) ?? 0,
                     minOptimal: ref.minIdeal,
                     maxOptimal: ref.maxIdeal,
                   }))}
@@ -670,11 +832,23 @@ export default function Home() {
                 />
               )}
 
+              {isPractitionerMode &&
+                hasAnalyzed &&
+                !aiAnalysis.isLoading &&
+                aiAnalysis.guardrailTransformations && (
+                  <GuardrailDiffView
+                    transformations={aiAnalysis.guardrailTransformations}
+                  />
+                )}
+
               {/* Health Score Card */}
               {healthScore && hasAnalyzed && (
                 <>
                   <div className="health-score-container">
-                    <HealthScoreCard scoreData={healthScore} />
+                    <HealthScoreCard
+                      scoreData={healthScore}
+                      gradedScore={healthScoreV2}
+                    />
                   </div>
                   {isPractitionerMode && currentAnalysisId && (
                     <PractitionerFeedbackInline
@@ -686,10 +860,10 @@ export default function Home() {
               )}
 
               {/* Oxidation Type Classification */}
-              {oxidationClassification && hasAnalyzed && (
+              {guardedPanels.oxidationClassification && hasAnalyzed && (
                 <>
                   <OxidationTypeCard
-                    classification={oxidationClassification}
+                    classification={guardedPanels.oxidationClassification}
                     isPractitioner={isPractitionerMode}
                   />
                   {isPractitionerMode && currentAnalysisId && (
@@ -702,10 +876,11 @@ export default function Home() {
               )}
 
               {/* Why This Changed Panel - New deterministic delta explainer */}
-              {scoreDelta && hasAnalyzed && (
+              {guardedPanels.scoreDelta && hasAnalyzed && (
                 <>
                   <WhyThisChangedPanel
-                    delta={scoreDelta}
+                    delta={guardedPanels.scoreDelta}
+                    scoreDeltaV2={scoreDeltaV2}
                     isPractitionerMode={isPractitionerMode}
                   />
                   {isPractitionerMode && currentAnalysisId && (
@@ -718,10 +893,10 @@ export default function Home() {
               )}
 
               {/* Focus Summary Panel - Guardrail-safe coaching */}
-              {focusSummary && hasAnalyzed && (
+              {guardedPanels.focusSummary && hasAnalyzed && (
                 <>
                   <FocusSummaryPanel
-                    focusSummary={focusSummary}
+                    focusSummary={guardedPanels.focusSummary}
                     isPractitionerMode={isPractitionerMode}
                   />
                   {isPractitionerMode && currentAnalysisId && (
@@ -734,9 +909,9 @@ export default function Home() {
               )}
 
               {/* Trend Analysis Panel - Shows patterns across 3+ analyses */}
-              {trendAnalysis && hasAnalyzed && (
+              {guardedPanels.trendAnalysis && hasAnalyzed && (
                 <TrendPanel
-                  trendAnalysis={trendAnalysis}
+                  trendAnalysis={guardedPanels.trendAnalysis}
                   isPractitionerMode={isPractitionerMode}
                 />
               )}
@@ -754,8 +929,26 @@ export default function Home() {
                   <PractitionerPanel
                     mineralData={mineralData}
                     insights={insights}
+                    ruleMatches={practitionerRuleMatches}
+                    consistency={aiConsistency ?? undefined}
                   />
 
+                  {/* What-If Simulator - scenarios saved as practitioner-only annotations */}
+                  {user && (
+                    <WhatIfSimulatorPanel
+                      baseline={mineralData}
+                      practitionerId={user.uid}
+                      practitionerName={
+                        user.displayName || user.email || "Practitioner"
+                      }
+                      onSaveScenario={(annotation) =>
+                        setPractitionerAnnotations((prev) =>
+                          addAnnotation(prev, annotation)
+                        )
+                      }
+                    />
+                  )}
+
                   {/* Practitioner Annotation Panel */}
                   {user && (
                     <PractitionerAnnotationPanel
@@ -775,6 +968,7 @@ export default function Home() {
                 <>
                   <PDFReportButton
                     mineralData={mineralData}
+                    inputUnit={inputUnit}
                     insights={insights}
                     isPractitionerMode={isPractitionerMode}
                     healthScore={healthScore}
@@ -784,6 +978,8 @@ export default function Home() {
                     oxidationClassification={oxidationClassification}
                     currentAnalysisId={currentAnalysisId}
                     practitionerAnnotations={practitionerAnnotations}
+                    practitionerRuleMatches={practitionerRuleMatches}
+                    guardrailsPolicy={guardrailsPolicy}
                     onPdfGenerated={() => setShowPdfFeedback(true)}
                   />
                   {isPractitionerMode &&
@@ -988,6 +1184,29 @@ export default function Home() {
           background: rgba(255, 255, 255, 0.3);
         }
 
+        .ai-source-row {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: flex-start;
+          gap: 0.75rem;
+        }
+
+        .regenerate-button {
+          background: white;
+          color: #667eea;
+          border: 1.5px solid #667eea;
+          padding: 0.5rem 0.875rem;
+          border-radius: 8px;
+          cursor: pointer;
+          font-size: 0.75rem;
+          font-weight: 600;
+        }
+
+        .regenerate-button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
         .badge-close {
           background: rgba(255, 255, 255, 0.2);
           color: white;
@@ -1,7 +1,14 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "../../contexts/AuthContext";
 import { usePractitionerMode } from "../../hooks/usePractitionerMode";
 import { useRouter } from "next/router";
+import GuardrailsPolicyPanel, {
+  PolicySuggestion,
+} from "../../components/GuardrailsPolicyPanel";
+import {
+  PHIRedactionReport,
+  describePHIRedaction,
+} from "../../lib/phiRedaction";
 
 interface GuardrailsIssue {
   context: string;
@@ -48,8 +55,26 @@ export default function GuardrailsReview() {
     VersionComparison[]
   >([]);
   const [activeTab, setActiveTab] = useState<
-    "issues" | "suggestions" | "versions"
+    "issues" | "suggestions" | "versions" | "policies"
   >("issues");
+  const [pendingSuggestion, setPendingSuggestion] =
+    useState<PolicySuggestion | null>(null);
+  // Identifiers redacted from feedback comments by the last API call
+  const [phiRedaction, setPHIRedaction] = useState<PHIRedactionReport | null>(
+    null
+  );
+  const redactionNotice = phiRedaction
+    ? describePHIRedaction(phiRedaction)
+    : null;
+
+  const acceptSuggestion = (suggestion: Suggestion) => {
+    setPendingSuggestion(suggestion);
+    setActiveTab("policies");
+  };
+  const clearPendingSuggestion = useCallback(
+    () => setPendingSuggestion(null),
+    []
+  );
 
   useEffect(() => {
     if (!isPractitionerMode) {
@@ -72,6 +97,7 @@ export default function GuardrailsReview() {
       if (response.ok) {
         setIssues(data.issues || []);
         setVersionComparisons(data.versionComparison?.comparisons || []);
+        setPHIRedaction(data.phiRedaction || null);
       }
     } catch (error) {
       console.error("Failed to analyze feedback:", error);
@@ -94,6 +120,7 @@ export default function GuardrailsReview() {
       const data = await response.json();
       if (response.ok) {
         setSuggestions(data.suggestions || []);
+        setPHIRedaction(data.phiRedaction || null);
         setActiveTab("suggestions");
       }
     } catch (error) {
@@ -152,12 +179,21 @@ export default function GuardrailsReview() {
           >
             💡 Generate Suggestions
           </button>
+          <a href="/practitioner/guardrails-validation" className="back-link">
+            🧪 Regression Corpus
+          </a>
           <a href="/practitioner/feedback-dashboard" className="back-link">
             ← Back to Dashboard
           </a>
         </div>
       </div>
 
+      {redactionNotice && (
+        <div className="redaction-notice">
+          🔒 {redactionNotice} in feedback comments before analysis
+        </div>
+      )}
+
       <div className="tabs">
         <button
           className={`tab ${activeTab === "issues" ? "active" : ""}`}
@@ -177,6 +213,12 @@ export default function GuardrailsReview() {
         >
           📊 Version Tracking ({versionComparisons.length})
         </button>
+        <button
+          className={`tab ${activeTab === "policies" ? "active" : ""}`}
+          onClick={() => setActiveTab("policies")}
+        >
+          📜 Policies
+        </button>
       </div>
 
       {loading ? (
@@ -329,6 +371,13 @@ export default function GuardrailsReview() {
                             </ul>
                           </details>
                         )}
+
+                        <button
+                          className="accept-btn"
+                          onClick={() => acceptSuggestion(suggestion)}
+                        >
+                          ✅ Accept into Draft Policy
+                        </button>
                       </div>
                     </div>
                   ))}
@@ -337,6 +386,17 @@ export default function GuardrailsReview() {
             </div>
           )}
 
+          {/* Policies Tab */}
+          {activeTab === "policies" && (
+            <div className="tab-content">
+              <GuardrailsPolicyPanel
+                userId={user?.uid}
+                pendingSuggestion={pendingSuggestion}
+                onSuggestionHandled={clearPendingSuggestion}
+              />
+            </div>
+          )}
+
           {/* Versions Tab */}
           {activeTab === "versions" && (
             <div className="tab-content">
@@ -484,6 +544,16 @@ export default function GuardrailsReview() {
           background: #e5e7eb;
         }
 
+        .redaction-notice {
+          margin-bottom: 1rem;
+          padding: 0.75rem 1rem;
+          background: #fffbeb;
+          border: 1px solid #fde68a;
+          border-radius: 8px;
+          color: #92400e;
+          font-size: 0.875rem;
+        }
+
         .tabs {
           display: flex;
           gap: 0.5rem;
@@ -736,6 +806,21 @@ export default function GuardrailsReview() {
           margin-top: 1rem;
         }
 
+        .accept-btn {
+          margin-top: 1rem;
+          padding: 0.625rem 1.25rem;
+          border: none;
+          border-radius: 8px;
+          font-weight: 600;
+          cursor: pointer;
+          background: #10b981;
+          color: white;
+        }
+
+        .accept-btn:hover {
+          background: #059669;
+        }
+
         .related-comments summary {
           cursor: pointer;
           color: #667eea;
@@ -0,0 +1,36 @@
+/**
+ * Guardrails Validation Page
+ *
+ * Practitioner-only regression test suite
+ * Route: /practitioner/guardrails-validation
+ */
+
+import React from "react";
+import Head from "next/head";
+import GuardrailsValidation from "../../components/GuardrailsValidation";
+
+export default function GuardrailsValidationPage() {
+  return (
+    <>
+      <Head>
+        <title>Guardrails Validation | HTMA Genius (Practitioner)</title>
+        <meta
+          name="description"
+          content="Regression test suite for the interpretation guardrails policy"
+        />
+      </Head>
+
+      <div className="validation-page">
+        <GuardrailsValidation />
+      </div>
+
+      <style jsx>{`
+        .validation-page {
+          min-height: 100vh;
+          background: #f9fafb;
+          padding: 2rem 0;
+        }
+      `}</style>
+    </>
+  );
+}
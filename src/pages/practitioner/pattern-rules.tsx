@@ -0,0 +1,661 @@
+import { useState, useEffect } from "react";
+import { useRouter } from "next/router";
+import { v4 as uuidv4 } from "uuid";
+import { toast } from "sonner";
+import { useAuth } from "../../contexts/AuthContext";
+import { usePractitionerMode } from "../../hooks/usePractitionerMode";
+import { usePractitionerRules } from "../../hooks/usePractitionerRules";
+import {
+  PractitionerRule,
+  PractitionerRuleSchema,
+  PractitionerRuleSet,
+  MAX_RULES_PER_SET,
+  evaluatePractitionerRules,
+  formatRuleCondition,
+  parseRuleConditions,
+} from "../../lib/practitionerRuleEngine";
+import { OxidationType } from "../../lib/oxidationClassification";
+
+interface RuleForm {
+  id: string | null; // null = new rule
+  name: string;
+  patternLabel: string;
+  conditionsText: string;
+  note: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  id: null,
+  name: "",
+  patternLabel: "",
+  conditionsText: "",
+  note: "",
+};
+
+/**
+ * Parse "Ca=120, Mg=12, Pb=0.4" into symbol values for the rule tester
+ */
+function parseTestValues(text: string): Record<string, number> {
+  const values: Record<string, number> = {};
+  text.split(/[,\n]/).forEach((pair) => {
+    const [symbol, raw] = pair.split("=").map((part) => part.trim());
+    const value = Number(raw);
+    if (symbol && raw && Number.isFinite(value)) values[symbol] = value;
+  });
+  return values;
+}
+
+export default function PatternRules() {
+  const { user } = useAuth();
+  const { isPractitionerMode } = usePractitionerMode();
+  const router = useRouter();
+  const { current, versions, isLoading, error, save } = usePractitionerRules(
+    user?.uid,
+    isPractitionerMode
+  );
+
+  const [draftRules, setDraftRules] = useState<PractitionerRule[]>([]);
+  const [draftBaseVersion, setDraftBaseVersion] = useState(0);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [changeNote, setChangeNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [testValues, setTestValues] = useState("Ca=120, Mg=12, Na=20, K=3");
+  const [testOxidation, setTestOxidation] = useState<OxidationType | "">("");
+
+  useEffect(() => {
+    if (!isPractitionerMode) {
+      router.push("/");
+    }
+  }, [isPractitionerMode, router]);
+
+  // Start editing from the newest saved version whenever it changes
+  useEffect(() => {
+    setDraftRules(current ? current.rules : []);
+    setDraftBaseVersion(current ? current.version : 0);
+  }, [current]);
+
+  const parsedConditions = parseRuleConditions(form.conditionsText);
+  const isDirty =
+    JSON.stringify(draftRules) !== JSON.stringify(current?.rules ?? []);
+
+  const testEvaluation = evaluatePractitionerRules(
+    { version: draftBaseVersion, rules: draftRules },
+    {
+      minerals: parseTestValues(testValues),
+      toxicElements: parseTestValues(testValues),
+      oxidationType: testOxidation || undefined,
+    }
+  );
+
+  const handleSubmitRule = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (parsedConditions.errors.length > 0) {
+      toast.error(parsedConditions.errors[0]);
+      return;
+    }
+
+    const existing = draftRules.find((r) => r.id === form.id);
+    const result = PractitionerRuleSchema.safeParse({
+      id: form.id ?? uuidv4(),
+      name: form.name,
+      patternLabel: form.patternLabel,
+      conditions: parsedConditions.conditions,
+      enabled: existing?.enabled ?? true,
+      note: form.note.trim() || undefined,
+    });
+
+    if (!result.success) {
+      toast.error(result.error.issues[0].message);
+      return;
+    }
+
+    if (existing) {
+      setDraftRules((prev) =>
+        prev.map((r) => (r.id === existing.id ? result.data : r))
+      );
+    } else {
+      if (draftRules.length >= MAX_RULES_PER_SET) {
+        toast.error(`A rule set can hold at most ${MAX_RULES_PER_SET} rules`);
+        return;
+      }
+      setDraftRules((prev) => [...prev, result.data]);
+    }
+    setForm(EMPTY_FORM);
+  };
+
+  const handleEditRule = (rule: PractitionerRule) => {
+    setForm({
+      id: rule.id,
+      name: rule.name,
+      patternLabel: rule.patternLabel,
+      conditionsText: rule.conditions.map(formatRuleCondition).join("\n"),
+      note: rule.note ?? "",
+    });
+  };
+
+  const handleToggleRule = (id: string) => {
+    setDraftRules((prev) =>
+      prev.map((r) => (r.id === id ? { ...r, enabled: !r.enabled } : r))
+    );
+  };
+
+  const handleDeleteRule = (id: string) => {
+    setDraftRules((prev) => prev.filter((r) => r.id !== id));
+    if (form.id === id) setForm(EMPTY_FORM);
+  };
+
+  const handleLoadVersion = (version: PractitionerRuleSet) => {
+    setDraftRules(version.rules);
+    setChangeNote(`Restore rules from v${version.version}`);
+    toast.info(
+      `Loaded v${version.version} into the editor - save to make it current`
+    );
+  };
+
+  const handleSaveVersion = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await save(draftRules, changeNote.trim());
+      setChangeNote("");
+      toast.success(`Saved rules as version ${saved.version}`);
+    } catch (saveError) {
+      toast.error(
+        saveError instanceof Error ? saveError.message : "Failed to save rules"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isPractitionerMode) {
+    return null;
+  }
+
+  return (
+    <div className="pattern-rules">
+      <div className="rules-header">
+        <h1>🧩 Pattern Rules</h1>
+        <p className="subtitle">
+          Your clinic&apos;s rules of thumb. Every enabled rule runs on each
+          analysis; matches appear as practitioner-only evidence.
+        </p>
+        <div className="header-meta">
+          <span className="version-badge">
+            {current ? `Active: v${current.version}` : "No saved rules yet"}
+          </span>
+          <a href="/" className="back-link">
+            ← Back to Analysis
+          </a>
+        </div>
+        {!user && (
+          <p className="warning">Sign in to load and save your rules.</p>
+        )}
+        {error && <p className="warning">{error}</p>}
+      </div>
+
+      <div className="rules-layout">
+        <div className="rules-column">
+          <section className="card">
+            <h2>{form.id ? "Edit Rule" : "New Rule"}</h2>
+            <form onSubmit={handleSubmitRule} className="rule-form">
+              <label>
+                Rule name
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Calcium shell (clinic)"
+                />
+              </label>
+              <label>
+                Pattern shown when matched
+                <input
+                  type="text"
+                  value={form.patternLabel}
+                  onChange={(e) =>
+                    setForm({ ...form, patternLabel: e.target.value })
+                  }
+                  placeholder="Calcium shell pattern"
+                />
+              </label>
+              <label>
+                Conditions (one per line, all must hold)
+                <textarea
+                  rows={4}
+                  value={form.conditionsText}
+                  onChange={(e) =>
+                    setForm({ ...form, conditionsText: e.target.value })
+                  }
+                  placeholder={"Ca > 100\nMg > 10\nK < 4\noxidation is slow"}
+                />
+              </label>
+              {parsedConditions.errors.length > 0 && (
+                <ul className="parse-errors">
+                  {parsedConditions.errors.map((message, i) => (
+                    <li key={i}>{message}</li>
+                  ))}
+                </ul>
+              )}
+              <p className="hint">
+                Minerals (Ca &gt; 100), ratios (Ca/Mg &lt; 4), toxic elements
+                (Pb &gt;= 0.5) and oxidation (oxidation is slow or mixed).
+                Values in mg%.
+              </p>
+              <label>
+                Note (optional)
+                <input
+                  type="text"
+                  value={form.note}
+                  onChange={(e) => setForm({ ...form, note: e.target.value })}
+                />
+              </label>
+              <div className="form-actions">
+                <button type="submit" className="primary-btn">
+                  {form.id ? "Update Rule" : "Add Rule"}
+                </button>
+                {form.id && (
+                  <button
+                    type="button"
+                    className="secondary-btn"
+                    onClick={() => setForm(EMPTY_FORM)}
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </form>
+          </section>
+
+          <section className="card">
+            <h2>Try Rules</h2>
+            <label>
+              Test values (mg%)
+              <input
+                type="text"
+                value={testValues}
+                onChange={(e) => setTestValues(e.target.value)}
+              />
+            </label>
+            <label>
+              Oxidation type
+              <select
+                value={testOxidation}
+                onChange={(e) =>
+                  setTestOxidation(e.target.value as OxidationType | "")
+                }
+              >
+                <option value="">Not classified</option>
+                <option value="fast">Fast</option>
+                <option value="slow">Slow</option>
+                <option value="mixed">Mixed</option>
+                <option value="balanced">Balanced</option>
+              </select>
+            </label>
+            {testEvaluation.matches.length === 0 ? (
+              <p className="hint">
+                No enabled rule matches these values (
+                {testEvaluation.evaluatedRuleCount} evaluated).
+              </p>
+            ) : (
+              <ul className="match-list">
+                {testEvaluation.matches.map((match) => (
+                  <li key={match.ruleId}>
+                    <strong>{match.patternLabel}</strong>
+                    <span>{match.evidence.join(" · ")}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <div className="rules-column">
+          <section className="card">
+            <h2>
+              Rules ({draftRules.length}){isDirty && " · unsaved changes"}
+            </h2>
+            {isLoading ? (
+              <p className="hint">Loading rules...</p>
+            ) : draftRules.length === 0 ? (
+              <p className="hint">No rules yet. Add one to get started.</p>
+            ) : (
+              <div className="rule-list">
+                {draftRules.map((rule) => (
+                  <div
+                    key={rule.id}
+                    className={`rule-card ${rule.enabled ? "" : "disabled"}`}
+                  >
+                    <div className="rule-header">
+                      <strong>{rule.name}</strong>
+                      <span className="pattern-label">
+                        → {rule.patternLabel}
+                      </span>
+                    </div>
+                    <ul className="condition-list">
+                      {rule.conditions.map((condition, i) => (
+                        <li key={i}>{formatRuleCondition(condition)}</li>
+                      ))}
+                    </ul>
+                    {rule.note && <p className="hint">{rule.note}</p>}
+                    <div className="rule-actions">
+                      <button onClick={() => handleToggleRule(rule.id)}>
+                        {rule.enabled ? "Disable" : "Enable"}
+                      </button>
+                      <button onClick={() => handleEditRule(rule)}>Edit</button>
+                      <button
+                        className="danger"
+                        onClick={() => handleDeleteRule(rule.id)}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="save-bar">
+              <input
+                type="text"
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                placeholder="What changed in this version? (optional)"
+              />
+              <button
+                className="primary-btn"
+                onClick={handleSaveVersion}
+                disabled={!user || !isDirty || isSaving}
+              >
+                {isSaving
+                  ? "Saving..."
+                  : `Save as v${(current?.version ?? 0) + 1}`}
+              </button>
+            </div>
+          </section>
+
+          <section className="card">
+            <h2>Version History</h2>
+            {versions.length === 0 ? (
+              <p className="hint">No saved versions.</p>
+            ) : (
+              <ul className="version-list">
+                {versions.map((version) => (
+                  <li key={version.version}>
+                    <div>
+                      <strong>v{version.version}</strong>{" "}
+                      <span className="hint">
+                        {new Date(version.createdAt).toLocaleString()} ·{" "}
+                        {version.rules.length} rules
+                      </span>
+                      {version.changeNote && (
+                        <div className="hint">{version.changeNote}</div>
+                      )}
+                    </div>
+                    {version.version !== current?.version && (
+                      <button onClick={() => handleLoadVersion(version)}>
+                        Load
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .pattern-rules {
+          max-width: 1400px;
+          margin: 0 auto;
+          padding: 2rem;
+        }
+
+        .rules-header {
+          margin-bottom: 2rem;
+        }
+
+        .rules-header h1 {
+          margin: 0 0 0.5rem 0;
+          font-size: 2rem;
+          color: #1f2937;
+        }
+
+        .subtitle {
+          color: #6b7280;
+          margin: 0 0 1rem 0;
+        }
+
+        .header-meta {
+          display: flex;
+          gap: 1rem;
+          align-items: center;
+          flex-wrap: wrap;
+        }
+
+        .version-badge {
+          padding: 0.25rem 0.75rem;
+          background: #eef2ff;
+          color: #4338ca;
+          border-radius: 20px;
+          font-size: 0.85rem;
+          font-weight: 600;
+        }
+
+        .back-link {
+          color: #667eea;
+          text-decoration: none;
+          font-weight: 600;
+        }
+
+        .warning {
+          color: #b45309;
+          margin: 0.75rem 0 0 0;
+        }
+
+        .rules-layout {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(420px, 1fr));
+          gap: 1.5rem;
+        }
+
+        .rules-column {
+          display: flex;
+          flex-direction: column;
+          gap: 1.5rem;
+        }
+
+        .card {
+          background: white;
+          border: 1px solid #e5e7eb;
+          border-radius: 12px;
+          padding: 1.5rem;
+        }
+
+        .card h2 {
+          margin: 0 0 1rem 0;
+          font-size: 1.25rem;
+          color: #1f2937;
+        }
+
+        .rule-form {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+
+        label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          font-size: 0.85rem;
+          font-weight: 600;
+          color: #374151;
+          margin-bottom: 0.75rem;
+        }
+
+        input,
+        textarea,
+        select {
+          padding: 0.5rem 0.75rem;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          font-size: 0.95rem;
+          font-family: inherit;
+        }
+
+        textarea {
+          font-family: monospace;
+        }
+
+        .hint {
+          margin: 0;
+          font-size: 0.8rem;
+          color: #6b7280;
+        }
+
+        .parse-errors {
+          margin: 0;
+          padding-left: 1.25rem;
+          color: #dc2626;
+          font-size: 0.85rem;
+        }
+
+        .form-actions,
+        .rule-actions {
+          display: flex;
+          gap: 0.5rem;
+        }
+
+        .primary-btn {
+          padding: 0.6rem 1.25rem;
+          border: none;
+          border-radius: 8px;
+          background: #667eea;
+          color: white;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .primary-btn:hover:not(:disabled) {
+          background: #5568d3;
+        }
+
+        .primary-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .secondary-btn,
+        .rule-actions button,
+        .version-list button {
+          padding: 0.4rem 0.9rem;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          background: white;
+          color: #374151;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .rule-actions .danger {
+          color: #dc2626;
+          border-color: #fecaca;
+        }
+
+        .rule-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+
+        .rule-card {
+          padding: 0.75rem 1rem;
+          background: #f8fafc;
+          border-left: 3px solid #667eea;
+          border-radius: 6px;
+        }
+
+        .rule-card.disabled {
+          opacity: 0.55;
+          border-left-color: #cbd5e1;
+        }
+
+        .rule-header {
+          display: flex;
+          gap: 0.5rem;
+          flex-wrap: wrap;
+          color: #1f2937;
+        }
+
+        .pattern-label {
+          color: #4338ca;
+        }
+
+        .condition-list {
+          margin: 0.5rem 0;
+          padding-left: 1.25rem;
+          font-family: monospace;
+          font-size: 0.85rem;
+          color: #475569;
+        }
+
+        .save-bar {
+          display: flex;
+          gap: 0.75rem;
+          margin-top: 1.25rem;
+          padding-top: 1rem;
+          border-top: 1px solid #e5e7eb;
+        }
+
+        .save-bar input {
+          flex: 1;
+        }
+
+        .match-list,
+        .version-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+
+        .match-list li {
+          display: flex;
+          flex-direction: column;
+          padding: 0.5rem 0.75rem;
+          background: #ecfdf5;
+          border-radius: 6px;
+          font-size: 0.9rem;
+          color: #065f46;
+        }
+
+        .version-list li {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 1rem;
+          padding: 0.5rem 0;
+          border-bottom: 1px solid #f1f5f9;
+        }
+
+        .version-list li:last-child {
+          border-bottom: none;
+        }
+
+        @media (max-width: 640px) {
+          .pattern-rules {
+            padding: 1rem;
+          }
+
+          .rules-layout {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}